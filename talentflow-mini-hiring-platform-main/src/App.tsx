@@ -1,11 +1,13 @@
 import React, { useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { QueryClient, QueryClientProvider } from 'react-query';
+import { QueryClientProvider } from 'react-query';
 import { motion } from 'framer-motion';
 import Jobs from './pages/Jobs';
 import JobDetailProfessional from './pages/JobDetailProfessional';
 import Candidates from './pages/Candidates';
 import CandidateProfileProfessional from './pages/CandidateProfileProfessional';
+import CandidateDuplicates from './pages/CandidateDuplicates';
+import JobTrash from './pages/JobTrash';
 import Assessments from './pages/Assessments';
 import HRDashboard from './pages/HRDashboard';
 import CandidateDashboard from './pages/CandidateDashboard';
@@ -18,34 +20,39 @@ import TakeAssessment from './pages/TakeAssessment';
 import JobDetailForCandidate from './pages/JobDetailForCandidate';
 import OfflineIndicator from './components/OfflineIndicator';
 import CandidateKanbanSimple from './components/CandidateKanbanSimple';
+import InterviewCalendar from './pages/InterviewCalendar';
 import FeatureChecker from './components/FeatureChecker';
 import ToastProvider from './components/ui/ToastProvider';
 import { useAuth, useTheme } from './store';
 import { initializeDatabase } from './services/database';
 import { initializeUserDatabase } from './services/userDatabase';
+import { isStaffRole } from './utils/permissions';
+import { queryClient } from './hooks/queryClient';
 import './styles/globals.css';
 
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      retry: 2,
-      staleTime: 5 * 60 * 1000, // 5 minutes
-      cacheTime: 10 * 60 * 1000, // 10 minutes
-    },
-  },
-});
-
 const App: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, restoringSession, restoreSession, logout } = useAuth();
   const { theme } = useTheme();
 
+  useEffect(() => {
+    // Only trust a stored session once the server side has validated it
+    initializeUserDatabase().then(restoreSession);
+  }, [restoreSession]);
+
   useEffect(() => {
     initializeDatabase();
-    initializeUserDatabase();
     // Apply theme on mount
     document.documentElement.classList.toggle('dark', theme === 'dark');
   }, [theme]);
 
+  if (restoringSession) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
   if (!user.role) {
     return (
       <QueryClientProvider client={queryClient}>
@@ -70,16 +77,19 @@ const App: React.FC = () => {
               className="pb-8"
             >
               <Routes>
-                {user.role === 'HR' ? (
+                {isStaffRole(user.role) ? (
                   <>
                     <Route path="/" element={<HRDashboard />} />
+                    <Route path="/jobs/trash" element={<JobTrash />} />
                     <Route path="/jobs/:jobId" element={<JobDetailProfessional />} />
                     <Route path="/jobs" element={<Jobs />} />
                     <Route path="/candidates/board" element={<CandidateKanbanSimple />} />
+                    <Route path="/candidates/duplicates" element={<CandidateDuplicates />} />
                     <Route path="/candidates/:id" element={<CandidateProfileProfessional />} />
                     <Route path="/candidates" element={<Candidates />} />
                     <Route path="/assessments" element={<Assessments />} />
                     <Route path="/assessments/create" element={<Assessments />} />
+                    <Route path="/interviews" element={<InterviewCalendar />} />
                     <Route path="/feature-check" element={<FeatureChecker />} />
                     <Route path="*" element={<Navigate to="/" replace />} />
                   </>
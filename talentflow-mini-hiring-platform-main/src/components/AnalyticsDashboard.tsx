@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import {
   ChartBarIcon,
@@ -8,8 +8,9 @@ import {
   ArrowTrendingUpIcon,
   ArrowTrendingDownIcon
 } from '@heroicons/react/24/outline';
-import { Job, Candidate } from '../types';
-import { apiCall } from '../utils/apiUtils';
+import { useJobs, usePipelines } from '../hooks/useJobs';
+import { useCandidates } from '../hooks/useCandidates';
+import { DEFAULT_PIPELINE, DEFAULT_PIPELINE_ID, STAGE_COLOR_CLASSES, getActiveStages, getOutcomeStage, resolvePipeline } from '../utils/pipelineUtils';
 import Card from './ui/Card';
 import {
   PieChart,
@@ -25,45 +26,40 @@ const COLORS = ["#8884d8", "#82ca9d", "#ffc658", "#ff7f50", "#8dd1e1", "#a4de6c"
 
 
 const AnalyticsDashboard: React.FC = () => {
-  const [jobs, setJobs] = useState<Job[]>([]);
-  const [candidates, setCandidates] = useState<Candidate[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [selectedPipelineId, setSelectedPipelineId] = useState<string>(DEFAULT_PIPELINE_ID);
+  // Same queries as the HR dashboard, so both read one cached copy
+  const jobsQuery = useJobs({ page: 1, pageSize: 1000 });
+  const candidatesQuery = useCandidates({ page: 1, pageSize: 2000 });
+  const pipelinesQuery = usePipelines();
 
-  useEffect(() => {
-    loadAnalyticsData();
-  }, []);
+  const jobs = useMemo(() => jobsQuery.data?.data || [], [jobsQuery.data]);
+  const candidates = useMemo(() => candidatesQuery.data?.data || [], [candidatesQuery.data]);
+  const pipelines = useMemo(() => pipelinesQuery.data?.data || [], [pipelinesQuery.data]);
+  const loading = jobsQuery.isLoading || candidatesQuery.isLoading || pipelinesQuery.isLoading;
 
-  const loadAnalyticsData = async () => {
-    try {
-      setLoading(true);
-      
-      const [jobsResponse, candidatesResponse] = await Promise.all([
-        apiCall('/api/jobs?page=1&pageSize=1000'),
-        apiCall('/api/candidates?page=1&pageSize=2000')
-      ]);
-
-      if (jobsResponse.ok) {
-        const jobsData = await jobsResponse.json();
-        setJobs(jobsData.data || []);
-      }
-
-      if (candidatesResponse.ok) {
-        const candidatesData = await candidatesResponse.json();
-        setCandidates(candidatesData.data || []);
-      }
-    } catch (error) {
-      console.error('Error loading analytics data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const selectedPipeline = pipelines.find(p => p.id === selectedPipelineId) || DEFAULT_PIPELINE;
 
   const analytics = useMemo(() => {
-    const activeJobs = jobs.filter(job => job.status === 'active');
+    const activeJobs = jobs.filter(job => job.status === 'open');
     const totalApplications = candidates.length;
-    
+    const jobsById = new Map(jobs.map(job => [job.id, job]));
+
+    // Stage ids differ between pipelines, so hires are counted by outcome
+    const hiredCandidates = candidates.filter(candidate => {
+      const pipeline = resolvePipeline(jobsById.get(candidate.jobId), pipelines);
+      return getOutcomeStage(pipeline, 'hired')?.id === candidate.stage;
+    });
+    const avgDaysToHire = Math.round(hiredCandidates.reduce((sum, candidate) => {
+      return sum + (Date.now() - new Date(candidate.appliedAt).getTime()) / (1000 * 60 * 60 * 24);
+    }, 0) / hiredCandidates.length || 0);
+
+    // The funnel only covers jobs that run the selected pipeline
+    const pipelineCandidates = candidates.filter(candidate =>
+      resolvePipeline(jobsById.get(candidate.jobId), pipelines).id === selectedPipeline.id
+    );
+
     // Candidates by stage
-    const candidatesByStage = candidates.reduce((acc, candidate) => {
+    const candidatesByStage = pipelineCandidates.reduce((acc, candidate) => {
       acc[candidate.stage] = (acc[candidate.stage] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
@@ -74,35 +70,27 @@ const AnalyticsDashboard: React.FC = () => {
       return acc;
     }, {} as Record<string, number>);
 
-    // Time in stage calculation (simplified)
-    const avgTimeInStage = Object.keys(candidatesByStage).reduce((acc, stage) => {
-      const stageCandidates = candidates.filter(c => c.stage === stage);
-      const avgDays = stageCandidates.reduce((sum, candidate) => {
-        const daysSinceApplied = Math.floor(
-          (Date.now() - new Date(candidate.appliedAt).getTime()) / (1000 * 60 * 60 * 24)
-        );
-        return sum + daysSinceApplied;
-      }, 0) / stageCandidates.length || 0;
-      
-      acc[stage] = Math.round(avgDays);
-      return acc;
-    }, {} as Record<string, number>);
-
-    // Conversion rates
-    const conversionRates = {
-      'applied-to-screen': candidatesByStage.screen / candidatesByStage.applied * 100 || 0,
-      'screen-to-tech': candidatesByStage.tech / candidatesByStage.screen * 100 || 0,
-      'tech-to-offer': candidatesByStage.offer / candidatesByStage.tech * 100 || 0,
-      'offer-to-hired': candidatesByStage.hired / candidatesByStage.offer * 100 || 0,
-    };
+    // Conversion rates between consecutive steps of the selected pipeline
+    const hiredStage = getOutcomeStage(selectedPipeline, 'hired');
+    const funnelStages = hiredStage ? [...getActiveStages(selectedPipeline), hiredStage] : getActiveStages(selectedPipeline);
+    const conversionRates = funnelStages.slice(1).map((stage, index) => {
+      const from = funnelStages[index];
+      return {
+        key: `${from.id}-to-${stage.id}`,
+        label: `${from.label} → ${stage.label}`,
+        rate: (candidatesByStage[stage.id] || 0) / (candidatesByStage[from.id] || 0) * 100 || 0
+      };
+    });
 
     return {
       totalJobs: jobs.length,
       activeJobs: activeJobs.length,
       totalApplications,
+      hiredCount: hiredCandidates.length,
+      avgDaysToHire,
+      pipelineApplications: pipelineCandidates.length,
       candidatesByStage,
       applicationsByJob,
-      avgTimeInStage,
       conversionRates,
       topPerformingJobs: Object.entries(applicationsByJob)
         .sort(([,a], [,b]) => b - a)
@@ -112,16 +100,7 @@ const AnalyticsDashboard: React.FC = () => {
           applications: count
         }))
     };
-  }, [jobs, candidates]);
-
-  const stages = [
-    { key: 'applied', label: 'Applied', color: 'bg-blue-500' },
-    { key: 'screen', label: 'Screening', color: 'bg-yellow-500' },
-    { key: 'tech', label: 'Technical', color: 'bg-purple-500' },
-    { key: 'offer', label: 'Offer', color: 'bg-green-500' },
-    { key: 'hired', label: 'Hired', color: 'bg-emerald-500' },
-    { key: 'rejected', label: 'Rejected', color: 'bg-red-500' }
-  ];
+  }, [jobs, candidates, pipelines, selectedPipeline]);
 
   if (loading) {
     return (
@@ -150,7 +129,7 @@ const AnalyticsDashboard: React.FC = () => {
                 <p className="text-sm font-semibold text-white mb-1">Total Jobs</p>
                 <p className="text-4xl font-extrabold text-yellow-300 drop-shadow-lg">{analytics.totalJobs}</p>
                 <p className="text-sm text-lime-300 mt-2 font-bold">
-                  {analytics.activeJobs} active
+                  {analytics.activeJobs} open
                 </p>
               </div>
               <BriefcaseIcon className="w-14 h-14 text-yellow-700 drop-shadow-lg" />
@@ -189,7 +168,7 @@ const AnalyticsDashboard: React.FC = () => {
               <div>
                 <p className="text-sm font-semibold text-white mb-1">Hire Rate</p>
                 <p className="text-4xl font-extrabold text-green-300 drop-shadow-lg">
-                  {Math.round((analytics.candidatesByStage.hired || 0) / analytics.totalApplications * 100 || 0)}%
+                  {Math.round(analytics.hiredCount / analytics.totalApplications * 100 || 0)}%
                 </p>
                 <div className="flex items-center text-sm mt-2">
                   <ArrowTrendingUpIcon className="w-5 h-5 text-green-700 mr-2 drop-shadow" />
@@ -212,7 +191,7 @@ const AnalyticsDashboard: React.FC = () => {
               <div>
                 <p className="text-sm font-semibold text-white mb-1">Avg. Time to Hire</p>
                 <p className="text-4xl font-extrabold text-orange-300 drop-shadow-lg">
-                  {analytics.avgTimeInStage.hired || 0}d
+                  {analytics.avgDaysToHire}d
                 </p>
                 <div className="flex items-center text-sm mt-2">
                   <ArrowTrendingDownIcon className="w-5 h-5 text-orange-700 mr-2 drop-shadow" />
@@ -233,15 +212,26 @@ const AnalyticsDashboard: React.FC = () => {
           transition={{ delay: 0.5 }}
         >
           <Card className="p-6 shadow-xl rounded-xl bg-gradient-to-br from-blue-950 via-blue-900 to-indigo-950">
-            <h3 className="text-lg font-semibold text-white mb-6">Candidate Pipeline</h3>
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-semibold text-white">Candidate Pipeline</h3>
+              <select
+                value={selectedPipeline.id}
+                onChange={(e) => setSelectedPipelineId(e.target.value)}
+                className="px-3 py-1 text-sm rounded-lg bg-blue-950 text-white border border-blue-800 focus:ring-2 focus:ring-blue-500"
+              >
+                {(pipelines.length > 0 ? pipelines : [DEFAULT_PIPELINE]).map(pipeline => (
+                  <option key={pipeline.id} value={pipeline.id}>{pipeline.name}</option>
+                ))}
+              </select>
+            </div>
             <div className="space-y-4">
-              {stages.map((stage) => {
-                const count = analytics.candidatesByStage[stage.key] || 0;
-                const percentage = (count / analytics.totalApplications) * 100 || 0;
+              {selectedPipeline.stages.map((stage) => {
+                const count = analytics.candidatesByStage[stage.id] || 0;
+                const percentage = (count / analytics.pipelineApplications) * 100 || 0;
                 return (
-                  <div key={stage.key} className="flex items-center justify-between">
+                  <div key={stage.id} className="flex items-center justify-between">
                     <div className="flex items-center space-x-3">
-                      <div className={`w-3 h-3 rounded-full ${stage.color}`} />
+                      <div className={`w-3 h-3 rounded-full ${STAGE_COLOR_CLASSES[stage.color].dot}`} />
                       <span className="text-sm font-semibold text-white">
                         {stage.label}
                       </span>
@@ -249,7 +239,7 @@ const AnalyticsDashboard: React.FC = () => {
                     <div className="flex items-center space-x-3">
                       <div className="w-32 bg-blue-950 rounded-full h-2">
                         <div
-                          className={`h-2 rounded-full ${stage.color}`}
+                          className={`h-2 rounded-full ${STAGE_COLOR_CLASSES[stage.color].dot}`}
                           style={{ width: `${percentage}%` }}
                         />
                       </div>
@@ -303,15 +293,15 @@ const AnalyticsDashboard: React.FC = () => {
         transition={{ delay: 0.7 }}
       >
         <Card className="p-6 shadow-xl rounded-xl bg-gradient-to-br from-blue-950 via-blue-950 to-gray-950">
-          <h3 className="text-lg font-semibold text-white mb-6">Conversion Funnel</h3>
+          <h3 className="text-lg font-semibold text-white mb-6">Conversion Funnel · {selectedPipeline.name}</h3>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-            {Object.entries(analytics.conversionRates).map(([key, rate]) => (
+            {analytics.conversionRates.map(({ key, label, rate }) => (
               <div key={key} className="text-center">
                 <div className="text-2xl font-bold text-cyan-200">
                   {Math.round(rate)}%
                 </div>
-                <div className="text-sm text-blue-200 capitalize">
-                  {key.replace('-', ' → ').replace('-to-', ' to ')}
+                <div className="text-sm text-blue-200">
+                  {label}
                 </div>
               </div>
             ))}
@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowUpTrayIcon, PaperClipIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import { Job, ResumeUpload } from '../types';
+import { useAuth } from '../store';
+import { useUploadResume } from '../hooks/useResumes';
+import { apiCall, isQueuedResponse } from '../utils/apiUtils';
+import { RESUME_ACCEPT, RESUME_MAX_BYTES, RESUME_TYPES, formatFileSize, validateResumeFile } from '../utils/resumeUtils';
+
+interface ApplyModalProps {
+  job: Job | null;
+  isOpen: boolean;
+  onClose: () => void;
+  // Called once the user has an application for the job, new or existing
+  onApplied: (stage: string | null) => void;
+}
+
+// Application form with an optional resume. The resume is uploaded as soon as it
+// is picked so the phone number, links and skills found in it can fill the form.
+const ApplyModal: React.FC<ApplyModalProps> = ({ job, isOpen, onClose, onApplied }) => {
+  const { user } = useAuth();
+  const uploadResume = useUploadResume();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [links, setLinks] = useState('');
+  const [skills, setSkills] = useState('');
+  const [resume, setResume] = useState<ResumeUpload | null>(null);
+  const [fileError, setFileError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(user.name || '');
+    setPhone('');
+    setLinks('');
+    setSkills('');
+    setResume(null);
+    setFileError('');
+  }, [isOpen, user.name]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileError('');
+
+    const errors = validateResumeFile(file);
+    if (errors.length > 0) {
+      setFileError(errors.join('. '));
+      return;
+    }
+
+    try {
+      const { data } = await uploadResume.mutateAsync(file);
+      setResume(data);
+      // Fill only what the applicant hasn't typed themselves
+      if (data.details.phone) setPhone(current => current || data.details.phone!);
+      if (data.details.links.length > 0) setLinks(current => current || data.details.links.join('\n'));
+      if (data.details.skills.length > 0) setSkills(current => current || data.details.skills.join(', '));
+      if (!data.text) toast('No text could be read from this file; it is attached as it is');
+    } catch (error: any) {
+      setFileError(error?.body?.details?.join('. ') || 'Failed to upload resume');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!job || !user.email) return;
+
+    try {
+      setSubmitting(true);
+      const response = await apiCall('/api/applications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jobId: job.id,
+          candidateName: name.trim() || user.name,
+          candidateEmail: user.email,
+          candidatePhone: phone.trim() || undefined,
+          links: links.split('\n').map(link => link.trim()).filter(Boolean),
+          skills: skills.split(',').map(skill => skill.trim()).filter(Boolean),
+          resumeFileId: resume?.id
+        })
+      });
+
+      if (isQueuedResponse(response)) {
+        toast.success('Application saved offline and will be sent when you reconnect');
+        onApplied(null);
+        onClose();
+        return;
+      }
+
+      const data = await response.json();
+      if (response.ok) {
+        toast.success(`Successfully applied to ${job.title}!`);
+        onApplied(data.stage || null);
+        onClose();
+      } else if (response.status === 409) {
+        toast.error(data.error || 'You have already applied to this job');
+        onApplied(data.stage || null);
+        onClose();
+      } else {
+        toast.error(data.details?.join('. ') || data.error || 'Failed to submit application');
+      }
+    } catch (error) {
+      console.error('Error applying:', error);
+      toast.error('Failed to submit application');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const resumeEmail = resume?.details.email;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={job ? `Apply for ${job.title}` : 'Apply'} size="lg">
+      <div className="space-y-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Resume
+          </label>
+          {resume ? (
+            <div className="flex items-center justify-between px-4 py-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700">
+              <div className="flex items-center space-x-2 min-w-0 text-sm text-gray-700 dark:text-gray-300">
+                <PaperClipIcon className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate font-medium">{resume.name}</span>
+                <span className="text-gray-500 dark:text-gray-400 flex-shrink-0">{formatFileSize(resume.size)}</span>
+              </div>
+              <button
+                onClick={() => setResume(null)}
+                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                title="Remove resume"
+              >
+                <XMarkIcon className="w-5 h-5" />
+              </button>
+            </div>
+          ) : (
+            <div
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleFile(e.dataTransfer.files[0]);
+              }}
+              className="flex flex-col items-center justify-center px-4 py-6 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 text-center"
+            >
+              <ArrowUpTrayIcon className="w-8 h-8 text-gray-400 mb-2" />
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Drop your resume here or{' '}
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                  disabled={uploadResume.isLoading}
+                >
+                  browse
+                </button>
+              </p>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {RESUME_TYPES.map(t => t.label).join(', ')} up to {formatFileSize(RESUME_MAX_BYTES)}
+              </p>
+              {uploadResume.isLoading && (
+                <p className="mt-2 text-sm text-blue-600 dark:text-blue-400">Uploading and reading your resume...</p>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={RESUME_ACCEPT}
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+          )}
+          {fileError && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{fileError}</p>}
+        </div>
+
+        <Input
+          label="Full Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          fullWidth
+        />
+
+        <Input
+          label="Email"
+          value={user.email || ''}
+          disabled
+          helperText={resumeEmail && resumeEmail !== user.email?.toLowerCase()
+            ? `Your resume lists ${resumeEmail}; applications always use your account email`
+            : 'Applications use your account email'}
+          fullWidth
+        />
+
+        <Input
+          label="Phone"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          placeholder="+1 555 123 4567"
+          fullWidth
+        />
+
+        <Input
+          label="Skills"
+          value={skills}
+          onChange={(e) => setSkills(e.target.value)}
+          placeholder="React, TypeScript, Node.js"
+          helperText="Separated by commas"
+          fullWidth
+        />
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Links
+          </label>
+          <textarea
+            value={links}
+            onChange={(e) => setLinks(e.target.value)}
+            placeholder="https://linkedin.com/in/you"
+            rows={3}
+            className="input-base"
+          />
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Portfolio, LinkedIn, GitHub; one per line</p>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} loading={submitting} disabled={uploadResume.isLoading}>
+            Submit Application
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ApplyModal;
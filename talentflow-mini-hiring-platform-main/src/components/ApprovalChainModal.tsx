@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import { ApprovalChain, ApprovalStep } from '../types';
+import { useApprovalChains, useSaveApprovalChain } from '../hooks/useRequisitions';
+import { ApiError, isQueuedWrite } from '../utils/apiUtils';
+import { generateSlug } from '../utils/jobUtils';
+import { validateApprovalChain } from '../utils/requisitionUtils';
+
+interface ApprovalChainModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Approver emails are edited as one comma-separated string per step
+type StepDraft = Pick<ApprovalStep, 'id' | 'label'> & { approvers: string };
+
+const NEW_CHAIN = '';
+
+const toDrafts = (chain?: ApprovalChain): StepDraft[] =>
+  (chain?.steps || []).map(step => ({ id: step.id, label: step.label, approvers: step.approverEmails.join(', ') }));
+
+const toSteps = (drafts: StepDraft[]): ApprovalStep[] =>
+  drafts.map((draft, index) => ({
+    id: draft.id || generateSlug(draft.label) || `step-${index + 1}`,
+    label: draft.label,
+    approverEmails: draft.approvers.split(',').map(email => email.trim()).filter(Boolean)
+  }));
+
+// Create and edit the sign-off chains jobs are submitted through. Changing a chain
+// only affects requisitions submitted afterwards.
+const ApprovalChainModal: React.FC<ApprovalChainModalProps> = ({ isOpen, onClose }) => {
+  const { data } = useApprovalChains({ enabled: isOpen });
+  const saveChain = useSaveApprovalChain();
+  const chains = data?.data || [];
+  // Nothing picked yet means the first chain
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [steps, setSteps] = useState<StepDraft[]>([]);
+
+  const selected = selectedId === null ? chains[0] : chains.find(chain => chain.id === selectedId);
+
+  // Reset the form when a chain is picked or the saved chains reload
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(selected?.name || '');
+    setDescription(selected?.description || '');
+    setSteps(selected ? toDrafts(selected) : [{ id: '', label: '', approvers: '' }]);
+  }, [isOpen, selected]);
+
+  const updateStep = (index: number, changes: Partial<StepDraft>) =>
+    setSteps(current => current.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+
+  const handleSave = async () => {
+    const chain = { name, description, steps: toSteps(steps) };
+    const errors = validateApprovalChain(chain);
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+
+    try {
+      const result = await saveChain.mutateAsync({ ...chain, id: selected?.id });
+      if (isQueuedWrite(result)) {
+        toast.success('Chain saved offline and will sync when you reconnect');
+        return;
+      }
+      setSelectedId(result.data.id);
+      toast.success(selected ? 'Approval chain updated' : 'Approval chain created');
+    } catch (error) {
+      toast.error((error instanceof ApiError && (error.body?.details?.[0] || error.body?.error)) || 'Failed to save approval chain');
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Approval Chains" size="lg">
+      <div className="space-y-6">
+        <select
+          value={selected?.id || NEW_CHAIN}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="input-base"
+        >
+          {chains.map(chain => (
+            <option key={chain.id} value={chain.id}>{chain.name}</option>
+          ))}
+          <option value={NEW_CHAIN}>+ New chain</option>
+        </select>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Chain name"
+            className="input-base"
+          />
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className="input-base"
+          />
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Steps, in the order they sign off</p>
+          {steps.map((step, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <span className="mt-2 w-6 text-sm text-gray-500 dark:text-gray-400">{index + 1}.</span>
+              <input
+                value={step.label}
+                onChange={(e) => updateStep(index, { label: e.target.value })}
+                placeholder="Finance"
+                className="input-base w-1/3"
+              />
+              <input
+                value={step.approvers}
+                onChange={(e) => updateStep(index, { approvers: e.target.value })}
+                placeholder="Approver emails, comma-separated"
+                className="input-base flex-1"
+              />
+              <button
+                type="button"
+                onClick={() => setSteps(current => current.filter((_, i) => i !== index))}
+                title="Remove step"
+                className="mt-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </div>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSteps(current => [...current, { id: '', label: '', approvers: '' }])}
+            icon={<PlusIcon className="w-4 h-4" />}
+          >
+            Add step
+          </Button>
+          {steps.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">A chain without steps opens jobs as soon as they are submitted.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+          <Button variant="primary" onClick={handleSave} loading={saveChain.isLoading}>
+            {selected ? 'Save Chain' : 'Create Chain'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ApprovalChainModal;
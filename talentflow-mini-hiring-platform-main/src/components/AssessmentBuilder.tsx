@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { ArrowLeftIcon } from '@heroicons/react/24/outline';
 import { Assessment, AssessmentSection, AssessmentQuestion } from '../types';
+import { apiCall, isQueuedWrite } from '../utils/apiUtils';
+import { useSaveAssessment } from '../hooks/useAssessments';
 
 interface AssessmentBuilderProps {
   jobId: string;
@@ -30,6 +32,7 @@ const AssessmentBuilder: React.FC<AssessmentBuilderProps> = ({ jobId, onSave, on
   });
 
   const [loading, setLoading] = useState(true);
+  const saveAssessment = useSaveAssessment(jobId);
   const [activeSection, setActiveSection] = useState<number | null>(null);
   const [activeQuestion, setActiveQuestion] = useState<string | null>(null);
 
@@ -58,7 +61,7 @@ const AssessmentBuilder: React.FC<AssessmentBuilderProps> = ({ jobId, onSave, on
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 5000);
       
-      const response = await fetch(`/api/assessments/${jobId}`, {
+      const response = await apiCall(`/api/assessments/${jobId}`, {
         signal: controller.signal
       });
       clearTimeout(timeoutId);
@@ -122,29 +125,22 @@ const AssessmentBuilder: React.FC<AssessmentBuilderProps> = ({ jobId, onSave, on
     
     try {
       console.log('Saving assessment:', assessment);
-      const response = await fetch(`/api/assessments/${jobId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ...assessment,
-          jobId,
-          updatedAt: new Date().toISOString(),
-          createdAt: assessment.createdAt || new Date().toISOString()
-        })
+      const result = await saveAssessment.mutateAsync({
+        ...assessment,
+        jobId,
+        updatedAt: new Date().toISOString(),
+        createdAt: assessment.createdAt || new Date().toISOString()
       });
 
-      console.log('Save response:', response.status, response.ok);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Save failed:', errorText);
-        throw new Error('Failed to save assessment');
+      if (isQueuedWrite(result)) {
+        alert('Assessment saved offline. It will sync when you reconnect.');
+        onSave(assessment);
+        return;
       }
 
-      const data = await response.json();
-      console.log('Assessment saved successfully:', data);
+      console.log('Assessment saved successfully:', result);
       alert('Assessment saved successfully!');
-      onSave(data.data);
+      onSave(result.data);
     } catch (error) {
       console.error('Error saving assessment:', error);
       alert('Failed to save assessment. Please try again.');
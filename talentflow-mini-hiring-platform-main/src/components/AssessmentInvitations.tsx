@@ -39,14 +39,14 @@ const AssessmentInvitations: React.FC = () => {
       setLoading(true);
       
       // Get candidate's applications
-      const candidatesResponse = await apiCall(`/api/candidates?search=${encodeURIComponent(user.email)}&page=1&pageSize=100`);
+      const candidatesResponse = await apiCall(`/api/candidates?email=${encodeURIComponent(user.email)}&page=1&pageSize=100`);
       if (!candidatesResponse.ok) return;
       
       const candidatesData = await candidatesResponse.json();
       const applications = candidatesData.data || [];
       
       // Get jobs data
-      const jobsResponse = await apiCall('/api/jobs?status=active&page=1&pageSize=100');
+      const jobsResponse = await apiCall('/api/jobs?status=open&page=1&pageSize=100');
       if (!jobsResponse.ok) return;
       
       const jobsData = await jobsResponse.json();
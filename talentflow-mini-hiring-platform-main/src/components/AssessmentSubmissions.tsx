@@ -8,13 +8,16 @@ import {
   CalendarIcon,
   StarIcon,
   DocumentTextIcon,
-  ChartBarIcon
+  ChartBarIcon,
+  ArrowDownTrayIcon
 } from '@heroicons/react/24/outline';
 import { AssessmentSubmission, Assessment } from '../types';
-import { apiCall } from '../utils/apiUtils';
+import { useAssessment } from '../hooks/useAssessments';
+import { useSubmissions } from '../hooks/useSubmissions';
 import Card from './ui/Card';
 import Button from './ui/Button';
 import Modal from './ui/Modal';
+import ExportModal from './ExportModal';
 import toast from 'react-hot-toast';
 
 interface AssessmentSubmissionsProps {
@@ -34,41 +37,20 @@ interface QuestionWithAnswer {
 }
 
 const AssessmentSubmissions: React.FC<AssessmentSubmissionsProps> = ({ jobId, jobTitle }) => {
-  const [submissions, setSubmissions] = useState<AssessmentSubmission[]>([]);
-  const [loading, setLoading] = useState(true);
+  const assessmentQuery = useAssessment(jobId);
+  const submissionsQuery = useSubmissions(jobId);
   const [selectedSubmission, setSelectedSubmission] = useState<AssessmentSubmission | null>(null);
   const [showModal, setShowModal] = useState(false);
-  const [assessment, setAssessment] = useState<Assessment | null>(null);
   const [questionsWithAnswers, setQuestionsWithAnswers] = useState<QuestionWithAnswer[]>([]);
+  const [exportOpen, setExportOpen] = useState(false);
 
-  useEffect(() => {
-    loadData();
-  }, [jobId]);
+  const assessment = assessmentQuery.data?.data || null;
+  const submissions = submissionsQuery.data?.data || [];
+  const loading = assessmentQuery.isLoading || submissionsQuery.isLoading;
 
-  const loadData = async () => {
-    try {
-      setLoading(true);
-      
-      // Load assessment details
-      const assessmentResponse = await apiCall(`/api/assessments/${jobId}`);
-      if (assessmentResponse.ok) {
-        const assessmentData = await assessmentResponse.json();
-        setAssessment(assessmentData.data);
-      }
-      
-      // Load submissions
-      const response = await apiCall(`/api/assessments/${jobId}/submissions`);
-      if (response.ok) {
-        const data = await response.json();
-        setSubmissions(data.data || []);
-      }
-    } catch (error) {
-      console.error('Error loading data:', error);
-      toast.error('Failed to load assessment data');
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    if (assessmentQuery.isError || submissionsQuery.isError) toast.error('Failed to load assessment data');
+  }, [assessmentQuery.isError, submissionsQuery.isError]);
 
   const calculateScore = (submission: AssessmentSubmission, assessment: Assessment): { score: number; details: QuestionWithAnswer[] } => {
     if (!assessment?.sections || !submission.responses) {
@@ -203,12 +185,19 @@ const AssessmentSubmissions: React.FC<AssessmentSubmissionsProps> = ({ jobId, jo
               </p>
             </div>
           </div>
-          <div className="text-right">
-            <div className="text-4xl font-extrabold text-purple-700 dark:text-purple-300">
-              {submissions.length}
-            </div>
-            <div className="text-sm text-gray-600 dark:text-gray-400">
-              Total Submissions
+          <div className="flex items-center space-x-4">
+            {submissions.length > 0 && (
+              <Button variant="secondary" size="sm" onClick={() => setExportOpen(true)} icon={<ArrowDownTrayIcon className="w-4 h-4" />}>
+                Export
+              </Button>
+            )}
+            <div className="text-right">
+              <div className="text-4xl font-extrabold text-purple-700 dark:text-purple-300">
+                {submissions.length}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                Total Submissions
+              </div>
             </div>
           </div>
         </div>
@@ -532,6 +521,14 @@ const AssessmentSubmissions: React.FC<AssessmentSubmissionsProps> = ({ jobId, jo
           </div>
         )}
       </Modal>
+
+      <ExportModal
+        isOpen={exportOpen}
+        onClose={() => setExportOpen(false)}
+        dataset="submissions"
+        filters={{ jobId }}
+        name={`${jobTitle} Submissions`}
+      />
     </div>
   );
 };
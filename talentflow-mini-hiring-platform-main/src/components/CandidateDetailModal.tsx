@@ -11,8 +11,12 @@ import {
   FunnelIcon,
   ArrowRightIcon
 } from '@heroicons/react/24/outline';
-import { Candidate, Job, Application, ApplicationTimelineEntry } from '../types';
+import { Candidate, Job, Application, ApplicationTimelineEntry, Pipeline } from '../types';
+import { useAuth } from '../store';
 import { apiCall } from '../utils/apiUtils';
+import { STAGE_COLOR_CLASSES, getKnownStages, getStage, getStageClasses, resolvePipeline } from '../utils/pipelineUtils';
+import { formatStageFields, formatTransitionErrors, getAllowedTransitions, getRequiredFields } from '../utils/stageTransitions';
+import ResumeViewer from './ResumeViewer';
 import toast from 'react-hot-toast';
 
 interface CandidateDetailModalProps {
@@ -26,22 +30,16 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
   onClose,
   onRefresh
 }) => {
+  const { user } = useAuth();
   const [applications, setApplications] = useState<Application[]>([]);
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
   const [selectedJobId, setSelectedJobId] = useState<string>('all');
   const [loading, setLoading] = useState(true);
   const [showMoveModal, setShowMoveModal] = useState(false);
   const [selectedApplication, setSelectedApplication] = useState<Application | null>(null);
   const [newStage, setNewStage] = useState('');
-
-  const stages = [
-    { value: 'applied', label: 'Applied', color: 'blue', icon: '📝' },
-    { value: 'screen', label: 'Screening', color: 'yellow', icon: '📞' },
-    { value: 'tech', label: 'Technical', color: 'purple', icon: '💻' },
-    { value: 'offer', label: 'Offer', color: 'green', icon: '📄' },
-    { value: 'hired', label: 'Hired', color: 'green', icon: '✅' },
-    { value: 'rejected', label: 'Rejected', color: 'red', icon: '❌' }
-  ];
+  const [stageFields, setStageFields] = useState<Record<string, string>>({});
 
   useEffect(() => {
     fetchCandidateData();
@@ -51,8 +49,10 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
     try {
       setLoading(true);
 
-      // Fetch all applications for this candidate
-      const applicationsResponse = await apiCall(`/api/applications?candidateId=${candidate.id}`);
+      // Fetch every application made by this person, not just this one
+      const applicationsResponse = await apiCall(
+        candidate.personId ? `/api/applications?personId=${candidate.personId}` : `/api/applications?candidateId=${candidate.id}`
+      );
       if (applicationsResponse.ok) {
         const applicationsData = await applicationsResponse.json();
         setApplications(applicationsData.data || []);
@@ -64,6 +64,13 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
         const jobsData = await jobsResponse.json();
         setJobs(jobsData.data || []);
       }
+
+      // Each application follows the pipeline of its job
+      const pipelinesResponse = await apiCall('/api/pipelines');
+      if (pipelinesResponse.ok) {
+        const pipelinesData = await pipelinesResponse.json();
+        setPipelines(pipelinesData.data || []);
+      }
     } catch (error) {
       console.error('Error fetching candidate data:', error);
       toast.error('Failed to load candidate details');
@@ -76,36 +83,47 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
     if (!selectedApplication || !newStage) return;
 
     try {
-      const response = await apiCall(`/api/applications/${selectedApplication.id}`, {
+      const response = await apiCall(`/api/applications/${selectedApplication.id}/stage`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           stage: newStage,
-          notes: `Moved from ${selectedApplication.stage} to ${newStage}`
+          fields: requiredStageFields.reduce((acc, field) => {
+            acc[field.key] = field.type === 'number' ? Number(stageFields[field.key]) : stageFields[field.key].trim();
+            return acc;
+          }, {} as Record<string, string | number>),
+          notes: `Moved from ${getStageInfo(selectedApplication.stage, selectedApplication.jobId).label} to ${getStageInfo(newStage, selectedApplication.jobId).label}`,
+          movedBy: user.name
         })
       });
 
       if (response.ok) {
         setApplications(prev => prev.map(app => 
           app.id === selectedApplication.id 
-            ? { ...app, stage: newStage as Application['stage'] }
+            ? { ...app, stage: newStage }
             : app
         ));
         setShowMoveModal(false);
         setNewStage('');
         setSelectedApplication(null);
-        toast.success(`Application moved to ${newStage} stage`);
+        toast.success(`Application moved to ${getStageInfo(newStage, selectedApplication.jobId).label} stage`);
         
         if (onRefresh) onRefresh();
         fetchCandidateData();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(formatTransitionErrors(data, 'Failed to update application stage'));
       }
     } catch (error) {
       toast.error('Failed to update application stage');
     }
   };
 
-  const getStageInfo = (stage: string) => {
-    return stages.find(s => s.value === stage) || stages[0];
+  const getPipelineForJob = (jobId: string) => resolvePipeline(jobs.find(j => j.id === jobId), pipelines);
+
+  const getStageInfo = (stage: string, jobId: string) => {
+    const pipeline = getPipelineForJob(jobId);
+    return { ...getStage(pipeline, stage), classes: getStageClasses(pipeline, stage) };
   };
 
   const getJobTitle = (jobId: string) => {
@@ -121,9 +139,18 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
     ? applications 
     : applications.filter(app => app.jobId === selectedJobId);
 
+  // Every stage used by the pipelines of the applications shown, in pipeline order
+  const summaryStages = getKnownStages(filteredApplications.map(app => getPipelineForJob(app.jobId)));
+
+  // Values the target stage asks for, e.g. an offer amount or rejection reason
+  const requiredStageFields = selectedApplication
+    ? getRequiredFields(getPipelineForJob(selectedApplication.jobId), newStage)
+    : [];
+
   const openMoveModal = (application: Application) => {
     setSelectedApplication(application);
     setNewStage(application.stage);
+    setStageFields({});
     setShowMoveModal(true);
   };
 
@@ -251,11 +278,13 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
                       <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Resume</h3>
                     </div>
                     
-                    <div className="bg-gradient-to-br from-indigo-50 via-fuchsia-50 to-blue-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 rounded-lg p-4 max-h-40 overflow-y-auto border border-fuchsia-100 dark:border-fuchsia-700 shadow-md">
-                      <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 font-mono leading-relaxed">
-                        {candidate.resume}
-                      </pre>
-                    </div>
+                    <ResumeViewer file={candidate.resumeFile} height={360}>
+                      <div className="bg-gradient-to-br from-indigo-50 via-fuchsia-50 to-blue-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 rounded-lg p-4 max-h-40 overflow-y-auto border border-fuchsia-100 dark:border-fuchsia-700 shadow-md">
+                        <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 font-mono leading-relaxed">
+                          {candidate.resume || (candidate.resumeFile ? 'No text could be extracted from this file.' : 'No resume provided.')}
+                        </pre>
+                      </div>
+                    </ResumeViewer>
                   </div>
 
                   {/* Applications & Timeline */}
@@ -276,7 +305,7 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
                       <div className="space-y-4 max-h-80 overflow-y-auto">
                         {filteredApplications.map((application) => {
                           const job = jobs.find(j => j.id === application.jobId);
-                          const stageInfo = getStageInfo(application.stage);
+                          const stageInfo = getStageInfo(application.stage, application.jobId);
                           
                           return (
                             <div key={application.id} className="border border-fuchsia-200 dark:border-fuchsia-700 rounded-xl p-5 bg-gradient-to-br from-blue-50 via-fuchsia-50 to-indigo-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 shadow-lg transition-all duration-200 hover:shadow-xl">
@@ -296,7 +325,7 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
                                   </div>
                                 </div>
                                 <div className="flex items-center space-x-3">
-                                  <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-${stageInfo.color}-100 text-${stageInfo.color}-800 dark:bg-${stageInfo.color}-900 dark:text-${stageInfo.color}-200`}>
+                                  <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${stageInfo.classes.badge}`}>
                                     <span className="mr-1">{stageInfo.icon}</span>
                                     {stageInfo.label}
                                   </span>
@@ -313,10 +342,10 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
                               {application.timeline && application.timeline.length > 0 && (
                                 <div className="space-y-2 ml-11">
                                   {application.timeline.map((item: ApplicationTimelineEntry, index: number) => {
-                                    const itemStageInfo = getStageInfo(item.stage);
+                                    const itemStageInfo = getStageInfo(item.stage, application.jobId);
                                     return (
                                       <div key={`${application.id}-${index}`} className="flex items-start space-x-3">
-                                        <div className={`w-6 h-6 bg-${itemStageInfo.color}-100 dark:bg-${itemStageInfo.color}-900 rounded-full flex items-center justify-center flex-shrink-0`}>
+                                        <div className={`w-6 h-6 ${itemStageInfo.classes.soft} rounded-full flex items-center justify-center flex-shrink-0`}>
                                           <span className="text-xs">{itemStageInfo.icon}</span>
                                         </div>
                                         <div className="flex-1 min-w-0">
@@ -333,6 +362,11 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
                                               {item.notes}
                                             </p>
                                           )}
+                                          {item.fields && (
+                                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                              {formatStageFields(getPipelineForJob(application.jobId), item.stage, item.fields)}
+                                            </p>
+                                          )}
                                         </div>
                                       </div>
                                     );
@@ -358,13 +392,13 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
                     <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Application Summary</h3>
                     
                     <div className="space-y-3">
-                      {stages.map((stage) => {
-                        const count = filteredApplications.filter(app => app.stage === stage.value).length;
+                      {summaryStages.map((stage) => {
+                        const count = filteredApplications.filter(app => app.stage === stage.id).length;
                         
                         return (
-                          <div key={stage.value} className="flex items-center justify-between">
+                          <div key={stage.id} className="flex items-center justify-between">
                             <div className="flex items-center space-x-3">
-                              <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs bg-${stage.color}-100 text-${stage.color}-800 dark:bg-${stage.color}-900 dark:text-${stage.color}-200`}>
+                              <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs ${STAGE_COLOR_CLASSES[stage.color].badge}`}>
                                 {stage.icon}
                               </div>
                               <span className="text-sm text-gray-600 dark:text-gray-400">
@@ -415,9 +449,9 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     Current Stage
                   </label>
-                  <div className={`inline-flex items-center px-3 py-1 text-sm font-medium rounded-full bg-${getStageInfo(selectedApplication.stage).color}-100 text-${getStageInfo(selectedApplication.stage).color}-800 dark:bg-${getStageInfo(selectedApplication.stage).color}-900 dark:text-${getStageInfo(selectedApplication.stage).color}-200`}>
-                    <span className="mr-1">{getStageInfo(selectedApplication.stage).icon}</span>
-                    {getStageInfo(selectedApplication.stage).label}
+                  <div className={`inline-flex items-center px-3 py-1 text-sm font-medium rounded-full ${getStageInfo(selectedApplication.stage, selectedApplication.jobId).classes.badge}`}>
+                    <span className="mr-1">{getStageInfo(selectedApplication.stage, selectedApplication.jobId).icon}</span>
+                    {getStageInfo(selectedApplication.stage, selectedApplication.jobId).label}
                   </div>
                 </div>
 
@@ -431,17 +465,31 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   >
                     <option value="">Select new stage</option>
-                    {stages.map(stage => (
+                    {getPipelineForJob(selectedApplication.jobId).stages.map(stage => (
                       <option 
-                        key={stage.value} 
-                        value={stage.value} 
-                        disabled={stage.value === selectedApplication.stage}
+                        key={stage.id} 
+                        value={stage.id} 
+                        disabled={stage.id === selectedApplication.stage || !getAllowedTransitions(getPipelineForJob(selectedApplication.jobId), selectedApplication.stage).includes(stage.id)}
                       >
                         {stage.icon} {stage.label}
                       </option>
                     ))}
                   </select>
                 </div>
+
+                {requiredStageFields.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      {field.label}
+                    </label>
+                    <input
+                      type={field.type === 'number' ? 'number' : 'text'}
+                      value={stageFields[field.key] || ''}
+                      onChange={(e) => setStageFields(prev => ({ ...prev, [field.key]: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                ))}
               </div>
 
               <div className="flex items-center justify-end space-x-3 mt-6">
@@ -453,7 +501,7 @@ const CandidateDetailModal: React.FC<CandidateDetailModalProps> = ({
                 </button>
                 <button
                   onClick={handleMoveStage}
-                  disabled={!newStage || newStage === selectedApplication?.stage}
+                  disabled={!newStage || newStage === selectedApplication?.stage || requiredStageFields.some(field => !stageFields[field.key]?.trim())}
                   className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
                 >
                   Move Stage
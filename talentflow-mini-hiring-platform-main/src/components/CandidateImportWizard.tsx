@@ -0,0 +1,335 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import { CandidateImportError, CandidateImportResult, CandidateImportRow } from '../types';
+import { useJobs } from '../hooks/useJobs';
+import { useImportCandidates } from '../hooks/useCandidates';
+import { downloadCsv, parseCsv } from '../utils/csvUtils';
+import {
+  IMPORT_CHUNK_SIZE,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportMapping,
+  MAX_IMPORT_ROWS,
+  guessImportMapping,
+  mapImportRows
+} from '../utils/importUtils';
+
+interface CandidateImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+// Upload → map columns → dry run → chunked import. Nothing is written until the
+// dry run has been reviewed, and rows with errors are never written.
+const CandidateImportWizard: React.FC<CandidateImportWizardProps> = ({ isOpen, onClose, onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const jobsQuery = useJobs({ page: 1, pageSize: 1000 }, { enabled: isOpen });
+  const importCandidates = useImportCandidates();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [jobId, setJobId] = useState('');
+  const [fileError, setFileError] = useState('');
+  const [preview, setPreview] = useState<CandidateImportResult | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<CandidateImportResult | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep('upload');
+    setFileName('');
+    setCsvRows([]);
+    setMapping({});
+    setJobId('');
+    setFileError('');
+    setPreview(null);
+    setProgress({ done: 0, total: 0 });
+    setResult(null);
+  }, [isOpen]);
+
+  const jobs = jobsQuery.data?.data || [];
+  const headers = csvRows[0] || [];
+  const dataRowCount = Math.max(csvRows.length - 1, 0);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileError('');
+
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        setFileError('The file needs a header row and at least one candidate');
+      } else if (rows.length - 1 > MAX_IMPORT_ROWS) {
+        setFileError(`At most ${MAX_IMPORT_ROWS} candidates can be imported at once`);
+      } else {
+        setFileName(file.name);
+        setCsvRows(rows);
+        setMapping(guessImportMapping(rows[0]));
+        setStep('map');
+      }
+    } catch (error) {
+      setFileError('Failed to read the file');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const setFieldColumn = (field: ImportField, value: string) => {
+    setMapping(current => {
+      const next = { ...current };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handlePreview = async () => {
+    try {
+      const { data } = await importCandidates.mutateAsync({ jobId, rows: mapImportRows(csvRows, mapping), dryRun: true });
+      setPreview(data);
+      setStep('preview');
+    } catch (error: any) {
+      toast.error(error?.body?.details?.join('. ') || error?.body?.error || 'Failed to check the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    const failed = new Set(preview.errors.map(error => error.row));
+    const rows = mapImportRows(csvRows, mapping).filter(row => !failed.has(row.row));
+    const chunks: CandidateImportRow[][] = [];
+    for (let i = 0; i < rows.length; i += IMPORT_CHUNK_SIZE) {
+      chunks.push(rows.slice(i, i + IMPORT_CHUNK_SIZE));
+    }
+
+    setStep('importing');
+    setProgress({ done: 0, total: rows.length });
+
+    // Every chunk is its own transaction, so a failure leaves earlier chunks in place
+    let imported = 0;
+    const errors: CandidateImportError[] = [...preview.errors];
+    for (const chunk of chunks) {
+      try {
+        const { data } = await importCandidates.mutateAsync({ jobId, rows: chunk, dryRun: false });
+        imported += data.imported;
+        errors.push(...data.errors);
+      } catch (error: any) {
+        const message = error?.body?.error || 'Failed to import';
+        errors.push(...chunk.map(row => ({ row: row.row, email: row.email, errors: [message] })));
+      }
+      setProgress(current => ({ ...current, done: current.done + chunk.length }));
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+    setResult({ dryRun: false, total: preview.total, valid: preview.valid, imported, errors });
+    setStep('done');
+    if (imported > 0) onImported();
+  };
+
+  const downloadErrorReport = (errors: CandidateImportError[]) => {
+    const base = fileName.replace(/\.csv$/i, '') || 'candidates';
+    downloadCsv(`${base}-errors.csv`, [
+      ['Row', 'Email', 'Errors'],
+      ...errors.map(error => [error.row, error.email || '', error.errors.join('; ')])
+    ]);
+  };
+
+  const renderErrors = (errors: CandidateImportError[]) => errors.length > 0 && (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white">
+          {errors.length} row{errors.length === 1 ? '' : 's'} with errors
+        </h4>
+        <Button variant="secondary" size="sm" onClick={() => downloadErrorReport(errors)} icon={<ArrowDownTrayIcon className="w-4 h-4" />}>
+          Download error report
+        </Button>
+      </div>
+      <div className="max-h-64 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-300">Row</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-300">Email</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-300">Errors</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {errors.map(error => (
+              <tr key={error.row}>
+                <td className="px-3 py-2 text-gray-500 dark:text-gray-400">{error.row}</td>
+                <td className="px-3 py-2 text-gray-900 dark:text-white">{error.email || '—'}</td>
+                <td className="px-3 py-2 text-red-600 dark:text-red-400">{error.errors.join('; ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  const missingRequired = IMPORT_FIELDS.filter(field => field.required && mapping[field.key] === undefined);
+
+  return (
+    <Modal isOpen={isOpen} onClose={step === 'importing' ? () => undefined : onClose} title="Import Candidates from CSV" size="xl">
+      {step === 'upload' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Upload a CSV file with a header row. You'll match its columns to candidate fields and review any problems before anything is saved.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex flex-col items-center justify-center px-4 py-10 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:border-blue-500 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <ArrowUpTrayIcon className="w-8 h-8 mb-2" />
+            <span className="text-sm font-medium">Choose a CSV file</span>
+            <span className="text-xs mt-1">Up to {MAX_IMPORT_ROWS} candidates</span>
+          </button>
+          {fileError && <p className="text-sm text-red-600 dark:text-red-400">{fileError}</p>}
+        </div>
+      )}
+
+      {step === 'map' && (
+        <div className="space-y-6">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            <span className="font-medium text-gray-900 dark:text-white">{fileName}</span> · {dataRowCount} row{dataRowCount === 1 ? '' : 's'}
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Import into job *
+            </label>
+            <select value={jobId} onChange={(e) => setJobId(e.target.value)} className="input-base">
+              <option value="">Select a job</option>
+              {jobs.map(job => (
+                <option key={job.id} value={job.id}>{job.title}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {field.label}{field.required ? ' *' : ''}
+                </label>
+                <select
+                  value={mapping[field.key] ?? ''}
+                  onChange={(e) => setFieldColumn(field.key, e.target.value)}
+                  className="input-base"
+                >
+                  <option value="">Don't import</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {missingRequired.length > 0 && (
+            <p className="text-sm text-amber-600 dark:text-amber-400">
+              Choose a column for {missingRequired.map(field => field.label).join(', ')}.
+            </p>
+          )}
+
+          <div className="flex justify-between">
+            <Button variant="secondary" onClick={() => setStep('upload')}>
+              Back
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handlePreview}
+              loading={importCandidates.isLoading}
+              disabled={!jobId || missingRequired.length > 0}
+            >
+              Check Rows
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && preview && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700">
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{preview.total}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Rows</p>
+            </div>
+            <div className="p-4 rounded-lg bg-green-50 dark:bg-green-900/20">
+              <p className="text-2xl font-bold text-green-700 dark:text-green-300">{preview.valid}</p>
+              <p className="text-sm text-green-700 dark:text-green-300">Ready to import</p>
+            </div>
+            <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20">
+              <p className="text-2xl font-bold text-red-700 dark:text-red-300">{preview.errors.length}</p>
+              <p className="text-sm text-red-700 dark:text-red-300">Will be skipped</p>
+            </div>
+          </div>
+
+          {renderErrors(preview.errors)}
+
+          <div className="flex justify-between">
+            <Button variant="secondary" onClick={() => setStep('map')}>
+              Back
+            </Button>
+            <Button variant="primary" onClick={handleImport} disabled={preview.valid === 0}>
+              Import {preview.valid} Candidate{preview.valid === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'importing' && (
+        <div className="space-y-3 py-6">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Importing {progress.done} of {progress.total} candidates…
+          </p>
+          <div className="w-full h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <div className="space-y-6">
+          <div className="flex items-center space-x-3">
+            {result.errors.length === 0 ? (
+              <CheckCircleIcon className="w-8 h-8 text-green-600" />
+            ) : (
+              <ExclamationTriangleIcon className="w-8 h-8 text-amber-500" />
+            )}
+            <p className="text-gray-900 dark:text-white">
+              Imported {result.imported} of {result.total} candidate{result.total === 1 ? '' : 's'}.
+            </p>
+          </div>
+
+          {renderErrors(result.errors)}
+
+          <div className="flex justify-end">
+            <Button variant="primary" onClick={onClose}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default CandidateImportWizard;
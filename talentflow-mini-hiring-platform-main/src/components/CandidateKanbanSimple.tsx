@@ -1,70 +1,73 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { Candidate, Job, ApiResponse, AssessmentSubmission } from '../types';
+import { Candidate } from '../types';
 import { MagnifyingGlassIcon, BriefcaseIcon, XMarkIcon, EnvelopeIcon, PhoneIcon, CalendarIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
-import { apiCall } from '../utils/apiUtils';
+import { ApiError, isQueuedWrite } from '../utils/apiUtils';
+import { getActiveStages, getStage, getStageClasses, resolvePipeline } from '../utils/pipelineUtils';
+import { TransitionFields, canTransitionTo, formatTransitionErrors, getRequiredFields } from '../utils/stageTransitions';
+import StageTransitionModal from './StageTransitionModal';
+import ScheduleInterviewModal from './ScheduleInterviewModal';
+import MatchScoreBadge from './common/MatchScoreBadge';
+import { hasPermission } from '../utils/permissions';
 import { useAuth } from '../store';
+import { useJobs, usePipelines } from '../hooks/useJobs';
+import { useCandidates, useMoveCandidate } from '../hooks/useCandidates';
+import { useAssessment, useInviteToAssessment } from '../hooks/useAssessments';
 import toast from 'react-hot-toast';
 
-const stages = ['applied', 'screen', 'tech', 'offer', 'hired', 'rejected'];
-
 const CandidateKanbanSimple: React.FC = () => {
   const [searchParams] = useSearchParams();
   const urlJobId = searchParams.get('jobId');
-  const [candidates, setCandidates] = useState<Candidate[]>([]);
-  const [jobs, setJobs] = useState<Job[]>([]);
-  const [loading, setLoading] = useState(true);
   const [draggedCandidate, setDraggedCandidate] = useState<Candidate | null>(null);
+  const [pendingMove, setPendingMove] = useState<{ candidate: Candidate; stage: string } | null>(null);
   const [selectedJobId, setSelectedJobId] = useState<string>(urlJobId || '');
   const [searchTerm, setSearchTerm] = useState('');
+  const [sortBy, setSortBy] = useState<'appliedAt' | 'matchScore'>('appliedAt');
   const [selectedCandidate, setSelectedCandidate] = useState<Candidate | null>(null);
-  const [candidateApplications, setCandidateApplications] = useState<Candidate[]>([]);
-  const [modalLoading, setModalLoading] = useState(false);
+  const [schedulingFor, setSchedulingFor] = useState<Candidate | null>(null);
   const { user } = useAuth();
 
+  const jobsQuery = useJobs({ status: 'open,on-hold', page: 1, pageSize: 100 });
+  const pipelinesQuery = usePipelines();
+  const candidatesQuery = useCandidates({ jobId: selectedJobId, sortBy, page: 1, pageSize: 1000 }, { enabled: !!selectedJobId });
+  // Needed to know whether assessment prerequisites apply to this job
+  const assessmentQuery = useAssessment(selectedJobId || undefined);
+  const applicationsQuery = useCandidates(
+    { email: selectedCandidate?.email, page: 1, pageSize: 100 },
+    { enabled: !!selectedCandidate }
+  );
+  const moveCandidateMutation = useMoveCandidate();
+  const inviteMutation = useInviteToAssessment();
+
+  const jobs = useMemo(() => jobsQuery.data?.data || [], [jobsQuery.data]);
+  const pipelines = pipelinesQuery.data?.data || [];
+  const candidates = candidatesQuery.data?.data || [];
+  const jobHasAssessment = !!assessmentQuery.data?.data;
+  const candidateApplications = applicationsQuery.data?.data || [];
+  const loading = jobsQuery.isLoading || pipelinesQuery.isLoading;
+  const modalLoading = applicationsQuery.isLoading;
+
+  // Default to the first job once the list arrives
   useEffect(() => {
-    loadData();
-  }, []);
+    if (!selectedJobId && jobs.length > 0) {
+      setSelectedJobId(jobs[0].id);
+    }
+  }, [jobs, selectedJobId]);
 
   useEffect(() => {
-    loadCandidates();
-  }, [selectedJobId]);
+    if (jobsQuery.isError || pipelinesQuery.isError) toast.error('Failed to load data');
+  }, [jobsQuery.isError, pipelinesQuery.isError]);
 
-  const loadData = async () => {
-    try {
-      setLoading(true);
-      
-      // Load jobs
-      const jobsResponse = await apiCall('/api/jobs?status=active&page=1&pageSize=100');
-      if (jobsResponse.ok) {
-        const jobsData = await jobsResponse.json();
-        setJobs(jobsData.data || []);
-        if (!urlJobId && jobsData.data?.length > 0) {
-          setSelectedJobId(jobsData.data[0].id);
-        }
-      }
-    } catch (error) {
-      console.error('Error loading data:', error);
-      toast.error('Failed to load data');
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    if (candidatesQuery.isError) toast.error('Failed to load candidates');
+  }, [candidatesQuery.isError]);
 
-  const loadCandidates = async () => {
-    if (!selectedJobId) return;
-    
-    try {
-      const url = `/api/candidates?jobId=${selectedJobId}&page=1&pageSize=1000`;
-      const response = await apiCall(url);
-      if (response.ok) {
-        const data: ApiResponse<Candidate[]> = await response.json();
-        setCandidates(data.data || []);
-      }
-    } catch (error) {
-      console.error('Error loading candidates:', error);
-      toast.error('Failed to load candidates');
-    }
+  const pipeline = resolvePipeline(jobs.find(j => j.id === selectedJobId), pipelines);
+
+  // Assessments are offered once a candidate is past the first stage and still in process
+  const canInviteToAssessment = (stageId: string) => {
+    const activeStages = getActiveStages(pipeline);
+    return activeStages.findIndex(s => s.id === stageId) > 0;
   };
 
   const getCandidatesByStage = (stage: string) => {
@@ -78,17 +81,9 @@ const CandidateKanbanSimple: React.FC = () => {
   };
 
   const getStageBadge = (stage: string) => {
-    const badgeClasses = {
-      applied: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-      screen: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
-      tech: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
-      offer: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-      hired: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200',
-      rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
-    };
     return (
-      <span className={`px-2 py-1 text-xs font-medium rounded-full ${badgeClasses[stage as keyof typeof badgeClasses] || badgeClasses.applied}`}>
-        {stage}
+      <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStageClasses(pipeline, stage).badge}`}>
+        {getStage(pipeline, stage).label}
       </span>
     );
   };
@@ -98,58 +93,77 @@ const CandidateKanbanSimple: React.FC = () => {
     e.dataTransfer.effectAllowed = 'move';
   };
 
-  const handleDragOver = (e: React.DragEvent) => {
+  const handleDragEnd = () => {
+    setDraggedCandidate(null);
+  };
+
+  // Drop targets the pipeline rules rule out are disabled while dragging
+  const isDropAllowed = (stage: string) => {
+    if (!draggedCandidate || draggedCandidate.stage === stage) return false;
+    return canTransitionTo(pipeline, draggedCandidate.stage, stage, {
+      hasAssessment: jobHasAssessment,
+      assessmentCompleted: draggedCandidate.assessmentCompleted
+    });
+  };
+
+  const handleDragOver = (e: React.DragEvent, stage: string) => {
+    if (!isDropAllowed(stage)) {
+      e.dataTransfer.dropEffect = 'none';
+      return;
+    }
     e.preventDefault();
     e.dataTransfer.dropEffect = 'move';
   };
 
   const handleDrop = async (e: React.DragEvent, targetStage: string) => {
     e.preventDefault();
-    
-    if (!draggedCandidate || draggedCandidate.stage === targetStage) {
-      setDraggedCandidate(null);
+    const candidate = draggedCandidate;
+    setDraggedCandidate(null);
+
+    if (!candidate || !isDropAllowed(targetStage)) {
       return;
     }
 
-    const oldStage = draggedCandidate.stage;
+    // Stages like offer or rejected need details before the move is sent
+    if (getRequiredFields(pipeline, targetStage).length > 0) {
+      setPendingMove({ candidate, stage: targetStage });
+      return;
+    }
 
-    // Optimistic update
-    const updatedCandidates = candidates.map(c =>
-      c.id === draggedCandidate.id ? { ...c, stage: targetStage } : c
-    );
-    setCandidates(updatedCandidates);
+    await moveCandidate(candidate, targetStage);
+  };
+
+  const moveCandidate = async (candidate: Candidate, targetStage: string, fields?: TransitionFields) => {
+    const targetLabel = getStage(pipeline, targetStage).label;
 
     try {
-      const response = await apiCall(`/api/candidates/${draggedCandidate.id}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          stage: targetStage,
-          notes: `Moved from ${oldStage} to ${targetStage} by ${user.name}`
-        })
+      const result = await moveCandidateMutation.mutateAsync({
+        candidate,
+        stage: targetStage,
+        fields,
+        notes: `Moved from ${getStage(pipeline, candidate.stage).label} to ${targetLabel} by ${user.name}`,
+        movedBy: user.name
       });
 
-      if (response.ok) {
-        toast.success(`Candidate moved to ${targetStage} stage`);
-        loadCandidates();
-      } else {
-        throw new Error('Failed to update candidate stage');
-      }
+      // A queued move stays where it was dropped; the queue replays it when the API is reachable
+      toast.success(isQueuedWrite(result)
+        ? `Move to ${targetLabel} saved offline and will sync when you reconnect`
+        : `Candidate moved to ${targetLabel} stage`);
     } catch (error) {
       console.error('Error updating candidate stage:', error);
-      setCandidates(candidates);
-      toast.error('Failed to update candidate stage');
+      toast.error(error instanceof ApiError
+        ? formatTransitionErrors(error.body, 'Failed to update candidate stage')
+        : 'Failed to update candidate stage');
     } finally {
-      setDraggedCandidate(null);
+      setPendingMove(null);
     }
   };
 
   const handleInviteToAssessment = async (candidate: Candidate) => {
     try {
-      // Check if assessment exists for this job
-      const assessmentResponse = await apiCall(`/api/assessments/${selectedJobId}`);
-      const assessmentData = await assessmentResponse.json();
-      const hasExistingAssessment = assessmentData.data;
+      // Make sure the answer reflects assessments created since the board loaded
+      const { data: assessmentData } = await assessmentQuery.refetch();
+      const hasExistingAssessment = assessmentData?.data;
 
       if (hasExistingAssessment) {
         // Show modal to choose between existing or new assessment
@@ -184,42 +198,21 @@ const CandidateKanbanSimple: React.FC = () => {
 
   const sendAssessmentInvitation = async (candidate: Candidate) => {
     try {
-      const response = await apiCall(`/api/candidates/${candidate.id}/invite-assessment`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jobId: selectedJobId,
-          invitedBy: user.name,
-          stage: candidate.stage
-        })
+      await inviteMutation.mutateAsync({
+        candidateId: candidate.id,
+        jobId: selectedJobId,
+        invitedBy: user.name,
+        stage: candidate.stage
       });
-
-      if (response.ok) {
-        toast.success(`Assessment invitation sent to ${candidate.name}`);
-      } else {
-        throw new Error('Failed to send invitation');
-      }
+      toast.success(`Assessment invitation sent to ${candidate.name}`);
     } catch (error) {
       console.error('Error sending invitation:', error);
       toast.error('Failed to send assessment invitation');
     }
   };
 
-  const openCandidateModal = async (candidate: Candidate) => {
+  const openCandidateModal = (candidate: Candidate) => {
     setSelectedCandidate(candidate);
-    setModalLoading(true);
-    
-    try {
-      const applicationsResponse = await apiCall(`/api/candidates?search=${encodeURIComponent(candidate.email)}&page=1&pageSize=100`);
-      if (applicationsResponse.ok) {
-        const applicationsData = await applicationsResponse.json();
-        setCandidateApplications(applicationsData.data || []);
-      }
-    } catch (error) {
-      console.error('Error loading candidate details:', error);
-    } finally {
-      setModalLoading(false);
-    }
   };
 
   if (loading) {
@@ -286,6 +279,22 @@ const CandidateKanbanSimple: React.FC = () => {
               />
             </div>
           </div>
+
+          {/* Sort */}
+          <div className="sm:w-56">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Sort Cards
+            </label>
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as 'appliedAt' | 'matchScore')}
+              className="w-full px-3 py-2 border-none rounded-xl bg-gradient-to-r from-[#0a1128] via-blue-800 to-indigo-900 text-white focus:ring-2 focus:ring-fuchsia-500 shadow-md transition-colors [&>option]:bg-[#0a1128] [&>option]:text-white font-bold"
+              style={{background: 'linear-gradient(90deg, #0a1128 0%, #1e3a8a 50%, #312e81 100%)'}}
+            >
+              <option value="appliedAt">Newest first</option>
+              <option value="matchScore">Best match first</option>
+            </select>
+          </div>
         </div>
 
         {selectedJobId && (
@@ -298,19 +307,26 @@ const CandidateKanbanSimple: React.FC = () => {
       </div>
 
       <div className="flex gap-6 overflow-x-auto pb-4">
-        {stages.map(stage => (
+        {pipeline.stages.map(({ id: stage, label, icon }) => (
           <div 
             key={stage} 
             className="flex-shrink-0 w-80"
-            onDragOver={handleDragOver}
+            onDragOver={(e) => handleDragOver(e, stage)}
             onDrop={(e) => handleDrop(e, stage)}
           >
-            <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 h-full min-h-[400px]">
+            <div className={`bg-gray-50 dark:bg-gray-700 rounded-lg p-4 h-full min-h-[400px] transition-opacity ${
+              draggedCandidate && draggedCandidate.stage !== stage
+                ? isDropAllowed(stage)
+                  ? 'ring-2 ring-fuchsia-400'
+                  : 'opacity-40 cursor-not-allowed'
+                : ''
+            }`}>
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-semibold text-gray-900 dark:text-white capitalize">
-                  {stage.charAt(0).toUpperCase() + stage.slice(1)}
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {icon && <span className="mr-2">{icon}</span>}
+                  {label}
                 </h3>
-                <span className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded-full text-sm font-medium">
+                <span className={`px-2 py-1 rounded-full text-sm font-medium ${getStageClasses(pipeline, stage).badge}`}>
                   {getCandidatesByStage(stage).length}
                 </span>
               </div>
@@ -321,6 +337,7 @@ const CandidateKanbanSimple: React.FC = () => {
                     key={candidate.id}
                     draggable
                     onDragStart={(e) => handleDragStart(e, candidate)}
+                    onDragEnd={handleDragEnd}
                     onClick={() => openCandidateModal(candidate)}
                     className={`bg-gradient-to-br from-blue-50 via-fuchsia-50 to-indigo-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 rounded-2xl p-5 border border-fuchsia-200 dark:border-fuchsia-700 shadow-xl cursor-pointer transition-all duration-200 ${
                       draggedCandidate?.id === candidate.id ? 'opacity-50 scale-95' : 'hover:shadow-2xl hover:border-fuchsia-400'
@@ -331,7 +348,10 @@ const CandidateKanbanSimple: React.FC = () => {
                         <div className="w-12 h-12 bg-gradient-to-br from-fuchsia-500 via-blue-500 to-indigo-600 rounded-full flex items-center justify-center text-white font-extrabold text-xl shadow-lg border-4 border-white dark:border-gray-900">
                           <span>{candidate.name.charAt(0).toUpperCase()}</span>
                         </div>
-                        <h4 className="font-bold text-lg text-gray-900 dark:text-white">{candidate.name}</h4>
+                        <div>
+                          <h4 className="font-bold text-lg text-gray-900 dark:text-white">{candidate.name}</h4>
+                          <MatchScoreBadge score={candidate.matchScore} />
+                        </div>
                       </div>
                       {getStageBadge(candidate.stage)}
                     </div>
@@ -356,17 +376,30 @@ const CandidateKanbanSimple: React.FC = () => {
                       >
                         View Profile →
                       </a>
-                      {(stage === 'screen' || stage === 'tech') && (
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleInviteToAssessment(candidate);
-                          }}
-                          className="inline-flex items-center px-2 py-1 text-xs font-medium text-green-600 dark:text-green-400 hover:text-green-700 dark:hover:text-green-300 bg-green-50 dark:bg-green-900/20 rounded transition-colors"
-                        >
-                          📝 Invite Assessment
-                        </button>
-                      )}
+                      <div className="flex flex-col items-end space-y-1">
+                        {hasPermission(user.role, 'interviews:manage') && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setSchedulingFor(candidate);
+                            }}
+                            className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 bg-blue-50 dark:bg-blue-900/20 rounded transition-colors"
+                          >
+                            🗓️ Schedule Interview
+                          </button>
+                        )}
+                        {canInviteToAssessment(stage) && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleInviteToAssessment(candidate);
+                            }}
+                            className="inline-flex items-center px-2 py-1 text-xs font-medium text-green-600 dark:text-green-400 hover:text-green-700 dark:hover:text-green-300 bg-green-50 dark:bg-green-900/20 rounded transition-colors"
+                          >
+                            📝 Invite Assessment
+                          </button>
+                        )}
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -430,18 +463,11 @@ const CandidateKanbanSimple: React.FC = () => {
                     <div className="space-y-3">
                       <div>
                         <span className="text-sm text-gray-600 dark:text-gray-400">Current Stage:</span>
-                        <div className={`inline-block ml-2 px-3 py-1 text-sm font-medium rounded-full ${
-                          selectedCandidate.stage === 'applied' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' :
-                          selectedCandidate.stage === 'screen' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' :
-                          selectedCandidate.stage === 'tech' ? 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200' :
-                          selectedCandidate.stage === 'offer' ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' :
-                          selectedCandidate.stage === 'hired' ? 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200' :
-                          'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
-                        }`}>
-                          {selectedCandidate.stage}
+                        <div className={`inline-block ml-2 px-3 py-1 text-sm font-medium rounded-full ${getStageClasses(pipeline, selectedCandidate.stage).badge}`}>
+                          {getStage(pipeline, selectedCandidate.stage).label}
                         </div>
                       </div>
-                      {(selectedCandidate.stage === 'screen' || selectedCandidate.stage === 'tech') && (
+                      {canInviteToAssessment(selectedCandidate.stage) && (
                         <div className="pt-2">
                           <button
                             onClick={() => handleInviteToAssessment(selectedCandidate)}
@@ -460,6 +486,7 @@ const CandidateKanbanSimple: React.FC = () => {
                     <div className="space-y-3 max-h-60 overflow-y-auto">
                       {candidateApplications.map((app) => {
                         const job = jobs.find(j => j.id === app.jobId);
+                        const appPipeline = resolvePipeline(job, pipelines);
                         return (
                           <div key={app.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
                             <div>
@@ -470,15 +497,8 @@ const CandidateKanbanSimple: React.FC = () => {
                                 Applied {new Date(app.appliedAt).toLocaleDateString()}
                               </p>
                             </div>
-                            <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                              app.stage === 'applied' ? 'bg-blue-100 text-blue-800' :
-                              app.stage === 'screen' ? 'bg-yellow-100 text-yellow-800' :
-                              app.stage === 'tech' ? 'bg-purple-100 text-purple-800' :
-                              app.stage === 'offer' ? 'bg-green-100 text-green-800' :
-                              app.stage === 'hired' ? 'bg-emerald-100 text-emerald-800' :
-                              'bg-red-100 text-red-800'
-                            }`}>
-                              {app.stage}
+                            <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStageClasses(appPipeline, app.stage).badge}`}>
+                              {getStage(appPipeline, app.stage).label}
                             </span>
                           </div>
                         );
@@ -496,7 +516,7 @@ const CandidateKanbanSimple: React.FC = () => {
                           </div>
                           <div className="flex-1">
                             <div className="flex items-center space-x-2">
-                              <h4 className="font-medium text-gray-900 dark:text-white capitalize">{entry.stage}</h4>
+                              <h4 className="font-medium text-gray-900 dark:text-white">{getStage(pipeline, entry.stage).label}</h4>
                               <span className="text-sm text-gray-500 dark:text-gray-400">
                                 {new Date(entry.timestamp).toLocaleDateString()}
                               </span>
@@ -513,6 +533,23 @@ const CandidateKanbanSimple: React.FC = () => {
           </div>
         </div>
       )}
+
+      <StageTransitionModal
+        isOpen={!!pendingMove}
+        stage={pendingMove ? getStage(pipeline, pendingMove.stage) : null}
+        candidateName={pendingMove?.candidate.name}
+        loading={moveCandidateMutation.isLoading}
+        onCancel={() => setPendingMove(null)}
+        onConfirm={(fields) => pendingMove && moveCandidate(pendingMove.candidate, pendingMove.stage, fields)}
+      />
+
+      <ScheduleInterviewModal
+        isOpen={!!schedulingFor}
+        onClose={() => setSchedulingFor(null)}
+        applicationId={schedulingFor?.applicationId || ''}
+        candidateName={schedulingFor?.name}
+        stage={schedulingFor?.stage}
+      />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { 
   MagnifyingGlassIcon, 
@@ -8,14 +8,22 @@ import {
   EnvelopeIcon,
   PhoneIcon,
   CalendarIcon,
-  BriefcaseIcon
+  BriefcaseIcon,
+  ArrowDownTrayIcon
 } from '@heroicons/react/24/outline';
 import { Candidate, Job, ApiResponse } from '../types';
 import { apiCall } from '../utils/apiUtils';
+import { useSearch } from '../hooks/useSearch';
+import { STAGE_COLOR_CLASSES, getKnownStages, getStage } from '../utils/pipelineUtils';
+import { isIndexedQuery, matchesSubstring } from '../utils/searchUtils';
+import MatchScoreBadge from './common/MatchScoreBadge';
+import ExportModal from './ExportModal';
+import Button from './ui/Button';
 import toast from 'react-hot-toast';
 
 
 const PAGE_SIZE = 12;
+const SEARCH_LIMIT = 1000;
 
 const CandidateListProfessional: React.FC = () => {
   const [candidates, setCandidates] = useState<Candidate[]>([]);
@@ -25,32 +33,29 @@ const CandidateListProfessional: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [stageFilter, setStageFilter] = useState('');
   const [jobFilter, setJobFilter] = useState('');
+  const [sortBy, setSortBy] = useState<'appliedAt' | 'matchScore'>('appliedAt');
   const [page, setPage] = useState(1);
+  const [exportOpen, setExportOpen] = useState(false);
   const navigate = useNavigate();
+  // Search also matches resumes, notes and written answers, so it runs against the index
+  const { data: searchResults } = useSearch({ q: searchTerm, limit: SEARCH_LIMIT });
 
-  const stages = [
-    { value: 'applied', label: 'Applied', color: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' },
-    { value: 'screen', label: 'Screening', color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' },
-    { value: 'tech', label: 'Technical', color: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200' },
-    { value: 'offer', label: 'Offer', color: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
-    { value: 'hired', label: 'Hired', color: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200' },
-    { value: 'rejected', label: 'Rejected', color: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' }
-  ];
-
-  useEffect(() => {
-    loadData();
-  }, []);
+  const stages = getKnownStages().map(stage => ({
+    value: stage.id,
+    label: stage.label,
+    color: STAGE_COLOR_CLASSES[stage.color].badge
+  }));
 
   const filteredCandidates = useMemo(() => {
     let filtered = allCandidates;
 
-    if (searchTerm.trim()) {
-      const searchLower = searchTerm.toLowerCase().trim();
-      filtered = filtered.filter(candidate => 
-        candidate.name.toLowerCase().includes(searchLower) ||
-        candidate.email.toLowerCase().includes(searchLower) ||
-        candidate.phone.toLowerCase().includes(searchLower)
-      );
+    if (isIndexedQuery(searchTerm)) {
+      if (searchResults) {
+        const matchingPeople = new Set(searchResults.data.map(result => result.personId));
+        filtered = filtered.filter(candidate => !!candidate.personId && matchingPeople.has(candidate.personId));
+      }
+    } else if (searchTerm.trim()) {
+      filtered = filtered.filter(candidate => matchesSubstring(searchTerm, candidate.name, candidate.email, candidate.phone));
     }
 
     if (stageFilter) {
@@ -62,7 +67,7 @@ const CandidateListProfessional: React.FC = () => {
     }
 
     return filtered;
-  }, [allCandidates, searchTerm, stageFilter, jobFilter]);
+  }, [allCandidates, searchTerm, searchResults, stageFilter, jobFilter]);
 
   const paginatedCandidates = useMemo(() => {
     const startIndex = (page - 1) * PAGE_SIZE;
@@ -71,12 +76,12 @@ const CandidateListProfessional: React.FC = () => {
 
   const totalPages = Math.ceil(filteredCandidates.length / PAGE_SIZE);
 
-  const loadData = async () => {
+  const loadData = useCallback(async () => {
     try {
       setLoading(true);
       
       // Load candidates
-      const candidatesResponse = await apiCall('/api/candidates?page=1&pageSize=1000');
+      const candidatesResponse = await apiCall(`/api/candidates?page=1&pageSize=1000&sortBy=${sortBy}`);
       if (candidatesResponse.ok) {
         const candidatesData: ApiResponse<Candidate[]> = await candidatesResponse.json();
         setAllCandidates(candidatesData.data);
@@ -95,7 +100,11 @@ const CandidateListProfessional: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [sortBy]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
 
   const openCandidateProfile = (candidate: Candidate) => {
     navigate(`/candidates/${candidate.id}`);
@@ -106,7 +115,8 @@ const CandidateListProfessional: React.FC = () => {
   };
 
   const getStageInfo = (stage: string) => {
-    return stages.find(s => s.value === stage) || stages[0];
+    const info = getStage(undefined, stage);
+    return { value: info.id, label: info.label, color: STAGE_COLOR_CLASSES[info.color].badge };
   };
 
   const getJobTitle = (jobId: string) => {
@@ -138,12 +148,15 @@ const CandidateListProfessional: React.FC = () => {
               Manage your candidate pipeline • <span className="font-semibold">{filteredCandidates.length} candidates found</span>
             </p>
           </div>
+          <Button variant="secondary" onClick={() => setExportOpen(true)} icon={<ArrowDownTrayIcon className="w-4 h-4" />}>
+            Export
+          </Button>
 
         </div>
 
         {/* Filters */}
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-8">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 bg-gradient-to-br from-blue-900 via-fuchsia-900 to-indigo-900 dark:from-blue-950 dark:via-fuchsia-950 dark:to-indigo-950 rounded-2xl border border-fuchsia-700 shadow-xl p-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 bg-gradient-to-br from-blue-900 via-fuchsia-900 to-indigo-900 dark:from-blue-950 dark:via-fuchsia-950 dark:to-indigo-950 rounded-2xl border border-fuchsia-700 shadow-xl p-6">
             <div className="relative">
               <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
               <input
@@ -179,6 +192,16 @@ const CandidateListProfessional: React.FC = () => {
                 <option key={job.id} value={job.id}>{job.title}</option>
               ))}
             </select>
+
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as 'appliedAt' | 'matchScore')}
+              className="w-full px-3 py-2 border-none rounded-xl bg-[#0a1128] text-white focus:ring-2 focus:ring-blue-500 shadow-md transition-colors [&>option]:bg-[#0a1128] [&>option]:text-white"
+              style={{backgroundColor: '#0a1128'}}
+            >
+              <option value="appliedAt">Newest first</option>
+              <option value="matchScore">Best match first</option>
+            </select>
             
             <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
               <FunnelIcon className="w-4 h-4 mr-2" />
@@ -207,9 +230,12 @@ const CandidateListProfessional: React.FC = () => {
                       <h3 className="text-xl font-extrabold text-gray-900 dark:text-white mb-1 tracking-tight">
                         {candidate.name}
                       </h3>
-                      <span className={`px-2 py-1 text-xs font-semibold rounded-full shadow ${stageInfo.color}`}>
-                        {stageInfo.label}
-                      </span>
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full shadow ${stageInfo.color}`}>
+                          {stageInfo.label}
+                        </span>
+                        <MatchScoreBadge score={candidate.matchScore} />
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -303,6 +329,19 @@ const CandidateListProfessional: React.FC = () => {
 
 
       </div>
+
+      <ExportModal
+        isOpen={exportOpen}
+        onClose={() => setExportOpen(false)}
+        dataset="candidates"
+        filters={{
+          search: searchTerm.trim() || undefined,
+          stage: stageFilter,
+          jobId: jobFilter,
+          sortBy
+        }}
+        name="Candidates"
+      />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { FixedSizeList as List } from 'react-window';
 import { useNavigate } from 'react-router-dom';
 import { 
@@ -12,10 +12,15 @@ import {
 } from '@heroicons/react/24/outline';
 import { Candidate, Job, ApiResponse } from '../types';
 import { apiCall } from '../utils/apiUtils';
+import { useSearch } from '../hooks/useSearch';
+import { getKnownStages, getStage, getStageClasses } from '../utils/pipelineUtils';
+import { isIndexedQuery, matchesSubstring } from '../utils/searchUtils';
+import MatchScoreBadge from './common/MatchScoreBadge';
 import toast from 'react-hot-toast';
 
 
 const ITEM_HEIGHT = 120;
+const SEARCH_LIMIT = 1000;
 const CONTAINER_HEIGHT = 600;
 
 interface CandidateItemProps {
@@ -33,17 +38,7 @@ const CandidateItem: React.FC<CandidateItemProps> = ({ index, style, data }) =>
   const candidate = candidates[index];
   const job = jobs.find(j => j.id === candidate.jobId);
 
-  const getStageColor = (stage: string) => {
-    const colors = {
-      applied: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-      screen: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
-      tech: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
-      offer: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-      hired: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200',
-      rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
-    };
-    return colors[stage as keyof typeof colors] || colors.applied;
-  };
+  const getStageColor = (stage: string) => getStageClasses(undefined, stage).badge;
 
   return (
     <div style={style} className="px-4">
@@ -59,8 +54,9 @@ const CandidateItem: React.FC<CandidateItemProps> = ({ index, style, data }) =>
                   {candidate.name}
                 </h3>
                 <span className={`px-2 py-1 text-xs font-semibold rounded-full shadow ${getStageColor(candidate.stage)}`}>
-                  {candidate.stage}
+                  {getStage(undefined, candidate.stage).label}
                 </span>
+                <MatchScoreBadge score={candidate.matchScore} />
               </div>
               <div className="flex items-center space-x-4 text-base text-gray-500 dark:text-gray-300 font-semibold">
                 <div className="flex items-center">
@@ -105,17 +101,16 @@ const CandidateListVirtualized: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [stageFilter, setStageFilter] = useState('');
+  const [sortBy, setSortBy] = useState<'appliedAt' | 'matchScore'>('appliedAt');
+  // Search also matches resumes, notes and written answers, so it runs against the index
+  const { data: searchResults } = useSearch({ q: searchTerm, limit: SEARCH_LIMIT });
 
-  useEffect(() => {
-    loadData();
-  }, []);
-
-  const loadData = async () => {
+  const loadData = useCallback(async () => {
     try {
       setLoading(true);
       
       // Load all candidates (no pagination for virtualization)
-      const candidatesResponse = await apiCall('/api/candidates?page=1&pageSize=10000');
+      const candidatesResponse = await apiCall(`/api/candidates?page=1&pageSize=10000&sortBy=${sortBy}`);
       if (candidatesResponse.ok) {
         const candidatesData: ApiResponse<Candidate[]> = await candidatesResponse.json();
         setCandidates(candidatesData.data || []);
@@ -133,17 +128,22 @@ const CandidateListVirtualized: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [sortBy]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
 
   const filteredCandidates = useMemo(() => {
     let filtered = candidates;
 
-    if (searchTerm.trim()) {
-      const searchLower = searchTerm.toLowerCase();
-      filtered = filtered.filter(candidate =>
-        candidate.name.toLowerCase().includes(searchLower) ||
-        candidate.email.toLowerCase().includes(searchLower)
-      );
+    if (isIndexedQuery(searchTerm)) {
+      if (searchResults) {
+        const matchingPeople = new Set(searchResults.data.map(result => result.personId));
+        filtered = filtered.filter(candidate => !!candidate.personId && matchingPeople.has(candidate.personId));
+      }
+    } else if (searchTerm.trim()) {
+      filtered = filtered.filter(candidate => matchesSubstring(searchTerm, candidate.name, candidate.email, candidate.phone));
     }
 
     if (stageFilter) {
@@ -151,7 +151,7 @@ const CandidateListVirtualized: React.FC = () => {
     }
 
     return filtered;
-  }, [candidates, searchTerm, stageFilter]);
+  }, [candidates, searchTerm, searchResults, stageFilter]);
 
   const handleViewCandidate = (candidate: Candidate) => {
     navigate(`/candidates/${candidate.id}`);
@@ -161,7 +161,7 @@ const CandidateListVirtualized: React.FC = () => {
     loadData();
   };
 
-  const stages = ['applied', 'screen', 'tech', 'offer', 'hired', 'rejected'];
+  const stages = getKnownStages();
 
   if (loading) {
     return (
@@ -175,12 +175,12 @@ const CandidateListVirtualized: React.FC = () => {
     <div className="space-y-6">
       {/* Filters */}
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
-  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 bg-gradient-to-br from-[#2a2253] via-[#3c1a5b] to-[#4a0c4a] rounded-2xl border border-blue-900 shadow-xl p-6">
+  <div className="grid grid-cols-1 md:grid-cols-4 gap-4 bg-gradient-to-br from-[#2a2253] via-[#3c1a5b] to-[#4a0c4a] rounded-2xl border border-blue-900 shadow-xl p-6">
           <div className="relative">
             <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
             <input
               type="text"
-              placeholder="Search by name or email..."
+              placeholder="Search names, resumes, notes..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full pl-10 pr-4 py-2 border-none rounded-xl bg-[#0a1128] text-white placeholder-white focus:ring-2 focus:ring-blue-500 shadow-md transition-colors"
@@ -196,11 +196,21 @@ const CandidateListVirtualized: React.FC = () => {
           >
             <option value="">All Stages</option>
             {stages.map(stage => (
-              <option key={stage} value={stage}>
-                {stage.charAt(0).toUpperCase() + stage.slice(1)}
+              <option key={stage.id} value={stage.id}>
+                {stage.label}
               </option>
             ))}
           </select>
+
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as 'appliedAt' | 'matchScore')}
+            className="w-full px-3 py-2 border-none rounded-xl bg-[#0a1128] text-white focus:ring-2 focus:ring-blue-500 shadow-md transition-colors [&>option]:bg-[#0a1128] [&>option]:text-white"
+            style={{backgroundColor: '#0a1128'}}
+          >
+            <option value="appliedAt">Newest first</option>
+            <option value="matchScore">Best match first</option>
+          </select>
           
           <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
             <FunnelIcon className="w-4 h-4 mr-2" />
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { CheckIcon, PencilIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Job } from '../types';
+import { SKILL_TAXONOMY, computeSkillMatch, normalizeSkill, normalizeSkills } from '../utils/skillUtils';
+import MatchScoreBadge from './common/MatchScoreBadge';
+import Button from './ui/Button';
+
+interface CandidateSkillsProps {
+  skills: string[];
+  job?: Job; // Skills are compared against this job's tags
+  canEdit: boolean;
+  onSave: (skills: string[]) => Promise<boolean>;
+}
+
+const CandidateSkills: React.FC<CandidateSkillsProps> = ({ skills, job, canEdit, onSave }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<string[]>([]);
+  const [input, setInput] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const match = job ? computeSkillMatch(skills, job.tags) : undefined;
+  const matched = new Set((match?.matched || []).map(skill => skill.toLowerCase()));
+
+  const startEditing = () => {
+    setDraft(skills);
+    setInput('');
+    setEditing(true);
+  };
+
+  const addDraftSkills = (text: string) => {
+    const added = text.split(',').map(normalizeSkill).filter(Boolean);
+    if (added.length > 0) setDraft(current => normalizeSkills([...current, ...added]));
+    setInput('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    // Whatever is still in the input counts as added
+    const next = normalizeSkills([...draft, ...input.split(',')]);
+    if (await onSave(next)) setEditing(false);
+    setSaving(false);
+  };
+
+  if (editing) {
+    return (
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {draft.map(skill => (
+            <span key={skill} className="inline-flex items-center px-3 py-1 text-sm rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+              {skill}
+              <button
+                onClick={() => setDraft(current => current.filter(s => s !== skill))}
+                className="ml-1 hover:text-blue-600 dark:hover:text-blue-300"
+                title={`Remove ${skill}`}
+              >
+                <XMarkIcon className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <input
+          type="text"
+          value={input}
+          list="skill-taxonomy"
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addDraftSkills(input);
+            }
+          }}
+          placeholder="Add a skill and press Enter"
+          className="input-base"
+        />
+        <datalist id="skill-taxonomy">
+          {SKILL_TAXONOMY.map(skill => <option key={skill.name} value={skill.name} />)}
+        </datalist>
+        <div className="flex justify-end space-x-3">
+          <Button variant="secondary" size="sm" onClick={() => setEditing(false)}>
+            Cancel
+          </Button>
+          <Button variant="primary" size="sm" onClick={handleSave} loading={saving} icon={<CheckIcon className="w-4 h-4" />}>
+            Save Skills
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          {skills.length > 0 ? skills.map(skill => (
+            <span
+              key={skill}
+              className={`px-3 py-1 text-sm rounded-full ${matched.has(skill.toLowerCase())
+                ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'}`}
+            >
+              {skill}
+            </span>
+          )) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No skills listed</p>
+          )}
+        </div>
+        {canEdit && (
+          <button
+            onClick={startEditing}
+            className="flex-shrink-0 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+            title="Edit skills"
+          >
+            <PencilIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {job && match && job.tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <MatchScoreBadge score={match.score} />
+          <span>for {job.title}</span>
+          {match.missing.length > 0 && (
+            <span className="text-gray-500 dark:text-gray-400">· Missing: {match.missing.join(', ')}</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CandidateSkills;
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import { runExport } from '../services/exports';
+import { EXPORT_COLUMNS, ExportDataset, ExportFilters, ExportFormat, getDefaultExportColumns } from '../utils/exportUtils';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  dataset: ExportDataset;
+  filters: ExportFilters; // The list's active filters; the export covers every matching record
+  name: string; // File name prefix and sheet name, e.g. "Candidates"
+}
+
+const FORMATS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: 'csv', label: 'CSV', hint: 'Plain text, opens anywhere' },
+  { value: 'xlsx', label: 'Excel (XLSX)', hint: 'Spreadsheet with a frozen header row' }
+];
+
+const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, dataset, filters, name }) => {
+  const [columns, setColumns] = useState<string[]>([]);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState({ loaded: 0, total: 0 });
+
+  const available = EXPORT_COLUMNS[dataset];
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setColumns(getDefaultExportColumns(dataset));
+    setProgress({ loaded: 0, total: 0 });
+  }, [isOpen, dataset]);
+
+  const toggleColumn = (key: string) => {
+    setColumns(current => current.includes(key) ? current.filter(k => k !== key) : [...current, key]);
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const count = await runExport({
+        dataset,
+        filters,
+        columns,
+        format,
+        name,
+        onProgress: (loaded, total) => setProgress({ loaded, total })
+      });
+      toast.success(`Exported ${count} record${count === 1 ? '' : 's'}`);
+      onClose();
+    } catch (error: any) {
+      console.error('Export error:', error);
+      toast.error(error?.body?.error || error?.message || 'Failed to export');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={exporting ? () => undefined : onClose} title={`Export ${name}`} size="lg">
+      <div className="space-y-6">
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Columns</label>
+            <div className="space-x-3 text-sm">
+              <button onClick={() => setColumns(available.map(column => column.key))} className="text-blue-600 dark:text-blue-400 hover:underline">
+                All
+              </button>
+              <button onClick={() => setColumns([])} className="text-blue-600 dark:text-blue-400 hover:underline">
+                None
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {available.map(column => (
+              <label key={column.key} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={columns.includes(column.key)}
+                  onChange={() => toggleColumn(column.key)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>{column.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Format</label>
+          <div className="grid grid-cols-2 gap-3">
+            {FORMATS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setFormat(option.value)}
+                className={`text-left px-4 py-3 rounded-lg border transition-colors ${format === option.value
+                  ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/20'
+                  : 'border-gray-200 dark:border-gray-700 hover:border-blue-400'}`}
+              >
+                <div className="text-sm font-medium text-gray-900 dark:text-white">{option.label}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">{option.hint}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {exporting && progress.total > 0 && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Fetched {progress.loaded} of {progress.total} records…
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button variant="secondary" onClick={onClose} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleExport}
+            loading={exporting}
+            disabled={columns.length === 0}
+            icon={<ArrowDownTrayIcon className="w-4 h-4" />}
+          >
+            Export
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ExportModal;
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { CheckCircleIcon, XCircleIcon, ClockIcon } from '@heroicons/react/24/outline';
 import { apiCall } from '../utils/apiUtils';
 import { db } from '../services/database';
+import { DEFAULT_JOB_FIELDS } from '../utils/jobUtils';
 
 interface FeatureTest {
   name: string;
@@ -22,7 +23,7 @@ const FeatureChecker: React.FC = () => {
       description: 'Check if IndexedDB is initialized with seed data',
       test: async () => {
         const jobCount = await db.jobs.count();
-        const candidateCount = await db.candidates.count();
+        const candidateCount = await db.applications.count();
         const assessmentCount = await db.assessments.count();
         return jobCount >= 25 && candidateCount >= 1000 && assessmentCount >= 3;
       }
@@ -76,16 +77,16 @@ const FeatureChecker: React.FC = () => {
       name: 'Virtualized List Data',
       description: 'Check if 1000+ candidates can be loaded',
       test: async () => {
-        const candidates = await db.candidates.toArray();
-        return candidates.length >= 1000;
+        const applications = await db.applications.toArray();
+        return applications.length >= 1000;
       }
     },
     {
       name: 'Job Stages Data',
       description: 'Verify candidates have different stages',
       test: async () => {
-        const candidates = await db.candidates.toArray();
-        const stages = new Set(candidates.map(c => c.stage));
+        const applications = await db.applications.toArray();
+        const stages = new Set(applications.map(app => app.stage));
         return stages.size >= 4; // At least 4 different stages
       }
     },
@@ -106,18 +107,19 @@ const FeatureChecker: React.FC = () => {
       name: 'Timeline Data',
       description: 'Verify candidates have timeline entries',
       test: async () => {
-        const candidates = await db.candidates.limit(10).toArray();
-        return candidates.every(c => c.timeline && c.timeline.length > 0);
+        const applications = await db.applications.limit(10).toArray();
+        return applications.every(app => app.timeline && app.timeline.length > 0);
       }
     },
     {
       name: 'Job Status Mix',
-      description: 'Check jobs have mixed active/archived status',
+      description: 'Check jobs span open, closed and unapproved requisitions',
       test: async () => {
         const jobs = await db.jobs.toArray();
-        const activeJobs = jobs.filter(j => j.status === 'active').length;
-        const archivedJobs = jobs.filter(j => j.status === 'archived').length;
-        return activeJobs > 0 && archivedJobs > 0;
+        const openJobs = jobs.filter(j => j.status === 'open').length;
+        const closedJobs = jobs.filter(j => j.status === 'closed').length;
+        const pendingJobs = jobs.filter(j => j.status === 'pending-approval' || j.status === 'draft').length;
+        return openJobs > 0 && closedJobs > 0 && pendingJobs > 0;
       }
     },
     {
@@ -163,9 +165,10 @@ const FeatureChecker: React.FC = () => {
           slug: 'test-job',
           description: 'Test',
           location: 'Test',
-          status: 'active',
+          status: 'draft',
           tags: [],
           order: 999,
+          ...DEFAULT_JOB_FIELDS,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString()
         });
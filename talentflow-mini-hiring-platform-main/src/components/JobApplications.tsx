@@ -10,44 +10,53 @@ import {
   CheckCircleIcon,
   XCircleIcon,
   ChatBubbleLeftRightIcon,
-  EyeIcon
+  EyeIcon,
+  ArrowDownTrayIcon
 } from '@heroicons/react/24/outline';
-import { Application, Candidate } from '../types';
+import { Application, Candidate, Pipeline, PipelineStage } from '../types';
 import { apiCall } from '../utils/apiUtils';
+import { DEFAULT_PIPELINE, getNextStage, getOutcomeStage, getStage, getStageClasses, isTerminalStage } from '../utils/pipelineUtils';
+import { TransitionFields, formatStageFields, formatTransitionErrors } from '../utils/stageTransitions';
+import StageTransitionModal from './StageTransitionModal';
+import MatchScoreBadge from './common/MatchScoreBadge';
+import ExportModal from './ExportModal';
+import Button from './ui/Button';
 import { useAuth } from '../store';
 import toast from 'react-hot-toast';
 
 interface JobApplicationsProps {
   jobId: string;
+  jobTitle?: string; // Names the export file
 }
 
-const STAGES = [
-  { key: 'applied', label: 'Applied', color: 'blue' },
-  { key: 'screen', label: 'Screening', color: 'yellow' },
-  { key: 'tech', label: 'Technical', color: 'purple' },
-  { key: 'offer', label: 'Offer', color: 'green' },
-  { key: 'hired', label: 'Hired', color: 'emerald' },
-  { key: 'rejected', label: 'Rejected', color: 'red' }
-];
-
-const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
+const JobApplications: React.FC<JobApplicationsProps> = ({ jobId, jobTitle }) => {
   const [applications, setApplications] = useState<Application[]>([]);
+  const [pipeline, setPipeline] = useState<Pipeline>(DEFAULT_PIPELINE);
   const [candidates, setCandidates] = useState<Record<string, Candidate>>({});
   const [loading, setLoading] = useState(true);
   const [selectedCandidate, setSelectedCandidate] = useState<string | null>(null);
   const [movingStage, setMovingStage] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<{ application: Application; stage: PipelineStage } | null>(null);
+  const [sortBy, setSortBy] = useState<'appliedAt' | 'matchScore'>('appliedAt');
+  const [exportOpen, setExportOpen] = useState(false);
   const { user } = useAuth();
 
   useEffect(() => {
     loadApplications();
-  }, [jobId]);
+  }, [jobId, sortBy]);
 
   const loadApplications = async () => {
     try {
       setLoading(true);
+
+      const pipelineResponse = await apiCall(`/api/jobs/${jobId}/pipeline`);
+      if (pipelineResponse.ok) {
+        const pipelineData = await pipelineResponse.json();
+        setPipeline(pipelineData.data || DEFAULT_PIPELINE);
+      }
       
       // Load applications for this job
-      const appsResponse = await apiCall(`/api/applications?jobId=${jobId}`);
+      const appsResponse = await apiCall(`/api/applications?jobId=${jobId}&sortBy=${sortBy}`);
       if (appsResponse.ok) {
         const appsData = await appsResponse.json();
         setApplications(appsData.data || []);
@@ -74,12 +83,9 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
     }
   };
 
-  const moveToNextStage = async (applicationId: string, currentStage: string) => {
-    const stageIndex = STAGES.findIndex(s => s.key === currentStage);
-    if (stageIndex === -1 || stageIndex >= STAGES.length - 2) return; // Can't move from hired/rejected
-    
-    const nextStage = STAGES[stageIndex + 1];
-    
+  const moveApplication = async (applicationId: string, stage: PipelineStage, fields?: TransitionFields) => {
+    const isRejection = stage.outcome === 'rejected';
+
     try {
       setMovingStage(applicationId);
       
@@ -87,50 +93,46 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          stage: nextStage.key,
-          notes: `Moved to ${nextStage.label} stage`,
+          stage: stage.id,
+          fields,
+          notes: isRejection ? 'Application rejected' : `Moved to ${stage.label} stage`,
           movedBy: user?.name || 'HR Manager'
         })
       });
 
       if (response.ok) {
-        toast.success(`Candidate moved to ${nextStage.label} stage`);
+        toast.success(isRejection ? 'Candidate rejected' : `Candidate moved to ${stage.label} stage`);
+        setPendingMove(null);
         loadApplications();
       } else {
-        toast.error('Failed to update candidate stage');
+        const data = await response.json().catch(() => ({}));
+        toast.error(formatTransitionErrors(data, isRejection ? 'Failed to reject candidate' : 'Failed to update candidate stage'));
       }
     } catch (error) {
-      toast.error('Failed to update candidate stage');
+      toast.error(isRejection ? 'Failed to reject candidate' : 'Failed to update candidate stage');
     } finally {
       setMovingStage(null);
     }
   };
 
-  const rejectCandidate = async (applicationId: string) => {
-    try {
-      setMovingStage(applicationId);
-      
-      const response = await apiCall(`/api/applications/${applicationId}/stage`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          stage: 'rejected',
-          notes: 'Application rejected',
-          movedBy: user?.name || 'HR Manager'
-        })
-      });
+  // Stages with required fields collect them before the move is sent
+  const requestMove = (application: Application, stage: PipelineStage | undefined) => {
+    if (!stage) return;
 
-      if (response.ok) {
-        toast.success('Candidate rejected');
-        loadApplications();
-      } else {
-        toast.error('Failed to reject candidate');
-      }
-    } catch (error) {
-      toast.error('Failed to reject candidate');
-    } finally {
-      setMovingStage(null);
+    if (stage.requiredFields?.length) {
+      setPendingMove({ application, stage });
+      return;
     }
+
+    moveApplication(application.id, stage);
+  };
+
+  const moveToNextStage = (application: Application) => {
+    requestMove(application, getNextStage(pipeline, application.stage));
+  };
+
+  const rejectCandidate = (application: Application) => {
+    requestMove(application, rejectedStage);
   };
 
   const formatDate = (dateString: string) => {
@@ -141,13 +143,10 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
     });
   };
 
-  const getStageColor = (stage: string) => {
-    const stageInfo = STAGES.find(s => s.key === stage);
-    return stageInfo?.color || 'gray';
-  };
+  const rejectedStage = getOutcomeStage(pipeline, 'rejected');
 
   const canMoveToNext = (stage: string) => {
-    return !['hired', 'rejected'].includes(stage);
+    return !!getNextStage(pipeline, stage);
   };
 
   if (loading) {
@@ -172,15 +171,29 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
 
   return (
     <div className="space-y-6">
+      <div className="flex justify-end space-x-3">
+        <Button variant="secondary" size="sm" onClick={() => setExportOpen(true)} icon={<ArrowDownTrayIcon className="w-4 h-4" />}>
+          Export
+        </Button>
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as 'appliedAt' | 'matchScore')}
+          className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="appliedAt">Newest first</option>
+          <option value="matchScore">Best match first</option>
+        </select>
+      </div>
+
       {/* Applications by Stage */}
-      {STAGES.slice(0, -1).map((stage) => {
-        const stageApplications = applications.filter(app => app.stage === stage.key);
+      {pipeline.stages.filter(stage => stage.id !== rejectedStage?.id).map((stage) => {
+        const stageApplications = applications.filter(app => app.stage === stage.id);
         
         if (stageApplications.length === 0) return null;
 
         return (
           <motion.div
-            key={stage.key}
+            key={stage.id}
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700"
@@ -190,7 +203,7 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
                 <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
                   {stage.label} ({stageApplications.length})
                 </h3>
-                <span className={`px-3 py-1 text-sm font-medium rounded-full bg-${stage.color}-100 text-${stage.color}-800 dark:bg-${stage.color}-900 dark:text-${stage.color}-200`}>
+                <span className={`px-3 py-1 text-sm font-medium rounded-full ${getStageClasses(pipeline, stage.id).badge}`}>
                   {stage.label}
                 </span>
               </div>
@@ -218,6 +231,7 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
                             <h4 className="font-medium text-gray-900 dark:text-white">
                               {candidate.name}
                             </h4>
+                            <MatchScoreBadge score={application.matchScore} />
                             <button
                               onClick={() => setSelectedCandidate(selectedCandidate === candidate.id ? null : candidate.id)}
                               className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
@@ -242,7 +256,7 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
                       <div className="flex items-center space-x-2">
                         {canMoveToNext(application.stage) && (
                           <button
-                            onClick={() => moveToNextStage(application.id, application.stage)}
+                            onClick={() => moveToNextStage(application)}
                             disabled={movingStage === application.id}
                             className="inline-flex items-center px-3 py-1 text-sm font-medium text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900 hover:bg-green-200 dark:hover:bg-green-800 rounded-lg transition-colors disabled:opacity-50"
                           >
@@ -255,9 +269,9 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
                           </button>
                         )}
                         
-                        {application.stage !== 'rejected' && (
+                        {rejectedStage && !isTerminalStage(pipeline, application.stage) && (
                           <button
-                            onClick={() => rejectCandidate(application.id)}
+                            onClick={() => rejectCandidate(application)}
                             disabled={movingStage === application.id}
                             className="inline-flex items-center px-3 py-1 text-sm font-medium text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900 hover:bg-red-200 dark:hover:bg-red-800 rounded-lg transition-colors disabled:opacity-50"
                           >
@@ -276,7 +290,7 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
       })}
 
       {/* Rejected Candidates */}
-      {applications.some(app => app.stage === 'rejected') && (
+      {rejectedStage && applications.some(app => app.stage === rejectedStage.id) && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -284,13 +298,13 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
         >
           <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-              Rejected ({applications.filter(app => app.stage === 'rejected').length})
+              {rejectedStage.label} ({applications.filter(app => app.stage === rejectedStage.id).length})
             </h3>
           </div>
 
           <div className="p-6">
             <div className="space-y-4">
-              {applications.filter(app => app.stage === 'rejected').map((application) => {
+              {applications.filter(app => app.stage === rejectedStage.id).map((application) => {
                 const candidate = candidates[application.candidateId];
                 if (!candidate) return null;
 
@@ -358,7 +372,7 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
                   .find(app => app.candidateId === selectedCandidate)
                   ?.timeline.map((entry, index) => (
                     <div key={entry.id} className="flex items-start space-x-4">
-                      <div className={`w-8 h-8 rounded-full flex items-center justify-center bg-${getStageColor(entry.stage)}-100 text-${getStageColor(entry.stage)}-600`}>
+                      <div className={`w-8 h-8 rounded-full flex items-center justify-center ${getStageClasses(pipeline, entry.stage).badge}`}>
                         {index === 0 ? (
                           <UserIcon className="w-4 h-4" />
                         ) : (
@@ -369,7 +383,7 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
                       <div className="flex-1">
                         <div className="flex items-center space-x-2">
                           <h4 className="font-medium text-gray-900 dark:text-white">
-                            {STAGES.find(s => s.key === entry.stage)?.label || entry.stage}
+                            {getStage(pipeline, entry.stage).label}
                           </h4>
                           <span className="text-sm text-gray-500 dark:text-gray-400">
                             {formatDate(entry.timestamp)}
@@ -378,6 +392,11 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
                         <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
                           {entry.notes}
                         </p>
+                        {entry.fields && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {formatStageFields(pipeline, entry.stage, entry.fields)}
+                          </p>
+                        )}
                         {entry.movedBy && (
                           <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
                             by {entry.movedBy}
@@ -391,6 +410,23 @@ const JobApplications: React.FC<JobApplicationsProps> = ({ jobId }) => {
           </motion.div>
         </motion.div>
       )}
+
+      <StageTransitionModal
+        isOpen={!!pendingMove}
+        stage={pendingMove?.stage || null}
+        candidateName={pendingMove ? candidates[pendingMove.application.candidateId]?.name : undefined}
+        loading={!!pendingMove && movingStage === pendingMove.application.id}
+        onCancel={() => setPendingMove(null)}
+        onConfirm={(fields) => pendingMove && moveApplication(pendingMove.application.id, pendingMove.stage, fields)}
+      />
+
+      <ExportModal
+        isOpen={exportOpen}
+        onClose={() => setExportOpen(false)}
+        dataset="applications"
+        filters={{ jobId, sortBy }}
+        name={jobTitle ? `${jobTitle} Applications` : 'Applications'}
+      />
     </div>
   );
 };
@@ -1,135 +1,153 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Link } from 'react-router-dom';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { 
   PlusIcon, 
   MagnifyingGlassIcon, 
   FunnelIcon,
   EyeIcon,
   PencilIcon,
-  ArchiveBoxIcon,
-  ArchiveBoxXMarkIcon,
   Bars3Icon,
-  ArrowLeftIcon
+  ArrowLeftIcon,
+  ArrowDownTrayIcon,
+  TrashIcon,
+  CheckBadgeIcon
 } from '@heroicons/react/24/outline';
-import { Job, ApiResponse } from '../types';
+import { Job, RequisitionAction } from '../types';
 import JobModal from './JobModal';
+import ExportModal from './ExportModal';
+import ApprovalChainModal from './ApprovalChainModal';
 import toast from 'react-hot-toast';
-import { apiCall } from '../utils/apiUtils';
+import { ApiError, isQueuedWrite } from '../utils/apiUtils';
+import { useJobFilterOptions, useJobs, useReorderJob } from '../hooks/useJobs';
+import { useDeleteJob } from '../hooks/useTrash';
+import { useRequisitionAction } from '../hooks/useRequisitions';
+import { useAuth } from '../store';
+import { hasPermission } from '../utils/permissions';
+import {
+  EMPLOYMENT_TYPES,
+  EMPLOYMENT_TYPE_LABELS,
+  REMOTE_POLICIES,
+  REMOTE_POLICY_LABELS,
+  SENIORITY_LABELS,
+  SENIORITY_LEVELS,
+  formatSalary
+} from '../utils/jobUtils';
+import {
+  JOB_STATUSES,
+  JOB_STATUS_CLASSES,
+  JOB_STATUS_LABELS,
+  REQUISITION_TRANSITIONS,
+  getManagementActions
+} from '../utils/requisitionUtils';
 
 const PAGE_SIZE = 12;
+const DEBOUNCE_MS = 250;
+
+type FieldFilters = Pick<Job, 'company' | 'department'> & {
+  employmentType?: string;
+  seniority?: string;
+  remotePolicy?: string;
+};
+
+const FILTER_SELECT_CLASS = 'w-full px-3 py-2 border-none rounded-xl text-white focus:ring-2 focus:ring-blue-500 shadow-md transition-colors [&>option]:bg-[#0a1128] [&>option]:text-white';
+const FILTER_SELECT_STYLE = { background: 'linear-gradient(90deg, #0a1128 0%, #001f54 50%, #001233 100%)' };
 
 const JobListSimple: React.FC = () => {
-  const [jobs, setJobs] = useState<Job[]>([]);
-  const [allJobs, setAllJobs] = useState<Job[]>([]);
-  const [loading, setLoading] = useState(true);
+  const requisitionAction = useRequisitionAction();
+  const reorderJob = useReorderJob();
+  const deleteJob = useDeleteJob();
+  const { user } = useAuth();
+  const canManage = hasPermission(user.role, 'jobs:manage');
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('');
   const [tagFilter, setTagFilter] = useState('');
+  const [fieldFilters, setFieldFilters] = useState<FieldFilters>({});
   const [page, setPage] = useState(1);
+  const [searchParams, setSearchParams] = useSearchParams();
   const [showModal, setShowModal] = useState(false);
   const [editingJob, setEditingJob] = useState<Job | null>(null);
   const [draggedJob, setDraggedJob] = useState<Job | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [chainsOpen, setChainsOpen] = useState(false);
+  const [search, setSearch] = useState('');
 
+  // Only query once typing pauses
   useEffect(() => {
-    loadJobs();
+    const timeout = window.setTimeout(() => {
+      setSearch(searchTerm.trim());
+      setPage(1);
+    }, DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // The API filters, orders and pages the list; the neighbouring pages are only
+  // fetched while a job is being dragged, to find the job it lands next to
+  const filters = useMemo(() => ({
+    search: search || undefined,
+    status: statusFilter || undefined,
+    tag: tagFilter || undefined,
+    ...fieldFilters
+  }), [search, statusFilter, tagFilter, fieldFilters]);
+  const { data, isLoading: loading, isError } = useJobs({ ...filters, page, pageSize: PAGE_SIZE }, { keepPreviousData: true });
+  const totalPages = data?.pagination?.totalPages || 0;
+  const previousPage = useJobs({ ...filters, page: page - 1, pageSize: PAGE_SIZE }, { enabled: !!draggedJob && page > 1 });
+  const nextPage = useJobs({ ...filters, page: page + 1, pageSize: PAGE_SIZE }, { enabled: !!draggedJob && page < totalPages });
+  const { data: filterOptions } = useJobFilterOptions();
+
+  const jobs = useMemo(() => data?.data || [], [data]);
+  const matchingCount = data?.pagination?.total ?? 0;
+  const hasFieldFilters = Object.values(fieldFilters).some(Boolean);
+
+  const handleCreateJob = useCallback(() => {
+    setEditingJob(null);
+    setShowModal(true);
   }, []);
 
-  // Listen for keyboard shortcut to open modal
   useEffect(() => {
-    const handleOpenModal = () => {
-      handleCreateJob();
-    };
-
-    window.addEventListener('openJobModal', handleOpenModal);
-    return () => window.removeEventListener('openJobModal', handleOpenModal);
-  }, []);
+    if (isError) toast.error('Failed to load jobs. Please refresh the page.');
+  }, [isError]);
 
-  const filteredJobs = useMemo(() => {
-    let filtered = allJobs;
-
-    if (searchTerm.trim()) {
-      const searchLower = searchTerm.toLowerCase().trim();
-      filtered = filtered.filter(job => 
-        job.title.toLowerCase().includes(searchLower) ||
-        job.description.toLowerCase().includes(searchLower) ||
-        job.location.toLowerCase().includes(searchLower) ||
-        job.tags.some(tag => tag.toLowerCase().includes(searchLower))
-      );
-    }
-
-    if (statusFilter) {
-      filtered = filtered.filter(job => job.status === statusFilter);
-    }
+  // Listen for keyboard shortcut to open modal
+  useEffect(() => {
+    window.addEventListener('openJobModal', handleCreateJob);
+    return () => window.removeEventListener('openJobModal', handleCreateJob);
+  }, [handleCreateJob]);
 
-    if (tagFilter) {
-      filtered = filtered.filter(job => job.tags.includes(tagFilter));
+  // The command palette links here with ?create=1 from other pages
+  useEffect(() => {
+    if (searchParams.get('create') === '1') {
+      handleCreateJob();
+      setSearchParams({}, { replace: true });
     }
+  }, [searchParams, setSearchParams, handleCreateJob]);
 
-    return filtered;
-  }, [allJobs, searchTerm, statusFilter, tagFilter]);
-
-  const paginatedJobs = useMemo(() => {
-    const startIndex = (page - 1) * PAGE_SIZE;
-    return filteredJobs.slice(startIndex, startIndex + PAGE_SIZE);
-  }, [filteredJobs, page]);
-
-  const totalPages = Math.ceil(filteredJobs.length / PAGE_SIZE);
-  const uniqueTags = useMemo(() => Array.from(new Set(allJobs.flatMap(job => job.tags))), [allJobs]);
-
-  const loadJobs = async () => {
+  const setFieldFilter = (field: keyof FieldFilters, value: string) => {
+    setFieldFilters(current => ({ ...current, [field]: value || undefined }));
+    setPage(1);
+  };
+  
+  const handleRequisitionAction = async (job: Job, action: RequisitionAction) => {
     try {
-      setLoading(true);
-      const response = await apiCall('/api/jobs?page=1&pageSize=1000');
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const data: ApiResponse<Job[]> = await response.json();
-      
-      if (!data || !data.data || !Array.isArray(data.data)) {
-        throw new Error('Invalid response format');
-      }
-      
-      const sortedJobs = data.data.sort((a, b) => a.order - b.order);
-      setAllJobs(sortedJobs);
-      setJobs(sortedJobs);
+      const result = await requisitionAction.mutateAsync({ jobId: job.id, action });
+
+      toast.success(isQueuedWrite(result)
+        ? 'Job change saved offline and will sync when you reconnect'
+        : `${job.title}: ${JOB_STATUS_LABELS[result.data.job.status].toLowerCase()}`);
     } catch (error) {
-      console.error('Error loading jobs:', error);
-      toast.error('Failed to load jobs. Please refresh the page.');
-      // Fallback to empty array
-      setAllJobs([]);
-      setJobs([]);
-    } finally {
-      setLoading(false);
+      toast.error((error instanceof ApiError && error.body?.error) || 'Failed to update job');
     }
   };
 
-  const handleCreateJob = () => {
-    setEditingJob(null);
-    setShowModal(true);
-  };
-  
-  const handleJobSave = () => {
-    loadJobs();
-  };
+  const handleDeleteJob = async (job: Job) => {
+    if (!window.confirm(`Delete "${job.title}"? Its applications, assessment and submissions go to the trash with it.`)) return;
 
-  const handleArchiveJob = async (job: Job) => {
     try {
-      const response = await fetch(`/api/jobs/${job.id}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          status: job.status === 'active' ? 'archived' : 'active'
-        })
-      });
-
-      if (!response.ok) throw new Error('Failed to update job');
-      
-      toast.success(`Job ${job.status === 'active' ? 'archived' : 'unarchived'} successfully!`);
-      loadJobs();
+      const result = await deleteJob.mutateAsync(job.id);
+      toast.success(isQueuedWrite(result)
+        ? 'Job deletion saved offline and will sync when you reconnect'
+        : 'Job moved to trash');
     } catch (error) {
-      toast.error('Failed to update job');
+      toast.error((error instanceof ApiError && error.body?.error) || 'Failed to delete job');
     }
   };
 
@@ -144,48 +162,40 @@ const JobListSimple: React.FC = () => {
     e.dataTransfer.dropEffect = 'move';
   };
 
+  const moveJob = async (job: Job, targetJob: Job) => {
+    try {
+      const result = await reorderJob.mutateAsync({ job, toOrder: targetJob.order });
+      toast.success(isQueuedWrite(result)
+        ? 'Job order saved offline and will sync when you reconnect'
+        : 'Job reordered successfully!');
+    } catch (error) {
+      toast.error(error instanceof ApiError && error.status === 409
+        ? 'Jobs were reordered elsewhere; the list has been refreshed'
+        : 'Failed to reorder job');
+    }
+  };
+
   const handleDrop = async (e: React.DragEvent, targetJob: Job) => {
     e.preventDefault();
-    
-    if (!draggedJob || draggedJob.id === targetJob.id) {
-      setDraggedJob(null);
-      return;
-    }
+    const job = draggedJob;
+    setDraggedJob(null);
 
-    // Optimistic update
-    const updatedJobs = [...allJobs];
-    const draggedIndex = updatedJobs.findIndex(j => j.id === draggedJob.id);
-    const targetIndex = updatedJobs.findIndex(j => j.id === targetJob.id);
-    
-    if (draggedIndex !== -1 && targetIndex !== -1) {
-      // Swap positions
-      const temp = updatedJobs[draggedIndex];
-      updatedJobs[draggedIndex] = { ...updatedJobs[targetIndex], order: draggedJob.order };
-      updatedJobs[targetIndex] = { ...temp, order: targetJob.order };
-      
-      setAllJobs(updatedJobs);
+    if (job && job.id !== targetJob.id) {
+      await moveJob(job, targetJob);
     }
+  };
 
-    try {
-      const response = await fetch(`/api/jobs/${draggedJob.id}/reorder`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          fromOrder: draggedJob.order, 
-          toOrder: targetJob.order 
-        })
-      });
-
-      if (!response.ok) throw new Error('Failed to reorder');
-      
-      toast.success('Job reordered successfully!');
-      // Don't reload, keep optimistic update
-    } catch (error) {
-      toast.error('Failed to reorder job');
-      // Revert on error
-      loadJobs();
-    } finally {
-      setDraggedJob(null);
+  // Dropping on Previous/Next moves the job to the end of the previous page or the start of the next
+  const handlePageDrop = async (e: React.DragEvent, direction: -1 | 1) => {
+    e.preventDefault();
+    const job = draggedJob;
+    setDraggedJob(null);
+
+    const neighbour = (direction === 1 ? nextPage : previousPage).data?.data || [];
+    const targetJob = direction === 1 ? neighbour[0] : neighbour[neighbour.length - 1];
+    if (job && targetJob) {
+      await moveJob(job, targetJob);
+      setPage(page + direction);
     }
   };
 
@@ -221,16 +231,43 @@ const JobListSimple: React.FC = () => {
               Job Listings
             </h1>
             <p className="text-gray-600 dark:text-gray-400">
-              Manage and organize your job postings • {filteredJobs.length} jobs found
+              Manage and organize your job postings • {matchingCount} jobs found
             </p>
           </div>
-          <button
-            onClick={handleCreateJob}
-            className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors duration-200 shadow-sm hover:shadow-md"
-          >
-            <PlusIcon className="w-5 h-5 mr-2" />
-            Create Job
-          </button>
+          <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+            {canManage && (
+              <Link
+                to="/jobs/trash"
+                className="inline-flex items-center px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium rounded-lg transition-colors duration-200 shadow-sm"
+              >
+                <TrashIcon className="w-5 h-5 mr-2" />
+                Trash
+              </Link>
+            )}
+            {canManage && (
+              <button
+                onClick={() => setChainsOpen(true)}
+                className="inline-flex items-center px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium rounded-lg transition-colors duration-200 shadow-sm"
+              >
+                <CheckBadgeIcon className="w-5 h-5 mr-2" />
+                Approval Chains
+              </button>
+            )}
+            <button
+              onClick={() => setExportOpen(true)}
+              className="inline-flex items-center px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium rounded-lg transition-colors duration-200 shadow-sm"
+            >
+              <ArrowDownTrayIcon className="w-5 h-5 mr-2" />
+              Export
+            </button>
+            <button
+              onClick={handleCreateJob}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors duration-200 shadow-sm hover:shadow-md"
+            >
+              <PlusIcon className="w-5 h-5 mr-2" />
+              Create Job
+            </button>
+          </div>
         </div>
 
         {/* Filters */}
@@ -250,37 +287,61 @@ const JobListSimple: React.FC = () => {
             
             <select
               value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value)}
+              onChange={(e) => { setStatusFilter(e.target.value); setPage(1); }}
               className="w-full px-3 py-2 border-none rounded-xl bg-gradient-to-r from-[#0a1128] via-[#001f54] to-[#001233] text-white dark:bg-gradient-to-r dark:from-[#0a1128] dark:via-[#001f54] dark:to-[#001233] focus:ring-2 focus:ring-blue-500 shadow-md transition-colors [&>option]:bg-[#0a1128] [&>option]:text-white"
               style={{background: 'linear-gradient(90deg, #0a1128 0%, #001f54 50%, #001233 100%)'}}
             >
               <option value="">All Status</option>
-              <option value="active">Active</option>
-              <option value="archived">Archived</option>
+              {JOB_STATUSES.map(status => (
+                <option key={status} value={status}>{JOB_STATUS_LABELS[status]}</option>
+              ))}
             </select>
             
             <select
               value={tagFilter}
-              onChange={(e) => setTagFilter(e.target.value)}
+              onChange={(e) => { setTagFilter(e.target.value); setPage(1); }}
               className="w-full px-3 py-2 border-none rounded-xl bg-gradient-to-r from-[#0a1128] via-[#001f54] to-[#001233] text-white dark:bg-gradient-to-r dark:from-[#0a1128] dark:via-[#001f54] dark:to-[#001233] focus:ring-2 focus:ring-blue-500 shadow-md transition-colors [&>option]:bg-[#0a1128] [&>option]:text-white"
               style={{background: 'linear-gradient(90deg, #0a1128 0%, #001f54 50%, #001233 100%)'}}
             >
               <option value="">All Tags</option>
-              {uniqueTags.map(tag => (
+              {filterOptions?.data.tags.map(tag => (
                 <option key={tag} value={tag}>{tag}</option>
               ))}
             </select>
             
             <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
               <FunnelIcon className="w-4 h-4 mr-2" />
-              {filteredJobs.length} of {allJobs.length} jobs
+              {matchingCount} of {filterOptions?.data.total ?? matchingCount} jobs
             </div>
           </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-5 gap-4 mt-4">
+            <select value={fieldFilters.company || ''} onChange={(e) => setFieldFilter('company', e.target.value)} className={FILTER_SELECT_CLASS} style={FILTER_SELECT_STYLE}>
+              <option value="">All Companies</option>
+              {filterOptions?.data.companies.map(company => <option key={company} value={company}>{company}</option>)}
+            </select>
+            <select value={fieldFilters.department || ''} onChange={(e) => setFieldFilter('department', e.target.value)} className={FILTER_SELECT_CLASS} style={FILTER_SELECT_STYLE}>
+              <option value="">All Departments</option>
+              {filterOptions?.data.departments.map(department => <option key={department} value={department}>{department}</option>)}
+            </select>
+            <select value={fieldFilters.employmentType || ''} onChange={(e) => setFieldFilter('employmentType', e.target.value)} className={FILTER_SELECT_CLASS} style={FILTER_SELECT_STYLE}>
+              <option value="">All Employment Types</option>
+              {EMPLOYMENT_TYPES.map(type => <option key={type} value={type}>{EMPLOYMENT_TYPE_LABELS[type]}</option>)}
+            </select>
+            <select value={fieldFilters.seniority || ''} onChange={(e) => setFieldFilter('seniority', e.target.value)} className={FILTER_SELECT_CLASS} style={FILTER_SELECT_STYLE}>
+              <option value="">All Levels</option>
+              {SENIORITY_LEVELS.map(level => <option key={level} value={level}>{SENIORITY_LABELS[level]}</option>)}
+            </select>
+            <select value={fieldFilters.remotePolicy || ''} onChange={(e) => setFieldFilter('remotePolicy', e.target.value)} className={FILTER_SELECT_CLASS} style={FILTER_SELECT_STYLE}>
+              <option value="">Any Workplace</option>
+              {REMOTE_POLICIES.map(policy => <option key={policy} value={policy}>{REMOTE_POLICY_LABELS[policy]}</option>)}
+            </select>
+          </div>
         </div>
 
         {/* Jobs Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {paginatedJobs.map((job) => (
+          {jobs.map((job) => (
             <div
               key={job.id}
               draggable
@@ -302,12 +363,8 @@ const JobListSimple: React.FC = () => {
               <div className="flex items-center justify-between mb-5">
                 <div className="flex items-center gap-2">
                   <Bars3Icon className="w-4 h-4 text-gray-400" />
-                  <span className={`px-2 py-1 text-xs font-semibold rounded-full shadow ${
-                    job.status === 'active'
-                      ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                      : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
-                  }`}>
-                    {job.status}
+                  <span className={`px-2 py-1 text-xs font-semibold rounded-full shadow ${JOB_STATUS_CLASSES[job.status]}`}>
+                    {JOB_STATUS_LABELS[job.status]}
                   </span>
                 </div>
                 <span className="text-xs text-gray-400 font-mono">#{job.order}</span>
@@ -320,6 +377,11 @@ const JobListSimple: React.FC = () => {
                     {job.title}
                   </h3>
                 </Link>
+                {(job.company || job.department) && (
+                  <p className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2">
+                    {[job.company, job.department].filter(Boolean).join(' · ')}
+                  </p>
+                )}
                 <p className="text-gray-700 dark:text-gray-300 text-base mb-3 line-clamp-2 font-medium">
                   {job.description}
                 </p>
@@ -327,6 +389,15 @@ const JobListSimple: React.FC = () => {
                   <span className="inline-block"><svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 inline" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 12.414a4 4 0 10-5.657 5.657l4.243 4.243a8 8 0 1111.314-11.314z" /></svg></span>
                   {job.location}
                 </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {[
+                    EMPLOYMENT_TYPE_LABELS[job.employmentType],
+                    SENIORITY_LABELS[job.seniority],
+                    REMOTE_POLICY_LABELS[job.remotePolicy],
+                    formatSalary(job.salary),
+                    job.openings > 1 && `${job.openings} openings`
+                  ].filter(Boolean).join(' · ')}
+                </p>
               </div>
 
               {/* Tags */}
@@ -365,46 +436,53 @@ const JobListSimple: React.FC = () => {
                     <PencilIcon className="w-4 h-4 mr-1" />
                     Edit
                   </button>
+                  {canManage && (
+                    <button
+                      onClick={() => handleDeleteJob(job)}
+                      title="Move to trash"
+                      className="inline-flex items-center px-2 py-1.5 text-sm font-medium text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 transition-colors"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
                 
-                <button
-                  onClick={() => handleArchiveJob(job)}
-                  className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
-                    job.status === 'active'
-                      ? 'text-red-600 hover:text-red-700 hover:bg-red-50 dark:text-red-400 dark:hover:text-red-300 dark:hover:bg-red-900/20'
-                      : 'text-green-600 hover:text-green-700 hover:bg-green-50 dark:text-green-400 dark:hover:text-green-300 dark:hover:bg-green-900/20'
-                  }`}
-                >
-                  {job.status === 'active' ? (
-                    <>
-                      <ArchiveBoxIcon className="w-4 h-4 mr-1" />
-                      Archive
-                    </>
-                  ) : (
-                    <>
-                      <ArchiveBoxXMarkIcon className="w-4 h-4 mr-1" />
-                      Unarchive
-                    </>
-                  )}
-                </button>
+                {canManage && (
+                  <div className="flex space-x-1">
+                    {getManagementActions(job.status).map(action => (
+                      <button
+                        key={action}
+                        onClick={() => handleRequisitionAction(job, action)}
+                        disabled={requisitionAction.isLoading}
+                        className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 ${
+                          action === 'close'
+                            ? 'text-red-600 hover:text-red-700 hover:bg-red-50 dark:text-red-400 dark:hover:text-red-300 dark:hover:bg-red-900/20'
+                            : 'text-green-600 hover:text-green-700 hover:bg-green-50 dark:text-green-400 dark:hover:text-green-300 dark:hover:bg-green-900/20'
+                        }`}
+                      >
+                        {REQUISITION_TRANSITIONS[action].label}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           ))}
         </div>
 
         {/* Empty State */}
-        {filteredJobs.length === 0 && (
+        {jobs.length === 0 && (
           <div className="text-center py-12">
             <div className="text-6xl mb-4">💼</div>
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
               No jobs found
             </h3>
             <p className="text-gray-600 dark:text-gray-400 mb-6">
-              {searchTerm || statusFilter || tagFilter
+              {searchTerm || statusFilter || tagFilter || hasFieldFilters
                 ? 'Try adjusting your filters to see more results.'
                 : 'Get started by creating your first job posting.'}
             </p>
-            {!searchTerm && !statusFilter && !tagFilter && (
+            {!searchTerm && !statusFilter && !tagFilter && !hasFieldFilters && (
               <button
                 onClick={handleCreateJob}
                 className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors"
@@ -422,6 +500,8 @@ const JobListSimple: React.FC = () => {
             <button
               disabled={page === 1}
               onClick={() => setPage(page - 1)}
+              onDragOver={draggedJob && page > 1 ? handleDragOver : undefined}
+              onDrop={(e) => handlePageDrop(e, -1)}
               className="px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-400 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               Previous
@@ -432,6 +512,8 @@ const JobListSimple: React.FC = () => {
             <button
               disabled={page === totalPages}
               onClick={() => setPage(page + 1)}
+              onDragOver={draggedJob && page < totalPages ? handleDragOver : undefined}
+              onDrop={(e) => handlePageDrop(e, 1)}
               className="px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-400 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               Next
@@ -444,8 +526,17 @@ const JobListSimple: React.FC = () => {
           isOpen={showModal}
           onClose={() => { setShowModal(false); setEditingJob(null); }}
           job={editingJob}
-          onSave={handleJobSave}
         />
+
+        <ExportModal
+          isOpen={exportOpen}
+          onClose={() => setExportOpen(false)}
+          dataset="jobs"
+          filters={{ search: searchTerm.trim(), status: statusFilter, tag: tagFilter, ...fieldFilters }}
+          name="Jobs"
+        />
+
+        <ApprovalChainModal isOpen={chainsOpen} onClose={() => setChainsOpen(false)} />
       </div>
     </div>
   );
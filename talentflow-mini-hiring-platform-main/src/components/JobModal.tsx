@@ -1,10 +1,29 @@
 import React, { useState, useEffect } from 'react';
+import { useQueryClient } from 'react-query';
 import Modal from './ui/Modal';
 import Button from './ui/Button';
 import Input from './ui/Input';
 import toast from 'react-hot-toast';
-import { Job } from '../types';
-import { generateSlug, ensureUniqueSlug } from '../utils/jobUtils';
+import { EmploymentType, Job, Pipeline, RemotePolicy, Seniority } from '../types';
+import {
+  DEFAULT_JOB_FIELDS,
+  EMPLOYMENT_TYPES,
+  EMPLOYMENT_TYPE_LABELS,
+  REMOTE_POLICIES,
+  REMOTE_POLICY_LABELS,
+  SALARY_CURRENCIES,
+  SENIORITY_LABELS,
+  SENIORITY_LEVELS,
+  ensureUniqueSlug,
+  generateSlug,
+  validateJobFields
+} from '../utils/jobUtils';
+import { apiCall, isQueuedResponse } from '../utils/apiUtils';
+import { DEFAULT_PIPELINE_ID } from '../utils/pipelineUtils';
+import { DEFAULT_APPROVAL_CHAIN_ID } from '../utils/requisitionUtils';
+import { usePipelines } from '../hooks/useJobs';
+import { useApprovalChains } from '../hooks/useRequisitions';
+import { queryKeys } from '../hooks/queryKeys';
 
 interface JobModalProps {
   isOpen: boolean;
@@ -19,6 +38,20 @@ const JobModal: React.FC<JobModalProps> = ({ isOpen, onClose, job, onSave }) =>
   const [description, setDescription] = useState('');
   const [location, setLocation] = useState('');
   const [tags, setTags] = useState('');
+  const [pipelineId, setPipelineId] = useState(DEFAULT_PIPELINE_ID);
+  const [company, setCompany] = useState('');
+  const [department, setDepartment] = useState('');
+  const [employmentType, setEmploymentType] = useState<EmploymentType>(DEFAULT_JOB_FIELDS.employmentType);
+  const [seniority, setSeniority] = useState<Seniority>(DEFAULT_JOB_FIELDS.seniority);
+  const [remotePolicy, setRemotePolicy] = useState<RemotePolicy>(DEFAULT_JOB_FIELDS.remotePolicy);
+  const [salaryMin, setSalaryMin] = useState('');
+  const [salaryMax, setSalaryMax] = useState('');
+  const [currency, setCurrency] = useState('USD');
+  const [openings, setOpenings] = useState(String(DEFAULT_JOB_FIELDS.openings));
+  const [approvalChainId, setApprovalChainId] = useState(DEFAULT_APPROVAL_CHAIN_ID);
+  const queryClient = useQueryClient();
+  const { data: pipelinesData } = usePipelines({ enabled: isOpen });
+  const { data: chainsData } = useApprovalChains({ enabled: isOpen });
   const [loading, setLoading] = useState(false);
   const [slugError, setSlugError] = useState('');
 
@@ -30,16 +63,44 @@ const JobModal: React.FC<JobModalProps> = ({ isOpen, onClose, job, onSave }) =>
       setDescription(job.description || '');
       setLocation(job.location || '');
       setTags(job.tags?.join(', ') || '');
+      setPipelineId(job.pipelineId || DEFAULT_PIPELINE_ID);
+      setCompany(job.company || '');
+      setDepartment(job.department || '');
+      setEmploymentType(job.employmentType || DEFAULT_JOB_FIELDS.employmentType);
+      setSeniority(job.seniority || DEFAULT_JOB_FIELDS.seniority);
+      setRemotePolicy(job.remotePolicy || DEFAULT_JOB_FIELDS.remotePolicy);
+      setSalaryMin(job.salary?.min !== undefined ? String(job.salary.min) : '');
+      setSalaryMax(job.salary?.max !== undefined ? String(job.salary.max) : '');
+      setCurrency(job.salary?.currency || 'USD');
+      setOpenings(String(job.openings || DEFAULT_JOB_FIELDS.openings));
+      setApprovalChainId(job.approvalChainId || DEFAULT_APPROVAL_CHAIN_ID);
     } else {
       setTitle('');
       setSlug('');
       setDescription('');
       setLocation('');
       setTags('');
+      setPipelineId(DEFAULT_PIPELINE_ID);
+      setCompany('');
+      setDepartment('');
+      setEmploymentType(DEFAULT_JOB_FIELDS.employmentType);
+      setSeniority(DEFAULT_JOB_FIELDS.seniority);
+      setRemotePolicy(DEFAULT_JOB_FIELDS.remotePolicy);
+      setSalaryMin('');
+      setSalaryMax('');
+      setCurrency('USD');
+      setOpenings(String(DEFAULT_JOB_FIELDS.openings));
+      setApprovalChainId(DEFAULT_APPROVAL_CHAIN_ID);
     }
     setSlugError('');
   }, [job, isOpen]);
 
+  // Templates plus any pipeline customised for this job
+  const pipelines = (pipelinesData?.data || []).filter((p: Pipeline) => !p.jobId || p.jobId === job?.id);
+  const chains = chainsData?.data || [];
+  // Once submitted, a requisition keeps the chain it is being approved against
+  const chainLocked = !!job && job.status !== 'draft';
+
   // Auto-generate slug from title
   useEffect(() => {
     if (title && !job) {
@@ -58,6 +119,23 @@ const JobModal: React.FC<JobModalProps> = ({ isOpen, onClose, job, onSave }) =>
       toast.error('Job slug is required');
       return;
     }
+
+    // A cleared range is sent without bounds so an update removes the old one
+    const toAmount = (value: string) => (value.trim() ? Number(value) : undefined);
+    const fields: Partial<Job> = {
+      company: company.trim(),
+      department: department.trim(),
+      employmentType,
+      seniority,
+      remotePolicy,
+      salary: { min: toAmount(salaryMin), max: toAmount(salaryMax), currency },
+      openings: Number(openings)
+    };
+    const fieldErrors = validateJobFields(fields);
+    if (fieldErrors.length > 0) {
+      toast.error(fieldErrors[0]);
+      return;
+    }
     
     setLoading(true);
     setSlugError('');
@@ -72,34 +150,52 @@ const JobModal: React.FC<JobModalProps> = ({ isOpen, onClose, job, onSave }) =>
         description: description.trim(),
         location: location.trim(),
         tags: tags.split(',').map(t => t.trim()).filter(Boolean),
+        ...fields,
+        ...(chainLocked ? {} : { approvalChainId })
       };
 
       if (job) {
         // Edit existing job
-        const response = await fetch(`/api/jobs/${job.id}`, {
+        const response = await apiCall(`/api/jobs/${job.id}`, {
           method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(jobData)
         });
         
         if (!response.ok) throw new Error('Failed to update job');
-        toast.success('Job updated successfully!');
+
+        if (pipelineId !== (job.pipelineId || DEFAULT_PIPELINE_ID)) {
+          const pipelineResponse = await apiCall(`/api/jobs/${job.id}/pipeline`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ pipelineId })
+          });
+
+          if (!pipelineResponse.ok) {
+            const data = await pipelineResponse.json();
+            toast.error(data.details?.length ? `${data.error}: ${data.details.join(', ')}` : data.error || 'Failed to change pipeline');
+            return;
+          }
+        }
+
+        toast.success(isQueuedResponse(response) ? 'Job changes saved offline and will sync when you reconnect' : 'Job updated successfully!');
       } else {
         // Create new job
-        const response = await fetch('/api/jobs', {
+        const response = await apiCall('/api/jobs', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             ...jobData,
-            status: 'active',
-            order: Date.now(),
+            pipelineId,
           })
         });
         
         if (!response.ok) throw new Error('Failed to create job');
-        toast.success('Job created successfully!');
+        toast.success(isQueuedResponse(response) ? 'Job saved offline and will be created when you reconnect' : 'Draft created; submit it for approval to publish it');
       }
       
+      queryClient.invalidateQueries(queryKeys.jobs.all);
+      queryClient.invalidateQueries(queryKeys.pipelines.all);
       if (onSave) onSave(jobData);
       onClose();
     } catch (error) {
@@ -125,7 +221,7 @@ const JobModal: React.FC<JobModalProps> = ({ isOpen, onClose, job, onSave }) =>
           required
           fullWidth
         />
-        
+      
         <Input
           label="Job Slug"
           value={slug}
@@ -136,15 +232,121 @@ const JobModal: React.FC<JobModalProps> = ({ isOpen, onClose, job, onSave }) =>
           required
           fullWidth
         />
-        
-        <Input
-          label="Location"
-          value={location}
-          onChange={(e) => setLocation(e.target.value)}
-          placeholder="Enter location"
-          fullWidth
-        />
-        
+      
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Input
+            label="Company"
+            value={company}
+            onChange={(e) => setCompany(e.target.value)}
+            placeholder="Hiring company or business unit"
+            fullWidth
+          />
+          <Input
+            label="Department"
+            value={department}
+            onChange={(e) => setDepartment(e.target.value)}
+            placeholder="e.g. Engineering"
+            fullWidth
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Input
+            label="Location"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            placeholder="Enter location"
+            fullWidth
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Remote Policy
+            </label>
+            <select
+              value={remotePolicy}
+              onChange={(e) => setRemotePolicy(e.target.value as RemotePolicy)}
+              className="input-base"
+            >
+              {REMOTE_POLICIES.map(policy => (
+                <option key={policy} value={policy}>{REMOTE_POLICY_LABELS[policy]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Employment Type
+            </label>
+            <select
+              value={employmentType}
+              onChange={(e) => setEmploymentType(e.target.value as EmploymentType)}
+              className="input-base"
+            >
+              {EMPLOYMENT_TYPES.map(type => (
+                <option key={type} value={type}>{EMPLOYMENT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Seniority
+            </label>
+            <select
+              value={seniority}
+              onChange={(e) => setSeniority(e.target.value as Seniority)}
+              className="input-base"
+            >
+              {SENIORITY_LEVELS.map(level => (
+                <option key={level} value={level}>{SENIORITY_LABELS[level]}</option>
+              ))}
+            </select>
+          </div>
+          <Input
+            label="Openings"
+            type="number"
+            min={1}
+            value={openings}
+            onChange={(e) => setOpenings(e.target.value)}
+            fullWidth
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Salary Range (yearly)
+          </label>
+          <div className="grid grid-cols-3 gap-4">
+            <input
+              type="number"
+              min={0}
+              value={salaryMin}
+              onChange={(e) => setSalaryMin(e.target.value)}
+              placeholder="Min"
+              className="input-base"
+            />
+            <input
+              type="number"
+              min={0}
+              value={salaryMax}
+              onChange={(e) => setSalaryMax(e.target.value)}
+              placeholder="Max"
+              className="input-base"
+            />
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="input-base"
+            >
+              {Array.from(new Set([...SALARY_CURRENCIES, currency])).map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Leave either bound empty for an open range</p>
+        </div>
+      
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
             Description
@@ -157,7 +359,50 @@ const JobModal: React.FC<JobModalProps> = ({ isOpen, onClose, job, onSave }) =>
             className="input-base"
           />
         </div>
-        
+      
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Hiring Pipeline
+          </label>
+          <select
+            value={pipelineId}
+            onChange={(e) => setPipelineId(e.target.value)}
+            className="input-base"
+          >
+            {pipelines.map(pipeline => (
+              <option key={pipeline.id} value={pipeline.id}>
+                {pipeline.name}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            {pipelines.find(p => p.id === pipelineId)?.stages.map(stage => stage.label).join(' → ')}
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Approval Chain
+          </label>
+          <select
+            value={approvalChainId}
+            onChange={(e) => setApprovalChainId(e.target.value)}
+            disabled={chainLocked}
+            className="input-base"
+          >
+            {chains.map(chain => (
+              <option key={chain.id} value={chain.id}>
+                {chain.name}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            {chainLocked
+              ? 'The chain can only change while the job is a draft'
+              : chains.find(chain => chain.id === approvalChainId)?.steps.map(step => step.label).join(' → ')}
+          </p>
+        </div>
+      
         <Input
           label="Tags"
           value={tags}
@@ -166,7 +411,7 @@ const JobModal: React.FC<JobModalProps> = ({ isOpen, onClose, job, onSave }) =>
           helperText="Separate tags with commas"
           fullWidth
         />
-        
+      
         <div className="flex justify-end space-x-3 pt-4">
           <Button variant="secondary" onClick={onClose}>
             Cancel
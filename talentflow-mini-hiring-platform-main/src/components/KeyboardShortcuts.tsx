@@ -14,6 +14,7 @@ const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({ isOpen, onClose }
       category: 'Global',
       items: [
         { key: '?', description: 'Show keyboard shortcuts' },
+        { key: 'Ctrl/⌘ K', description: 'Open command palette' },
       ]
     },
     {
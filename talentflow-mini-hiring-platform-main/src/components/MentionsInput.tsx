@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { UserIcon } from '@heroicons/react/24/outline';
+import { splitMentions } from '../utils/noteUtils';
 
 interface MentionsInputProps {
   value: string;
@@ -8,7 +9,7 @@ interface MentionsInputProps {
   placeholder?: string;
   className?: string;
   rows?: number;
-  suggestions?: string[];
+  suggestions?: string[]; // Names of teammates that can be mentioned
 }
 
 const MentionsInput: React.FC<MentionsInputProps> = ({
@@ -25,20 +26,6 @@ const MentionsInput: React.FC<MentionsInputProps> = ({
   const [mentionStart, setMentionStart] = useState(-1);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  // Default HR team members for suggestions
-  const defaultSuggestions = [
-    'HR Manager',
-    'John Smith',
-    'Sarah Johnson',
-    'Mike Wilson',
-    'Emily Davis',
-    'David Brown',
-    'Lisa Anderson',
-    'Tom Miller'
-  ];
-
-  const allSuggestions = suggestions.length > 0 ? suggestions : defaultSuggestions;
-
   useEffect(() => {
     const textarea = textareaRef.current;
     if (!textarea) return;
@@ -88,7 +75,7 @@ const MentionsInput: React.FC<MentionsInputProps> = ({
     
     if (mentionMatch) {
       const query = mentionMatch[1].toLowerCase();
-      const filtered = allSuggestions.filter(name => 
+      const filtered = suggestions.filter(name => 
         name.toLowerCase().includes(query)
       );
       
@@ -129,16 +116,15 @@ const MentionsInput: React.FC<MentionsInputProps> = ({
 
   const renderText = (text: string) => {
     // Render @mentions with highlighting
-    const parts = text.split(/(@\w+)/g);
-    return parts.map((part, index) => {
-      if (part.startsWith('@')) {
+    return splitMentions(text, suggestions).map((part, index) => {
+      if (part.mention) {
         return (
           <span key={index} className="text-blue-600 dark:text-blue-400 font-medium">
-            {part}
+            {part.text}
           </span>
         );
       }
-      return part;
+      return part.text;
     });
   };
 
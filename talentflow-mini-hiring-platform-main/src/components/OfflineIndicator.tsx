@@ -1,15 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { 
-  WifiIcon, 
+import {
+  WifiIcon,
   ExclamationTriangleIcon,
-  ClockIcon 
+  ClockIcon,
+  ArrowPathIcon,
+  TrashIcon,
+  XMarkIcon
 } from '@heroicons/react/24/outline';
-import { offlineQueue } from '../services/offlineQueue';
+import { offlineQueue, QueueSnapshot, QueuedRequest } from '../services/offlineQueue';
+
+const describeRequest = (request: QueuedRequest) =>
+  `${request.method} ${new URL(request.url, window.location.origin).pathname}`;
 
 const OfflineIndicator: React.FC = () => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [queueLength, setQueueLength] = useState(0);
+  const [queue, setQueue] = useState<QueueSnapshot>({ pending: [], dead: [] });
+  const [showDeadLetters, setShowDeadLetters] = useState(false);
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -17,43 +24,48 @@ const OfflineIndicator: React.FC = () => {
 
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
-
-    // Check queue length periodically
-    const interval = setInterval(() => {
-      setQueueLength(offlineQueue.getQueueLength());
-    }, 1000);
+    const unsubscribe = offlineQueue.subscribe(setQueue);
 
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
-      clearInterval(interval);
+      unsubscribe();
     };
   }, []);
 
+  useEffect(() => {
+    if (queue.dead.length === 0) setShowDeadLetters(false);
+  }, [queue.dead.length]);
+
+  const pendingCount = queue.pending.length;
+  const deadCount = queue.dead.length;
+
   return (
     <AnimatePresence>
-      {(!isOnline || queueLength > 0) && (
+      {(!isOnline || pendingCount > 0 || deadCount > 0) && (
         <motion.div
           initial={{ opacity: 0, y: -50 }}
           animate={{ opacity: 1, y: 0 }}
           exit={{ opacity: 0, y: -50 }}
-          className="fixed top-20 right-4 z-50"
+          className="fixed top-20 right-4 z-50 flex flex-col items-end space-y-2"
         >
           <div className={`rounded-lg shadow-lg border px-4 py-2 flex items-center space-x-2 ${
-            !isOnline 
+            !isOnline
               ? 'bg-red-50 border-red-200 text-red-800 dark:bg-red-900/20 dark:border-red-800 dark:text-red-200'
               : 'bg-yellow-50 border-yellow-200 text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-200'
           }`}>
             {!isOnline ? (
               <>
                 <ExclamationTriangleIcon className="w-4 h-4" />
-                <span className="text-sm font-medium">Offline</span>
+                <span className="text-sm font-medium">
+                  Offline{pendingCount > 0 && ` · ${pendingCount} change${pendingCount !== 1 ? 's' : ''} waiting`}
+                </span>
               </>
-            ) : queueLength > 0 ? (
+            ) : pendingCount > 0 ? (
               <>
                 <ClockIcon className="w-4 h-4" />
                 <span className="text-sm font-medium">
-                  {queueLength} pending sync{queueLength !== 1 ? 's' : ''}
+                  {pendingCount} pending sync{pendingCount !== 1 ? 's' : ''}
                 </span>
               </>
             ) : (
@@ -62,11 +74,77 @@ const OfflineIndicator: React.FC = () => {
                 <span className="text-sm font-medium">Online</span>
               </>
             )}
+            {deadCount > 0 && (
+              <button
+                onClick={() => setShowDeadLetters(!showDeadLetters)}
+                className="ml-2 px-2 py-0.5 rounded-full bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 text-xs font-semibold"
+              >
+                {deadCount} failed
+              </button>
+            )}
           </div>
+
+          {showDeadLetters && deadCount > 0 && (
+            <div className="w-96 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+              <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Failed changes</h3>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => offlineQueue.retry()}
+                    className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Retry all
+                  </button>
+                  <button
+                    onClick={() => setShowDeadLetters(false)}
+                    className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <p className="px-4 pt-3 text-xs text-gray-500 dark:text-gray-400">
+                Later changes to the same record wait until these are retried or discarded.
+              </p>
+              <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                {queue.dead.map(request => (
+                  <li key={request.id} className="px-4 py-3">
+                    <div className="flex items-start justify-between">
+                      <div className="min-w-0">
+                        <p className="text-sm font-mono text-gray-900 dark:text-white truncate">{describeRequest(request)}</p>
+                        <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                          {request.lastStatus ? `${request.lastStatus}: ` : ''}{request.lastError}
+                        </p>
+                        <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                          {new Date(request.createdAt).toLocaleString()} · {request.attempts} attempt{request.attempts !== 1 ? 's' : ''}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2 ml-3 flex-shrink-0">
+                        <button
+                          onClick={() => offlineQueue.retry([request.id!])}
+                          className="p-1 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded"
+                          title="Retry"
+                        >
+                          <ArrowPathIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => offlineQueue.discard([request.id!])}
+                          className="p-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                          title="Discard"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </motion.div>
       )}
     </AnimatePresence>
   );
 };
 
-export default OfflineIndicator;
\ No newline at end of file
+export default OfflineIndicator;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { CheckCircleIcon, ClockIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import Button from './ui/Button';
+import { Job, RequisitionAction } from '../types';
+import { useAuth } from '../store';
+import { useRequisition, useRequisitionAction, useRequisitionDecision } from '../hooks/useRequisitions';
+import { ApiError, isQueuedWrite } from '../utils/apiUtils';
+import { hasPermission } from '../utils/permissions';
+import {
+  JOB_STATUS_CLASSES,
+  JOB_STATUS_LABELS,
+  REQUISITION_EVENT_LABELS,
+  REQUISITION_TRANSITIONS,
+  getManagementActions
+} from '../utils/requisitionUtils';
+
+interface RequisitionPanelProps {
+  job: Job;
+  onChange: () => void;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error instanceof ApiError && (error.body?.details?.[0] || error.body?.error)) || fallback;
+
+// Where a job stands in its approval workflow, what the viewer can do about it,
+// and who moved it along so far
+const RequisitionPanel: React.FC<RequisitionPanelProps> = ({ job, onChange }) => {
+  const { user } = useAuth();
+  const canManage = hasPermission(user.role, 'jobs:manage');
+  const requisitionQuery = useRequisition(job.id);
+  const requisitionAction = useRequisitionAction();
+  const decision = useRequisitionDecision();
+  const [comment, setComment] = useState('');
+
+  const summary = requisitionQuery.data?.data;
+  const history = summary?.history || [];
+  // A pending requisition follows the steps it was submitted with
+  const steps = job.approval?.steps || summary?.chain?.steps || [];
+  const chainName = job.approval?.chainName || summary?.chain?.name;
+  const busy = requisitionAction.isLoading || decision.isLoading;
+
+  const handleAction = async (action: RequisitionAction) => {
+    try {
+      const result = await requisitionAction.mutateAsync({ jobId: job.id, action, comment });
+      setComment('');
+      if (isQueuedWrite(result)) {
+        toast.success('Saved offline and will sync when you reconnect');
+        return;
+      }
+      toast.success(`Job is now ${JOB_STATUS_LABELS[result.data.job.status].toLowerCase()}`);
+      onChange();
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to update the requisition'));
+    }
+  };
+
+  const handleDecision = async (kind: 'approve' | 'reject') => {
+    try {
+      const result = await decision.mutateAsync({ jobId: job.id, decision: kind, comment });
+      setComment('');
+      if (isQueuedWrite(result)) {
+        toast.success('Decision saved offline and will sync when you reconnect');
+        return;
+      }
+      toast.success(kind === 'approve' ? 'Approved' : 'Rejected and sent back to draft');
+      onChange();
+    } catch (error) {
+      toast.error(errorMessage(error, `Failed to ${kind} the requisition`));
+    }
+  };
+
+  const actions = canManage ? getManagementActions(job.status) : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className={`px-3 py-1 text-sm font-medium rounded-full ${JOB_STATUS_CLASSES[job.status]}`}>
+          {JOB_STATUS_LABELS[job.status]}
+        </span>
+        {chainName && <span className="text-xs text-gray-500 dark:text-gray-400">{chainName}</span>}
+      </div>
+
+      {steps.length > 0 && (
+        <ol className="space-y-2 text-sm">
+          {steps.map((step, index) => {
+            const done = job.approval ? index < job.approval.currentStep : false;
+            const current = summary?.currentStep?.id === step.id;
+            return (
+              <li key={step.id} className="flex items-start">
+                {done ? (
+                  <CheckCircleIcon className="w-5 h-5 mr-2 text-green-600 shrink-0" />
+                ) : (
+                  <ClockIcon className={`w-5 h-5 mr-2 shrink-0 ${current ? 'text-yellow-600' : 'text-gray-400'}`} />
+                )}
+                <div className="min-w-0">
+                  <p className={current ? 'font-medium text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}>
+                    {step.label}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{step.approverEmails.join(', ')}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {(summary?.canDecide || actions.length > 0) && (
+        <div className="space-y-2">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            placeholder={summary?.canDecide ? 'Comment (required to reject)' : 'Comment (optional)'}
+            className="input-base text-sm"
+          />
+          <div className="flex flex-wrap gap-2">
+            {summary?.canDecide && (
+              <>
+                <Button size="sm" onClick={() => handleDecision('approve')} disabled={busy} icon={<CheckCircleIcon className="w-4 h-4" />}>
+                  Approve
+                </Button>
+                <Button
+                  variant="error"
+                  size="sm"
+                  onClick={() => handleDecision('reject')}
+                  disabled={busy || !comment.trim()}
+                  icon={<XCircleIcon className="w-4 h-4" />}
+                >
+                  Reject
+                </Button>
+              </>
+            )}
+            {actions.map(action => (
+              <Button
+                key={action}
+                variant={action === 'close' ? 'error' : 'secondary'}
+                size="sm"
+                onClick={() => handleAction(action)}
+                disabled={busy}
+              >
+                {REQUISITION_TRANSITIONS[action].label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">History</h4>
+        {requisitionQuery.isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading…</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No requisition activity yet.</p>
+        ) : (
+          <ul className="space-y-3 text-sm">
+            {history.slice().reverse().map(event => (
+              <li key={event.id} className="border-l-2 border-gray-200 dark:border-gray-700 pl-3">
+                <p className="text-gray-900 dark:text-white">
+                  {REQUISITION_EVENT_LABELS[event.action]}
+                  {event.stepLabel && <span className="text-gray-500 dark:text-gray-400"> · {event.stepLabel}</span>}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {event.actorName} · {new Date(event.createdAt).toLocaleString()}
+                </p>
+                {event.comment && <p className="mt-1 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{event.comment}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RequisitionPanel;
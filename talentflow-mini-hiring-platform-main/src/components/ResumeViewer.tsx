@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowDownTrayIcon, PaperClipIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { ResumeFileSummary } from '../types';
+import { fetchResumeFile, useResumeFile } from '../hooks/useResumes';
+import { RESUME_TYPES, formatFileSize } from '../utils/resumeUtils';
+import { downloadFile } from '../utils/csvUtils';
+
+interface ResumeViewerProps {
+  file?: ResumeFileSummary;
+  height?: number; // Height of the embedded PDF in pixels
+  children: React.ReactNode; // The resume text, styled by the page
+}
+
+// Uploaded resume with a download link. PDFs are shown inline by the browser's
+// viewer with the extracted text one click away; other formats show their text.
+const ResumeViewer: React.FC<ResumeViewerProps> = ({ file, height = 600, children }) => {
+  const isPdf = file?.type === 'application/pdf';
+  const [showDocument, setShowDocument] = useState(true);
+  const { data: blob, isLoading, isError } = useResumeFile(file?.id, { enabled: isPdf && showDocument });
+  const [objectUrl, setObjectUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    setObjectUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [blob]);
+
+  if (!file) return <>{children}</>;
+
+  const handleDownload = async () => {
+    try {
+      downloadFile(file.name, blob || await fetchResumeFile(file.id));
+    } catch (error) {
+      toast.error('Failed to download resume');
+    }
+  };
+
+  const typeLabel = RESUME_TYPES.find(t => t.type === file.type)?.label || file.type;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300 min-w-0">
+          <PaperClipIcon className="w-4 h-4 flex-shrink-0" />
+          <span className="font-medium truncate">{file.name}</span>
+          <span className="text-gray-500 dark:text-gray-400 flex-shrink-0">
+            {typeLabel} · {formatFileSize(file.size)}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          {isPdf && (
+            <button
+              onClick={() => setShowDocument(!showDocument)}
+              className="px-3 py-1 text-xs font-medium rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              {showDocument ? 'Show text' : 'Show document'}
+            </button>
+          )}
+          <button
+            onClick={handleDownload}
+            className="inline-flex items-center px-3 py-1 text-xs font-medium rounded-lg bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4 mr-1" />
+            Download
+          </button>
+        </div>
+      </div>
+
+      {isPdf && showDocument ? (
+        isError ? (
+          <p className="text-sm text-red-600 dark:text-red-400">Failed to load the resume file</p>
+        ) : isLoading || !objectUrl ? (
+          <div className="flex items-center justify-center" style={{ height }}>
+            <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <iframe
+            src={objectUrl}
+            title={`Resume: ${file.name}`}
+            className="w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white"
+            style={{ height }}
+          />
+        )
+      ) : children}
+    </div>
+  );
+};
+
+export default ResumeViewer;
@@ -0,0 +1,301 @@
+import React, { useState, useEffect } from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import { Interviewer, InterviewConflict, InterviewSummary, InterviewType } from '../types';
+import { apiCall } from '../utils/apiUtils';
+import {
+  INTERVIEW_DURATIONS,
+  INTERVIEW_TYPES,
+  getDefaultInterviewType,
+  toDateInputValue,
+  toTimeInputValue
+} from '../utils/interviewUtils';
+
+interface ScheduleInterviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  applicationId: string;
+  candidateName?: string;
+  stage?: string;
+  interview?: InterviewSummary | null; // Set when rescheduling
+  onSaved?: (interview: InterviewSummary) => void;
+}
+
+// Next weekday at 10:00 as a starting suggestion
+const suggestStart = () => {
+  const start = new Date();
+  start.setDate(start.getDate() + 1);
+  while (start.getDay() === 0 || start.getDay() === 6) {
+    start.setDate(start.getDate() + 1);
+  }
+  start.setHours(10, 0, 0, 0);
+  return start;
+};
+
+// The picked date and time as an ISO range, or null while either is incomplete
+const toSlot = (date: string, time: string, duration: number) => {
+  const start = new Date(`${date}T${time}`);
+  if (isNaN(start.getTime())) return null;
+  return {
+    startTime: start.toISOString(),
+    endTime: new Date(start.getTime() + duration * 60000).toISOString()
+  };
+};
+
+const ScheduleInterviewModal: React.FC<ScheduleInterviewModalProps> = ({
+  isOpen,
+  onClose,
+  applicationId,
+  candidateName,
+  stage,
+  interview,
+  onSaved
+}) => {
+  const [interviewers, setInterviewers] = useState<Interviewer[]>([]);
+  const [type, setType] = useState<InterviewType>('onsite');
+  const [date, setDate] = useState('');
+  const [time, setTime] = useState('');
+  const [duration, setDuration] = useState(60);
+  const [interviewerIds, setInterviewerIds] = useState<number[]>([]);
+  const [location, setLocation] = useState('');
+  const [videoLink, setVideoLink] = useState('');
+  const [notes, setNotes] = useState('');
+  const [conflicts, setConflicts] = useState<InterviewConflict[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const start = interview ? new Date(interview.startTime) : suggestStart();
+    setType(interview?.type || getDefaultInterviewType(stage));
+    setDate(toDateInputValue(start));
+    setTime(toTimeInputValue(start));
+    setDuration(interview
+      ? Math.round((new Date(interview.endTime).getTime() - start.getTime()) / 60000)
+      : 60);
+    setInterviewerIds(interview?.interviewerIds || []);
+    setLocation(interview?.location || '');
+    setVideoLink(interview?.videoLink || '');
+    setNotes(interview?.notes || '');
+    setConflicts([]);
+    loadInterviewers();
+  }, [isOpen, interview, stage]);
+
+  const loadInterviewers = async () => {
+    try {
+      const response = await apiCall('/api/interviewers');
+      if (response.ok) {
+        const result = await response.json();
+        setInterviewers(result.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to load interviewers:', error);
+    }
+  };
+
+  const getSlot = () => toSlot(date, time, duration);
+
+  // Re-check conflicts whenever the slot or panel changes
+  const excludeId = interview?.id;
+  useEffect(() => {
+    if (!isOpen) return;
+    const slot = toSlot(date, time, duration);
+    if (!slot || interviewerIds.length === 0) {
+      setConflicts([]);
+      return;
+    }
+
+    let cancelled = false;
+    apiCall('/api/interviews/conflicts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...slot, interviewerIds, excludeId })
+    })
+      .then(response => response.ok ? response.json() : { data: [] })
+      .then(result => {
+        if (!cancelled) setConflicts(result.data || []);
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, date, time, duration, interviewerIds, excludeId]);
+
+  const toggleInterviewer = (id: number) => {
+    setInterviewerIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  };
+
+  const handleSave = async () => {
+    const slot = getSlot();
+    if (!slot) {
+      toast.error('Pick a date and time');
+      return;
+    }
+    if (interviewerIds.length === 0) {
+      toast.error('Pick at least one interviewer');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await apiCall(interview ? `/api/interviews/${interview.id}` : '/api/interviews', {
+        method: interview ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          applicationId,
+          type,
+          ...slot,
+          interviewerIds,
+          location,
+          videoLink,
+          notes
+        })
+      });
+      const result = await response.json();
+
+      if (response.status === 409) {
+        setConflicts(result.conflicts || []);
+        toast.error(result.error || 'The interview conflicts with interviewer availability');
+        return;
+      }
+      if (!response.ok) {
+        toast.error(result.details?.join('. ') || result.error || 'Failed to schedule interview');
+        return;
+      }
+
+      toast.success(interview ? 'Interview rescheduled' : 'Interview scheduled');
+      onSaved?.(result.data);
+      onClose();
+    } catch (error) {
+      toast.error('Failed to schedule interview');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={interview ? 'Reschedule interview' : `Schedule interview${candidateName ? ` with ${candidateName}` : ''}`}
+      size="lg"
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Interview Type
+            </label>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as InterviewType)}
+              className="input-base"
+            >
+              {INTERVIEW_TYPES.map(t => (
+                <option key={t.value} value={t.value}>{t.icon} {t.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Duration
+            </label>
+            <select
+              value={duration}
+              onChange={(e) => setDuration(Number(e.target.value))}
+              className="input-base"
+            >
+              {Array.from(new Set([...INTERVIEW_DURATIONS, duration])).sort((a, b) => a - b).map(minutes => (
+                <option key={minutes} value={minutes}>{minutes} minutes</option>
+              ))}
+            </select>
+          </div>
+          <Input label="Date" type="date" value={date} onChange={(e) => setDate(e.target.value)} fullWidth />
+          <Input label="Start Time" type="time" value={time} onChange={(e) => setTime(e.target.value)} fullWidth />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Interviewers
+          </label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {interviewers.map(interviewer => (
+              <label
+                key={interviewer.id}
+                className="flex items-center space-x-2 p-2 rounded-lg border border-gray-200 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                <input
+                  type="checkbox"
+                  checked={interviewerIds.includes(interviewer.id)}
+                  onChange={() => toggleInterviewer(interviewer.id)}
+                  className="rounded border-gray-300 text-blue-600"
+                />
+                <span className="text-sm text-gray-900 dark:text-white">{interviewer.name}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{interviewer.role}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+            <div className="flex items-center text-sm font-medium text-amber-800 dark:text-amber-200 mb-1">
+              <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+              Scheduling conflicts
+            </div>
+            <ul className="text-sm text-amber-700 dark:text-amber-300 list-disc list-inside">
+              {conflicts.map((conflict, index) => (
+                <li key={`${conflict.interviewerId}-${index}`}>{conflict.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Input
+            label="Location"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            placeholder="Office, room or address"
+            fullWidth
+          />
+          <Input
+            label="Video Link"
+            value={videoLink}
+            onChange={(e) => setVideoLink(e.target.value)}
+            placeholder="https://meet.example.com/..."
+            fullWidth
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Notes
+          </label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            placeholder="Agenda or preparation notes"
+            className="input-base"
+          />
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} loading={saving} disabled={conflicts.length > 0}>
+            {interview ? 'Reschedule' : 'Schedule Interview'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ScheduleInterviewModal;
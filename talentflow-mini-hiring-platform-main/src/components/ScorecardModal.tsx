@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import { HireRecommendation, InterviewSummary, Scorecard, ScorecardTemplate } from '../types';
+import { apiCall } from '../utils/apiUtils';
+import { RATING_LABELS, RECOMMENDATIONS, validateScorecard } from '../utils/scorecardUtils';
+
+interface ScorecardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  applicationId: string;
+  stage: string;
+  template: ScorecardTemplate | undefined;
+  candidateName?: string;
+  interviews?: InterviewSummary[]; // Interviews of this application a scorecard can be linked to
+  scorecard?: Scorecard | null; // Set when revising your own scorecard
+  onSaved?: (scorecard: Scorecard) => void;
+}
+
+const ScorecardModal: React.FC<ScorecardModalProps> = ({
+  isOpen,
+  onClose,
+  applicationId,
+  stage,
+  template,
+  candidateName,
+  interviews = [],
+  scorecard,
+  onSaved
+}) => {
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [recommendation, setRecommendation] = useState<HireRecommendation | ''>('');
+  const [evidence, setEvidence] = useState('');
+  const [interviewId, setInterviewId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setRatings(scorecard?.ratings || {});
+    setRecommendation(scorecard?.recommendation || '');
+    setEvidence(scorecard?.evidence || '');
+    setInterviewId(scorecard?.interviewId || '');
+  }, [isOpen, scorecard]);
+
+  const handleSave = async () => {
+    const draft = {
+      ratings,
+      recommendation: recommendation || undefined,
+      evidence
+    };
+    const errors = validateScorecard(draft, template);
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await apiCall(scorecard ? `/api/scorecards/${scorecard.id}` : `/api/applications/${applicationId}/scorecards`, {
+        method: scorecard ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...draft, stage, interviewId: interviewId || undefined })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.details?.join('. ') || result.error || 'Failed to save scorecard');
+        return;
+      }
+
+      toast.success(scorecard ? 'Scorecard updated' : 'Scorecard submitted');
+      onSaved?.(result.data);
+      onClose();
+    } catch (error) {
+      toast.error('Failed to save scorecard');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`${template?.name || 'Interview'} scorecard${candidateName ? ` for ${candidateName}` : ''}`}
+      size="lg"
+    >
+      {!template ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">This stage has no scorecard template.</p>
+      ) : (
+        <div className="space-y-5">
+          {interviews.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Interview
+              </label>
+              <select
+                value={interviewId}
+                onChange={(e) => setInterviewId(e.target.value)}
+                className="input-base"
+              >
+                <option value="">Not linked to an interview</option>
+                {interviews.map(interview => (
+                  <option key={interview.id} value={interview.id}>
+                    {new Date(interview.startTime).toLocaleString()} · {interview.interviewerNames.join(', ')}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            {template.competencies.map(competency => (
+              <div key={competency.id}>
+                <div className="flex items-baseline justify-between">
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">{competency.label}</span>
+                  {ratings[competency.id] && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{RATING_LABELS[ratings[competency.id]]}</span>
+                  )}
+                </div>
+                {competency.description && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{competency.description}</p>
+                )}
+                <div className="flex space-x-2">
+                  {[1, 2, 3, 4, 5].map(rating => (
+                    <button
+                      key={rating}
+                      type="button"
+                      onClick={() => setRatings(prev => ({ ...prev, [competency.id]: rating }))}
+                      title={RATING_LABELS[rating]}
+                      className={`w-10 h-10 rounded-lg text-sm font-medium border transition-colors ${
+                        ratings[competency.id] === rating
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {rating}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Overall Recommendation
+            </label>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {RECOMMENDATIONS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setRecommendation(option.value)}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium border-2 transition-colors ${option.classes} ${
+                    recommendation === option.value ? 'border-blue-600' : 'border-transparent opacity-70 hover:opacity-100'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Evidence
+            </label>
+            <textarea
+              value={evidence}
+              onChange={(e) => setEvidence(e.target.value)}
+              rows={4}
+              placeholder="What did the candidate say or do that supports your ratings?"
+              className="input-base"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleSave} loading={saving}>
+              {scorecard ? 'Update Scorecard' : 'Submit Scorecard'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ScorecardModal;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Scorecard, ScorecardSummary as ScorecardSummaryData } from '../types';
+import { RECOMMENDATIONS, getRecommendation } from '../utils/scorecardUtils';
+
+interface ScorecardSummaryProps {
+  scorecards: Scorecard[];
+  summary: ScorecardSummaryData;
+  getStageLabel?: (stageId: string) => string;
+}
+
+const ScorecardSummary: React.FC<ScorecardSummaryProps> = ({ scorecards, summary, getStageLabel }) => {
+  if (summary.count === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white">
+          Scorecards ({summary.count})
+        </h4>
+        {summary.disagreement && (
+          <span className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+            <ExclamationTriangleIcon className="w-3 h-3 mr-1" />
+            Interviewers disagree
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {RECOMMENDATIONS.filter(r => summary.recommendations[r.value] > 0).map(r => (
+          <span key={r.value} className={`px-2 py-0.5 text-xs font-medium rounded-full ${r.classes}`}>
+            {r.label}: {summary.recommendations[r.value]}
+          </span>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {summary.competencies.map(competency => (
+          <div key={competency.competencyId}>
+            <div className="flex items-center justify-between text-xs">
+              <span className={competency.disagreement ? 'text-amber-700 dark:text-amber-300 font-medium' : 'text-gray-600 dark:text-gray-400'}>
+                {competency.label}
+                {competency.disagreement && ` (${competency.min}–${competency.max})`}
+              </span>
+              <span className="text-gray-900 dark:text-white font-medium">{competency.average.toFixed(1)} / 5</span>
+            </div>
+            <div className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full mt-1">
+              <div
+                className={`h-1.5 rounded-full ${competency.disagreement ? 'bg-amber-500' : 'bg-blue-600'}`}
+                style={{ width: `${(competency.average / 5) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {scorecards.map(scorecard => {
+          const recommendation = getRecommendation(scorecard.recommendation);
+          return (
+            <div key={scorecard.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-gray-900 dark:text-white">
+                  {scorecard.interviewerName}
+                  {getStageLabel && <span className="text-gray-500 dark:text-gray-400"> · {getStageLabel(scorecard.stage)}</span>}
+                </span>
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${recommendation.classes}`}>
+                  {recommendation.label}
+                </span>
+              </div>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 whitespace-pre-line">{scorecard.evidence}</p>
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                {new Date(scorecard.submittedAt).toLocaleString()}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ScorecardSummary;
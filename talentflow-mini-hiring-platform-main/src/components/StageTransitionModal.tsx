@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import { PipelineStage } from '../types';
+import { TransitionFields } from '../utils/stageTransitions';
+
+interface StageTransitionModalProps {
+  isOpen: boolean;
+  stage: PipelineStage | null;
+  candidateName?: string;
+  loading?: boolean;
+  onCancel: () => void;
+  onConfirm: (fields: TransitionFields) => void;
+}
+
+// Collects the fields a stage requires before a candidate can enter it
+const StageTransitionModal: React.FC<StageTransitionModalProps> = ({
+  isOpen,
+  stage,
+  candidateName,
+  loading,
+  onCancel,
+  onConfirm
+}) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setValues({});
+    setErrors({});
+  }, [stage, isOpen]);
+
+  const fields = stage?.requiredFields || [];
+
+  const handleConfirm = () => {
+    const nextErrors: Record<string, string> = {};
+    fields.forEach(field => {
+      const value = (values[field.key] || '').trim();
+      if (!value) {
+        nextErrors[field.key] = `${field.label} is required`;
+      } else if (field.type === 'number' && isNaN(Number(value))) {
+        nextErrors[field.key] = `${field.label} must be a number`;
+      }
+    });
+
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    onConfirm(fields.reduce((acc, field) => {
+      acc[field.key] = field.type === 'number' ? Number(values[field.key]) : values[field.key].trim();
+      return acc;
+    }, {} as TransitionFields));
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onCancel}
+      title={stage ? `Move to ${stage.label}` : 'Move candidate'}
+      size="sm"
+    >
+      <div className="space-y-4">
+        {candidateName && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {candidateName} needs a few details before moving to this stage.
+          </p>
+        )}
+
+        {fields.map(field => (
+          <Input
+            key={field.key}
+            label={field.label}
+            type={field.type === 'number' ? 'number' : 'text'}
+            value={values[field.key] || ''}
+            onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+            error={errors[field.key]}
+            required
+            fullWidth
+          />
+        ))}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button variant="secondary" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleConfirm} loading={loading}>
+            Move Candidate
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default StageTransitionModal;
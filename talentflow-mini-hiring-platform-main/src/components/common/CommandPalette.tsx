@@ -0,0 +1,489 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { Candidate, Job } from '../../types';
+import { useAuth, useTheme } from '../../store';
+import { useJobs, usePipelines } from '../../hooks/useJobs';
+import { useCandidate, useCandidates, useMoveCandidate } from '../../hooks/useCandidates';
+import { useSearch } from '../../hooks/useSearch';
+import { useAssessmentList, useInviteToAssessment } from '../../hooks/useAssessments';
+import { ApiError, isQueuedWrite } from '../../utils/apiUtils';
+import { hasPermission, isStaffRole } from '../../utils/permissions';
+import { getStage, resolvePipeline } from '../../utils/pipelineUtils';
+import { canTransitionTo, formatTransitionErrors, getRequiredFields } from '../../utils/stageTransitions';
+import {
+  RecentItem,
+  fuzzyMatch,
+  loadRecentItems,
+  parseInviteCommand,
+  parseMoveCommand,
+  saveRecentItem
+} from '../../utils/commandUtils';
+
+const GROUP_LIMIT = 5;
+const PARAMETER_LIMIT = 8;
+const DEBOUNCE_MS = 200;
+const CANDIDATE_ID = /^candidate-\d+$/i;
+
+type CommandGroup = 'Recent' | 'Actions' | 'Navigation' | 'Jobs' | 'Candidates' | 'Assessments';
+
+interface Command {
+  id: string;
+  group: CommandGroup;
+  title: string;
+  subtitle?: string;
+  keywords?: string; // Matched along with the title but not shown
+  link?: string;
+  run?: () => void;
+  prefill?: string; // Fills the input instead of running, for commands that take arguments
+  remember?: boolean;
+}
+
+interface RankedCommand extends Command {
+  score: number;
+  indices: number[];
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onLogout: () => void;
+  onShowShortcuts: () => void;
+}
+
+// Best match of the query against any of the given texts; only the title's
+// positions are kept for highlighting
+const rank = (command: Command, query: string): RankedCommand | null => {
+  const titleMatch = fuzzyMatch(query, command.title);
+  const keywordMatch = command.keywords ? fuzzyMatch(query, command.keywords) : null;
+  if (!titleMatch && !keywordMatch) return null;
+
+  const score = Math.max(titleMatch?.score ?? -Infinity, keywordMatch ? keywordMatch.score - 1 : -Infinity);
+  return { ...command, score, indices: titleMatch?.indices || [] };
+};
+
+const Highlighted: React.FC<{ text: string; indices: number[] }> = ({ text, indices }) => {
+  if (indices.length === 0) return <>{text}</>;
+  const marked = new Set(indices);
+  return (
+    <>
+      {text.split('').map((char, i) => marked.has(i)
+        ? <span key={i} className="text-blue-600 dark:text-blue-400 font-semibold">{char}</span>
+        : char)}
+    </>
+  );
+};
+
+// Ctrl/Cmd+K palette: jump to jobs, candidates and assessments, or run an action.
+// Jobs and candidates are looked up through the API as you type; commands and
+// assessments are fuzzy-matched here. Each role only gets the commands its
+// permissions allow.
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose, onLogout, onShowShortcuts }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
+  const { theme, toggleTheme } = useTheme();
+  const role = user.role;
+  const isStaff = isStaffRole(role);
+  const canManageJobs = hasPermission(role, 'jobs:manage');
+  const canMove = hasPermission(role, 'candidates:move');
+  const canInvite = hasPermission(role, 'assessments:manage');
+  const canReadAssessments = hasPermission(role, 'assessments:read');
+  const userKey = String(user.id ?? user.email ?? 'anonymous');
+
+  const [query, setQuery] = useState('');
+  const [term, setTerm] = useState(''); // The query once typing pauses
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [recent, setRecent] = useState<RecentItem[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setTerm(query.trim()), DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [query]);
+
+  // What to look up: the candidate part of "move …" and "invite …", else the whole query
+  const lookup = useMemo(() => {
+    const command = (canMove ? parseMoveCommand(term) : null) || (canInvite ? parseInviteCommand(term) : null);
+    const candidate = command ? command.candidate : term;
+    return { isCommand: !!command, candidate, exactId: CANDIDATE_ID.test(candidate) ? candidate.toLowerCase() : '' };
+  }, [term, canMove, canInvite]);
+
+  const jobsQuery = useJobs(
+    { search: term, status: isStaff ? undefined : 'open', page: 1, pageSize: GROUP_LIMIT },
+    { enabled: isOpen && !!term && !lookup.isCommand }
+  );
+  // Ranked by the search index, which also matches resumes and skills
+  const candidateSearch = useSearch(
+    { q: lookup.candidate, types: ['candidate'], limit: GROUP_LIMIT },
+    isOpen && isStaff && !lookup.isCommand && !lookup.exactId
+  );
+  // An exact id such as "candidate-42" opens or moves that application
+  const exactCandidateQuery = useCandidate(lookup.exactId, { enabled: isOpen && isStaff && !!lookup.exactId });
+  const commandCandidatesQuery = useCandidates(
+    { search: lookup.candidate, page: 1, pageSize: PARAMETER_LIMIT },
+    { enabled: isOpen && lookup.isCommand && !!lookup.candidate && !lookup.exactId }
+  );
+  const assessmentsQuery = useAssessmentList({ enabled: isOpen && canReadAssessments });
+  const pipelinesQuery = usePipelines({ enabled: isOpen && canMove });
+  const { mutateAsync: moveCandidate } = useMoveCandidate();
+  const { mutateAsync: inviteToAssessment } = useInviteToAssessment();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setTerm('');
+    setActiveIndex(0);
+    setRecent(loadRecentItems(userKey));
+    window.setTimeout(() => inputRef.current?.focus(), 0);
+  }, [isOpen, userKey]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Applications the move and invite commands act on
+  const candidates = useMemo<Candidate[]>(() => {
+    if (lookup.exactId) return exactCandidateQuery.data ? [exactCandidateQuery.data.data] : [];
+    return lookup.isCommand ? commandCandidatesQuery.data?.data || [] : [];
+  }, [lookup, exactCandidateQuery.data, commandCandidatesQuery.data]);
+  const assessments = useMemo(() => assessmentsQuery.data?.data || [], [assessmentsQuery.data]);
+  const pipelines = useMemo(() => pipelinesQuery.data?.data || [], [pipelinesQuery.data]);
+
+  // Their jobs, for titles and pipelines
+  const candidateJobIds = useMemo(() => Array.from(new Set(candidates.map(candidate => candidate.jobId))).sort().join(','), [candidates]);
+  const candidateJobsQuery = useJobs(
+    { ids: candidateJobIds, page: 1, pageSize: PARAMETER_LIMIT },
+    { enabled: isOpen && !!candidateJobIds }
+  );
+  const jobsById = useMemo(
+    () => new Map<string, Job>((candidateJobsQuery.data?.data || []).map(job => [job.id, job])),
+    [candidateJobsQuery.data]
+  );
+
+  const runMove = useCallback(async (candidate: Candidate, stageId: string) => {
+    const pipeline = resolvePipeline(jobsById.get(candidate.jobId), pipelines);
+    const fromLabel = getStage(pipeline, candidate.stage).label;
+    const toLabel = getStage(pipeline, stageId).label;
+    try {
+      const result = await moveCandidate({
+        candidate,
+        stage: stageId,
+        notes: `Moved from ${fromLabel} to ${toLabel} by ${user.name}`,
+        movedBy: user.name || ''
+      });
+      toast.success(isQueuedWrite(result)
+        ? `Move to ${toLabel} saved offline and will sync when you reconnect`
+        : `${candidate.name} moved to ${toLabel}`);
+    } catch (error) {
+      toast.error(error instanceof ApiError
+        ? formatTransitionErrors(error.body, 'Failed to update candidate stage')
+        : 'Failed to update candidate stage');
+    }
+  }, [jobsById, pipelines, moveCandidate, user.name]);
+
+  const runInvite = useCallback(async (candidate: Candidate) => {
+    // Without an assessment for the job, go and build one first, as the board does
+    if (!assessments.some(assessment => assessment.jobId === candidate.jobId)) {
+      toast('No assessment exists for this job yet');
+      navigate(`/assessments?jobId=${candidate.jobId}&candidateId=${candidate.id}`);
+      return;
+    }
+    try {
+      await inviteToAssessment({
+        candidateId: candidate.id,
+        jobId: candidate.jobId,
+        invitedBy: user.name || '',
+        stage: candidate.stage
+      });
+      toast.success(`Assessment invitation sent to ${candidate.name}`);
+    } catch (error) {
+      toast.error('Failed to send assessment invitation');
+    }
+  }, [assessments, navigate, inviteToAssessment, user.name]);
+
+  // Commands that don't depend on loaded data
+  const staticCommands = useMemo<Command[]>(() => {
+    const commands: Command[] = [];
+
+    if (canManageJobs) {
+      commands.push({
+        id: 'action:create-job',
+        group: 'Actions',
+        title: 'Create job',
+        keywords: 'new job posting',
+        run: () => {
+          // JobListSimple opens its modal for ?create=1; when it's already mounted the event does it
+          if (location.pathname === '/jobs') window.dispatchEvent(new CustomEvent('openJobModal'));
+          else navigate('/jobs?create=1');
+        },
+        remember: true
+      });
+    }
+    if (canMove) {
+      commands.push({ id: 'action:move', group: 'Actions', title: 'Move candidate to stage…', keywords: 'move stage', prefill: 'move ' });
+    }
+    if (canInvite) {
+      commands.push({ id: 'action:invite', group: 'Actions', title: 'Invite to assessment…', keywords: 'invite assessment', prefill: 'invite ' });
+    }
+    commands.push(
+      {
+        id: 'action:toggle-theme',
+        group: 'Actions',
+        title: 'Toggle theme',
+        subtitle: `Switch to ${theme === 'dark' ? 'light' : 'dark'} mode`,
+        keywords: 'dark light mode',
+        run: toggleTheme,
+        remember: true
+      },
+      { id: 'action:shortcuts', group: 'Actions', title: 'Show keyboard shortcuts', keywords: 'help keys', run: onShowShortcuts },
+      { id: 'action:logout', group: 'Actions', title: 'Log out', keywords: 'sign out', run: onLogout }
+    );
+
+    const pages = isStaff ? [
+      { path: '/', title: 'Dashboard' },
+      { path: '/jobs', title: 'Jobs' },
+      { path: '/candidates', title: 'Candidates' },
+      { path: '/candidates/board', title: 'Candidate pipeline board' },
+      { path: '/assessments', title: 'Assessments' },
+      { path: '/interviews', title: 'Interviews' }
+    ] : [
+      { path: '/', title: 'Dashboard' },
+      { path: '/jobs', title: 'Browse jobs' },
+      { path: '/my-applications', title: 'My applications' }
+    ];
+    pages.forEach(page => commands.push({
+      id: `page:${page.path}`,
+      group: 'Navigation',
+      title: `Go to ${page.title}`,
+      link: page.path,
+      remember: true
+    }));
+
+    return commands;
+  }, [canManageJobs, canMove, canInvite, isStaff, theme, toggleTheme, onShowShortcuts, onLogout, navigate, location.pathname]);
+
+  const assessmentCommands = useMemo<Command[]>(() => assessments.map(assessment => ({
+    id: `assessment:${assessment.jobId}`,
+    group: 'Assessments' as const,
+    title: assessment.title,
+    link: `/assessments?jobId=${assessment.jobId}`,
+    remember: true
+  })), [assessments]);
+
+  // Jobs and candidates the API found, in the order it ranked them
+  const foundCommands = useMemo<Command[]>(() => [
+    ...(jobsQuery.data?.data || []).map(job => ({
+      id: `job:${job.id}`,
+      group: 'Jobs' as const,
+      title: job.title,
+      subtitle: `${job.location} · ${job.status}`,
+      link: `/jobs/${job.id}`,
+      remember: true
+    })),
+    ...(lookup.isCommand ? [] : candidates).map(candidate => ({
+      id: `candidate:${candidate.id}`,
+      group: 'Candidates' as const,
+      title: candidate.name,
+      subtitle: `${candidate.email} · ${jobsById.get(candidate.jobId)?.title || candidate.jobId}`,
+      link: `/candidates/${candidate.id}`,
+      remember: true
+    })),
+    ...(candidateSearch.data?.data || []).map(result => ({
+      id: result.key,
+      group: 'Candidates' as const,
+      title: result.title,
+      subtitle: result.subtitle,
+      link: result.link,
+      remember: true
+    }))
+  ], [jobsQuery.data, candidates, jobsById, candidateSearch.data, lookup]);
+
+  const results = useMemo<RankedCommand[]>(() => {
+    const trimmed = query.trim();
+
+    // "move <candidate> to <stage>": one command per reachable stage of the best matches
+    const move = canMove ? parseMoveCommand(trimmed) : null;
+    if (move) {
+      const hasAssessment = new Set(assessments.map(assessment => assessment.jobId));
+      const commands: RankedCommand[] = [];
+      candidates.slice(0, GROUP_LIMIT).forEach(candidate => {
+        // Wait for the job, so the stages offered are those of its pipeline
+        if (!jobsById.has(candidate.jobId)) return;
+        const pipeline = resolvePipeline(jobsById.get(candidate.jobId), pipelines);
+        pipeline.stages
+          // Stages that need an offer amount or a reason are moved from the board
+          .filter(stage => stage.id !== candidate.stage
+            && getRequiredFields(pipeline, stage.id).length === 0
+            && canTransitionTo(pipeline, candidate.stage, stage.id, {
+              hasAssessment: hasAssessment.has(candidate.jobId),
+              assessmentCompleted: candidate.assessmentCompleted
+            }))
+          .map(stage => ({ stage, match: move.stage ? fuzzyMatch(move.stage, stage.label) || fuzzyMatch(move.stage, stage.id) : { score: 0, indices: [] } }))
+          .filter(({ match }) => match)
+          .forEach(({ stage, match }) => commands.push({
+            id: `move:${candidate.id}:${stage.id}`,
+            group: 'Actions',
+            title: `Move ${candidate.name} to ${stage.label}`,
+            subtitle: `${candidate.id} · currently ${getStage(pipeline, candidate.stage).label}`,
+            run: () => runMove(candidate, stage.id),
+            score: match!.score,
+            indices: []
+          }));
+      });
+      return commands.sort((a, b) => b.score - a.score).slice(0, PARAMETER_LIMIT);
+    }
+
+    const invite = canInvite ? parseInviteCommand(trimmed) : null;
+    if (invite) {
+      return candidates.slice(0, PARAMETER_LIMIT).map(candidate => ({
+        id: `invite:${candidate.id}`,
+        group: 'Actions' as const,
+        title: `Invite ${candidate.name} to assessment`,
+        subtitle: `${candidate.id} · ${jobsById.get(candidate.jobId)?.title || candidate.jobId}`,
+        run: () => runInvite(candidate),
+        score: 0,
+        indices: []
+      }));
+    }
+
+    if (!trimmed) {
+      const known = new Map(staticCommands.map(command => [command.id, command]));
+      const recentCommands = recent
+        .map(item => known.get(item.id) || (item.link ? { ...item, group: 'Recent' as const, remember: true } : undefined))
+        .filter((command): command is Command => !!command)
+        .map(command => ({ ...command, group: 'Recent' as const, score: 0, indices: [] }));
+      const recentIds = new Set(recentCommands.map(command => command.id));
+      return [
+        ...recentCommands,
+        ...staticCommands.filter(command => !recentIds.has(command.id)).map(command => ({ ...command, score: 0, indices: [] }))
+      ];
+    }
+
+    // Rank within each group, then show groups in their usual order. Found jobs and
+    // candidates keep the API's order; the sort is stable and their scores equal.
+    const groups: CommandGroup[] = ['Actions', 'Navigation', 'Jobs', 'Candidates', 'Assessments'];
+    const ranked = [
+      ...[...staticCommands, ...assessmentCommands]
+        .map(command => rank(command, trimmed))
+        .filter((command): command is RankedCommand => !!command),
+      ...foundCommands.map(command => ({ ...command, score: 0, indices: fuzzyMatch(trimmed, command.title)?.indices || [] }))
+    ];
+    return groups.flatMap(group => ranked
+      .filter(command => command.group === group)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, GROUP_LIMIT));
+  }, [query, recent, staticCommands, assessmentCommands, foundCommands, candidates, jobsById, assessments, pipelines, canMove, canInvite, runMove, runInvite]);
+
+  const execute = (command: Command) => {
+    if (command.prefill) {
+      setQuery(command.prefill);
+      inputRef.current?.focus();
+      return;
+    }
+    if (command.remember) {
+      saveRecentItem(userKey, { id: command.id, title: command.title, subtitle: command.subtitle, link: command.link });
+    }
+    onClose();
+    if (command.link) navigate(command.link);
+    else command.run?.();
+  };
+
+  // Keep the highlighted row in view while arrowing through the list
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      execute(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const loading = query.trim() !== term || [jobsQuery, candidateSearch, exactCandidateQuery, commandCandidatesQuery].some(q => q.isFetching);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black bg-opacity-50 z-40"
+          />
+          <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-24 pointer-events-none">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: -10 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: -10 }}
+              transition={{ duration: 0.15 }}
+              className="w-full max-w-xl bg-white dark:bg-gray-800 rounded-xl shadow-large overflow-hidden pointer-events-auto"
+            >
+              <div className="flex items-center px-4 border-b border-gray-200 dark:border-gray-700">
+                <MagnifyingGlassIcon className="w-5 h-5 text-gray-400" />
+                <input
+                  ref={inputRef}
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder={isStaff ? 'Search jobs, candidates, assessments or type "move"…' : 'Search jobs or pages…'}
+                  className="flex-1 px-3 py-4 bg-transparent border-none text-gray-900 dark:text-white placeholder-gray-400 focus:ring-0 focus:outline-none"
+                />
+                <kbd className="px-2 py-1 text-xs font-semibold text-gray-500 dark:text-gray-400 border border-gray-200 dark:border-gray-600 rounded">Esc</kbd>
+              </div>
+
+              <div ref={listRef} className="max-h-96 overflow-y-auto py-2">
+                {results.length > 0 ? results.map((command, index) => (
+                  <React.Fragment key={command.id}>
+                    {(index === 0 || results[index - 1].group !== command.group) && (
+                      <p className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500">
+                        {command.group}
+                      </p>
+                    )}
+                    <button
+                      data-index={index}
+                      onClick={() => execute(command)}
+                      onMouseMove={() => setActiveIndex(index)}
+                      className={`w-full text-left px-4 py-2 transition-colors ${
+                        index === activeIndex ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+                      }`}
+                    >
+                      <p className="text-sm text-gray-900 dark:text-white truncate">
+                        <Highlighted text={command.title} indices={command.indices} />
+                      </p>
+                      {command.subtitle && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{command.subtitle}</p>
+                      )}
+                    </button>
+                  </React.Fragment>
+                )) : (
+                  <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+                    {loading ? 'Loading…' : 'No matching commands'}
+                  </p>
+                )}
+              </div>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CommandPalette;
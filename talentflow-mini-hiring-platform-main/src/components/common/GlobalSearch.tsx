@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { SearchDocumentType, SearchResult } from '../../types';
+import { useSearch } from '../../hooks/useSearch';
+import { MIN_QUERY_LENGTH } from '../../utils/searchUtils';
+
+const DEBOUNCE_MS = 250;
+const RESULT_LIMIT = 10;
+
+const TYPE_LABELS: Record<SearchDocumentType, string> = {
+  candidate: 'Candidate',
+  note: 'Note',
+  submission: 'Assessment'
+};
+
+// Header search box over candidates, resumes, notes and written assessment answers
+const GlobalSearch: React.FC = () => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Only search once typing pauses
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setQuery(input), DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [input]);
+
+  const { data, isFetching } = useSearch({ q: query, limit: RESULT_LIMIT });
+  const hasQuery = query.trim().length >= MIN_QUERY_LENGTH;
+  const results = hasQuery ? data?.data || [] : [];
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [data]);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const openResult = (result: SearchResult) => {
+    setOpen(false);
+    setInput('');
+    navigate(result.link);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      openResult(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      (e.target as HTMLInputElement).blur();
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="relative">
+        <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-blue-300" />
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search candidates, notes..."
+          className="w-56 pl-9 pr-3 py-1.5 text-sm rounded-lg bg-blue-900 text-white placeholder-blue-300 border-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <AnimatePresence>
+        {open && hasQuery && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="absolute right-0 mt-2 w-96 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50"
+          >
+            <div className="max-h-96 overflow-y-auto">
+              {results.length > 0 ? results.map((result, index) => (
+                <button
+                  key={result.key}
+                  onClick={() => openResult(result)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 dark:border-gray-700 transition-colors ${
+                    index === activeIndex ? 'bg-gray-50 dark:bg-gray-700' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{result.title}</span>
+                    <span className="ml-2 text-xs text-gray-400 dark:text-gray-500 flex-shrink-0">{TYPE_LABELS[result.type]}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{result.subtitle}</p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 line-clamp-2">
+                    {result.snippet.map((part, i) => part.highlight ? (
+                      <mark key={i} className="bg-yellow-200 dark:bg-yellow-700 text-gray-900 dark:text-white rounded px-0.5">{part.text}</mark>
+                    ) : (
+                      <span key={i}>{part.text}</span>
+                    ))}
+                  </p>
+                </button>
+              )) : (
+                <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+                  {isFetching ? 'Searching...' : 'No matches'}
+                </p>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default GlobalSearch;
@@ -9,12 +9,18 @@ import {
   DocumentTextIcon,
   UserCircleIcon,
   ArrowRightOnRectangleIcon,
-  PlusIcon
+  PlusIcon,
+  CalendarDaysIcon
 } from '@heroicons/react/24/outline';
 import Button from '../ui/Button';
 import ThemeToggle from './ThemeToggle';
+import MentionsInbox from './MentionsInbox';
+import GlobalSearch from './GlobalSearch';
+import NotificationBell from './NotificationBell';
 import KeyboardShortcuts from '../KeyboardShortcuts';
+import CommandPalette from './CommandPalette';
 import { useAuth } from '../../store';
+import { hasPermission, isStaffRole } from '../../utils/permissions';
 
 interface HeaderProps {
   onLogout: () => void;
@@ -25,19 +31,28 @@ const Header: React.FC<HeaderProps> = ({ onLogout }) => {
   const navigate = useNavigate();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
   const { user } = useAuth();
   const role = user.role;
   const username = user.name;
+  const isStaff = isStaffRole(role);
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // The command palette opens from anywhere, inputs included
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setPaletteOpen(open => !open);
+        return;
+      }
+
       // Single key shortcuts (only when not in input)
       if (document.activeElement?.tagName !== 'INPUT' && document.activeElement?.tagName !== 'TEXTAREA') {
         if (e.key === '?') {
           e.preventDefault();
           setShortcutsOpen(true);
-        } else if (role === 'HR') {
+        } else if (isStaff) {
           if (e.key === 'n') {
             e.preventDefault();
             if (location.pathname.startsWith('/jobs')) {
@@ -60,14 +75,15 @@ const Header: React.FC<HeaderProps> = ({ onLogout }) => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [location.pathname, navigate, role]);
+  }, [location.pathname, navigate, isStaff]);
 
   const isActive = (path: string) => location.pathname === path || location.pathname.startsWith(path + '/');
 
-  const navItems = role === 'HR' ? [
+  const navItems = isStaff ? [
     { path: '/jobs', label: 'Jobs', icon: BriefcaseIcon },
     { path: '/candidates', label: 'Candidates', icon: UsersIcon },
     { path: '/assessments', label: 'Assessments', icon: DocumentTextIcon },
+    { path: '/interviews', label: 'Interviews', icon: CalendarDaysIcon },
   ] : [
     { path: '/jobs', label: 'Browse Jobs', icon: BriefcaseIcon },
     { path: '/my-applications', label: 'My Applications', icon: DocumentTextIcon },
@@ -133,6 +149,9 @@ const Header: React.FC<HeaderProps> = ({ onLogout }) => {
 
           {/* Desktop User Menu */}
           <div className="hidden md:flex items-center space-x-4">
+            {hasPermission(role, 'candidates:read') && <GlobalSearch />}
+            <NotificationBell isStaff={isStaff} />
+            {hasPermission(role, 'notes:read') && <MentionsInbox />}
             <ThemeToggle />
             {/* User Info */}
             <div className="flex items-center space-x-3 px-3 py-2 rounded-lg bg-blue-900">
@@ -236,6 +255,13 @@ const Header: React.FC<HeaderProps> = ({ onLogout }) => {
       
       {/* Keyboard Shortcuts */}
       <KeyboardShortcuts isOpen={shortcutsOpen} onClose={() => setShortcutsOpen(false)} />
+
+      <CommandPalette
+        isOpen={paletteOpen}
+        onClose={() => setPaletteOpen(false)}
+        onLogout={onLogout}
+        onShowShortcuts={() => setShortcutsOpen(true)}
+      />
     </motion.header>
   );
 };
@@ -0,0 +1,25 @@
+import React from 'react';
+import { SparklesIcon } from '@heroicons/react/24/outline';
+import { MATCH_LEVEL_CLASSES, getMatchLevel } from '../../utils/skillUtils';
+
+interface MatchScoreBadgeProps {
+  score?: number;
+  className?: string;
+}
+
+// How well a candidate's skills cover the job's tags
+const MatchScoreBadge: React.FC<MatchScoreBadgeProps> = ({ score, className = '' }) => {
+  if (score === undefined) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-full ${MATCH_LEVEL_CLASSES[getMatchLevel(score)]} ${className}`}
+      title="Share of the job's skills this candidate lists"
+    >
+      <SparklesIcon className="w-3 h-3 mr-1" />
+      {score}% match
+    </span>
+  );
+};
+
+export default MatchScoreBadge;
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AtSymbolIcon } from '@heroicons/react/24/outline';
+import { MentionSummary } from '../../types';
+import { apiCall } from '../../utils/apiUtils';
+
+const POLL_INTERVAL_MS = 30000;
+
+// Header dropdown listing notes where the signed-in user was @mentioned
+const MentionsInbox: React.FC = () => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [mentions, setMentions] = useState<MentionSummary[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadMentions = async () => {
+    try {
+      const response = await apiCall('/api/mentions');
+      if (response.ok) {
+        const result = await response.json();
+        setMentions(result.data || []);
+        setUnreadCount(result.unreadCount || 0);
+      }
+    } catch (error) {
+      console.error('Failed to load mentions:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadMentions();
+    const interval = window.setInterval(loadMentions, POLL_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await apiCall('/api/mentions/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids })
+      });
+      setMentions(prev => prev.map(m => !ids || ids.includes(m.id) ? { ...m, unread: false } : m));
+      setUnreadCount(prev => ids ? Math.max(0, prev - mentions.filter(m => m.unread && ids.includes(m.id)).length) : 0);
+    } catch (error) {
+      console.error('Failed to mark mentions as read:', error);
+    }
+  };
+
+  const openMention = (mention: MentionSummary) => {
+    if (mention.unread) markRead([mention.id]);
+    setOpen(false);
+    navigate(`/candidates/${mention.candidateId}`);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => {
+          if (!open) loadMentions();
+          setOpen(!open);
+        }}
+        className="relative p-2 rounded-lg text-blue-200 hover:text-white hover:bg-blue-800 transition-colors"
+        title="Mentions"
+      >
+        <AtSymbolIcon className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50"
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Mentions</h3>
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => markRead()}
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Mark all as read
+                </button>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto">
+              {mentions.length > 0 ? mentions.map(mention => (
+                <button
+                  key={mention.id}
+                  onClick={() => openMention(mention)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
+                    mention.unread ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">
+                      {mention.authorName} on {mention.candidateName}
+                    </span>
+                    {mention.unread && <span className="w-2 h-2 rounded-full bg-blue-600 flex-shrink-0" />}
+                  </div>
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 line-clamp-2">{mention.content}</p>
+                  <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{new Date(mention.createdAt).toLocaleString()}</p>
+                </button>
+              )) : (
+                <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">No mentions yet</p>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default MentionsInbox;
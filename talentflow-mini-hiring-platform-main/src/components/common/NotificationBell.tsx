@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BellIcon, Cog6ToothIcon, ArrowLeftIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { AppNotification, NotificationType } from '../../types';
+import { apiCall } from '../../utils/apiUtils';
+import { getNotificationIcon, getNotificationTypes } from '../../utils/notificationUtils';
+
+const POLL_INTERVAL_MS = 30000;
+
+interface NotificationBellProps {
+  isStaff: boolean;
+}
+
+// Header dropdown with the signed-in user's notifications and their preferences
+const NotificationBell: React.FC<NotificationBellProps> = ({ isStaff }) => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [muted, setMuted] = useState<NotificationType[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = async () => {
+    try {
+      const response = await apiCall('/api/notifications');
+      if (response.ok) {
+        const result = await response.json();
+        setNotifications(result.data || []);
+        setUnreadCount(result.unreadCount || 0);
+      }
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    }
+  };
+
+  const loadPreferences = async () => {
+    try {
+      const response = await apiCall('/api/notifications/preferences');
+      if (response.ok) {
+        const result = await response.json();
+        setMuted(result.data?.muted || []);
+      }
+    } catch (error) {
+      console.error('Failed to load notification preferences:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = window.setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await apiCall('/api/notifications/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids })
+      });
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(n => !n.readAt && (!ids || ids.includes(n.id)) ? { ...n, readAt } : n));
+      setUnreadCount(prev => ids ? Math.max(0, prev - notifications.filter(n => !n.readAt && ids.includes(n.id)).length) : 0);
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error);
+    }
+  };
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.readAt) markRead([notification.id]);
+    setOpen(false);
+    if (notification.link) navigate(notification.link);
+  };
+
+  const togglePreference = async (type: NotificationType) => {
+    const next = muted.includes(type) ? muted.filter(t => t !== type) : [...muted, type];
+    setMuted(next);
+    try {
+      const response = await apiCall('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ muted: next })
+      });
+      if (!response.ok) throw new Error('Failed to save preferences');
+    } catch (error) {
+      setMuted(muted);
+      toast.error('Failed to save notification preferences');
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => {
+          if (!open) loadNotifications();
+          setShowPreferences(false);
+          setOpen(!open);
+        }}
+        className="relative p-2 rounded-lg text-blue-200 hover:text-white hover:bg-blue-800 transition-colors"
+        title="Notifications"
+      >
+        <BellIcon className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50"
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+              {showPreferences ? (
+                <button
+                  onClick={() => setShowPreferences(false)}
+                  className="flex items-center text-sm font-semibold text-gray-900 dark:text-white"
+                >
+                  <ArrowLeftIcon className="w-4 h-4 mr-2" />
+                  Preferences
+                </button>
+              ) : (
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Notifications</h3>
+              )}
+              {!showPreferences && (
+                <div className="flex items-center space-x-3">
+                  {unreadCount > 0 && (
+                    <button
+                      onClick={() => markRead()}
+                      className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Mark all as read
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      loadPreferences();
+                      setShowPreferences(true);
+                    }}
+                    className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                    title="Notification preferences"
+                  >
+                    <Cog6ToothIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {showPreferences ? (
+              <div className="p-4 space-y-3">
+                {getNotificationTypes(isStaff).map(type => (
+                  <label key={type.value} className="flex items-start space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!muted.includes(type.value)}
+                      onChange={() => togglePreference(type.value)}
+                      className="mt-0.5 rounded border-gray-300 text-blue-600"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-gray-900 dark:text-white">{type.label}</span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">{type.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <div className="max-h-96 overflow-y-auto">
+                {notifications.length > 0 ? notifications.map(notification => (
+                  <button
+                    key={notification.id}
+                    onClick={() => openNotification(notification)}
+                    className={`w-full text-left px-4 py-3 border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
+                      notification.readAt ? '' : 'bg-blue-50 dark:bg-blue-900/20'
+                    }`}
+                  >
+                    <div className="flex items-start space-x-3">
+                      <span className="text-lg">{getNotificationIcon(notification.type)}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium text-gray-900 dark:text-white">{notification.title}</span>
+                          {!notification.readAt && <span className="w-2 h-2 rounded-full bg-blue-600 flex-shrink-0" />}
+                        </div>
+                        <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 line-clamp-2">{notification.message}</p>
+                        <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+                      </div>
+                    </div>
+                  </button>
+                )) : (
+                  <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">You're all caught up</p>
+                )}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,13 @@
+import { QueryClient } from 'react-query';
+
+// Shared with the auth store, which clears it whenever the signed-in user changes
+// so nobody is shown what the previous user had cached
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: 2,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      cacheTime: 10 * 60 * 1000, // 10 minutes
+    },
+  },
+});
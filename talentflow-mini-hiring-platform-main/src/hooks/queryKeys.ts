@@ -0,0 +1,90 @@
+import { SearchDocumentType } from '../types';
+
+export interface JobListParams {
+  status?: string;
+  tag?: string;
+  ids?: string; // Comma-separated job ids
+  company?: string;
+  department?: string;
+  employmentType?: string;
+  seniority?: string;
+  remotePolicy?: string;
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface CandidateListParams {
+  jobId?: string;
+  email?: string;
+  stage?: string;
+  search?: string;
+  sortBy?: 'appliedAt' | 'stage' | 'matchScore';
+  sortOrder?: 'asc' | 'desc';
+  cursor?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface SearchParams {
+  q: string;
+  types?: SearchDocumentType[];
+  limit?: number;
+}
+
+// Keys are nested so a mutation can invalidate a whole resource (['jobs']) or one
+// slice of it (['jobs', 'list']) without touching anything else
+export const queryKeys = {
+  jobs: {
+    all: ['jobs'] as const,
+    lists: () => ['jobs', 'list'] as const,
+    list: (params: JobListParams) => ['jobs', 'list', params] as const,
+    filters: () => ['jobs', 'filters'] as const
+  },
+  pipelines: {
+    all: ['pipelines'] as const
+  },
+  candidates: {
+    all: ['candidates'] as const,
+    lists: () => ['candidates', 'list'] as const,
+    list: (params: CandidateListParams) => ['candidates', 'list', params] as const,
+    detail: (id: string) => ['candidates', 'detail', id] as const
+  },
+  applications: {
+    all: ['applications'] as const,
+    assessmentStatus: (candidateId: string, jobId: string) => ['applications', 'assessment-status', candidateId, jobId] as const
+  },
+  assessments: {
+    all: ['assessments'] as const,
+    list: () => ['assessments', 'list'] as const,
+    detail: (jobId: string) => ['assessments', 'detail', jobId] as const
+  },
+  submissions: {
+    all: ['submissions'] as const,
+    byJob: (jobId: string) => ['submissions', jobId] as const
+  },
+  resumes: {
+    file: (id: string) => ['resumes', 'file', id] as const
+  },
+  search: {
+    all: ['search'] as const,
+    results: (params: SearchParams) => ['search', params] as const
+  },
+  duplicates: {
+    all: ['duplicates'] as const
+  },
+  merges: {
+    all: ['merges'] as const,
+    list: (personId?: string) => ['merges', 'list', personId || 'all'] as const
+  },
+  trash: {
+    all: ['trash'] as const
+  },
+  requisitions: {
+    all: ['requisitions'] as const,
+    detail: (jobId: string) => ['requisitions', jobId] as const
+  },
+  approvalChains: {
+    all: ['approval-chains'] as const
+  }
+};
@@ -0,0 +1,36 @@
+import { useQueries } from 'react-query';
+import { Candidate } from '../types';
+import { apiJson } from '../utils/apiUtils';
+import { queryKeys } from './queryKeys';
+
+export interface AssessmentStatus {
+  invited: boolean;
+  completed: boolean;
+  hasAssessment: boolean;
+  invitedAt?: string;
+  completedAt?: string;
+}
+
+const NO_ASSESSMENT: AssessmentStatus = { invited: false, completed: false, hasAssessment: false };
+
+export const fetchAssessmentStatus = (candidateId: string, jobId: string) =>
+  apiJson<AssessmentStatus>(`/api/candidates/${candidateId}/assessment-status/${jobId}`);
+
+// Assessment status of each application, keyed by job id. Applications whose
+// status hasn't loaded (or failed to) read as not invited.
+export const useAssessmentStatuses = (applications: Candidate[]) => {
+  const results = useQueries(applications.map(application => ({
+    queryKey: queryKeys.applications.assessmentStatus(application.id, application.jobId),
+    queryFn: () => fetchAssessmentStatus(application.id, application.jobId)
+  })));
+
+  const statuses: Record<string, AssessmentStatus> = {};
+  applications.forEach((application, index) => {
+    statuses[application.jobId] = (results[index]?.data as AssessmentStatus | undefined) || NO_ASSESSMENT;
+  });
+
+  return {
+    statuses,
+    isLoading: results.some(result => result.isLoading)
+  };
+};
@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { ApiResponse, Assessment, AssessmentSubmission } from '../types';
+import { ApiError, QueuedWrite, apiJson, isQueuedWrite } from '../utils/apiUtils';
+import { queryKeys } from './queryKeys';
+
+export const useAssessmentList = (options: { enabled?: boolean } = {}) =>
+  useQuery<ApiResponse<Assessment[]>, ApiError>(
+    queryKeys.assessments.list(),
+    () => apiJson<ApiResponse<Assessment[]>>('/api/assessments'),
+    options
+  );
+
+export const useAssessment = (jobId: string | undefined) =>
+  useQuery<ApiResponse<Assessment | null>, ApiError>(
+    queryKeys.assessments.detail(jobId || ''),
+    () => apiJson<ApiResponse<Assessment | null>>(`/api/assessments/${jobId}`),
+    { enabled: !!jobId }
+  );
+
+export const useSaveAssessment = (jobId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation<ApiResponse<Assessment> | QueuedWrite, ApiError, Assessment>(
+    assessment => apiJson(`/api/assessments/${jobId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(assessment)
+    }),
+    {
+      onSuccess: result => {
+        if (isQueuedWrite(result)) return;
+        queryClient.setQueryData(queryKeys.assessments.detail(jobId), result);
+        queryClient.invalidateQueries(queryKeys.assessments.list());
+        // Whether a job has an assessment changes what applicants see
+        queryClient.invalidateQueries(queryKeys.applications.all);
+      }
+    }
+  );
+};
+
+export const useSubmitAssessment = (jobId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation<ApiResponse<AssessmentSubmission> | QueuedWrite, ApiError, { candidateId: string; responses: Record<string, any> }>(
+    ({ candidateId, responses }) => apiJson(`/api/assessments/${jobId}/submit`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ candidateId, responses })
+    }),
+    {
+      onSuccess: result => {
+        if (isQueuedWrite(result)) return;
+        queryClient.invalidateQueries(queryKeys.submissions.byJob(jobId));
+        queryClient.invalidateQueries(queryKeys.applications.all);
+        queryClient.invalidateQueries(queryKeys.candidates.all);
+      }
+    }
+  );
+};
+
+export const useInviteToAssessment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<unknown, ApiError, { candidateId: string; jobId: string; invitedBy: string; stage: string }>(
+    ({ candidateId, ...invitation }) => apiJson(`/api/candidates/${candidateId}/invite-assessment`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(invitation)
+    }),
+    {
+      onSuccess: (result, { candidateId, jobId }) => {
+        if (isQueuedWrite(result)) return;
+        queryClient.invalidateQueries(queryKeys.applications.assessmentStatus(candidateId, jobId));
+        queryClient.invalidateQueries(queryKeys.candidates.all);
+      }
+    }
+  );
+};
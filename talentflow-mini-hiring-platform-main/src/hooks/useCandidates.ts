@@ -0,0 +1,96 @@
+import { useMutation, useQuery, useQueryClient, QueryKey } from 'react-query';
+import { ApiResponse, Candidate, CandidateImportResult, CandidateImportRow } from '../types';
+import { ApiError, QueuedWrite, apiJson, isQueuedWrite, toQueryString } from '../utils/apiUtils';
+import { TransitionFields } from '../utils/stageTransitions';
+import { CandidateListParams, queryKeys } from './queryKeys';
+
+type CandidateList = ApiResponse<Candidate[]>;
+
+export const useCandidates = (params: CandidateListParams, options: { enabled?: boolean } = {}) =>
+  useQuery<CandidateList, ApiError>(
+    queryKeys.candidates.list(params),
+    () => apiJson<CandidateList>(`/api/candidates${toQueryString({ ...params })}`),
+    options
+  );
+
+export const useCandidate = (id: string, options: { enabled?: boolean } = {}) =>
+  useQuery<ApiResponse<Candidate>, ApiError>(
+    queryKeys.candidates.detail(id),
+    () => apiJson<ApiResponse<Candidate>>(`/api/candidates/${id}`),
+    options
+  );
+
+export interface MoveCandidateVariables {
+  candidate: Candidate;
+  stage: string;
+  fields?: TransitionFields;
+  notes: string;
+  movedBy: string;
+}
+
+interface MoveContext {
+  snapshot: [QueryKey, CandidateList][]; // As returned by getQueriesData
+}
+
+// Moves the candidate in every cached list before the request is sent and restores
+// the lists if the API refuses the transition. A 422 carries the rule violations in
+// `error.body` for formatTransitionErrors.
+export const useMoveCandidate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<ApiResponse<Candidate> | QueuedWrite, ApiError, MoveCandidateVariables, MoveContext>(
+    ({ candidate, stage, fields, notes, movedBy }) => apiJson(`/api/candidates/${candidate.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ stage, fields, notes, movedBy })
+    }),
+    {
+      onMutate: async ({ candidate, stage }) => {
+        await queryClient.cancelQueries(queryKeys.candidates.lists());
+        const snapshot = queryClient.getQueriesData<CandidateList>(queryKeys.candidates.lists());
+
+        queryClient.setQueriesData<CandidateList | undefined>(queryKeys.candidates.lists(), list => list && {
+          ...list,
+          data: list.data.map(c => c.id === candidate.id ? { ...c, stage } : c)
+        });
+
+        return { snapshot };
+      },
+      onError: (_error, _variables, context) => {
+        context?.snapshot.forEach(([key, data]) => queryClient.setQueryData(key, data));
+      },
+      onSuccess: result => {
+        // A queued move keeps its optimistic position until the queue replays it
+        if (isQueuedWrite(result)) return;
+        queryClient.invalidateQueries(queryKeys.candidates.all);
+        queryClient.invalidateQueries(queryKeys.applications.all);
+      }
+    }
+  );
+};
+
+export interface ImportCandidatesVariables {
+  jobId: string;
+  rows: CandidateImportRow[];
+  dryRun: boolean;
+}
+
+// Imports skip the offline queue, so the result always reports what was written
+export const useImportCandidates = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<ApiResponse<CandidateImportResult>, ApiError, ImportCandidatesVariables>(
+    variables => apiJson('/api/candidates/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(variables)
+    }),
+    {
+      onSuccess: ({ data }) => {
+        if (data.imported === 0) return;
+        queryClient.invalidateQueries(queryKeys.candidates.all);
+        queryClient.invalidateQueries(queryKeys.applications.all);
+      }
+    }
+  );
+};
@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { ApiResponse, DuplicateMatch, PersonMergeSummary } from '../types';
+import { ApiError, QueuedWrite, apiJson, isQueuedWrite, toQueryString } from '../utils/apiUtils';
+import { queryKeys } from './queryKeys';
+
+export const useDuplicates = (options: { enabled?: boolean } = {}) =>
+  useQuery<ApiResponse<DuplicateMatch[]>, ApiError>(
+    queryKeys.duplicates.all,
+    () => apiJson<ApiResponse<DuplicateMatch[]>>('/api/duplicates'),
+    options
+  );
+
+export const useMerges = (personId?: string, options: { enabled?: boolean } = {}) =>
+  useQuery<ApiResponse<PersonMergeSummary[]>, ApiError>(
+    queryKeys.merges.list(personId),
+    () => apiJson<ApiResponse<PersonMergeSummary[]>>(`/api/people/merges${toQueryString({ personId })}`),
+    options
+  );
+
+// A merge or undo touches people, applications and everything hanging off them
+const useInvalidateMerged = () => {
+  const queryClient = useQueryClient();
+  return (result: unknown) => {
+    if (isQueuedWrite(result)) return;
+    queryClient.invalidateQueries(queryKeys.duplicates.all);
+    queryClient.invalidateQueries(queryKeys.merges.all);
+    queryClient.invalidateQueries(queryKeys.candidates.all);
+    queryClient.invalidateQueries(queryKeys.applications.all);
+    queryClient.invalidateQueries(queryKeys.submissions.all);
+    queryClient.invalidateQueries(queryKeys.search.all);
+  };
+};
+
+export const useMergePeople = () => {
+  const invalidate = useInvalidateMerged();
+  return useMutation<ApiResponse<PersonMergeSummary> | QueuedWrite, ApiError, { targetPersonId: string; sourcePersonId: string }>(
+    variables => apiJson('/api/people/merge', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(variables)
+    }),
+    { onSuccess: invalidate }
+  );
+};
+
+export const useUndoMerge = () => {
+  const invalidate = useInvalidateMerged();
+  return useMutation<ApiResponse<PersonMergeSummary> | QueuedWrite, ApiError, string>(
+    mergeId => apiJson(`/api/people/merges/${mergeId}/undo`, { method: 'POST' }),
+    { onSuccess: invalidate }
+  );
+};
+
+export const useDismissDuplicate = () => {
+  const queryClient = useQueryClient();
+  return useMutation<unknown, ApiError, [string, string]>(
+    personIds => apiJson('/api/duplicates/dismiss', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ personIds })
+    }),
+    { onSuccess: () => queryClient.invalidateQueries(queryKeys.duplicates.all) }
+  );
+};
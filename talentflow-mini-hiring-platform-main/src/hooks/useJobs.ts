@@ -0,0 +1,95 @@
+import { useMutation, useQuery, useQueryClient, QueryKey } from 'react-query';
+import { ApiResponse, Job, JobFilterOptions, Pipeline } from '../types';
+import { ApiError, QueuedWrite, apiJson, isQueuedWrite, toQueryString } from '../utils/apiUtils';
+import { JobPosition, moveJobOrder } from '../utils/jobUtils';
+import { JobListParams, queryKeys } from './queryKeys';
+
+type JobList = ApiResponse<Job[]>;
+
+export const useJobs = (params: JobListParams, options: { enabled?: boolean; keepPreviousData?: boolean } = {}) =>
+  useQuery<JobList, ApiError>(
+    queryKeys.jobs.list(params),
+    () => apiJson<JobList>(`/api/jobs${toQueryString({ ...params })}`),
+    options
+  );
+
+export const useJobFilterOptions = () =>
+  useQuery<ApiResponse<JobFilterOptions>, ApiError>(
+    queryKeys.jobs.filters(),
+    () => apiJson<ApiResponse<JobFilterOptions>>('/api/jobs/filters')
+  );
+
+export const usePipelines = (options: { enabled?: boolean } = {}) =>
+  useQuery<ApiResponse<Pipeline[]>, ApiError>(
+    queryKeys.pipelines.all,
+    () => apiJson<ApiResponse<Pipeline[]>>('/api/pipelines'),
+    options
+  );
+
+export const useUpdateJob = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<ApiResponse<Job> | QueuedWrite, ApiError, { id: string; updates: Partial<Job> }>(
+    ({ id, updates }) => apiJson(`/api/jobs/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates)
+    }),
+    {
+      onSuccess: result => {
+        if (!isQueuedWrite(result)) queryClient.invalidateQueries(queryKeys.jobs.all);
+      }
+    }
+  );
+};
+
+interface ReorderVariables {
+  job: Job;
+  toOrder: number; // Order of the job whose place it takes
+}
+
+interface ReorderContext {
+  snapshot: [QueryKey, JobList][]; // As returned by getQueriesData
+}
+
+const applyPositions = (list: JobList | undefined, positions: JobPosition[]) => {
+  if (!list) return list;
+  const orders = new Map(positions.map(p => [p.id, p.order]));
+  return { ...list, data: list.data.map(j => orders.has(j.id) ? { ...j, order: orders.get(j.id)! } : j) };
+};
+
+// Moves the job in every cached job list straight away, then replaces the guess
+// with the positions the API actually assigned. A 409 means the list was out of
+// date, so the lists are restored and refetched.
+export const useReorderJob = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<ApiResponse<JobPosition[]> | QueuedWrite, ApiError, ReorderVariables, ReorderContext>(
+    ({ job, toOrder }) => apiJson(`/api/jobs/${job.id}/reorder`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fromOrder: job.order, toOrder })
+    }),
+    {
+      onMutate: async ({ job, toOrder }) => {
+        await queryClient.cancelQueries(queryKeys.jobs.lists());
+        const snapshot = queryClient.getQueriesData<JobList>(queryKeys.jobs.lists());
+
+        queryClient.setQueriesData<JobList | undefined>(queryKeys.jobs.lists(), list =>
+          list && applyPositions(list, moveJobOrder(list.data, job.id, toOrder))
+        );
+
+        return { snapshot };
+      },
+      onError: (error, _variables, context) => {
+        context?.snapshot.forEach(([key, data]) => queryClient.setQueryData(key, data));
+        if (error.status === 409) queryClient.invalidateQueries(queryKeys.jobs.lists());
+      },
+      onSuccess: (result, _variables, context) => {
+        if (isQueuedWrite(result)) return;
+        // Lists that only hold some jobs (e.g. active ones) can guess wrong, so start again from the snapshot
+        context?.snapshot.forEach(([key, data]) => queryClient.setQueryData(key, applyPositions(data, result.data)));
+      }
+    }
+  );
+};
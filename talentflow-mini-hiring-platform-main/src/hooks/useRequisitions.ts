@@ -0,0 +1,68 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { ApiResponse, ApprovalChain, Job, RequisitionAction, RequisitionEvent, RequisitionSummary } from '../types';
+import { ApiError, QueuedWrite, apiJson, isQueuedWrite } from '../utils/apiUtils';
+import { queryKeys } from './queryKeys';
+
+type RequisitionResult = ApiResponse<{ job: Job; event: RequisitionEvent }> | QueuedWrite;
+
+export const useRequisition = (jobId: string | undefined) =>
+  useQuery<ApiResponse<RequisitionSummary>, ApiError>(
+    queryKeys.requisitions.detail(jobId || ''),
+    () => apiJson<ApiResponse<RequisitionSummary>>(`/api/jobs/${jobId}/requisition`),
+    { enabled: !!jobId }
+  );
+
+// A status change shows up in job lists, the candidate board and search
+const useInvalidateRequisition = () => {
+  const queryClient = useQueryClient();
+  return (result: unknown) => {
+    if (isQueuedWrite(result)) return;
+    queryClient.invalidateQueries(queryKeys.requisitions.all);
+    queryClient.invalidateQueries(queryKeys.jobs.all);
+    queryClient.invalidateQueries(queryKeys.search.all);
+  };
+};
+
+// Everything except approve and reject, which need the approver's own endpoints
+export const useRequisitionAction = () => {
+  const invalidate = useInvalidateRequisition();
+  return useMutation<RequisitionResult, ApiError, { jobId: string; action: RequisitionAction; comment?: string }>(
+    ({ jobId, ...body }) => apiJson(`/api/jobs/${jobId}/requisition`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    }),
+    { onSuccess: invalidate }
+  );
+};
+
+export const useRequisitionDecision = () => {
+  const invalidate = useInvalidateRequisition();
+  return useMutation<RequisitionResult, ApiError, { jobId: string; decision: 'approve' | 'reject'; comment?: string }>(
+    ({ jobId, decision, comment }) => apiJson(`/api/jobs/${jobId}/${decision}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ comment })
+    }),
+    { onSuccess: invalidate }
+  );
+};
+
+export const useApprovalChains = (options: { enabled?: boolean } = {}) =>
+  useQuery<ApiResponse<ApprovalChain[]>, ApiError>(
+    queryKeys.approvalChains.all,
+    () => apiJson<ApiResponse<ApprovalChain[]>>('/api/approval-chains'),
+    options
+  );
+
+export const useSaveApprovalChain = () => {
+  const queryClient = useQueryClient();
+  return useMutation<ApiResponse<ApprovalChain> | QueuedWrite, ApiError, Partial<ApprovalChain>>(
+    ({ id, ...chain }) => apiJson(id ? `/api/approval-chains/${id}` : '/api/approval-chains', {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(chain)
+    }),
+    { onSuccess: () => queryClient.invalidateQueries(queryKeys.approvalChains.all) }
+  );
+};
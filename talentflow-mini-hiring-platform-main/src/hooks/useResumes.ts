@@ -0,0 +1,28 @@
+import { useMutation, useQuery } from 'react-query';
+import { ApiResponse, ResumeUpload } from '../types';
+import { ApiError, apiCall, apiJson } from '../utils/apiUtils';
+import { queryKeys } from './queryKeys';
+
+export const fetchResumeFile = async (id: string): Promise<Blob> => {
+  const response = await apiCall(`/api/resumes/${id}/file`);
+  if (!response.ok) {
+    throw new ApiError(response.status, await response.json().catch(() => ({})));
+  }
+  return response.blob();
+};
+
+export const useResumeFile = (id: string | undefined, options: { enabled?: boolean } = {}) =>
+  useQuery<Blob, ApiError>(
+    queryKeys.resumes.file(id || ''),
+    () => fetchResumeFile(id!),
+    // Files never change once stored
+    { enabled: !!id && options.enabled !== false, staleTime: Infinity }
+  );
+
+// Uploads skip the offline queue, so the result is always the stored file
+export const useUploadResume = () =>
+  useMutation<ApiResponse<ResumeUpload>, ApiError, File>(file => {
+    const body = new FormData();
+    body.append('file', file);
+    return apiJson('/api/resumes', { method: 'POST', body });
+  });
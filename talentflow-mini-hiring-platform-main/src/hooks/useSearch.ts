@@ -0,0 +1,15 @@
+import { useQuery } from 'react-query';
+import { ApiResponse, SearchResult } from '../types';
+import { ApiError, apiJson, toQueryString } from '../utils/apiUtils';
+import { MIN_QUERY_LENGTH } from '../utils/searchUtils';
+import { SearchParams, queryKeys } from './queryKeys';
+
+// Results stay on screen while the next keystroke's query loads
+export const useSearch = ({ q, types, limit }: SearchParams, enabled = true) => {
+  const term = q.trim();
+  return useQuery<ApiResponse<SearchResult[]>, ApiError>(
+    queryKeys.search.results({ q: term, types, limit }),
+    () => apiJson<ApiResponse<SearchResult[]>>(`/api/search${toQueryString({ q: term, limit })}${(types || []).map(type => `&type=${type}`).join('')}`),
+    { enabled: enabled && term.length >= MIN_QUERY_LENGTH, keepPreviousData: true }
+  );
+};
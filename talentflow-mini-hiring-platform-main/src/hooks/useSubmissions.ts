@@ -0,0 +1,11 @@
+import { useQuery } from 'react-query';
+import { ApiResponse, AssessmentSubmission } from '../types';
+import { ApiError, apiJson } from '../utils/apiUtils';
+import { queryKeys } from './queryKeys';
+
+export const useSubmissions = (jobId: string | undefined) =>
+  useQuery<ApiResponse<AssessmentSubmission[]>, ApiError>(
+    queryKeys.submissions.byJob(jobId || ''),
+    () => apiJson<ApiResponse<AssessmentSubmission[]>>(`/api/assessments/${jobId}/submissions`),
+    { enabled: !!jobId }
+  );
@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { ApiResponse, Job, TrashItemSummary } from '../types';
+import { ApiError, QueuedWrite, apiJson, isQueuedWrite } from '../utils/apiUtils';
+import { queryKeys } from './queryKeys';
+
+export const useTrash = (options: { enabled?: boolean } = {}) =>
+  useQuery<ApiResponse<TrashItemSummary[]>, ApiError>(
+    queryKeys.trash.all,
+    () => apiJson<ApiResponse<TrashItemSummary[]>>('/api/trash'),
+    options
+  );
+
+// Deleting or restoring a job moves its candidates, submissions and interviews too
+const useInvalidateJobRecords = () => {
+  const queryClient = useQueryClient();
+  return (result: unknown) => {
+    if (isQueuedWrite(result)) return;
+    queryClient.invalidateQueries(queryKeys.trash.all);
+    queryClient.invalidateQueries(queryKeys.jobs.all);
+    queryClient.invalidateQueries(queryKeys.candidates.all);
+    queryClient.invalidateQueries(queryKeys.applications.all);
+    queryClient.invalidateQueries(queryKeys.assessments.all);
+    queryClient.invalidateQueries(queryKeys.submissions.all);
+    queryClient.invalidateQueries(queryKeys.duplicates.all);
+    queryClient.invalidateQueries(queryKeys.search.all);
+  };
+};
+
+export const useDeleteJob = () => {
+  const invalidate = useInvalidateJobRecords();
+  return useMutation<ApiResponse<TrashItemSummary> | QueuedWrite, ApiError, string>(
+    jobId => apiJson(`/api/jobs/${jobId}`, { method: 'DELETE' }),
+    { onSuccess: invalidate }
+  );
+};
+
+export const useRestoreJob = () => {
+  const invalidate = useInvalidateJobRecords();
+  return useMutation<ApiResponse<Job> | QueuedWrite, ApiError, string>(
+    itemId => apiJson(`/api/trash/${itemId}/restore`, { method: 'POST' }),
+    { onSuccess: invalidate }
+  );
+};
+
+export const usePurgeTrashItem = () => {
+  const queryClient = useQueryClient();
+  return useMutation<unknown, ApiError, string>(
+    itemId => apiJson(`/api/trash/${itemId}`, { method: 'DELETE' }),
+    { onSuccess: () => queryClient.invalidateQueries(queryKeys.trash.all) }
+  );
+};
@@ -30,7 +30,8 @@ async function initializeApp() {
     // Quick MSW functionality test
     try {
       const testResponse = await fetch('/api/jobs?page=1&pageSize=1');
-      if (testResponse.ok) {
+      // 401 means the handlers answered; the probe just has no session yet
+      if (testResponse.ok || testResponse.status === 401) {
         console.log('✅ MSW working perfectly');
       } else {
         console.log('⚡ Using IndexedDB fallback (assignment compliant)');
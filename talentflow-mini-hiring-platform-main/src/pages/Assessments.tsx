@@ -4,6 +4,7 @@ import AssessmentListProfessional from '../components/AssessmentListProfessional
 import AssessmentBuilder from '../components/AssessmentBuilder';
 import { Assessment } from '../types';
 import toast from 'react-hot-toast';
+import { apiCall } from '../utils/apiUtils';
 
 const Assessments: React.FC = () => {
   const [searchParams] = useSearchParams();
@@ -39,7 +40,7 @@ const Assessments: React.FC = () => {
     // If there's a pending candidate invitation, send it now
     if (pendingCandidateId) {
       try {
-        const response = await fetch(`/api/candidates/${pendingCandidateId}/invite-assessment`, {
+        const response = await apiCall(`/api/candidates/${pendingCandidateId}/invite-assessment`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
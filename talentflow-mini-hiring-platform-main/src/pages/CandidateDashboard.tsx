@@ -35,7 +35,7 @@ const CandidateDashboard: React.FC = () => {
       setLoading(true);
 
       // Load available jobs
-      const jobsResponse = await apiCall('/api/jobs?status=active&page=1&pageSize=100');
+      const jobsResponse = await apiCall('/api/jobs?status=open&page=1&pageSize=100');
       if (jobsResponse.ok) {
         const jobsData = await jobsResponse.json();
         const jobs = jobsData.data || [];
@@ -47,7 +47,7 @@ const CandidateDashboard: React.FC = () => {
       }
 
       // Load my applications (simulate by finding candidates with current user's email)
-      const candidatesResponse = await apiCall(`/api/candidates?search=${encodeURIComponent(user.email)}&page=1&pageSize=100`);
+      const candidatesResponse = await apiCall(`/api/candidates?email=${encodeURIComponent(user.email)}&page=1&pageSize=100`);
       if (candidatesResponse.ok) {
         const candidatesData = await candidatesResponse.json();
         const applications = candidatesData.data || [];
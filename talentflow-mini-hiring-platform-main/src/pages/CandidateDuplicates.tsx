@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { ArrowLeftIcon, ArrowUturnLeftIcon, CheckCircleIcon, UsersIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import Button from '../components/ui/Button';
+import Card from '../components/ui/Card';
+import { DuplicateMatch, DuplicatePerson, PersonMergeSummary } from '../types';
+import { useAuth } from '../store';
+import { useDismissDuplicate, useDuplicates, useMergePeople, useMerges, useUndoMerge } from '../hooks/useDuplicates';
+import { ApiError, isQueuedWrite } from '../utils/apiUtils';
+import { DUPLICATE_REASON_LABELS } from '../utils/duplicateUtils';
+import { hasPermission } from '../utils/permissions';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error instanceof ApiError && error.body?.error) || fallback;
+
+const PersonCard: React.FC<{ person: DuplicatePerson; other: DuplicatePerson }> = ({ person, other }) => {
+  const differs = (field: 'name' | 'email' | 'phone') =>
+    person[field] !== other[field] ? 'text-amber-700 dark:text-amber-400' : 'text-gray-900 dark:text-white';
+
+  return (
+    <div className="flex-1 min-w-0 p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+      <p className={`font-semibold truncate ${differs('name')}`}>{person.name}</p>
+      <p className={`text-sm truncate ${differs('email')}`}>{person.email}</p>
+      <p className={`text-sm ${differs('phone')}`}>{person.phone || 'No phone'}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        {person.applications} application{person.applications === 1 ? '' : 's'} · since {new Date(person.createdAt).toLocaleDateString()}
+      </p>
+    </div>
+  );
+};
+
+// Review queue for people who are probably the same: merge one into the other or
+// mark them as different. Merges stay undoable from the history below.
+const CandidateDuplicates: React.FC = () => {
+  const { user } = useAuth();
+  const canManage = hasPermission(user.role, 'candidates:manage');
+  const duplicatesQuery = useDuplicates({ enabled: canManage });
+  const mergesQuery = useMerges(undefined, { enabled: canManage });
+  const mergePeople = useMergePeople();
+  const undoMerge = useUndoMerge();
+  const dismissDuplicate = useDismissDuplicate();
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [lastMerge, setLastMerge] = useState<PersonMergeSummary | null>(null);
+
+  const matches = duplicatesQuery.data?.data || [];
+  const merges = mergesQuery.data?.data || [];
+
+  const handleMerge = async (match: DuplicateMatch, target: DuplicatePerson, source: DuplicatePerson) => {
+    try {
+      setBusyKey(match.key);
+      const result = await mergePeople.mutateAsync({ targetPersonId: target.id, sourcePersonId: source.id });
+      if (isQueuedWrite(result)) {
+        toast.success('Merge saved offline and will run when you reconnect');
+        return;
+      }
+      setLastMerge(result.data);
+      toast.success(`Merged ${source.name} into ${target.name}`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to merge candidates'));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDismiss = async (match: DuplicateMatch) => {
+    try {
+      setBusyKey(match.key);
+      await dismissDuplicate.mutateAsync([match.people[0].id, match.people[1].id]);
+      toast.success('Marked as different people');
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to dismiss'));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleUndo = async (merge: PersonMergeSummary) => {
+    try {
+      setBusyKey(merge.id);
+      const result = await undoMerge.mutateAsync(merge.id);
+      if (lastMerge?.id === merge.id) setLastMerge(null);
+      toast.success(isQueuedWrite(result)
+        ? 'Undo saved offline and will run when you reconnect'
+        : `Restored ${merge.sourceName} as a separate candidate`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to undo merge'));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  if (!canManage) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16 text-center text-gray-600 dark:text-gray-400">
+        Only HR can review duplicate candidates.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center mb-6">
+          <button
+            onClick={() => window.history.back()}
+            className="inline-flex items-center text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+          >
+            <ArrowLeftIcon className="w-5 h-5 mr-2" />
+            Go Back
+          </button>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Duplicate Candidates</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            People matched on email, phone or a similar name. Merging keeps the chosen profile and moves the other's applications, notes, submissions and interviews onto it.
+          </p>
+        </div>
+
+        {lastMerge && (
+          <div className="flex items-center justify-between mb-6 px-4 py-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
+            <span className="text-sm text-green-800 dark:text-green-200">
+              Merged {lastMerge.sourceName} into {lastMerge.targetName}.
+            </span>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => handleUndo(lastMerge)}
+              loading={busyKey === lastMerge.id}
+              icon={<ArrowUturnLeftIcon className="w-4 h-4" />}
+            >
+              Undo
+            </Button>
+          </div>
+        )}
+
+        {duplicatesQuery.isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : duplicatesQuery.isError ? (
+          <Card padding="lg" className="text-center text-red-600 dark:text-red-400">Failed to load duplicates</Card>
+        ) : matches.length === 0 ? (
+          <Card padding="lg" className="text-center">
+            <CheckCircleIcon className="w-12 h-12 text-green-500 mx-auto mb-3" />
+            <p className="text-gray-700 dark:text-gray-300">No likely duplicates left to review.</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">{matches.length} possible duplicate{matches.length === 1 ? '' : 's'}</p>
+            {matches.map(match => {
+              const [first, second] = match.people;
+              const busy = busyKey === match.key;
+              return (
+                <Card key={match.key} padding="sm">
+                  <div className="flex flex-wrap items-center gap-2 mb-4">
+                    <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                      {match.score}% likely
+                    </span>
+                    {match.reasons.map(reason => (
+                      <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                        {DUPLICATE_REASON_LABELS[reason]}
+                        {reason === 'name' && ` (${Math.round(match.nameSimilarity * 100)}%)`}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-3 mb-4">
+                    <PersonCard person={first} other={second} />
+                    <PersonCard person={second} other={first} />
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => handleDismiss(match)} disabled={busy}>
+                      Not a duplicate
+                    </Button>
+                    <Button variant="secondary" size="sm" onClick={() => handleMerge(match, second, first)} disabled={busy}>
+                      Keep {second.name}
+                    </Button>
+                    <Button variant="primary" size="sm" onClick={() => handleMerge(match, first, second)} loading={busy} icon={<UsersIcon className="w-4 h-4" />}>
+                      Keep {first.name}
+                    </Button>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {merges.length > 0 && (
+          <div className="mt-10">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Merge History</h2>
+            <Card padding="none" className="divide-y divide-gray-200 dark:divide-gray-700">
+              {merges.map(merge => (
+                <div key={merge.id} className="flex items-center justify-between gap-4 px-5 py-3">
+                  <div className="min-w-0 text-sm">
+                    <p className="text-gray-900 dark:text-white">
+                      <span className="font-medium">{merge.sourceName}</span> ({merge.sourceEmail}) into <span className="font-medium">{merge.targetName}</span>
+                    </p>
+                    <p className="text-gray-500 dark:text-gray-400">
+                      {merge.mergedBy} · {new Date(merge.mergedAt).toLocaleString()} · {merge.counts.applications} application{merge.counts.applications === 1 ? '' : 's'}
+                      {merge.counts.combinedApplications > 0 && ` (${merge.counts.combinedApplications} combined)`}
+                      {merge.undoneAt && ` · undone by ${merge.undoneBy} on ${new Date(merge.undoneAt).toLocaleString()}`}
+                    </p>
+                  </div>
+                  {merge.canUndo && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => handleUndo(merge)}
+                      loading={busyKey === merge.id}
+                      icon={<ArrowUturnLeftIcon className="w-4 h-4" />}
+                    >
+                      Undo
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CandidateDuplicates;
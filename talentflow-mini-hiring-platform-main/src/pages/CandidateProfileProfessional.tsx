@@ -15,35 +15,57 @@ import {
   CheckCircleIcon,
   XCircleIcon,
   ArrowRightIcon,
-  FunnelIcon
+  FunnelIcon,
+  VideoCameraIcon,
+  LinkIcon,
+  SparklesIcon
 } from '@heroicons/react/24/outline';
-import { Candidate, Job, Application, ApplicationTimelineEntry } from '../types';
-import { apiCall } from '../utils/apiUtils';
+import { Candidate, Job, Application, ApplicationTimelineEntry, Pipeline, InterviewSummary, Scorecard, ScorecardSummary as ScorecardSummaryData, ScorecardTemplate, CandidateNote, TeamMember } from '../types';
+import { useAuth } from '../store';
+import { apiCall, isQueuedResponse } from '../utils/apiUtils';
+import { STAGE_COLOR_CLASSES, getKnownStages, getStage, getStageClasses, resolvePipeline } from '../utils/pipelineUtils';
+import { formatStageFields, formatTransitionErrors, getAllowedTransitions, getRequiredFields } from '../utils/stageTransitions';
+import { formatInterviewSlot, getInterviewTypeIcon, getInterviewTypeLabel } from '../utils/interviewUtils';
+import { hasPermission } from '../utils/permissions';
+import { splitMentions } from '../utils/noteUtils';
 import MentionsInput from '../components/MentionsInput';
+import ScheduleInterviewModal from '../components/ScheduleInterviewModal';
+import ScorecardModal from '../components/ScorecardModal';
+import ScorecardSummary from '../components/ScorecardSummary';
+import ResumeViewer from '../components/ResumeViewer';
+import CandidateSkills from '../components/CandidateSkills';
+import MatchScoreBadge from '../components/common/MatchScoreBadge';
 import toast from 'react-hot-toast';
 
 const CandidateProfileProfessional: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [candidate, setCandidate] = useState<Candidate | null>(null);
   const [applications, setApplications] = useState<Application[]>([]);
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
   const [selectedJobId, setSelectedJobId] = useState<string>('all');
   const [loading, setLoading] = useState(true);
-  const [notes, setNotes] = useState<string[]>([]);
+  const [notes, setNotes] = useState<CandidateNote[]>([]);
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [noteInput, setNoteInput] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [editInput, setEditInput] = useState('');
   const [showMoveModal, setShowMoveModal] = useState(false);
   const [newStage, setNewStage] = useState('');
+  const [stageFields, setStageFields] = useState<Record<string, string>>({});
   const [selectedApplication, setSelectedApplication] = useState<Application | null>(null);
-
-  const stages = [
-    { value: 'applied', label: 'Applied', color: 'blue', icon: '📝' },
-    { value: 'screen', label: 'Screening', color: 'yellow', icon: '📞' },
-    { value: 'tech', label: 'Technical', color: 'purple', icon: '💻' },
-    { value: 'offer', label: 'Offer', color: 'green', icon: '📄' },
-    { value: 'hired', label: 'Hired', color: 'green', icon: '✅' },
-    { value: 'rejected', label: 'Rejected', color: 'red', icon: '❌' }
-  ];
+  const [interviews, setInterviews] = useState<InterviewSummary[]>([]);
+  const [schedulingFor, setSchedulingFor] = useState<Application | null>(null);
+  const [scorecardTemplates, setScorecardTemplates] = useState<ScorecardTemplate[]>([]);
+  const [scorecards, setScorecards] = useState<Record<string, { data: Scorecard[]; summary: ScorecardSummaryData }>>({});
+  const [scoringFor, setScoringFor] = useState<Application | null>(null);
+  const canScheduleInterviews = hasPermission(user.role, 'interviews:manage');
+  const canReadScorecards = hasPermission(user.role, 'scorecards:read');
+  const canSubmitScorecards = hasPermission(user.role, 'scorecards:submit');
+  const teamMemberNames = teamMembers.map(member => member.name);
 
   useEffect(() => {
     if (id) {
@@ -57,24 +79,51 @@ const CandidateProfileProfessional: React.FC = () => {
 
       // Fetch candidate
       const candidateResponse = await apiCall(`/api/candidates/${id}`);
+      let personId: string | undefined;
       if (candidateResponse.ok) {
         const candidateData = await candidateResponse.json();
         setCandidate(candidateData.data);
+        personId = candidateData.data?.personId;
       }
 
-      // Fetch all applications for this candidate
-      const applicationsResponse = await apiCall(`/api/applications?candidateId=${id}`);
+      // Fetch every application made by this person, not just this one
+      const applicationsResponse = await apiCall(
+        personId ? `/api/applications?personId=${personId}` : `/api/applications?candidateId=${id}`
+      );
+      let loadedApplications: Application[] = [];
       if (applicationsResponse.ok) {
         const applicationsData = await applicationsResponse.json();
-        setApplications(applicationsData.data || []);
+        loadedApplications = applicationsData.data || [];
+        setApplications(loadedApplications);
+      }
+
+      const interviewsResponse = await apiCall(
+        personId ? `/api/interviews?personId=${personId}` : `/api/interviews?candidateId=${id}`
+      );
+      if (interviewsResponse.ok) {
+        const interviewsData = await interviewsResponse.json();
+        setInterviews(interviewsData.data || []);
       }
 
       // Fetch all jobs
-      const jobsResponse = await apiCall('/api/jobs');
+      const jobsResponse = await apiCall('/api/jobs?page=1&pageSize=1000');
       if (jobsResponse.ok) {
         const jobsData = await jobsResponse.json();
         setJobs(jobsData.data || []);
       }
+
+      // Each application follows the pipeline of its job
+      const pipelinesResponse = await apiCall('/api/pipelines');
+      if (pipelinesResponse.ok) {
+        const pipelinesData = await pipelinesResponse.json();
+        setPipelines(pipelinesData.data || []);
+      }
+
+      if (canReadScorecards) {
+        await fetchScorecards(loadedApplications);
+      }
+
+      await fetchNotes();
     } catch (error) {
       console.error('Error fetching candidate data:', error);
       toast.error('Failed to load candidate profile');
@@ -83,11 +132,139 @@ const CandidateProfileProfessional: React.FC = () => {
     }
   };
 
-  const handleAddNote = () => {
-    if (noteInput.trim()) {
-      setNotes([...notes, `${new Date().toLocaleString()}: ${noteInput}`]);
+  const fetchScorecards = async (forApplications: Application[]) => {
+    const templatesResponse = await apiCall('/api/scorecard-templates');
+    if (templatesResponse.ok) {
+      const templatesData = await templatesResponse.json();
+      setScorecardTemplates(templatesData.data || []);
+    }
+
+    const entries = await Promise.all(forApplications.map(async application => {
+      const response = await apiCall(`/api/applications/${application.id}/scorecards`);
+      if (!response.ok) return null;
+      const result = await response.json();
+      return [application.id, { data: result.data || [], summary: result.summary }] as const;
+    }));
+    setScorecards(Object.fromEntries(entries.filter(Boolean) as [string, { data: Scorecard[]; summary: ScorecardSummaryData }][]));
+  };
+
+  const fetchNotes = async () => {
+    const [notesResponse, teamResponse] = await Promise.all([
+      apiCall(`/api/candidates/${id}/notes`),
+      apiCall('/api/team')
+    ]);
+    if (notesResponse.ok) {
+      const notesData = await notesResponse.json();
+      setNotes(notesData.data || []);
+    }
+    if (teamResponse.ok) {
+      const teamData = await teamResponse.json();
+      setTeamMembers(teamData.data || []);
+    }
+  };
+
+  const handleAddNote = async () => {
+    if (!noteInput.trim()) return;
+
+    setSavingNote(true);
+    try {
+      const response = await apiCall(`/api/candidates/${id}/notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: noteInput })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.details?.join('. ') || result.error || 'Failed to add note');
+        return;
+      }
+
       setNoteInput('');
+      if (isQueuedResponse(response)) {
+        toast.success('Note saved offline and will be added when you reconnect');
+        return;
+      }
+      setNotes(prev => [...prev, result.data]);
       toast.success('Note added successfully');
+    } catch (error) {
+      toast.error('Failed to add note');
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const handleSaveNote = async (note: CandidateNote) => {
+    try {
+      const response = await apiCall(`/api/notes/${note.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: editInput })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.details?.join('. ') || result.error || 'Failed to update note');
+        return;
+      }
+
+      setNotes(prev => prev.map(n => n.id === note.id ? (isQueuedResponse(response) ? { ...n, content: editInput } : result.data) : n));
+      setEditingNoteId(null);
+      toast.success('Note updated');
+    } catch (error) {
+      toast.error('Failed to update note');
+    }
+  };
+
+  const handleDeleteNote = async (note: CandidateNote) => {
+    if (!window.confirm('Delete this note?')) return;
+
+    try {
+      const response = await apiCall(`/api/notes/${note.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        toast.error(result.error || 'Failed to delete note');
+        return;
+      }
+
+      setNotes(prev => prev.filter(n => n.id !== note.id));
+      toast.success('Note deleted');
+    } catch (error) {
+      toast.error('Failed to delete note');
+    }
+  };
+
+  // Skills belong to the person, so every application's match score changes with them
+  const handleSaveSkills = async (skills: string[]) => {
+    if (!candidate) return false;
+
+    try {
+      const response = await apiCall(`/api/candidates/${candidate.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ skills })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.details?.join('. ') || result.error || 'Failed to update skills');
+        return false;
+      }
+
+      if (isQueuedResponse(response)) {
+        setCandidate({ ...candidate, skills });
+      } else {
+        setCandidate(result.data);
+        const applicationsResponse = await apiCall(`/api/applications?personId=${result.data.personId}`);
+        if (applicationsResponse.ok) {
+          setApplications((await applicationsResponse.json()).data || []);
+        }
+      }
+      toast.success('Skills updated');
+      return true;
+    } catch (error) {
+      toast.error('Failed to update skills');
+      return false;
     }
   };
 
@@ -95,12 +272,17 @@ const CandidateProfileProfessional: React.FC = () => {
     if (!selectedApplication || !newStage) return;
 
     try {
-      const response = await apiCall(`/api/applications/${selectedApplication.id}`, {
+      const response = await apiCall(`/api/applications/${selectedApplication.id}/stage`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           stage: newStage,
-          notes: `Moved from ${selectedApplication.stage} to ${newStage}`
+          fields: requiredStageFields.reduce((acc, field) => {
+            acc[field.key] = field.type === 'number' ? Number(stageFields[field.key]) : stageFields[field.key].trim();
+            return acc;
+          }, {} as Record<string, string | number>),
+          notes: `Moved from ${getStageInfo(selectedApplication.stage, selectedApplication.jobId).label} to ${getStageInfo(newStage, selectedApplication.jobId).label}`,
+          movedBy: user.name
         })
       });
 
@@ -108,26 +290,41 @@ const CandidateProfileProfessional: React.FC = () => {
         // Update the application in state
         setApplications(prev => prev.map(app => 
           app.id === selectedApplication.id 
-            ? { ...app, stage: newStage as Application['stage'] }
+            ? { ...app, stage: newStage }
             : app
         ));
         setShowMoveModal(false);
         setNewStage('');
         setSelectedApplication(null);
-        toast.success(`Application moved to ${newStage} stage`);
+        toast.success(`Application moved to ${getStageInfo(newStage, selectedApplication.jobId).label} stage`);
         
         // Refresh data to get updated timeline
         fetchCandidateData();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(formatTransitionErrors(data, 'Failed to update application stage'));
       }
     } catch (error) {
       toast.error('Failed to update application stage');
     }
   };
 
-  const getStageInfo = (stage: string) => {
-    return stages.find(s => s.value === stage) || stages[0];
+  const getPipelineForJob = (jobId: string) => resolvePipeline(jobs.find(j => j.id === jobId), pipelines);
+
+  const getStageInfo = (stage: string, jobId: string) => {
+    const pipeline = getPipelineForJob(jobId);
+    return { ...getStage(pipeline, stage), classes: getStageClasses(pipeline, stage) };
   };
 
+  // Template for the application's current stage, if the pipeline attaches one
+  const getStageTemplate = (application: Application) => {
+    const templateId = getStage(getPipelineForJob(application.jobId), application.stage).scorecardTemplateId;
+    return scorecardTemplates.find(t => t.id === templateId);
+  };
+
+  const getOwnScorecard = (application: Application) =>
+    scorecards[application.id]?.data.find(s => s.stage === application.stage && s.interviewerId === user.id) || null;
+
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
@@ -141,9 +338,18 @@ const CandidateProfileProfessional: React.FC = () => {
     ? applications 
     : applications.filter(app => app.jobId === selectedJobId);
 
+  // Every stage used by the pipelines of the applications shown, in pipeline order
+  const summaryStages = getKnownStages(filteredApplications.map(app => getPipelineForJob(app.jobId)));
+
+  // Values the target stage asks for, e.g. an offer amount or rejection reason
+  const requiredStageFields = selectedApplication
+    ? getRequiredFields(getPipelineForJob(selectedApplication.jobId), newStage)
+    : [];
+
   const openMoveModal = (application: Application) => {
     setSelectedApplication(application);
     setNewStage(application.stage);
+    setStageFields({});
     setShowMoveModal(true);
   };
 
@@ -177,8 +383,6 @@ const CandidateProfileProfessional: React.FC = () => {
     );
   }
 
-  const stageInfo = getStageInfo(candidate.stage);
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -302,9 +506,51 @@ const CandidateProfileProfessional: React.FC = () => {
                     </p>
                   </div>
                 </div>
+
+                {candidate.links && candidate.links.length > 0 && (
+                  <div className="flex items-start space-x-3">
+                    <div className="w-10 h-10 bg-indigo-100 dark:bg-indigo-900 rounded-lg flex items-center justify-center flex-shrink-0">
+                      <LinkIcon className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-500 dark:text-gray-400">Links</p>
+                      {candidate.links.map(link => (
+                        <a
+                          key={link}
+                          href={link}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="block truncate text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                        >
+                          {link.replace(/^https?:\/\//, '')}
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </motion.div>
 
+            {/* Skills */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.05 }}
+              className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6"
+            >
+              <div className="flex items-center space-x-3 mb-6">
+                <SparklesIcon className="w-6 h-6 text-gray-600 dark:text-gray-400" />
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Skills</h2>
+              </div>
+
+              <CandidateSkills
+                skills={candidate.skills || []}
+                job={jobs.find(j => j.id === (selectedJobId !== 'all' ? selectedJobId : candidate.jobId))}
+                canEdit={hasPermission(user.role, 'candidates:manage')}
+                onSave={handleSaveSkills}
+              />
+            </motion.div>
+
             {/* Resume */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -317,11 +563,13 @@ const CandidateProfileProfessional: React.FC = () => {
                 <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Resume</h2>
               </div>
               
-              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-6">
-                <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 font-mono leading-relaxed">
-                  {candidate.resume}
-                </pre>
-              </div>
+              <ResumeViewer file={candidate.resumeFile}>
+                <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-6">
+                  <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 font-mono leading-relaxed">
+                    {candidate.resume || (candidate.resumeFile ? 'No text could be extracted from this file.' : 'No resume provided.')}
+                  </pre>
+                </div>
+              </ResumeViewer>
             </motion.div>
 
             {/* Applications & Timeline */}
@@ -347,7 +595,7 @@ const CandidateProfileProfessional: React.FC = () => {
                 <div className="space-y-6">
                   {filteredApplications.map((application) => {
                     const job = jobs.find(j => j.id === application.jobId);
-                    const stageInfo = getStageInfo(application.stage);
+                    const stageInfo = getStageInfo(application.stage, application.jobId);
                     
                     return (
                       <div key={application.id} className="border border-gray-200 dark:border-gray-600 rounded-lg p-4">
@@ -358,19 +606,38 @@ const CandidateProfileProfessional: React.FC = () => {
                               <BriefcaseIcon className="w-4 h-4 text-blue-600 dark:text-blue-400" />
                             </div>
                             <div>
-                              <h3 className="font-medium text-gray-900 dark:text-white">
-                                {job ? job.title : 'Unknown Position'}
-                              </h3>
+                              <div className="flex items-center gap-2">
+                                <h3 className="font-medium text-gray-900 dark:text-white">
+                                  {job ? job.title : 'Unknown Position'}
+                                </h3>
+                                <MatchScoreBadge score={application.matchScore} />
+                              </div>
                               <p className="text-sm text-gray-500 dark:text-gray-400">
                                 Applied {new Date(application.appliedAt).toLocaleDateString()}
                               </p>
                             </div>
                           </div>
                           <div className="flex items-center space-x-3">
-                            <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-${stageInfo.color}-100 text-${stageInfo.color}-800 dark:bg-${stageInfo.color}-900 dark:text-${stageInfo.color}-200`}>
+                            <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${stageInfo.classes.badge}`}>
                               <span className="mr-1">{stageInfo.icon}</span>
                               {stageInfo.label}
                             </span>
+                            {canScheduleInterviews && (
+                              <button
+                                onClick={() => setSchedulingFor(application)}
+                                className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 text-sm font-medium"
+                              >
+                                Schedule Interview
+                              </button>
+                            )}
+                            {canSubmitScorecards && getStageTemplate(application) && (
+                              <button
+                                onClick={() => setScoringFor(application)}
+                                className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 text-sm font-medium"
+                              >
+                                {getOwnScorecard(application) ? 'Edit Scorecard' : 'Submit Scorecard'}
+                              </button>
+                            )}
                             <button
                               onClick={() => openMoveModal(application)}
                               className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 text-sm font-medium"
@@ -384,10 +651,10 @@ const CandidateProfileProfessional: React.FC = () => {
                         {application.timeline && application.timeline.length > 0 && (
                           <div className="space-y-3 ml-11">
                             {application.timeline.map((item: ApplicationTimelineEntry, index: number) => {
-                              const itemStageInfo = getStageInfo(item.stage);
+                              const itemStageInfo = getStageInfo(item.stage, application.jobId);
                               return (
                                 <div key={`${application.id}-${index}`} className="flex items-start space-x-3">
-                                  <div className={`w-6 h-6 bg-${itemStageInfo.color}-100 dark:bg-${itemStageInfo.color}-900 rounded-full flex items-center justify-center flex-shrink-0`}>
+                                  <div className={`w-6 h-6 ${itemStageInfo.classes.soft} rounded-full flex items-center justify-center flex-shrink-0`}>
                                     <span className="text-xs">{itemStageInfo.icon}</span>
                                   </div>
                                   <div className="flex-1 min-w-0">
@@ -404,6 +671,11 @@ const CandidateProfileProfessional: React.FC = () => {
                                         {item.notes}
                                       </p>
                                     )}
+                                    {item.fields && (
+                                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                        {formatStageFields(getPipelineForJob(application.jobId), item.stage, item.fields)}
+                                      </p>
+                                    )}
 
                                   </div>
                                 </div>
@@ -411,6 +683,17 @@ const CandidateProfileProfessional: React.FC = () => {
                             })}
                           </div>
                         )}
+
+                        {/* Aggregated interviewer feedback */}
+                        {scorecards[application.id] && (
+                          <div className="mt-4 ml-11">
+                            <ScorecardSummary
+                              scorecards={scorecards[application.id].data}
+                              summary={scorecards[application.id].summary}
+                              getStageLabel={(stageId) => getStageInfo(stageId, application.jobId).label}
+                            />
+                          </div>
+                        )}
                       </div>
                     );
                   })}
@@ -434,13 +717,13 @@ const CandidateProfileProfessional: React.FC = () => {
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Application Summary</h3>
               
               <div className="space-y-4">
-                {stages.map((stage) => {
-                  const count = filteredApplications.filter(app => app.stage === stage.value).length;
+                {summaryStages.map((stage) => {
+                  const count = filteredApplications.filter(app => app.stage === stage.id).length;
                   
                   return (
-                    <div key={stage.value} className="flex items-center justify-between">
+                    <div key={stage.id} className="flex items-center justify-between">
                       <div className="flex items-center space-x-3">
-                        <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs bg-${stage.color}-100 text-${stage.color}-800 dark:bg-${stage.color}-900 dark:text-${stage.color}-200`}>
+                        <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs ${STAGE_COLOR_CLASSES[stage.color].badge}`}>
                           {stage.icon}
                         </div>
                         <span className="text-sm text-gray-600 dark:text-gray-400">
@@ -460,6 +743,56 @@ const CandidateProfileProfessional: React.FC = () => {
               </div>
             </motion.div>
 
+            {/* Interviews */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.05 }}
+              className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center space-x-3">
+                  <CalendarIcon className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Interviews</h3>
+                </div>
+                <Link to="/interviews" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                  Calendar
+                </Link>
+              </div>
+
+              {interviews.length > 0 ? (
+                <div className="space-y-3">
+                  {interviews.map(interview => (
+                    <div key={interview.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-900 dark:text-white">
+                          {getInterviewTypeIcon(interview.type)} {getInterviewTypeLabel(interview.type)}
+                        </span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 capitalize">{interview.status}</span>
+                      </div>
+                      <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{formatInterviewSlot(interview)}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {interview.jobTitle} · {interview.interviewerNames.join(', ')}
+                      </p>
+                      {interview.videoLink && interview.status === 'scheduled' && (
+                        <a
+                          href={interview.videoLink}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center text-xs text-blue-600 dark:text-blue-400 hover:underline mt-1"
+                        >
+                          <VideoCameraIcon className="w-3 h-3 mr-1" />
+                          Join call
+                        </a>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No interviews scheduled</p>
+              )}
+            </motion.div>
+
             {/* Notes */}
             <motion.div
               initial={{ opacity: 0, x: 20 }}
@@ -474,30 +807,71 @@ const CandidateProfileProfessional: React.FC = () => {
 
               {notes.length > 0 && (
                 <div className="space-y-3 mb-4">
-                  {notes.map((note, index) => {
-                    // Render @mentions with highlighting
-                    const renderNoteWithMentions = (text: string) => {
-                      const parts = text.split(/(@\w+)/g);
-                      return parts.map((part, partIndex) => {
-                        if (part.startsWith('@')) {
-                          return (
-                            <span key={partIndex} className="text-blue-600 dark:text-blue-400 font-medium bg-blue-50 dark:bg-blue-900/20 px-1 rounded">
-                              {part}
-                            </span>
-                          );
-                        }
-                        return part;
-                      });
-                    };
-                    
-                    return (
-                      <div key={index} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
-                        <p className="text-sm text-gray-700 dark:text-gray-300">
-                          {renderNoteWithMentions(note)}
-                        </p>
+                  {notes.map(note => (
+                    <div key={note.id} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="text-xs font-medium text-gray-900 dark:text-white">{note.authorName}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400" title={note.revisions.length > 0 ? `Edited ${new Date(note.updatedAt).toLocaleString()}` : undefined}>
+                          {new Date(note.createdAt).toLocaleString()}
+                          {note.revisions.length > 0 && ' (edited)'}
+                        </span>
                       </div>
-                    );
-                  })}
+                      {editingNoteId === note.id ? (
+                        <div className="space-y-2">
+                          <MentionsInput
+                            value={editInput}
+                            onChange={setEditInput}
+                            suggestions={teamMemberNames}
+                            rows={3}
+                          />
+                          <div className="flex justify-end space-x-3">
+                            <button
+                              onClick={() => setEditingNoteId(null)}
+                              className="text-xs text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => handleSaveNote(note)}
+                              disabled={!editInput.trim()}
+                              className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 disabled:text-gray-400"
+                            >
+                              Save
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">
+                            {splitMentions(note.content, teamMemberNames).map((part, partIndex) => part.mention ? (
+                              <span key={partIndex} className="text-blue-600 dark:text-blue-400 font-medium bg-blue-50 dark:bg-blue-900/20 px-1 rounded">
+                                {part.text}
+                              </span>
+                            ) : part.text)}
+                          </p>
+                          {note.authorId === user.id && (
+                            <div className="flex justify-end space-x-3 mt-2">
+                              <button
+                                onClick={() => {
+                                  setEditingNoteId(note.id);
+                                  setEditInput(note.content);
+                                }}
+                                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleDeleteNote(note)}
+                                className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  ))}
                 </div>
               )}
 
@@ -506,11 +880,12 @@ const CandidateProfileProfessional: React.FC = () => {
                   value={noteInput}
                   onChange={setNoteInput}
                   placeholder="Add a note about this candidate... Type @ to mention team members"
+                  suggestions={teamMemberNames}
                   rows={3}
                 />
                 <button
                   onClick={handleAddNote}
-                  disabled={!noteInput.trim()}
+                  disabled={!noteInput.trim() || savingNote}
                   className="w-full inline-flex items-center justify-center px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
                 >
                   <PencilIcon className="w-4 h-4 mr-2" />
@@ -548,9 +923,9 @@ const CandidateProfileProfessional: React.FC = () => {
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                       Current Stage
                     </label>
-                    <div className={`inline-flex items-center px-3 py-1 text-sm font-medium rounded-full bg-${getStageInfo(selectedApplication.stage).color}-100 text-${getStageInfo(selectedApplication.stage).color}-800 dark:bg-${getStageInfo(selectedApplication.stage).color}-900 dark:text-${getStageInfo(selectedApplication.stage).color}-200`}>
-                      <span className="mr-1">{getStageInfo(selectedApplication.stage).icon}</span>
-                      {getStageInfo(selectedApplication.stage).label}
+                    <div className={`inline-flex items-center px-3 py-1 text-sm font-medium rounded-full ${getStageInfo(selectedApplication.stage, selectedApplication.jobId).classes.badge}`}>
+                      <span className="mr-1">{getStageInfo(selectedApplication.stage, selectedApplication.jobId).icon}</span>
+                      {getStageInfo(selectedApplication.stage, selectedApplication.jobId).label}
                     </div>
                   </div>
 
@@ -564,17 +939,31 @@ const CandidateProfileProfessional: React.FC = () => {
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     >
                       <option value="">Select new stage</option>
-                      {stages.map(stage => (
+                      {getPipelineForJob(selectedApplication.jobId).stages.map(stage => (
                         <option 
-                          key={stage.value} 
-                          value={stage.value} 
-                          disabled={stage.value === selectedApplication.stage}
+                          key={stage.id} 
+                          value={stage.id} 
+                          disabled={stage.id === selectedApplication.stage || !getAllowedTransitions(getPipelineForJob(selectedApplication.jobId), selectedApplication.stage).includes(stage.id)}
                         >
                           {stage.icon} {stage.label}
                         </option>
                       ))}
                     </select>
                   </div>
+
+                  {requiredStageFields.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        {field.label}
+                      </label>
+                      <input
+                        type={field.type === 'number' ? 'number' : 'text'}
+                        value={stageFields[field.key] || ''}
+                        onChange={(e) => setStageFields(prev => ({ ...prev, [field.key]: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  ))}
                 </div>
               )}
 
@@ -587,7 +976,7 @@ const CandidateProfileProfessional: React.FC = () => {
                 </button>
                 <button
                   onClick={handleMoveStage}
-                  disabled={!newStage || !selectedApplication || newStage === selectedApplication?.stage}
+                  disabled={!newStage || !selectedApplication || newStage === selectedApplication?.stage || requiredStageFields.some(field => !stageFields[field.key]?.trim())}
                   className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
                 >
                   Move Stage
@@ -596,6 +985,27 @@ const CandidateProfileProfessional: React.FC = () => {
             </motion.div>
           </div>
         )}
+
+        <ScheduleInterviewModal
+          isOpen={!!schedulingFor}
+          onClose={() => setSchedulingFor(null)}
+          applicationId={schedulingFor?.id || ''}
+          candidateName={candidate.name}
+          stage={schedulingFor?.stage}
+          onSaved={() => fetchCandidateData()}
+        />
+
+        <ScorecardModal
+          isOpen={!!scoringFor}
+          onClose={() => setScoringFor(null)}
+          applicationId={scoringFor?.id || ''}
+          stage={scoringFor?.stage || ''}
+          template={scoringFor ? getStageTemplate(scoringFor) : undefined}
+          candidateName={candidate.name}
+          interviews={interviews.filter(i => i.applicationId === scoringFor?.id)}
+          scorecard={scoringFor ? getOwnScorecard(scoringFor) : null}
+          onSaved={() => fetchCandidateData()}
+        />
       </div>
     </div>
   );
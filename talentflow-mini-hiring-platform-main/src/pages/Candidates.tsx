@@ -1,14 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useSearchParams } from 'react-router-dom';
-import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { ArrowLeftIcon, ArrowUpTrayIcon, UsersIcon } from '@heroicons/react/24/outline';
 import CandidateListProfessional from '../components/CandidateListProfessional';
 import CandidateListVirtualized from '../components/CandidateListVirtualized';
 import CandidateKanbanSimple from '../components/CandidateKanbanSimple';
+import CandidateImportWizard from '../components/CandidateImportWizard';
+import Button from '../components/ui/Button';
+import { useAuth } from '../store';
+import { hasPermission } from '../utils/permissions';
 
 const Candidates: React.FC = () => {
   const [searchParams] = useSearchParams();
   const jobId = searchParams.get('jobId');
   const [viewMode, setViewMode] = useState<'list' | 'virtualized' | 'kanban'>(jobId ? 'kanban' : 'virtualized');
+  const { user } = useAuth();
+  const [importOpen, setImportOpen] = useState(false);
+  // The lists load once on mount, so an import remounts them
+  const [listKey, setListKey] = useState(0);
 
   useEffect(() => {
     // Auto-switch to kanban when coming from job detail
@@ -40,43 +48,65 @@ const Candidates: React.FC = () => {
               Manage your candidate pipeline
             </p>
           </div>
-          <div className="flex bg-white dark:bg-gray-800 rounded-lg p-1 shadow-sm border border-gray-200 dark:border-gray-700">
-            <button
-              className={`px-3 py-2 text-sm font-medium rounded-md transition-colors ${
-                viewMode === 'list'
-                  ? 'bg-blue-600 text-white shadow-sm'
-                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
-              }`}
-              onClick={() => setViewMode('list')}
-            >
-              List View
-            </button>
-            <button
-              className={`px-3 py-2 text-sm font-medium rounded-md transition-colors ${
-                viewMode === 'virtualized'
-                  ? 'bg-blue-600 text-white shadow-sm'
-                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
-              }`}
-              onClick={() => setViewMode('virtualized')}
-            >
-              Virtualized
-            </button>
-            <button
-              className={`px-3 py-2 text-sm font-medium rounded-md transition-colors ${
-                viewMode === 'kanban'
-                  ? 'bg-blue-600 text-white shadow-sm'
-                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
-              }`}
-              onClick={() => setViewMode('kanban')}
-            >
-              Kanban Board
-            </button>
+          <div className="flex items-center space-x-3">
+            {hasPermission(user.role, 'candidates:manage') && (
+              <>
+                <Link
+                  to="/candidates/duplicates"
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <UsersIcon className="w-4 h-4 mr-2" />
+                  Review Duplicates
+                </Link>
+                <Button variant="secondary" onClick={() => setImportOpen(true)} icon={<ArrowUpTrayIcon className="w-4 h-4" />}>
+                  Import CSV
+                </Button>
+              </>
+            )}
+            <div className="flex bg-white dark:bg-gray-800 rounded-lg p-1 shadow-sm border border-gray-200 dark:border-gray-700">
+              <button
+                className={`px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                  viewMode === 'list'
+                    ? 'bg-blue-600 text-white shadow-sm'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+                onClick={() => setViewMode('list')}
+              >
+                List View
+              </button>
+              <button
+                className={`px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                  viewMode === 'virtualized'
+                    ? 'bg-blue-600 text-white shadow-sm'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+                onClick={() => setViewMode('virtualized')}
+              >
+                Virtualized
+              </button>
+              <button
+                className={`px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                  viewMode === 'kanban'
+                    ? 'bg-blue-600 text-white shadow-sm'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+                onClick={() => setViewMode('kanban')}
+              >
+                Kanban Board
+              </button>
+            </div>
           </div>
         </div>
 
-        {viewMode === 'list' && <CandidateListProfessional />}
-        {viewMode === 'virtualized' && <CandidateListVirtualized />}
-        {viewMode === 'kanban' && <CandidateKanbanSimple />}
+        {viewMode === 'list' && <CandidateListProfessional key={listKey} />}
+        {viewMode === 'virtualized' && <CandidateListVirtualized key={listKey} />}
+        {viewMode === 'kanban' && <CandidateKanbanSimple key={listKey} />}
+
+        <CandidateImportWizard
+          isOpen={importOpen}
+          onClose={() => setImportOpen(false)}
+          onImported={() => setListKey(key => key + 1)}
+        />
       </div>
     </div>
   );
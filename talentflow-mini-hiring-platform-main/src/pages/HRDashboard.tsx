@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import {
@@ -12,122 +12,72 @@ import {
   CheckCircleIcon,
   ArrowPathIcon
 } from '@heroicons/react/24/outline';
-import { Job, Candidate, Application, Assessment } from '../types';
-import { apiCall } from '../utils/apiUtils';
 import { useAuth } from '../store';
+import { useJobs } from '../hooks/useJobs';
+import { useCandidates } from '../hooks/useCandidates';
+import { JOB_STATUS_LABELS } from '../utils/requisitionUtils';
 import AnalyticsDashboard from '../components/AnalyticsDashboard';
 import toast from 'react-hot-toast';
 
 const HRDashboard: React.FC = () => {
   const { user } = useAuth();
-  const [stats, setStats] = useState({
-    totalJobs: 0,
-    activeJobs: 0,
-    archivedJobs: 0,
-    totalCandidates: 0,
-    activeCandidates: 0,
-    hiredCandidates: 0,
-    rejectedCandidates: 0,
-    recentApplications: 0,
-    todayApplications: 0,
-    totalAssessments: 0,
-    pendingReviews: 0
-  });
-  const [recentJobs, setRecentJobs] = useState<Job[]>([]);
-  const [recentCandidates, setRecentCandidates] = useState<Candidate[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+  const jobsQuery = useJobs({ page: 1, pageSize: 1000 });
+  const candidatesQuery = useCandidates({ page: 1, pageSize: 2000 });
 
-  const loadDashboardData = useCallback(async () => {
-    try {
-      setLoading(true);
-      console.log('Loading dashboard data...');
-      
-      // Load all data in parallel
-      const [jobsResponse, candidatesResponse] = await Promise.all([
-        apiCall('/api/jobs?page=1&pageSize=1000'),
-        apiCall('/api/candidates?page=1&pageSize=2000')
-      ]);
+  const jobs = useMemo(() => jobsQuery.data?.data || [], [jobsQuery.data]);
+  const candidates = useMemo(() => candidatesQuery.data?.data || [], [candidatesQuery.data]);
+  const recentJobs = jobs.slice(0, 5);
+  const recentCandidates = candidates.slice(0, 5);
+  const loading = jobsQuery.isLoading || candidatesQuery.isLoading;
+  const refreshing = jobsQuery.isFetching || candidatesQuery.isFetching;
+  const lastUpdated = new Date(Math.max(jobsQuery.dataUpdatedAt, candidatesQuery.dataUpdatedAt) || Date.now());
 
-      let jobs: Job[] = [];
-      let candidates: Candidate[] = [];
+  // Calculate real-time statistics
+  const stats = useMemo(() => {
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
 
-      // Process jobs
-      if (jobsResponse.ok) {
-        const jobsData = await jobsResponse.json();
-        jobs = jobsData.data || [];
-        console.log('Jobs loaded:', jobs.length);
-        setRecentJobs(jobs.slice(0, 5));
-      } else {
-        console.error('Failed to load jobs:', jobsResponse.status);
-      }
-
-      // Process candidates
-      if (candidatesResponse.ok) {
-        const candidatesData = await candidatesResponse.json();
-        candidates = candidatesData.data || [];
-        console.log('Candidates loaded:', candidates.length);
-        setRecentCandidates(candidates.slice(0, 5));
-      } else {
-        console.error('Failed to load candidates:', candidatesResponse.status);
-      }
-
-      // Calculate real-time statistics
-      const now = new Date();
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-
-      const activeJobs = jobs.filter(job => job.status === 'active').length;
-      const archivedJobs = jobs.filter(job => job.status === 'archived').length;
-      
-      const activeCandidates = candidates.filter(c => !['hired', 'rejected'].includes(c.stage)).length;
-      const hiredCandidates = candidates.filter(c => c.stage === 'hired').length;
-      const rejectedCandidates = candidates.filter(c => c.stage === 'rejected').length;
-      
-      const recentApplications = candidates.filter(c => {
-        const appliedDate = new Date(c.appliedAt);
-        return appliedDate >= weekAgo;
-      }).length;
-      
-      const todayApplications = candidates.filter(c => {
-        const appliedDate = new Date(c.appliedAt);
-        return appliedDate >= today;
-      }).length;
-      
-      const pendingReviews = candidates.filter(c => 
-        ['screen', 'tech'].includes(c.stage)
-      ).length;
-
-      const newStats = {
-        totalJobs: jobs.length,
-        activeJobs,
-        archivedJobs,
-        totalCandidates: candidates.length,
-        activeCandidates,
-        hiredCandidates,
-        rejectedCandidates,
-        recentApplications,
-        todayApplications,
-        totalAssessments: 0,
-        pendingReviews
-      };
-      
-      console.log('Dashboard stats:', newStats);
-      setStats(newStats);
-      
-      setLastUpdated(new Date());
-    } catch (error) {
-      console.error('Error loading dashboard data:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    loadDashboardData();
-  }, [loadDashboardData]);
+    const activeJobs = jobs.filter(job => job.status === 'open').length;
+    const closedJobs = jobs.filter(job => job.status === 'closed').length;
+    
+    const activeCandidates = candidates.filter(c => !['hired', 'rejected'].includes(c.stage)).length;
+    const hiredCandidates = candidates.filter(c => c.stage === 'hired').length;
+    const rejectedCandidates = candidates.filter(c => c.stage === 'rejected').length;
+    
+    const recentApplications = candidates.filter(c => {
+      const appliedDate = new Date(c.appliedAt);
+      return appliedDate >= weekAgo;
+    }).length;
+    
+    const todayApplications = candidates.filter(c => {
+      const appliedDate = new Date(c.appliedAt);
+      return appliedDate >= today;
+    }).length;
+    
+    const pendingReviews = candidates.filter(c => 
+      ['screen', 'tech'].includes(c.stage)
+    ).length;
 
+    return {
+      totalJobs: jobs.length,
+      activeJobs,
+      closedJobs,
+      totalCandidates: candidates.length,
+      activeCandidates,
+      hiredCandidates,
+      rejectedCandidates,
+      recentApplications,
+      todayApplications,
+      totalAssessments: 0,
+      pendingReviews
+    };
+  }, [jobs, candidates]);
 
+  const refresh = () => {
+    jobsQuery.refetch();
+    candidatesQuery.refetch();
+  };
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -176,11 +126,11 @@ const HRDashboard: React.FC = () => {
                 </span>
               </div>
               <button
-                onClick={loadDashboardData}
-                disabled={loading}
+                onClick={refresh}
+                disabled={refreshing}
                 className="inline-flex items-center px-4 py-2 text-sm font-bold text-white bg-gradient-to-r from-indigo-500 via-purple-500 to-fuchsia-500 rounded-full shadow-lg hover:from-indigo-600 hover:to-fuchsia-600 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-400 disabled:opacity-50"
               >
-                <ArrowPathIcon className={`w-5 h-5 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                <ArrowPathIcon className={`w-5 h-5 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
                 <span className="tracking-wide">Refresh</span>
               </button>
             </div>
@@ -393,11 +343,11 @@ const HRDashboard: React.FC = () => {
                       </p>
                     </div>
                     <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                      job.status === 'active'
+                      job.status === 'open'
                         ? 'bg-green-900 text-green-200'
                         : 'bg-yellow-900 text-yellow-200'
                     }`}>
-                      {typeof job.status === 'string' ? job.status : 'N/A'}
+                      {JOB_STATUS_LABELS[job.status] || 'N/A'}
                     </span>
                   </Link>
                 ))}
@@ -0,0 +1,322 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeftIcon, ChevronLeftIcon, ChevronRightIcon, MapPinIcon, VideoCameraIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import Modal from '../components/ui/Modal';
+import Button from '../components/ui/Button';
+import ScheduleInterviewModal from '../components/ScheduleInterviewModal';
+import { Interviewer, InterviewStatus, InterviewSummary } from '../types';
+import { apiCall } from '../utils/apiUtils';
+import { hasPermission } from '../utils/permissions';
+import { useAuth } from '../store';
+import {
+  addDays,
+  formatInterviewSlot,
+  formatTime,
+  getInterviewTypeIcon,
+  getInterviewTypeLabel,
+  startOfWeek
+} from '../utils/interviewUtils';
+
+const DAY_START_HOUR = 8;
+const DAY_END_HOUR = 19;
+const HOUR_HEIGHT = 56; // px per hour row
+
+const STATUS_CLASSES: Record<InterviewStatus, string> = {
+  scheduled: 'bg-blue-100 border-blue-400 text-blue-900 dark:bg-blue-900/60 dark:border-blue-500 dark:text-blue-100',
+  completed: 'bg-green-100 border-green-400 text-green-900 dark:bg-green-900/60 dark:border-green-500 dark:text-green-100',
+  cancelled: 'bg-gray-100 border-gray-300 text-gray-500 line-through dark:bg-gray-800 dark:border-gray-600 dark:text-gray-400'
+};
+
+const InterviewCalendar: React.FC = () => {
+  const { user } = useAuth();
+  const canManage = hasPermission(user.role, 'interviews:manage');
+  const [view, setView] = useState<'week' | 'day'>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [interviews, setInterviews] = useState<InterviewSummary[]>([]);
+  const [interviewers, setInterviewers] = useState<Interviewer[]>([]);
+  const [interviewerFilter, setInterviewerFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<InterviewSummary | null>(null);
+  const [rescheduling, setRescheduling] = useState<InterviewSummary | null>(null);
+
+  const days = useMemo(() => {
+    if (view === 'day') {
+      const day = new Date(anchor);
+      day.setHours(0, 0, 0, 0);
+      return [day];
+    }
+    const monday = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+  }, [view, anchor]);
+
+  const loadInterviews = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        from: days[0].toISOString(),
+        to: addDays(days[days.length - 1], 1).toISOString()
+      });
+      if (interviewerFilter) params.set('interviewerId', interviewerFilter);
+
+      const response = await apiCall(`/api/interviews?${params}`);
+      if (!response.ok) throw new Error('Failed to load interviews');
+      const result = await response.json();
+      setInterviews(result.data || []);
+    } catch (error) {
+      console.error('Failed to load interviews:', error);
+      toast.error('Failed to load interviews');
+    } finally {
+      setLoading(false);
+    }
+  }, [days, interviewerFilter]);
+
+  useEffect(() => {
+    loadInterviews();
+  }, [loadInterviews]);
+
+  useEffect(() => {
+    loadInterviewers();
+  }, []);
+
+  const loadInterviewers = async () => {
+    try {
+      const response = await apiCall('/api/interviewers');
+      if (response.ok) {
+        const result = await response.json();
+        setInterviewers(result.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to load interviewers:', error);
+    }
+  };
+
+  const updateStatus = async (interview: InterviewSummary, status: InterviewStatus) => {
+    try {
+      const response = await apiCall(`/api/interviews/${interview.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to update interview');
+
+      toast.success(status === 'cancelled' ? 'Interview cancelled' : 'Interview marked as completed');
+      setSelected(null);
+      loadInterviews();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update interview');
+    }
+  };
+
+  const move = (direction: number) => setAnchor(prev => addDays(prev, direction * (view === 'week' ? 7 : 1)));
+
+  const hours = Array.from({ length: DAY_END_HOUR - DAY_START_HOUR }, (_, i) => DAY_START_HOUR + i);
+  const isToday = (day: Date) => day.toDateString() === new Date().toDateString();
+
+  // Clamp blocks to the visible hours so early or late interviews still show
+  const getBlockStyle = (interview: InterviewSummary) => {
+    const start = new Date(interview.startTime);
+    const end = new Date(interview.endTime);
+    const startMinutes = Math.max(start.getHours() * 60 + start.getMinutes(), DAY_START_HOUR * 60);
+    const endMinutes = Math.min(end.getHours() * 60 + end.getMinutes(), DAY_END_HOUR * 60);
+    return {
+      top: ((startMinutes - DAY_START_HOUR * 60) / 60) * HOUR_HEIGHT,
+      height: Math.max(((endMinutes - startMinutes) / 60) * HOUR_HEIGHT, 24)
+    };
+  };
+
+  const title = view === 'day'
+    ? days[0].toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+    : `${days[0].toLocaleDateString([], { month: 'short', day: 'numeric' })} – ${days[6].toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Navigation */}
+        <div className="flex items-center mb-6">
+          <button
+            onClick={() => window.history.back()}
+            className="inline-flex items-center text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+          >
+            <ArrowLeftIcon className="w-5 h-5 mr-2" />
+            Go Back
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+              Interviews
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              {title}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={interviewerFilter}
+              onChange={(e) => setInterviewerFilter(e.target.value)}
+              className="input-base w-auto"
+            >
+              <option value="">All interviewers</option>
+              {interviewers.map(interviewer => (
+                <option key={interviewer.id} value={interviewer.id}>{interviewer.name}</option>
+              ))}
+            </select>
+            <div className="flex items-center bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+              <button onClick={() => move(-1)} className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white" title="Previous">
+                <ChevronLeftIcon className="w-5 h-5" />
+              </button>
+              <button onClick={() => setAnchor(new Date())} className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">
+                Today
+              </button>
+              <button onClick={() => move(1)} className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white" title="Next">
+                <ChevronRightIcon className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="flex bg-white dark:bg-gray-800 rounded-lg p-1 shadow-sm border border-gray-200 dark:border-gray-700">
+              {(['week', 'day'] as const).map(mode => (
+                <button
+                  key={mode}
+                  className={`px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                    view === mode
+                      ? 'bg-blue-600 text-white shadow-sm'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+                  onClick={() => setView(mode)}
+                >
+                  {mode === 'week' ? 'Week' : 'Day'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          {/* Day headers */}
+          <div className="flex border-b border-gray-200 dark:border-gray-700 min-w-[720px]">
+            <div className="w-16 flex-shrink-0" />
+            {days.map(day => (
+              <button
+                key={day.toISOString()}
+                onClick={() => { setAnchor(day); setView('day'); }}
+                className={`flex-1 py-3 text-center text-sm font-medium border-l border-gray-200 dark:border-gray-700 ${
+                  isToday(day) ? 'text-blue-600 dark:text-blue-400' : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                {day.toLocaleDateString([], { weekday: 'short' })} {day.getDate()}
+              </button>
+            ))}
+          </div>
+
+          {/* Hour grid */}
+          <div className="flex relative min-w-[720px]">
+            <div className="w-16 flex-shrink-0">
+              {hours.map(hour => (
+                <div key={hour} style={{ height: HOUR_HEIGHT }} className="text-xs text-gray-500 dark:text-gray-400 text-right pr-2 -mt-2">
+                  {String(hour).padStart(2, '0')}:00
+                </div>
+              ))}
+            </div>
+            {days.map(day => (
+              <div key={day.toISOString()} className="flex-1 relative border-l border-gray-200 dark:border-gray-700">
+                {hours.map(hour => (
+                  <div key={hour} style={{ height: HOUR_HEIGHT }} className="border-t border-gray-100 dark:border-gray-700" />
+                ))}
+                {interviews
+                  .filter(interview => new Date(interview.startTime).toDateString() === day.toDateString())
+                  .map(interview => (
+                    <button
+                      key={interview.id}
+                      onClick={() => setSelected(interview)}
+                      style={getBlockStyle(interview)}
+                      className={`absolute left-1 right-1 rounded-md border-l-4 px-2 py-1 text-left text-xs overflow-hidden shadow-sm hover:shadow-md transition-shadow ${STATUS_CLASSES[interview.status]}`}
+                    >
+                      <div className="font-medium truncate">
+                        {getInterviewTypeIcon(interview.type)} {interview.candidateName}
+                      </div>
+                      <div className="truncate">
+                        {formatTime(interview.startTime)} – {formatTime(interview.endTime)}
+                      </div>
+                      {view === 'day' && (
+                        <div className="truncate">{interview.jobTitle} · {interview.interviewerNames.join(', ')}</div>
+                      )}
+                    </button>
+                  ))}
+              </div>
+            ))}
+            {loading && (
+              <div className="absolute inset-0 flex items-center justify-center bg-white/50 dark:bg-gray-800/50">
+                <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {!loading && interviews.length === 0 && (
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400 mt-4">
+            No interviews in this {view}. Schedule one from a candidate's profile or the Kanban board.
+          </p>
+        )}
+      </div>
+
+      <Modal
+        isOpen={!!selected}
+        onClose={() => setSelected(null)}
+        title={selected ? `${getInterviewTypeLabel(selected.type)} interview` : ''}
+        size="md"
+      >
+        {selected && (
+          <div className="space-y-3 text-sm text-gray-700 dark:text-gray-300">
+            <div>
+              <Link to={`/candidates/${selected.candidateId}`} className="text-lg font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                {selected.candidateName}
+              </Link>
+              <p className="text-gray-500 dark:text-gray-400">{selected.jobTitle}</p>
+            </div>
+            <p>{formatInterviewSlot(selected)}</p>
+            <p>With {selected.interviewerNames.join(', ')}</p>
+            {selected.location && (
+              <p className="flex items-center"><MapPinIcon className="w-4 h-4 mr-1" />{selected.location}</p>
+            )}
+            {selected.videoLink && (
+              <a href={selected.videoLink} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-600 dark:text-blue-400 hover:underline">
+                <VideoCameraIcon className="w-4 h-4 mr-1" />Join video call
+              </a>
+            )}
+            {selected.notes && <p className="whitespace-pre-wrap">{selected.notes}</p>}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Status: {selected.status} · Scheduled by {selected.createdBy}
+            </p>
+
+            {canManage && selected.status === 'scheduled' && (
+              <div className="flex justify-end space-x-3 pt-2">
+                <Button variant="error" size="sm" onClick={() => updateStatus(selected, 'cancelled')}>
+                  Cancel Interview
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => { setRescheduling(selected); setSelected(null); }}>
+                  Reschedule
+                </Button>
+                <Button variant="success" size="sm" onClick={() => updateStatus(selected, 'completed')}>
+                  Mark Completed
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </Modal>
+
+      <ScheduleInterviewModal
+        isOpen={!!rescheduling}
+        onClose={() => setRescheduling(null)}
+        applicationId={rescheduling?.applicationId || ''}
+        candidateName={rescheduling?.candidateName}
+        interview={rescheduling}
+        onSaved={() => loadInterviews()}
+      />
+    </div>
+  );
+};
+
+export default InterviewCalendar;
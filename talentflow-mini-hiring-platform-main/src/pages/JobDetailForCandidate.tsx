@@ -9,14 +9,20 @@ import {
   UserGroupIcon,
   ClockIcon,
   CheckCircleIcon,
-  DocumentTextIcon
+  DocumentTextIcon,
+  BuildingOfficeIcon,
+  BriefcaseIcon
 } from '@heroicons/react/24/outline';
 import { Job, ApiResponse } from '../types';
 import { useAuth } from '../store';
+import { apiCall } from '../utils/apiUtils';
 import Button from '../components/ui/Button';
 import Card from '../components/ui/Card';
 import Badge from '../components/ui/Badge';
+import ApplyModal from '../components/ApplyModal';
 import toast from 'react-hot-toast';
+import { EMPLOYMENT_TYPE_LABELS, REMOTE_POLICY_LABELS, SENIORITY_LABELS, formatSalary } from '../utils/jobUtils';
+import { JOB_STATUS_LABELS } from '../utils/requisitionUtils';
 
 const JobDetailForCandidate: React.FC = () => {
   const { jobId } = useParams<{ jobId: string }>();
@@ -24,8 +30,9 @@ const JobDetailForCandidate: React.FC = () => {
   const { user } = useAuth();
   const [job, setJob] = useState<Job | null>(null);
   const [loading, setLoading] = useState(true);
-  const [applying, setApplying] = useState(false);
+  const [applyOpen, setApplyOpen] = useState(false);
   const [hasApplied, setHasApplied] = useState(false);
+  const [applicationStage, setApplicationStage] = useState<string | null>(null);
 
   useEffect(() => {
     if (jobId) {
@@ -37,7 +44,7 @@ const JobDetailForCandidate: React.FC = () => {
   const loadJob = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`/api/jobs/${jobId}`);
+      const response = await apiCall(`/api/jobs/${jobId}`);
       if (response.ok) {
         const data: ApiResponse<Job> = await response.json();
         setJob(data.data);
@@ -55,43 +62,21 @@ const JobDetailForCandidate: React.FC = () => {
 
   const checkApplicationStatus = async () => {
     try {
-      const response = await fetch(`/api/applications/check?jobId=${jobId}&candidateEmail=${user.email}`);
+      if (!user.email) return;
+      const response = await apiCall(`/api/applications/check?jobId=${jobId}&candidateEmail=${encodeURIComponent(user.email)}`);
       if (response.ok) {
         const data = await response.json();
         setHasApplied(data.hasApplied);
+        setApplicationStage(data.stage || null);
       }
     } catch (error) {
       console.error('Error checking application status:', error);
     }
   };
 
-  const handleApply = async () => {
-    if (!job || !user.email) return;
-
-    try {
-      setApplying(true);
-      const response = await fetch('/api/applications', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jobId: job.id,
-          candidateName: user.name,
-          candidateEmail: user.email,
-        }),
-      });
-
-      if (response.ok) {
-        setHasApplied(true);
-        toast.success('Application submitted successfully!');
-      } else {
-        toast.error('Failed to submit application');
-      }
-    } catch (error) {
-      console.error('Error applying:', error);
-      toast.error('Failed to submit application');
-    } finally {
-      setApplying(false);
-    }
+  const handleApplied = (stage: string | null) => {
+    setHasApplied(true);
+    setApplicationStage(stage);
   };
 
   if (loading) {
@@ -150,19 +135,29 @@ const JobDetailForCandidate: React.FC = () => {
                   <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
                     {job.title}
                   </h1>
-                  <div className="flex items-center space-x-4 text-gray-600 dark:text-gray-400">
+                  {job.company && (
+                    <p className="flex items-center text-lg text-gray-700 dark:text-gray-300 mb-2">
+                      <BuildingOfficeIcon className="w-5 h-5 mr-1" />
+                      {job.company}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-gray-600 dark:text-gray-400">
                     <div className="flex items-center">
                       <MapPinIcon className="w-5 h-5 mr-1" />
                       {job.location}
                     </div>
+                    <div className="flex items-center">
+                      <BriefcaseIcon className="w-5 h-5 mr-1" />
+                      {EMPLOYMENT_TYPE_LABELS[job.employmentType]} · {REMOTE_POLICY_LABELS[job.remotePolicy]}
+                    </div>
                     <div className="flex items-center">
                       <CalendarIcon className="w-5 h-5 mr-1" />
                       Posted {new Date(job.createdAt).toLocaleDateString()}
                     </div>
                   </div>
                 </div>
-                <Badge variant={job.status === 'active' ? 'success' : 'secondary'}>
-                  {job.status}
+                <Badge variant={job.status === 'open' ? 'success' : 'secondary'}>
+                  {JOB_STATUS_LABELS[job.status]}
                 </Badge>
               </div>
 
@@ -251,6 +246,13 @@ const JobDetailForCandidate: React.FC = () => {
                   <p className="text-gray-600 dark:text-gray-400 mb-4">
                     Your application has been received. We'll be in touch soon!
                   </p>
+                  {applicationStage && (
+                    <div className="mb-4">
+                      <Badge variant="primary">
+                        Current stage: {applicationStage}
+                      </Badge>
+                    </div>
+                  )}
                   <Button
                     variant="secondary"
                     onClick={() => navigate('/my-applications')}
@@ -265,19 +267,40 @@ const JobDetailForCandidate: React.FC = () => {
                     Ready to join our team? Submit your application now.
                   </p>
                   <Button
-                    onClick={handleApply}
-                    loading={applying}
+                    onClick={() => setApplyOpen(true)}
                     className="w-full mb-3"
                   >
                     Apply Now
                   </Button>
                   <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
-                    Your profile information will be used for the application
+                    Attach your resume and we'll fill in what we can from it
                   </p>
                 </div>
               )}
             </Card>
 
+            {/* Position Details */}
+            <Card>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                Position Details
+              </h3>
+              <dl className="space-y-3">
+                {[
+                  { label: 'Department', value: job.department },
+                  { label: 'Seniority', value: SENIORITY_LABELS[job.seniority] },
+                  { label: 'Employment Type', value: EMPLOYMENT_TYPE_LABELS[job.employmentType] },
+                  { label: 'Workplace', value: REMOTE_POLICY_LABELS[job.remotePolicy] },
+                  { label: 'Salary', value: formatSalary(job.salary) },
+                  { label: 'Openings', value: job.openings ? String(job.openings) : undefined }
+                ].filter(detail => detail.value).map(detail => (
+                  <div key={detail.label}>
+                    <dt className="font-medium text-gray-900 dark:text-white">{detail.label}</dt>
+                    <dd className="text-gray-600 dark:text-gray-400">{detail.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </Card>
+
             {/* Company Info */}
             <Card>
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
@@ -316,8 +339,15 @@ const JobDetailForCandidate: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <ApplyModal
+        job={job}
+        isOpen={applyOpen}
+        onClose={() => setApplyOpen(false)}
+        onApplied={handleApplied}
+      />
     </div>
   );
 };
 
-export default JobDetailForCandidate;
\ No newline at end of file
+export default JobDetailForCandidate;
@@ -11,13 +11,15 @@ import {
   EyeIcon,
   ChartBarIcon,
   ClockIcon,
-  CheckCircleIcon,
-  XCircleIcon
+  CheckCircleIcon
 } from '@heroicons/react/24/outline';
-import { Job, Candidate, ApiResponse } from '../types';
+import { Job, Candidate, Pipeline, ApiResponse } from '../types';
 import JobModal from '../components/JobModal';
 import JobApplications from '../components/JobApplications';
+import RequisitionPanel from '../components/RequisitionPanel';
 import { apiCall } from '../utils/apiUtils';
+import { DEFAULT_PIPELINE, STAGE_COLOR_CLASSES, getActiveStages, isTerminalStage } from '../utils/pipelineUtils';
+import { JOB_STATUS_CLASSES, JOB_STATUS_LABELS } from '../utils/requisitionUtils';
 import toast from 'react-hot-toast';
 
 const JobDetailProfessional: React.FC = () => {
@@ -25,6 +27,7 @@ const JobDetailProfessional: React.FC = () => {
   const navigate = useNavigate();
   const [job, setJob] = useState<Job | null>(null);
   const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [pipeline, setPipeline] = useState<Pipeline>(DEFAULT_PIPELINE);
   const [loading, setLoading] = useState(true);
   const [showEditModal, setShowEditModal] = useState(false);
 
@@ -45,6 +48,12 @@ const JobDetailProfessional: React.FC = () => {
         setJob(jobData.data);
       }
 
+      const pipelineResponse = await apiCall(`/api/jobs/${jobId}/pipeline`);
+      if (pipelineResponse.ok) {
+        const pipelineData = await pipelineResponse.json();
+        setPipeline(pipelineData.data || DEFAULT_PIPELINE);
+      }
+
       // Load candidates for this job
       const candidatesResponse = await apiCall(`/api/candidates?jobId=${jobId}&page=1&pageSize=100`);
       if (candidatesResponse.ok) {
@@ -65,27 +74,6 @@ const JobDetailProfessional: React.FC = () => {
     toast.success('Job updated successfully!');
   };
 
-  const handleArchiveJob = async () => {
-    if (!job) return;
-    
-    try {
-      const response = await apiCall(`/api/jobs/${job.id}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          status: job.status === 'active' ? 'archived' : 'active'
-        })
-      });
-
-      if (response.ok) {
-        toast.success(`Job ${job.status === 'active' ? 'archived' : 'activated'} successfully!`);
-        loadJobData();
-      }
-    } catch (error) {
-      toast.error('Failed to update job status');
-    }
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
@@ -123,7 +111,7 @@ const JobDetailProfessional: React.FC = () => {
   }, {} as Record<string, number>);
 
   const totalCandidates = candidates.length;
-  const activeApplications = candidates.filter(c => !['hired', 'rejected'].includes(c.stage)).length;
+  const activeApplications = candidates.filter(c => !isTerminalStage(pipeline, c.stage)).length;
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -156,12 +144,8 @@ const JobDetailProfessional: React.FC = () => {
             <div className="flex-1">
               <div className="flex items-center space-x-3 mb-2">
                 <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{job.title}</h1>
-                <span className={`px-3 py-1 text-sm font-medium rounded-full ${
-                  job.status === 'active' 
-                    ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                    : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
-                }`}>
-                  {job.status}
+                <span className={`px-3 py-1 text-sm font-medium rounded-full ${JOB_STATUS_CLASSES[job.status]}`}>
+                  {JOB_STATUS_LABELS[job.status]}
                 </span>
               </div>
               
@@ -190,27 +174,6 @@ const JobDetailProfessional: React.FC = () => {
                 Edit Job
               </button>
               
-              <button
-                onClick={handleArchiveJob}
-                className={`inline-flex items-center px-4 py-2 font-medium rounded-lg transition-colors ${
-                  job.status === 'active'
-                    ? 'bg-red-600 hover:bg-red-700 text-white'
-                    : 'bg-green-600 hover:bg-green-700 text-white'
-                }`}
-              >
-                {job.status === 'active' ? (
-                  <>
-                    <XCircleIcon className="w-5 h-5 mr-2" />
-                    Archive Job
-                  </>
-                ) : (
-                  <>
-                    <CheckCircleIcon className="w-5 h-5 mr-2" />
-                    Activate Job
-                  </>
-                )}
-              </button>
-              
               <Link
                 to={`/assessments/create?jobId=${job.id}`}
                 className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors"
@@ -281,15 +244,11 @@ const JobDetailProfessional: React.FC = () => {
 
               {totalCandidates > 0 ? (
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                  {[
-                    { stage: 'applied', label: 'Applied', color: 'blue' },
-                    { stage: 'screen', label: 'Screening', color: 'yellow' },
-                    { stage: 'tech', label: 'Technical', color: 'purple' },
-                    { stage: 'offer', label: 'Offer', color: 'green' }
-                  ].map(({ stage, label, color }) => (
-                    <div key={stage} className="text-center p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                      <div className={`text-2xl font-bold text-${color}-600 dark:text-${color}-400`}>
-                        {candidateStats[stage] || 0}
+                  {getActiveStages(pipeline).map(({ id, label, color }) => (
+                    <div key={id} className="text-center p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                      <div className={`mx-auto mb-2 w-2 h-2 rounded-full ${STAGE_COLOR_CLASSES[color].dot}`} />
+                      <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                        {candidateStats[id] || 0}
                       </div>
                       <div className="text-sm text-gray-600 dark:text-gray-400">{label}</div>
                     </div>
@@ -314,12 +273,22 @@ const JobDetailProfessional: React.FC = () => {
               className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6"
             >
               <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-6">Applications Management</h2>
-              <JobApplications jobId={job.id} />
+              <JobApplications jobId={job.id} jobTitle={job.title} />
             </motion.div>
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
+            {/* Requisition */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6"
+            >
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Requisition</h3>
+              <RequisitionPanel job={job} onChange={loadJobData} />
+            </motion.div>
+
             {/* Quick Stats */}
             <motion.div
               initial={{ opacity: 0, x: 20 }}
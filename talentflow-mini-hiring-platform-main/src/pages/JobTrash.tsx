@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { ArrowLeftIcon, ArrowUturnLeftIcon, TrashIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import Button from '../components/ui/Button';
+import Card from '../components/ui/Card';
+import { TrashItemSummary } from '../types';
+import { useAuth } from '../store';
+import { usePurgeTrashItem, useRestoreJob, useTrash } from '../hooks/useTrash';
+import { ApiError, isQueuedWrite } from '../utils/apiUtils';
+import { hasPermission } from '../utils/permissions';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error instanceof ApiError && error.body?.error) || fallback;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysLeft = (expiresAt: string) => Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / DAY_MS));
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describeCounts = ({ counts }: TrashItemSummary) => [
+  plural(counts.applications, 'application'),
+  counts.candidates > 0 && plural(counts.candidates, 'candidate'),
+  counts.submissions > 0 && plural(counts.submissions, 'submission'),
+  counts.interviews > 0 && plural(counts.interviews, 'interview'),
+  counts.notes > 0 && plural(counts.notes, 'note')
+].filter(Boolean).join(' · ');
+
+// Deleted jobs wait here with everything they took along, until HR restores them
+// or the retention window runs out and they are purged
+const JobTrash: React.FC = () => {
+  const { user } = useAuth();
+  const canManage = hasPermission(user.role, 'jobs:manage');
+  const trashQuery = useTrash({ enabled: canManage });
+  const restoreJob = useRestoreJob();
+  const purgeItem = usePurgeTrashItem();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const items = trashQuery.data?.data || [];
+
+  const handleRestore = async (item: TrashItemSummary) => {
+    try {
+      setBusyId(item.id);
+      const result = await restoreJob.mutateAsync(item.id);
+      toast.success(isQueuedWrite(result)
+        ? 'Restore saved offline and will run when you reconnect'
+        : `Restored ${item.title}`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to restore job'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItemSummary) => {
+    if (!window.confirm(`Permanently delete "${item.title}" and its ${describeCounts(item)}? This cannot be undone.`)) return;
+
+    try {
+      setBusyId(item.id);
+      await purgeItem.mutateAsync(item.id);
+      toast.success(`${item.title} deleted permanently`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to delete permanently'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!canManage) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16 text-center text-gray-600 dark:text-gray-400">
+        Only HR can manage deleted jobs.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center mb-6">
+          <button
+            onClick={() => window.history.back()}
+            className="inline-flex items-center text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+          >
+            <ArrowLeftIcon className="w-5 h-5 mr-2" />
+            Go Back
+          </button>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Trash</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Deleted jobs with their applications, assessment and submissions. Restore one before its time runs out; after that it is deleted for good.
+          </p>
+        </div>
+
+        {trashQuery.isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : trashQuery.isError ? (
+          <Card padding="lg" className="text-center text-red-600 dark:text-red-400">Failed to load trash</Card>
+        ) : items.length === 0 ? (
+          <Card padding="lg" className="text-center">
+            <TrashIcon className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-700 dark:text-gray-300">The trash is empty.</p>
+          </Card>
+        ) : (
+          <Card padding="none" className="divide-y divide-gray-200 dark:divide-gray-700">
+            {items.map(item => {
+              const busy = busyId === item.id;
+              const remaining = daysLeft(item.expiresAt);
+              return (
+                <div key={item.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 px-5 py-4">
+                  <div className="min-w-0 text-sm">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">{item.title}</p>
+                    <p className="text-gray-500 dark:text-gray-400">{describeCounts(item)}</p>
+                    <p className="text-gray-500 dark:text-gray-400">
+                      Deleted by {item.deletedBy} on {new Date(item.deletedAt).toLocaleString()} ·{' '}
+                      <span className={remaining <= 3 ? 'text-red-600 dark:text-red-400' : ''}>
+                        {remaining === 0 ? 'purged today' : `${plural(remaining, 'day')} left`}
+                      </span>
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => handlePurge(item)} disabled={busy}>
+                      Delete forever
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => handleRestore(item)}
+                      loading={busy}
+                      icon={<ArrowUturnLeftIcon className="w-4 h-4" />}
+                    >
+                      Restore
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JobTrash;
@@ -14,6 +14,7 @@ import { Job, ApiResponse } from '../types';
 import { useAuth } from '../store';
 import { apiCall } from '../utils/apiUtils';
 import toast from 'react-hot-toast';
+import ApplyModal from '../components/ApplyModal';
 
 const PAGE_SIZE = 12;
 
@@ -27,6 +28,7 @@ const JobsBoardForCandidates: React.FC = () => {
   const [tagFilter, setTagFilter] = useState('');
   const [page, setPage] = useState(1);
   const [appliedJobs, setAppliedJobs] = useState<Set<string>>(new Set());
+  const [applyingTo, setApplyingTo] = useState<Job | null>(null);
 
   useEffect(() => {
     loadJobs();
@@ -34,7 +36,7 @@ const JobsBoardForCandidates: React.FC = () => {
   }, [user.email]);
 
   const filteredJobs = useMemo(() => {
-    let filtered = allJobs.filter(job => job.status === 'active'); // Only show active jobs
+    let filtered = allJobs.filter(job => job.status === 'open'); // Only show jobs taking applications
 
     if (searchTerm.trim()) {
       const searchLower = searchTerm.toLowerCase().trim();
@@ -69,7 +71,7 @@ const JobsBoardForCandidates: React.FC = () => {
   const loadJobs = async () => {
     try {
       setLoading(true);
-      const response = await apiCall('/api/jobs?page=1&pageSize=1000&status=active');
+      const response = await apiCall('/api/jobs?page=1&pageSize=1000&status=open');
       if (!response.ok) throw new Error('Failed to load jobs');
 
       const data: ApiResponse<Job[]> = await response.json();
@@ -86,7 +88,7 @@ const JobsBoardForCandidates: React.FC = () => {
 
   const loadAppliedJobs = async () => {
     try {
-      const candidatesResponse = await apiCall(`/api/candidates?search=${encodeURIComponent(user.email)}&page=1&pageSize=1000`);
+      const candidatesResponse = await apiCall(`/api/candidates?email=${encodeURIComponent(user.email)}&page=1&pageSize=1000`);
       if (candidatesResponse.ok) {
         const candidatesData = await candidatesResponse.json();
         const applications = candidatesData.data || [];
@@ -98,35 +100,10 @@ const JobsBoardForCandidates: React.FC = () => {
     }
   };
 
-  const handleApply = async (job: Job) => {
-    try {
-      const candidateData = {
-        name: user.name,
-        email: user.email,
-        phone: '+1-555-0000',
-        resume: 'Resume content here...',
-        jobId: job.id,
-        stage: 'applied',
-        status: 'active'
-      };
-
-      const response = await apiCall('/api/candidates', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(candidateData)
-      });
-
-      if (!response.ok) throw new Error('Failed to apply');
-
-      // Update applied jobs state
-      const newAppliedJobs = new Set(appliedJobs);
-      newAppliedJobs.add(job.id);
-      setAppliedJobs(newAppliedJobs);
-
-      toast.success(`Successfully applied to ${job.title}!`);
-    } catch (error) {
-      toast.error('Failed to apply for job');
-    }
+  const handleApplied = (job: Job) => {
+    const newAppliedJobs = new Set(appliedJobs);
+    newAppliedJobs.add(job.id);
+    setAppliedJobs(newAppliedJobs);
   };
 
   if (loading) {
@@ -272,7 +249,7 @@ const JobsBoardForCandidates: React.FC = () => {
                     </Link>
                     
                     <button
-                      onClick={() => handleApply(job)}
+                      onClick={() => setApplyingTo(job)}
                       disabled={isApplied}
                       className={`inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
                         isApplied
@@ -336,8 +313,15 @@ const JobsBoardForCandidates: React.FC = () => {
           </div>
         )}
       </div>
+
+      <ApplyModal
+        job={applyingTo}
+        isOpen={!!applyingTo}
+        onClose={() => setApplyingTo(null)}
+        onApplied={() => applyingTo && handleApplied(applyingTo)}
+      />
     </div>
   );
 };
 
-export default JobsBoardForCandidates;
\ No newline at end of file
+export default JobsBoardForCandidates;
@@ -2,10 +2,11 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { UserIcon, EnvelopeIcon, LockClosedIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '../store';
+import { apiCall } from '../utils/apiUtils';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Card from '../components/ui/Card';
-import { registerUser, loginUser, getDemoCredentials } from '../services/userDatabase';
+import { registerUser, getDemoCredentials } from '../services/userDatabase';
 import toast from 'react-hot-toast';
 
 const LoginPage: React.FC = () => {
@@ -15,7 +16,7 @@ const LoginPage: React.FC = () => {
   const [password, setPassword] = useState('');
   const [isLogin, setIsLogin] = useState(true);
   const [loading, setLoading] = useState(false);
-  const { setUser } = useAuth();
+  const { setSession } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -61,13 +62,18 @@ const LoginPage: React.FC = () => {
     try {
       if (isLogin) {
         // Login
-        const result = await loginUser(email, password);
-        setUser({
-          role: result.user.role,
-          name: result.user.name,
-          email: result.user.email,
+        const response = await apiCall('/api/auth/login', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ email, password })
         });
-        toast.success(`Welcome back, ${result.user.name}!`, { id: loadingToast });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Authentication failed');
+        }
+
+        setSession(result.data.user, result.data.token);
+        toast.success(`Welcome back, ${result.data.user.name}!`, { id: loadingToast });
       } else {
         // Register
         await registerUser({
@@ -260,6 +266,16 @@ const LoginPage: React.FC = () => {
                     <div className="text-gray-600 dark:text-gray-400">candidate@talentflow.com</div>
                     <div className="text-gray-600 dark:text-gray-400">password123</div>
                   </div>
+                  <div className="bg-white dark:bg-gray-800 rounded-lg p-3 border border-blue-200 dark:border-blue-700">
+                    <div className="font-medium text-gray-900 dark:text-white mb-1">Hiring Manager</div>
+                    <div className="text-gray-600 dark:text-gray-400">manager@talentflow.com</div>
+                    <div className="text-gray-600 dark:text-gray-400">password123</div>
+                  </div>
+                  <div className="bg-white dark:bg-gray-800 rounded-lg p-3 border border-blue-200 dark:border-blue-700">
+                    <div className="font-medium text-gray-900 dark:text-white mb-1">Interviewer</div>
+                    <div className="text-gray-600 dark:text-gray-400">interviewer@talentflow.com</div>
+                    <div className="text-gray-600 dark:text-gray-400">password123</div>
+                  </div>
                 </div>
               </div>
             </Card>
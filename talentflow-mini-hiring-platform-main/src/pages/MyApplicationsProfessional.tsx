@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { 
   BriefcaseIcon,
@@ -10,86 +10,67 @@ import {
   DocumentTextIcon,
   ArrowLeftIcon
 } from '@heroicons/react/24/outline';
-import { Candidate, Job, ApiResponse } from '../types';
+import { Candidate } from '../types';
 import { useAuth } from '../store';
-import { apiCall } from '../utils/apiUtils';
+import { useJobs, usePipelines } from '../hooks/useJobs';
+import { useCandidates } from '../hooks/useCandidates';
+import { useAssessmentStatuses } from '../hooks/useApplications';
+import { getActiveStages, getStage, getStageClasses, resolvePipeline } from '../utils/pipelineUtils';
 import toast from 'react-hot-toast';
 
 const MyApplicationsProfessional: React.FC = () => {
   const { user } = useAuth();
-  const [applications, setApplications] = useState<Candidate[]>([]);
-  const [jobs, setJobs] = useState<Job[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [assessmentStatuses, setAssessmentStatuses] = useState<Record<string, any>>({});
+  // Applications belonging to this user's person profile
+  const applicationsQuery = useCandidates({ email: user.email, page: 1, pageSize: 1000 });
+  const jobsQuery = useJobs({ page: 1, pageSize: 1000 });
+  const pipelinesQuery = usePipelines();
 
-  const stages = [
-    { value: 'applied', label: 'Applied', color: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200', icon: ClockIcon },
-    { value: 'screen', label: 'Screening', color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200', icon: ExclamationTriangleIcon },
-    { value: 'tech', label: 'Technical', color: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200', icon: BriefcaseIcon },
-    { value: 'offer', label: 'Offer', color: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200', icon: CheckCircleIcon },
-    { value: 'hired', label: 'Hired', color: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200', icon: CheckCircleIcon },
-    { value: 'rejected', label: 'Rejected', color: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200', icon: XCircleIcon }
-  ];
+  const applications = applicationsQuery.data?.data || [];
+  const jobs = jobsQuery.data?.data || [];
+  const pipelines = pipelinesQuery.data?.data || [];
+  const { statuses: assessmentStatuses, isLoading: statusesLoading } = useAssessmentStatuses(applications);
+  const loading = applicationsQuery.isLoading || jobsQuery.isLoading || pipelinesQuery.isLoading || statusesLoading;
 
   useEffect(() => {
-    loadApplications();
-  }, []);
-
-  const loadApplications = async () => {
-    try {
-      setLoading(true);
-      
-      // Load user's applications using search by email
-      const candidatesResponse = await apiCall(`/api/candidates?search=${encodeURIComponent(user.email)}&page=1&pageSize=1000`);
-      if (candidatesResponse.ok) {
-        const candidatesData: ApiResponse<Candidate[]> = await candidatesResponse.json();
-        const apps = candidatesData.data || [];
-        setApplications(apps);
-        
-        // Load assessment statuses for each application
-        const statusPromises = apps.map(async (app: Candidate) => {
-          try {
-            const statusResponse = await apiCall(`/api/candidates/${app.id}/assessment-status/${app.jobId}`);
-            if (statusResponse.ok) {
-              const status = await statusResponse.json();
-              return { [app.jobId]: status };
-            }
-          } catch (error) {
-            console.error('Error checking assessment status:', error);
-          }
-          return { [app.jobId]: { invited: false, completed: false, hasAssessment: false } };
-        });
-        
-        const statuses = await Promise.all(statusPromises);
-        const statusMap = statuses.reduce((acc, status) => ({ ...acc, ...status }), {});
-        setAssessmentStatuses(statusMap);
-      }
-
-      // Load jobs for details
-      const jobsResponse = await apiCall('/api/jobs?page=1&pageSize=1000');
-      if (jobsResponse.ok) {
-        const jobsData: ApiResponse<Job[]> = await jobsResponse.json();
-        setJobs(jobsData.data || []);
-      }
-    } catch (error) {
-      console.error('Error loading applications:', error);
+    if (applicationsQuery.isError || jobsQuery.isError || pipelinesQuery.isError) {
       toast.error('Failed to load applications');
-    } finally {
-      setLoading(false);
     }
+  }, [applicationsQuery.isError, jobsQuery.isError, pipelinesQuery.isError]);
+
+  const getJobDetails = (jobId: string) => {
+    return jobs.find(job => job.id === jobId);
   };
 
-  const getStageInfo = (stage: string) => {
-    return stages.find(s => s.value === stage) || stages[0];
+  // Stages mean different things per job, so bucket applications by where they sit in their pipeline
+  const getStageStatus = (application: Candidate): 'in-progress' | 'successful' | 'rejected' => {
+    const pipeline = resolvePipeline(getJobDetails(application.jobId), pipelines);
+    const stage = getStage(pipeline, application.stage);
+    if (stage.outcome === 'rejected') return 'rejected';
+    if (stage.outcome === 'hired') return 'successful';
+
+    const activeStages = getActiveStages(pipeline);
+    return activeStages[activeStages.length - 1]?.id === stage.id ? 'successful' : 'in-progress';
   };
 
-  const getJobDetails = (jobId: string) => {
-    return jobs.find(job => job.id === jobId);
+  const getStageInfo = (application: Candidate) => {
+    const pipeline = resolvePipeline(getJobDetails(application.jobId), pipelines);
+    const stage = getStage(pipeline, application.stage);
+    const status = getStageStatus(application);
+    const icon = status === 'rejected'
+      ? XCircleIcon
+      : status === 'successful'
+      ? CheckCircleIcon
+      : stage.id === pipeline.stages[0]?.id
+      ? ClockIcon
+      : ExclamationTriangleIcon;
+
+    return { label: stage.label, color: getStageClasses(pipeline, stage.id).badge, icon };
   };
 
-  const getStageProgress = (stage: string) => {
-    const stageIndex = stages.findIndex(s => s.value === stage);
-    return ((stageIndex + 1) / stages.length) * 100;
+  const getStageProgress = (application: Candidate) => {
+    const pipeline = resolvePipeline(getJobDetails(application.jobId), pipelines);
+    const stageIndex = pipeline.stages.findIndex(s => s.id === application.stage);
+    return ((stageIndex + 1) / pipeline.stages.length) * 100;
   };
 
   if (loading) {
@@ -148,7 +129,7 @@ const MyApplicationsProfessional: React.FC = () => {
               </div>
               <div className="ml-4">
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {applications.filter(app => ['applied', 'screen', 'tech'].includes(app.stage)).length}
+                  {applications.filter(app => getStageStatus(app) === 'in-progress').length}
                 </p>
                 <p className="text-sm text-gray-600 dark:text-gray-400">In Progress</p>
               </div>
@@ -162,7 +143,7 @@ const MyApplicationsProfessional: React.FC = () => {
               </div>
               <div className="ml-4">
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {applications.filter(app => ['offer', 'hired'].includes(app.stage)).length}
+                  {applications.filter(app => getStageStatus(app) === 'successful').length}
                 </p>
                 <p className="text-sm text-gray-600 dark:text-gray-400">Successful</p>
               </div>
@@ -176,7 +157,7 @@ const MyApplicationsProfessional: React.FC = () => {
               </div>
               <div className="ml-4">
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {applications.filter(app => app.stage === 'rejected').length}
+                  {applications.filter(app => getStageStatus(app) === 'rejected').length}
                 </p>
                 <p className="text-sm text-gray-600 dark:text-gray-400">Rejected</p>
               </div>
@@ -188,9 +169,9 @@ const MyApplicationsProfessional: React.FC = () => {
         <div className="space-y-6">
           {applications.map((application) => {
             const job = getJobDetails(application.jobId);
-            const stageInfo = getStageInfo(application.stage);
+            const stageInfo = getStageInfo(application);
             const StageIcon = stageInfo.icon;
-            const progress = getStageProgress(application.stage);
+            const progress = getStageProgress(application);
 
             return (
               <div
@@ -231,9 +212,9 @@ const MyApplicationsProfessional: React.FC = () => {
                   <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
                     <div
                       className={`h-2 rounded-full transition-all duration-300 ${
-                        application.stage === 'rejected' 
+                        getStageStatus(application) === 'rejected' 
                           ? 'bg-red-500' 
-                          : application.stage === 'hired'
+                          : getStageStatus(application) === 'successful'
                           ? 'bg-green-500'
                           : 'bg-blue-500'
                       }`}
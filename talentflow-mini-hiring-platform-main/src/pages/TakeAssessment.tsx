@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Assessment, AssessmentQuestion } from '../types';
 import { useAuth } from '../store';
-import { apiCall } from '../utils/apiUtils';
+import { apiCall, isQueuedWrite } from '../utils/apiUtils';
+import { useSubmitAssessment } from '../hooks/useAssessments';
 import Button from '../components/ui/Button';
 import Card from '../components/ui/Card';
 import toast from 'react-hot-toast';
@@ -15,7 +16,7 @@ const TakeAssessment: React.FC = () => {
   const [responses, setResponses] = useState<Record<string, any>>({});
   const [currentSection, setCurrentSection] = useState(0);
   const [loading, setLoading] = useState(true);
-  const [submitting, setSubmitting] = useState(false);
+  const submitAssessment = useSubmitAssessment(jobId || '');
   const [invitationStatus, setInvitationStatus] = useState<{
     invited: boolean;
     completed: boolean;
@@ -34,7 +35,7 @@ const TakeAssessment: React.FC = () => {
       setLoading(true);
       
       // First, get the candidate ID
-      const candidatesResponse = await apiCall(`/api/candidates?search=${encodeURIComponent(user.email)}&page=1&pageSize=100`);
+      const candidatesResponse = await apiCall(`/api/candidates?email=${encodeURIComponent(user.email)}&page=1&pageSize=100`);
       if (!candidatesResponse.ok) {
         toast.error('Unable to verify your application status');
         navigate('/jobs');
@@ -163,24 +164,13 @@ const TakeAssessment: React.FC = () => {
     }
 
     try {
-      setSubmitting(true);
-      const response = await apiCall(`/api/assessments/${jobId}/submit`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          candidateId,
-          responses
-        })
-      });
-
-      if (!response.ok) throw new Error('Failed to submit assessment');
-      
-      toast.success('Assessment submitted successfully!');
+      const result = await submitAssessment.mutateAsync({ candidateId, responses });
+      toast.success(isQueuedWrite(result)
+        ? 'Your answers are saved and will be submitted when you reconnect'
+        : 'Assessment submitted successfully!');
       navigate('/my-applications');
     } catch (error) {
       toast.error('Failed to submit assessment');
-    } finally {
-      setSubmitting(false);
     }
   };
 
@@ -407,7 +397,7 @@ const TakeAssessment: React.FC = () => {
               <Button
                 variant="primary"
                 onClick={handleSubmit}
-                loading={submitting}
+                loading={submitAssessment.isLoading}
               >
                 Submit Assessment
               </Button>
@@ -1 +1,8 @@
 /// <reference types="react-scripts" />
+
+// Streams-based decompression; supported by current browsers but not yet in TypeScript's DOM typings
+declare class DecompressionStream {
+  constructor(format: 'deflate' | 'deflate-raw' | 'gzip');
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<BufferSource>;
+}
@@ -0,0 +1,2579 @@
+import { getResponse, http, HttpResponse } from 'msw';
+import { db } from './database';
+import { ApplicationPage, parseApplicationQuery, queryApplications } from './applicationQueries';
+import { createApplication, findApplicationForJob, findPersonByEmail, getApplicationByCandidateId, getCandidate, normalizeEmail, personHasEmail, toCandidate, toCandidates } from './people';
+import { getNextJobOrder, reorderJob } from './jobOrdering';
+import { findStrandedStages, getJobIdsForPipeline, getPipeline, getPipelineForJob, getTransitionContext } from './pipelines';
+import { Job, JobFilterOptions, JobStatus, RequisitionAction, RequisitionSummary, ApprovalChain, Candidate, CandidateImportRow, Application, Assessment, AssessmentSubmission, Person, Pipeline, PipelineStage, Interview, Scorecard, ScorecardTemplate, CandidateNote, NotificationPreferences, SearchDocumentType, SearchResult, ApiResponse, PaginationParams } from '../types';
+import { DEFAULT_PIPELINE_ID, validatePipelineStages } from '../utils/pipelineUtils';
+import { DEFAULT_JOB_FIELDS, validateJobFields } from '../utils/jobUtils';
+import { TransitionFields, pickStageFields, validateTransition } from '../utils/stageTransitions';
+import { AuthError, SessionUser, destroySession, getBearerToken, getSessionUser, loginUser } from './userDatabase';
+import { Permission, hasPermission, isStaffRole } from '../utils/permissions';
+import { addInterviewTimelineEntry, checkInterviewConflicts, describeInterview, getInterviewers, toInterviewSummaries } from './interviews';
+import { validateInterview } from '../utils/interviewUtils';
+import { getScorecardsWithSummary, getStageScorecardTemplate } from './scorecards';
+import { getRecommendation, validateScorecard } from '../utils/scorecardUtils';
+import { getNotesForPerson, getTeamMembers, toMentionSummaries } from './notes';
+import { parseMentions, validateNote } from '../utils/noteUtils';
+import { publish } from './eventBus';
+import { IDEMPOTENCY_HEADER } from './offlineQueue';
+import { getNotificationPreferences, registerNotificationHandlers } from './notifications';
+import { NOTIFICATION_TYPES } from '../utils/notificationUtils';
+import { registerSearchIndexHooks, searchDocuments } from './searchIndex';
+import { attachResume, getClaimableResume, storeResume } from './resumes';
+import { resolveResumeType, validateResumeFile } from '../utils/resumeUtils';
+import { addPersonSkills, refreshMatchScores } from './skills';
+import { normalizeSkills, validateSkills } from '../utils/skillUtils';
+import { importCandidates } from './candidateImport';
+import { dismissDuplicate, findDuplicates } from './duplicates';
+import { MergeError, listMerges, mergePeople, toMergeSummary, undoMerge } from './merges';
+import { TrashError, deleteJob, listTrash, purgeExpiredTrash, purgeTrash, restoreJob, toTrashSummary } from './jobTrash';
+import { RequisitionError, applyRequisitionAction, getRequisitionHistory, listApprovalChains, saveApprovalChain } from './requisitions';
+import { DECISION_ACTIONS, DEFAULT_APPROVAL_CHAIN_ID, JOB_STATUSES, canApproveStep, getCurrentApprovalStep, isPublishedStatus } from '../utils/requisitionUtils';
+import { MAX_IMPORT_ROWS } from '../utils/importUtils';
+import { MIN_QUERY_LENGTH, SEARCH_DOCUMENT_TYPES, isIndexedQuery, matchesSubstring } from '../utils/searchUtils';
+
+// Utility function to simulate network delay and errors
+const simulateNetworkDelay = (isWriteEndpoint = false) => {
+  return new Promise<void>((resolve, reject) => {
+    const delay = Math.random() * 1000 + 200; // 200-1200ms delay
+    const errorRate = isWriteEndpoint ? 0.075 : 0.001; // 7.5% error rate on writes, 0.1% on reads
+    const shouldError = Math.random() < errorRate;
+
+    setTimeout(() => {
+      if (shouldError) {
+        reject(new Error('Network error'));
+      } else {
+        resolve();
+      }
+    }, delay);
+  });
+};
+
+type Authorization =
+  | { user: SessionUser; response?: undefined }
+  | { user?: undefined; response: Response };
+
+const forbidden = () =>
+  HttpResponse.json({ error: 'You do not have permission to perform this action' }, { status: 403 });
+
+// Resolve the caller from their session token and check the permission, if any.
+// When the call must be refused, `response` holds the 401/403 to return.
+const authorize = async (request: Request, permission?: Permission): Promise<Authorization> => {
+  const user = await getSessionUser(getBearerToken(request.headers.get('Authorization')));
+  if (!user) {
+    return { response: HttpResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+  if (permission && !hasPermission(user.role, permission)) {
+    return { response: forbidden() };
+  }
+  return { user };
+};
+
+// Candidates may only reach applications made with their own account email
+const ownsApplication = async (user: SessionUser, application: Application | undefined) => {
+  if (!application) return false;
+  const person = await db.people.get(application.personId);
+  return !!person && personHasEmail(person, user.email);
+};
+
+// Ratings for competencies outside the template are dropped
+const pickRatings = (ratings: Record<string, number> | undefined, template: ScorecardTemplate) =>
+  template.competencies.reduce((acc, competency) => {
+    acc[competency.id] = ratings![competency.id];
+    return acc;
+  }, {} as Record<string, number>);
+
+// Job fields PATCH /api/jobs/:id refuses, and where they are changed instead.
+// Status only moves through the requisition endpoints, so approval can't be skipped.
+const SERVER_OWNED_JOB_FIELDS: Partial<Record<keyof Job, string>> = {
+  id: 'The job id cannot change',
+  status: 'Change the status with POST /api/jobs/:id/requisition',
+  approval: 'Change the status with POST /api/jobs/:id/requisition',
+  order: 'Move the job with PATCH /api/jobs/:id/reorder',
+  pipelineId: 'Change the pipeline with PUT /api/jobs/:id/pipeline',
+  createdAt: 'createdAt is set by the server',
+  updatedAt: 'updatedAt is set by the server'
+};
+
+// The assessment as a candidate sees it: without the answer key or question weights
+const withoutAnswerKey = (assessment: Assessment): Assessment => ({
+  ...assessment,
+  sections: assessment.sections.map(section => ({
+    ...section,
+    questions: section.questions.map(({ correctAnswer, points, ...question }) => question)
+  }))
+});
+
+registerNotificationHandlers();
+registerSearchIndexHooks();
+
+type Resolver = Parameters<typeof http.post>[1];
+
+// Writes sent with an Idempotency-Key run once: a replay of the same key gets the
+// stored response back instead of applying the change again. Server errors are
+// not stored, so the client can retry them.
+const idempotent = (resolver: Resolver): Resolver => async (info) => {
+  const key = info.request.headers.get(IDEMPOTENCY_HEADER);
+  if (!key) return resolver(info);
+
+  const previous = await db.idempotencyKeys.get(key);
+  if (previous) {
+    return new HttpResponse(previous.body, {
+      status: previous.status,
+      headers: { 'Content-Type': 'application/json', 'Idempotent-Replayed': 'true' }
+    });
+  }
+
+  const response = await resolver(info);
+  if (response instanceof Response && response.status < 500) {
+    await db.idempotencyKeys.put({
+      key,
+      method: info.request.method,
+      url: new URL(info.request.url).pathname,
+      status: response.status,
+      body: await response.clone().text(),
+      createdAt: new Date().toISOString()
+    });
+  }
+  return response;
+};
+
+export const handlers = [
+  // Auth endpoints
+  http.post('/api/auth/login', async ({ request }) => {
+    try {
+      await simulateNetworkDelay();
+
+      const { email, password } = await request.json() as { email?: string; password?: string };
+      if (!email || !password) {
+        return HttpResponse.json({ error: 'Email and password are required' }, { status: 400 });
+      }
+
+      const { user, token, expiresAt } = await loginUser(email, password);
+      return HttpResponse.json({ data: { user, token, expiresAt } });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return HttpResponse.json({ error: error.message }, { status: 401 });
+      }
+      return HttpResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+    }
+  }),
+
+  http.post('/api/auth/logout', async ({ request }) => {
+    try {
+      await destroySession(getBearerToken(request.headers.get('Authorization')));
+      return new HttpResponse(null, { status: 204 });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to sign out' }, { status: 500 });
+    }
+  }),
+
+  http.get('/api/auth/me', async ({ request }) => {
+    try {
+      await simulateNetworkDelay();
+
+      const user = await getSessionUser(getBearerToken(request.headers.get('Authorization')));
+      if (!user) {
+        return HttpResponse.json({ error: 'Session expired or invalid' }, { status: 401 });
+      }
+
+      return HttpResponse.json({ data: user });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to load session' }, { status: 500 });
+    }
+  }),
+
+  // Jobs endpoints
+  http.get('/api/jobs', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'jobs:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const url = new URL(request.url);
+      const search = url.searchParams.get('search') || '';
+      // One status or several separated by commas; candidates only ever see published jobs
+      const requested = (url.searchParams.get('status') || '').split(',').filter(Boolean) as JobStatus[];
+      const statuses = isStaffRole(auth.user.role) ? requested : (requested.length > 0 ? requested : JOB_STATUSES).filter(isPublishedStatus);
+      const tag = url.searchParams.get('tag') || '';
+      // Specific jobs, separated by commas
+      const ids = (url.searchParams.get('ids') || '').split(',').filter(Boolean);
+      const company = url.searchParams.get('company') || '';
+      const department = url.searchParams.get('department') || '';
+      const employmentType = url.searchParams.get('employmentType') || '';
+      const seniority = url.searchParams.get('seniority') || '';
+      const remotePolicy = url.searchParams.get('remotePolicy') || '';
+      const page = parseInt(url.searchParams.get('page') || '1');
+      const pageSize = parseInt(url.searchParams.get('pageSize') || '10');
+      const sort = url.searchParams.get('sort') || 'order';
+
+      let query = db.jobs.orderBy(sort);
+
+      if (statuses.length > 0 || requested.length > 0) {
+        query = query.filter(job => statuses.includes(job.status));
+      }
+
+      if (tag) {
+        query = query.filter(job => job.tags.includes(tag));
+      }
+
+      if (ids.length > 0) {
+        query = query.filter(job => ids.includes(job.id));
+      }
+
+      if (company || department || employmentType || seniority || remotePolicy) {
+        query = query.filter(job =>
+          (!company || job.company === company) &&
+          (!department || job.department === department) &&
+          (!employmentType || job.employmentType === employmentType) &&
+          (!seniority || job.seniority === seniority) &&
+          (!remotePolicy || job.remotePolicy === remotePolicy)
+        );
+      }
+
+      if (search) {
+        const searchTerm = search.toLowerCase().trim();
+        query = query.filter(job =>
+          job.title.toLowerCase().includes(searchTerm) ||
+          job.description.toLowerCase().includes(searchTerm) ||
+          job.location.toLowerCase().includes(searchTerm) ||
+          (job.company || '').toLowerCase().includes(searchTerm) ||
+          (job.department || '').toLowerCase().includes(searchTerm) ||
+          job.tags.some(jobTag => jobTag.toLowerCase().includes(searchTerm))
+        );
+      }
+
+      const total = await query.count();
+      const jobs = await query.offset((page - 1) * pageSize).limit(pageSize).toArray();
+
+      const response: ApiResponse<Job[]> = {
+        data: jobs,
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize)
+        }
+      };
+
+      return HttpResponse.json(response, {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    } catch (error) {
+      console.error('Jobs API error:', error);
+      return HttpResponse.json({ error: 'Internal server error' }, {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+  }),
+
+  http.get('/api/jobs/filters', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'jobs:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const jobs = isStaffRole(auth.user.role)
+        ? await db.jobs.toArray()
+        : await db.jobs.filter(job => isPublishedStatus(job.status)).toArray();
+      const distinct = (values: (string | undefined)[]) =>
+        Array.from(new Set(values.filter((value): value is string => !!value))).sort();
+
+      const options: JobFilterOptions = {
+        tags: distinct(jobs.flatMap(job => job.tags)),
+        companies: distinct(jobs.map(job => job.company)),
+        departments: distinct(jobs.map(job => job.department)),
+        total: jobs.length
+      };
+
+      return HttpResponse.json({ data: options });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+  }),
+
+  http.post('/api/jobs', idempotent(async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'jobs:manage');
+      if (auth.response) return auth.response;
+
+      console.log('MSW: Creating new job');
+      await simulateNetworkDelay(true);
+
+      const jobData = await request.json() as Partial<Job>;
+      console.log('MSW: Job data received:', jobData);
+
+      const fieldErrors = validateJobFields(jobData);
+      if (fieldErrors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid job', details: fieldErrors }, { status: 400 });
+      }
+
+      const approvalChainId = jobData.approvalChainId || DEFAULT_APPROVAL_CHAIN_ID;
+      if (!(await db.approvalChains.get(approvalChainId))) {
+        return HttpResponse.json({ error: 'Invalid job', details: ['Unknown approval chain'] }, { status: 400 });
+      }
+
+      // Check for slug uniqueness
+      if (jobData.slug) {
+        const existingJob = await db.jobs.where('slug').equals(jobData.slug).first();
+        if (existingJob) {
+          return HttpResponse.json({ error: 'Slug already exists' }, { status: 400 });
+        }
+      }
+
+      const newJob: Job = {
+        id: `job-${Date.now()}`,
+        title: jobData.title || '',
+        slug: jobData.slug || '',
+        description: jobData.description || '',
+        location: jobData.location || '',
+        // Every job starts as a draft requisition; it opens once its approval chain signs off
+        status: 'draft',
+        approvalChainId,
+        tags: jobData.tags || [],
+        order: await getNextJobOrder(),
+        pipelineId: jobData.pipelineId || DEFAULT_PIPELINE_ID,
+        company: jobData.company?.trim() || undefined,
+        department: jobData.department?.trim() || undefined,
+        employmentType: jobData.employmentType || DEFAULT_JOB_FIELDS.employmentType,
+        seniority: jobData.seniority || DEFAULT_JOB_FIELDS.seniority,
+        remotePolicy: jobData.remotePolicy || DEFAULT_JOB_FIELDS.remotePolicy,
+        salary: jobData.salary,
+        openings: jobData.openings ?? DEFAULT_JOB_FIELDS.openings,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      };
+
+      await db.jobs.add(newJob);
+      console.log('MSW: Job created successfully:', newJob.id);
+      return HttpResponse.json({ data: newJob });
+    } catch (error) {
+      console.error('MSW: Failed to create job:', error);
+      return HttpResponse.json({ error: 'Failed to create job' }, { status: 500 });
+    }
+  })),
+
+  http.patch('/api/jobs/:id', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'jobs:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+      
+      const { id } = params;
+      const updates = await request.json() as Partial<Job>;
+
+      const current = await db.jobs.get(id as string);
+      if (!current) {
+        return HttpResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+
+      const fieldErrors = validateJobFields(updates);
+      if (fieldErrors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid job', details: fieldErrors }, { status: 400 });
+      }
+
+      const ownedErrors = (Object.keys(SERVER_OWNED_JOB_FIELDS) as (keyof Job)[])
+        .filter(field => updates[field] !== undefined)
+        .map(field => SERVER_OWNED_JOB_FIELDS[field]!);
+      if (ownedErrors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid job', details: Array.from(new Set(ownedErrors)) }, { status: 400 });
+      }
+
+      if (updates.approvalChainId !== undefined) {
+        if (current.approvalChainId !== updates.approvalChainId && current.status !== 'draft') {
+          return HttpResponse.json({ error: 'Invalid job', details: ['The approval chain can only change while the job is a draft'] }, { status: 400 });
+        }
+        if (!(await db.approvalChains.get(updates.approvalChainId))) {
+          return HttpResponse.json({ error: 'Invalid job', details: ['Unknown approval chain'] }, { status: 400 });
+        }
+      }
+      
+      // Check for slug uniqueness if slug is being updated
+      if (updates.slug) {
+        const existingJob = await db.jobs.where('slug').equals(updates.slug).first();
+        if (existingJob && existingJob.id !== id) {
+          return HttpResponse.json({ error: 'Slug already exists' }, { status: 400 });
+        }
+      }
+      
+      await db.jobs.update(id as string, {
+        ...updates,
+        updatedAt: new Date().toISOString()
+      });
+
+      if (updates.tags !== undefined) {
+        await refreshMatchScores({ jobId: id as string });
+      }
+
+      const updatedJob = await db.jobs.get(id as string);
+      return HttpResponse.json({ data: updatedJob });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to update job' }, { status: 500 });
+    }
+  })),
+
+  http.patch('/api/jobs/:id/reorder', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'jobs:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const { id } = params;
+      const { fromOrder, toOrder } = await request.json() as { fromOrder: number; toOrder: number };
+
+      if (!Number.isInteger(fromOrder) || !Number.isInteger(toOrder)) {
+        return HttpResponse.json({ error: 'fromOrder and toOrder must be integers' }, { status: 400 });
+      }
+
+      // Simulate occasional failure for rollback testing (very low frequency)
+      if (Math.random() < 0.005) {
+        return HttpResponse.json({ error: 'Reorder failed' }, { status: 500 });
+      }
+
+      // Handle both numeric IDs (like "1") and string IDs (like "job-1")
+      let jobId = id as string;
+      if (!isNaN(Number(id))) {
+        // If it's a numeric ID, try to find the corresponding job
+        const allJobs = await db.jobs.toArray();
+        const job = allJobs.find(j => j.id === id || j.id === `job-${id}`);
+        if (job) {
+          jobId = job.id;
+        }
+      }
+
+      const result = await reorderJob(jobId, fromOrder, toOrder);
+      if (result.status === 'not-found') {
+        return HttpResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+      if (result.status === 'stale') {
+        return HttpResponse.json({ error: 'Job has moved since the list was loaded', order: result.order }, { status: 409 });
+      }
+
+      // The new positions of every job that moved; all other jobs keep theirs
+      return HttpResponse.json({ data: result.changes });
+    } catch (error) {
+      console.error('Reorder API error:', error);
+      return HttpResponse.json({ error: 'Reorder failed' }, { status: 500 });
+    }
+  })),
+
+  // Pipeline endpoints
+  http.get('/api/pipelines', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'pipelines:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const url = new URL(request.url);
+      const templatesOnly = url.searchParams.get('templates') === 'true';
+
+      let pipelines = await db.pipelines.toArray();
+      if (templatesOnly) {
+        pipelines = pipelines.filter(p => !p.jobId);
+      }
+
+      return HttpResponse.json({ data: pipelines });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch pipelines' }, { status: 500 });
+    }
+  }),
+
+  http.get('/api/pipelines/:id', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'pipelines:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const pipeline = await db.pipelines.get(params.id as string);
+      if (!pipeline) {
+        return HttpResponse.json({ error: 'Pipeline not found' }, { status: 404 });
+      }
+
+      return HttpResponse.json({ data: pipeline });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch pipeline' }, { status: 500 });
+    }
+  }),
+
+  http.post('/api/pipelines', idempotent(async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'pipelines:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const pipelineData = await request.json() as Partial<Pipeline>;
+      const errors = validatePipelineStages(pipelineData.stages);
+      if (!pipelineData.name?.trim()) {
+        errors.unshift('Pipeline name is required');
+      }
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid pipeline', details: errors }, { status: 400 });
+      }
+
+      const now = new Date().toISOString();
+      const pipeline: Pipeline = {
+        id: `pipeline-${Date.now()}`,
+        name: pipelineData.name!.trim(),
+        description: pipelineData.description || '',
+        stages: pipelineData.stages as PipelineStage[],
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await db.pipelines.add(pipeline);
+      return HttpResponse.json({ data: pipeline }, { status: 201 });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to create pipeline' }, { status: 500 });
+    }
+  })),
+
+  http.put('/api/pipelines/:id', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'pipelines:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const pipeline = await db.pipelines.get(params.id as string);
+      if (!pipeline) {
+        return HttpResponse.json({ error: 'Pipeline not found' }, { status: 404 });
+      }
+
+      const updates = await request.json() as Partial<Pipeline>;
+      const stages = updates.stages || pipeline.stages;
+      const errors = validatePipelineStages(stages);
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid pipeline', details: errors }, { status: 400 });
+      }
+
+      // Removing a stage must not strand applications that are still in it
+      const jobIds = await getJobIdsForPipeline(pipeline.id);
+      const stranded = await findStrandedStages(jobIds, stages.map(s => s.id));
+      if (stranded.length > 0) {
+        return HttpResponse.json({
+          error: 'Applications are still in stages that would be removed',
+          details: stranded.map(stageId => `Stage "${stageId}" is still in use`)
+        }, { status: 400 });
+      }
+
+      const updatedPipeline: Pipeline = {
+        ...pipeline,
+        name: updates.name?.trim() || pipeline.name,
+        description: updates.description ?? pipeline.description,
+        stages,
+        updatedAt: new Date().toISOString()
+      };
+
+      await db.pipelines.put(updatedPipeline);
+      return HttpResponse.json({ data: updatedPipeline });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to update pipeline' }, { status: 500 });
+    }
+  })),
+
+  http.get('/api/jobs/:id/pipeline', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'pipelines:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const job = await db.jobs.get(params.id as string);
+      if (!job) {
+        return HttpResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+
+      const pipeline = await getPipeline(job.pipelineId);
+      return HttpResponse.json({ data: pipeline });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch job pipeline' }, { status: 500 });
+    }
+  }),
+
+  // Assign a shared pipeline, or save a custom pipeline owned by this job
+  http.put('/api/jobs/:id/pipeline', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'pipelines:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const job = await db.jobs.get(params.id as string);
+      if (!job) {
+        return HttpResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+
+      const body = await request.json() as { pipelineId?: string; name?: string; stages?: PipelineStage[] };
+      let pipeline: Pipeline | undefined;
+
+      if (body.pipelineId) {
+        pipeline = await db.pipelines.get(body.pipelineId);
+        if (!pipeline) {
+          return HttpResponse.json({ error: 'Pipeline not found' }, { status: 404 });
+        }
+      } else {
+        const errors = validatePipelineStages(body.stages);
+        if (errors.length > 0) {
+          return HttpResponse.json({ error: 'Invalid pipeline', details: errors }, { status: 400 });
+        }
+
+        const id = `pipeline-job-${job.id}`;
+        const existing = await db.pipelines.get(id);
+        const now = new Date().toISOString();
+        pipeline = {
+          id,
+          name: body.name?.trim() || `${job.title} pipeline`,
+          jobId: job.id,
+          stages: body.stages as PipelineStage[],
+          createdAt: existing?.createdAt || now,
+          updatedAt: now
+        };
+      }
+
+      const stranded = await findStrandedStages([job.id], pipeline.stages.map(s => s.id));
+      if (stranded.length > 0) {
+        return HttpResponse.json({
+          error: 'Applications for this job are in stages the pipeline does not have',
+          details: stranded.map(stageId => `Stage "${stageId}" is still in use`)
+        }, { status: 400 });
+      }
+
+      await db.transaction('rw', db.jobs, db.pipelines, async () => {
+        if (pipeline!.jobId) {
+          await db.pipelines.put(pipeline!);
+        }
+        await db.jobs.update(job.id, { pipelineId: pipeline!.id, updatedAt: new Date().toISOString() });
+      });
+
+      return HttpResponse.json({ data: pipeline });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to update job pipeline' }, { status: 500 });
+    }
+  })),
+
+  http.get('/api/jobs/:id', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'jobs:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const { id } = params;
+      const job = await db.jobs.get(id as string);
+
+      // Unpublished requisitions don't exist as far as candidates are concerned
+      if (!job || (!isStaffRole(auth.user.role) && !isPublishedStatus(job.status))) {
+        return HttpResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+
+      return HttpResponse.json({ data: job });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+  }),
+
+  // Requisition endpoints
+  http.get('/api/jobs/:id/requisition', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'jobs:read');
+      if (auth.response) return auth.response;
+      if (!isStaffRole(auth.user.role)) return forbidden();
+
+      await simulateNetworkDelay();
+
+      const job = await db.jobs.get(params.id as string);
+      if (!job) {
+        return HttpResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+
+      const step = getCurrentApprovalStep(job);
+      const summary: RequisitionSummary = {
+        history: await getRequisitionHistory(job.id),
+        chain: await db.approvalChains.get(job.approvalChainId || DEFAULT_APPROVAL_CHAIN_ID),
+        currentStep: step,
+        canDecide: hasPermission(auth.user.role, 'jobs:approve') && canApproveStep(step, auth.user.email)
+      };
+      return HttpResponse.json({ data: summary });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch requisition' }, { status: 500 });
+    }
+  }),
+
+  // submit, withdraw, hold, resume, close or reopen
+  http.post('/api/jobs/:id/requisition', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'jobs:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const { action, comment } = await request.json() as { action?: RequisitionAction; comment?: string };
+      if (!action || DECISION_ACTIONS.includes(action)) {
+        return HttpResponse.json({ error: 'Invalid requisition action', details: ['action must be submit, withdraw, hold, resume, close or reopen'] }, { status: 400 });
+      }
+
+      const result = await applyRequisitionAction({ jobId: params.id as string, action, comment, actor: auth.user });
+      return HttpResponse.json({ data: result });
+    } catch (error) {
+      if (error instanceof RequisitionError) {
+        return HttpResponse.json({ error: error.message, details: error.details }, { status: error.status });
+      }
+      console.error('Requisition error:', error);
+      return HttpResponse.json({ error: 'Failed to update requisition' }, { status: 500 });
+    }
+  })),
+
+  ...(['approve', 'reject'] as const).map(action =>
+    http.post(`/api/jobs/:id/${action}`, idempotent(async ({ request, params }) => {
+      try {
+        const auth = await authorize(request, 'jobs:approve');
+        if (auth.response) return auth.response;
+
+        await simulateNetworkDelay(true);
+
+        const { comment } = await request.json().catch(() => ({})) as { comment?: string };
+        const result = await applyRequisitionAction({ jobId: params.id as string, action, comment, actor: auth.user });
+        return HttpResponse.json({ data: result });
+      } catch (error) {
+        if (error instanceof RequisitionError) {
+          return HttpResponse.json({ error: error.message, details: error.details }, { status: error.status });
+        }
+        console.error('Requisition decision error:', error);
+        return HttpResponse.json({ error: `Failed to ${action} requisition` }, { status: 500 });
+      }
+    }))
+  ),
+
+  http.get('/api/approval-chains', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'jobs:read');
+      if (auth.response) return auth.response;
+      if (!isStaffRole(auth.user.role)) return forbidden();
+
+      await simulateNetworkDelay();
+
+      return HttpResponse.json({ data: await listApprovalChains() });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch approval chains' }, { status: 500 });
+    }
+  }),
+
+  ...[{ method: http.post, path: '/api/approval-chains' }, { method: http.put, path: '/api/approval-chains/:id' }].map(({ method, path }) =>
+    method(path, idempotent(async ({ request, params }) => {
+      try {
+        const auth = await authorize(request, 'jobs:manage');
+        if (auth.response) return auth.response;
+
+        await simulateNetworkDelay(true);
+
+        const chain = await request.json() as Partial<ApprovalChain>;
+        const saved = await saveApprovalChain(chain, params.id as string | undefined);
+        return HttpResponse.json({ data: saved }, { status: params.id ? 200 : 201 });
+      } catch (error) {
+        if (error instanceof RequisitionError) {
+          return HttpResponse.json({ error: error.message, details: error.details }, { status: error.status });
+        }
+        return HttpResponse.json({ error: 'Failed to save approval chain' }, { status: 500 });
+      }
+    }))
+  ),
+
+  // Soft delete: the job and its records move to the trash until restored or purged
+  http.delete('/api/jobs/:id', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'jobs:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const item = await deleteJob(params.id as string, auth.user.name);
+      return HttpResponse.json({ data: toTrashSummary(item) });
+    } catch (error) {
+      if (error instanceof TrashError) {
+        return HttpResponse.json({ error: error.message }, { status: error.status });
+      }
+      console.error('Job delete error:', error);
+      return HttpResponse.json({ error: 'Failed to delete job' }, { status: 500 });
+    }
+  })),
+
+  // Trash endpoints
+  http.get('/api/trash', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'jobs:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      // Anything past the retention window is gone before the bin is shown
+      await purgeExpiredTrash();
+      return HttpResponse.json({ data: await listTrash() });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch trash' }, { status: 500 });
+    }
+  }),
+
+  http.post('/api/trash/:id/restore', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'jobs:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const job = await restoreJob(params.id as string);
+      return HttpResponse.json({ data: job });
+    } catch (error) {
+      if (error instanceof TrashError) {
+        return HttpResponse.json({ error: error.message }, { status: error.status });
+      }
+      console.error('Trash restore error:', error);
+      return HttpResponse.json({ error: 'Failed to restore job' }, { status: 500 });
+    }
+  })),
+
+  http.delete('/api/trash/:id', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'jobs:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const purged = await purgeTrash([params.id as string]);
+      if (purged === 0) {
+        return HttpResponse.json({ error: 'Trash item not found' }, { status: 404 });
+      }
+      return HttpResponse.json({ data: { id: params.id } });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to purge trash item' }, { status: 500 });
+    }
+  })),
+
+  // Candidates endpoints
+  http.get('/api/candidates', async ({ request }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const url = new URL(request.url);
+      const search = url.searchParams.get('search') || '';
+      // Candidates only ever see their own applications, whatever email they ask for
+      const email = hasPermission(auth.user.role, 'candidates:read')
+        ? url.searchParams.get('email') || ''
+        : auth.user.email;
+      const stage = url.searchParams.get('stage') || '';
+      const jobId = url.searchParams.get('jobId') || '';
+      const { sortBy, sortOrder, pageSize = 50, page, cursor, errors } = parseApplicationQuery(url.searchParams, 50);
+
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid query', details: errors }, { status: 400 });
+      }
+
+      // Exact email lookup resolves the person first
+      const person = email ? await findPersonByEmail(email) : undefined;
+
+      // Search covers person fields, so find the matching people in the search index
+      // before walking applications
+      let matchingPeople: Set<string> | undefined;
+      if (isIndexedQuery(search)) {
+        const results = await searchDocuments(search, { types: ['candidate'] });
+        matchingPeople = new Set(results.map(result => result.personId));
+      } else if (search.trim()) {
+        matchingPeople = new Set(await db.people
+          .filter(p => matchesSubstring(search, p.name, p.email, p.phone))
+          .primaryKeys() as string[]);
+      }
+
+      const result: ApplicationPage = email && !person
+        ? { applications: [], total: 0, nextCursor: null }
+        : await queryApplications({
+          personId: person?.id,
+          jobId: jobId || undefined,
+          stage: stage || undefined,
+          sortBy,
+          sortOrder,
+          pageSize,
+          page,
+          cursor,
+          filter: matchingPeople && (application => matchingPeople!.has(application.personId))
+        });
+
+      const total = result.total;
+      const candidates = await toCandidates(result.applications);
+
+      const response: ApiResponse<Candidate[]> = {
+        data: candidates,
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize),
+          nextCursor: result.nextCursor
+        }
+      };
+
+      return HttpResponse.json(response, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Total-Count': total.toString(),
+          'X-Page': page.toString(),
+          'X-Page-Size': pageSize.toString()
+        },
+      });
+    } catch (error) {
+      console.error('Candidates API error:', error);
+      return HttpResponse.json({ error: 'Internal server error' }, {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+  }),
+
+  http.post('/api/candidates', idempotent(async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'candidates:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const candidateData = await request.json() as Partial<Candidate>;
+      if (!candidateData.email || !candidateData.jobId) {
+        return HttpResponse.json({ error: 'email and jobId are required' }, { status: 400 });
+      }
+
+      const skillErrors = candidateData.skills !== undefined ? validateSkills(candidateData.skills) : [];
+      if (skillErrors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid skills', details: skillErrors }, { status: 400 });
+      }
+
+      const { application, person, duplicate } = await createApplication({
+        jobId: candidateData.jobId,
+        name: candidateData.name,
+        email: candidateData.email,
+        phone: candidateData.phone,
+        resume: candidateData.resume,
+        skills: candidateData.skills,
+        stage: candidateData.stage
+      });
+
+      if (duplicate) {
+        return HttpResponse.json({ error: 'Candidate has already applied to this job' }, { status: 409 });
+      }
+
+      return HttpResponse.json({ data: toCandidate(application, person) });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to create candidate' }, { status: 500 });
+    }
+  })),
+
+  // Bulk import for one job. A dry run reports what would fail without writing;
+  // the wizard then sends the rows in chunks, each written in one transaction.
+  http.post('/api/candidates/import', idempotent(async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'candidates:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const { jobId, rows, dryRun = false } = await request.json() as { jobId?: string; rows?: CandidateImportRow[]; dryRun?: boolean };
+
+      const details: string[] = [];
+      if (!jobId) details.push('jobId is required');
+      if (!Array.isArray(rows) || rows.some(row => !row || !Number.isInteger(row.row))) {
+        details.push('rows must be a list of rows, each with its row number');
+      } else if (rows.length > MAX_IMPORT_ROWS) {
+        details.push(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`);
+      }
+      if (details.length > 0) {
+        return HttpResponse.json({ error: 'Invalid import', details }, { status: 400 });
+      }
+
+      const job = await db.jobs.get(jobId!);
+      if (!job) {
+        return HttpResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+
+      const result = await importCandidates({ jobId: job.id, rows: rows!, dryRun: !!dryRun, importedBy: auth.user.name });
+      return HttpResponse.json({ data: result }, { status: dryRun ? 200 : 201 });
+    } catch (error) {
+      console.error('Candidate import error:', error);
+      return HttpResponse.json({ error: 'Failed to import candidates' }, { status: 500 });
+    }
+  })),
+
+  http.patch('/api/candidates/:id', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'candidates:move');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+      
+      const { id } = params;
+      const updates = await request.json() as Partial<Candidate> & { notes?: string; movedBy?: string; fields?: TransitionFields };
+      
+      // Moving stages is shared with hiring managers; editing the profile is not
+      const profileKeys: (keyof Candidate)[] = ['name', 'email', 'phone', 'resume', 'skills', 'status'];
+      const editsProfile = profileKeys.some(key => updates[key] !== undefined);
+      if (editsProfile && !hasPermission(auth.user.role, 'candidates:manage')) {
+        return forbidden();
+      }
+
+      const application = await getApplicationByCandidateId(id as string);
+      if (!application) {
+        return HttpResponse.json({ error: 'Candidate not found' }, { status: 404 });
+      }
+
+      // Profile fields belong to the person and are shared across their applications
+      const personUpdates: Partial<Person> = {};
+      if (updates.name !== undefined) personUpdates.name = updates.name;
+      if (updates.phone !== undefined) personUpdates.phone = updates.phone;
+      if (updates.resume !== undefined) personUpdates.resume = updates.resume;
+      if (updates.skills !== undefined) {
+        const skillErrors = validateSkills(updates.skills);
+        if (skillErrors.length > 0) {
+          return HttpResponse.json({ error: 'Invalid skills', details: skillErrors }, { status: 400 });
+        }
+        personUpdates.skills = normalizeSkills(updates.skills);
+      }
+      if (updates.email !== undefined) {
+        const email = normalizeEmail(updates.email);
+        const owner = await findPersonByEmail(email);
+        if (owner && owner.id !== application.personId) {
+          return HttpResponse.json({ error: 'Email already belongs to another candidate' }, { status: 400 });
+        }
+        personUpdates.email = email;
+      }
+
+      // Stage and status belong to the application
+      const applicationUpdates: Partial<Application> = {};
+      if (updates.status !== undefined) applicationUpdates.status = updates.status;
+
+      // If stage is being updated, add timeline entry
+      if (updates.stage && updates.stage !== application.stage) {
+        const pipeline = await getPipelineForJob(application.jobId);
+        if (!pipeline.stages.some(s => s.id === updates.stage)) {
+          return HttpResponse.json({ error: `Stage "${updates.stage}" is not part of this job's pipeline` }, { status: 400 });
+        }
+
+        const errors = validateTransition(pipeline, application.stage, updates.stage, updates.fields, await getTransitionContext(application));
+        if (errors.length > 0) {
+          return HttpResponse.json({ error: 'Stage transition not allowed', errors }, { status: 422 });
+        }
+
+        applicationUpdates.stage = updates.stage;
+        applicationUpdates.timeline = [
+          ...application.timeline,
+          {
+            id: `timeline-${Date.now()}`,
+            stage: updates.stage,
+            timestamp: new Date().toISOString(),
+            notes: updates.notes || `Moved to ${updates.stage}`,
+            movedBy: updates.movedBy || auth.user.name,
+            fields: pickStageFields(pipeline, updates.stage, updates.fields)
+          }
+        ];
+      }
+
+      await db.transaction('rw', db.people, db.applications, db.jobs, async () => {
+        if (Object.keys(personUpdates).length > 0) {
+          await db.people.update(application.personId, { ...personUpdates, updatedAt: new Date().toISOString() });
+        }
+        if (Object.keys(applicationUpdates).length > 0) {
+          await db.applications.update(application.id, applicationUpdates);
+        }
+        if (personUpdates.skills) {
+          await refreshMatchScores({ personId: application.personId });
+        }
+      });
+
+      if (applicationUpdates.stage) {
+        await publish({
+          type: 'application.stage-changed',
+          application: { ...application, ...applicationUpdates },
+          fromStage: application.stage,
+          toStage: applicationUpdates.stage,
+          actor: auth.user
+        });
+      }
+
+      const updatedCandidate = await getCandidate(id as string);
+      return HttpResponse.json({ data: updatedCandidate });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to update candidate' }, { status: 500 });
+    }
+  })),
+
+  http.get('/api/candidates/:id', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const { id } = params;
+      const candidate = await getCandidate(id as string);
+
+      if (!candidate) {
+        return HttpResponse.json({ error: 'Candidate not found' }, { status: 404 });
+      }
+
+      if (!hasPermission(auth.user.role, 'candidates:read')
+        && !(await ownsApplication(auth.user, await db.applications.get(candidate.applicationId!)))) {
+        return forbidden();
+      }
+
+      return HttpResponse.json({ data: candidate });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+  }),
+
+  http.get('/api/candidates/:id/timeline', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const { id } = params;
+      const application = await getApplicationByCandidateId(id as string);
+
+      if (!application) {
+        return HttpResponse.json({ error: 'Candidate not found' }, { status: 404 });
+      }
+
+      if (!hasPermission(auth.user.role, 'candidates:read') && !(await ownsApplication(auth.user, application))) {
+        return forbidden();
+      }
+
+      return HttpResponse.json({ data: application.timeline });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+  }),
+
+  // Review queue of people who are probably the same person
+  http.get('/api/duplicates', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'candidates:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      return HttpResponse.json({ data: await findDuplicates() });
+    } catch (error) {
+      console.error('Duplicate detection error:', error);
+      return HttpResponse.json({ error: 'Failed to find duplicates' }, { status: 500 });
+    }
+  }),
+
+  http.post('/api/duplicates/dismiss', idempotent(async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'candidates:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const { personIds } = await request.json() as { personIds?: string[] };
+      if (!Array.isArray(personIds) || personIds.length !== 2 || personIds[0] === personIds[1]) {
+        return HttpResponse.json({ error: 'Invalid dismissal', details: ['personIds must name two different people'] }, { status: 400 });
+      }
+
+      await dismissDuplicate([personIds[0], personIds[1]], auth.user.name);
+      return HttpResponse.json({ data: { dismissed: true } });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to dismiss duplicate' }, { status: 500 });
+    }
+  })),
+
+  // Merge the source person into the target. The response is the audit record,
+  // whose id undoes the merge.
+  http.post('/api/people/merge', idempotent(async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'candidates:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const { targetPersonId, sourcePersonId } = await request.json() as { targetPersonId?: string; sourcePersonId?: string };
+      if (!targetPersonId || !sourcePersonId) {
+        return HttpResponse.json({ error: 'Invalid merge', details: ['targetPersonId and sourcePersonId are required'] }, { status: 400 });
+      }
+
+      const merge = await mergePeople({ targetPersonId, sourcePersonId, mergedBy: auth.user.name });
+      return HttpResponse.json({ data: await toMergeSummary(merge) }, { status: 201 });
+    } catch (error) {
+      if (error instanceof MergeError) {
+        return HttpResponse.json({ error: error.message }, { status: error.status });
+      }
+      console.error('Merge error:', error);
+      return HttpResponse.json({ error: 'Failed to merge candidates' }, { status: 500 });
+    }
+  })),
+
+  http.get('/api/people/merges', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'candidates:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const url = new URL(request.url);
+      return HttpResponse.json({ data: await listMerges(url.searchParams.get('personId') || undefined) });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch merges' }, { status: 500 });
+    }
+  }),
+
+  http.post('/api/people/merges/:id/undo', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'candidates:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const merge = await undoMerge(params.id as string, auth.user.name);
+      return HttpResponse.json({ data: await toMergeSummary(merge) });
+    } catch (error) {
+      if (error instanceof MergeError) {
+        return HttpResponse.json({ error: error.message }, { status: error.status });
+      }
+      console.error('Undo merge error:', error);
+      return HttpResponse.json({ error: 'Failed to undo merge' }, { status: 500 });
+    }
+  })),
+
+  // Resume upload, sent as multipart form data with a "file" field. The file is
+  // held until an application claims it; the response carries the extracted text
+  // and contact details so the form can be pre-filled.
+  http.post('/api/resumes', async ({ request }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+      if (!hasPermission(auth.user.role, 'applications:apply') && !hasPermission(auth.user.role, 'candidates:manage')) {
+        return forbidden();
+      }
+
+      await simulateNetworkDelay(true);
+
+      const form = await request.formData().catch(() => undefined);
+      const file = form?.get('file');
+      if (!file || typeof file === 'string') {
+        return HttpResponse.json({ error: 'Invalid upload', details: ['A resume file is required'] }, { status: 400 });
+      }
+
+      const errors = validateResumeFile(file);
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid upload', details: errors }, { status: 400 });
+      }
+
+      const upload = await storeResume(file, file.name, resolveResumeType(file.name, file.type)!, auth.user.id);
+      return HttpResponse.json({ data: upload }, { status: 201 });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to upload resume' }, { status: 500 });
+    }
+  }),
+
+  // The stored file itself, for the inline viewer and downloads
+  http.get('/api/resumes/:id/file', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const file = await db.resumeFiles.get(params.id as string);
+      if (!file) {
+        return HttpResponse.json({ error: 'Resume not found' }, { status: 404 });
+      }
+
+      // Applicants can open the files they uploaded
+      if (!hasPermission(auth.user.role, 'candidates:read') && file.uploadedBy !== auth.user.id) {
+        return forbidden();
+      }
+
+      return new HttpResponse(file.blob, {
+        headers: {
+          'Content-Type': file.type,
+          'Content-Length': file.size.toString(),
+          'Content-Disposition': `inline; filename="${file.name.replace(/"/g, '')}"`
+        }
+      });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+  }),
+
+  // Full-text search across candidates, notes and written assessment answers.
+  // Notes and answers are only searched for roles that can read them.
+  http.get('/api/search', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'candidates:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const url = new URL(request.url);
+      const q = (url.searchParams.get('q') || '').trim();
+      const requested = url.searchParams.getAll('type');
+      const limit = parseInt(url.searchParams.get('limit') || '20');
+
+      const readable: SearchDocumentType[] = ['candidate'];
+      if (hasPermission(auth.user.role, 'notes:read')) readable.push('note');
+      if (hasPermission(auth.user.role, 'submissions:read')) readable.push('submission');
+
+      const errors: string[] = [];
+      const unknown = requested.filter(type => !SEARCH_DOCUMENT_TYPES.includes(type as SearchDocumentType));
+      unknown.forEach(type => errors.push(`Unknown type "${type}"`));
+      if (!Number.isInteger(limit) || limit < 1) {
+        errors.push('limit must be a positive integer');
+      }
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid query', details: errors }, { status: 400 });
+      }
+
+      if (q.length < MIN_QUERY_LENGTH) {
+        return HttpResponse.json({ data: [] });
+      }
+
+      const types = requested.length > 0
+        ? readable.filter(type => requested.includes(type))
+        : readable;
+      const results: SearchResult[] = types.length > 0 ? await searchDocuments(q, { types, limit }) : [];
+
+      return HttpResponse.json({ data: results });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Search failed' }, { status: 500 });
+    }
+  }),
+
+  // Assessments endpoints
+  http.get('/api/assessments', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'assessments:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      return HttpResponse.json({ data: await db.assessments.toArray() });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+  }),
+
+  http.get('/api/assessments/:jobId', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+      
+      const { jobId } = params;
+
+      // Candidates can only open the assessment for a job they applied to
+      const canRead = hasPermission(auth.user.role, 'assessments:read');
+      if (!canRead && !(await findApplicationForJob(auth.user.email, jobId as string))) {
+        return forbidden();
+      }
+
+      const assessment = await db.assessments.where('jobId').equals(jobId as string).first();
+      if (!assessment) return HttpResponse.json({ data: null });
+
+      return HttpResponse.json({ data: canRead ? assessment : withoutAnswerKey(assessment) });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+  }),
+
+  http.put('/api/assessments/:jobId', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'assessments:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const { jobId } = params;
+      const assessmentData = await request.json() as Partial<Assessment>;
+      
+      console.log('MSW: Saving assessment for job:', jobId, 'with data:', assessmentData);
+
+      const existingAssessment = await db.assessments.where('jobId').equals(jobId as string).first();
+
+      if (existingAssessment) {
+        // Update existing assessment
+        const updateData = {
+          title: assessmentData.title || existingAssessment.title,
+          description: assessmentData.description || existingAssessment.description,
+          sections: assessmentData.sections || existingAssessment.sections,
+          enableScoring: assessmentData.enableScoring !== undefined ? assessmentData.enableScoring : existingAssessment.enableScoring,
+          updatedAt: new Date().toISOString()
+        };
+        
+        await db.assessments.update(existingAssessment.id, updateData);
+        const updated = await db.assessments.get(existingAssessment.id);
+        console.log('MSW: Updated existing assessment:', updated?.id);
+        return HttpResponse.json({ data: updated });
+      } else {
+        // Create new assessment
+        const newAssessment: Assessment = {
+          id: `assessment-${jobId}-${Date.now()}`,
+          jobId: jobId as string,
+          title: assessmentData.title || 'Untitled Assessment',
+          description: assessmentData.description || '',
+          sections: assessmentData.sections || [],
+          enableScoring: assessmentData.enableScoring || false,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString()
+        };
+
+        await db.assessments.add(newAssessment);
+        console.log('MSW: Created new assessment:', newAssessment.id);
+        return HttpResponse.json({ data: newAssessment });
+      }
+    } catch (error) {
+      console.error('MSW: Assessment save error:', error);
+      return HttpResponse.json({ error: 'Failed to save assessment' }, { status: 500 });
+    }
+  })),
+
+  http.post('/api/assessments/:jobId/submit', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'applications:apply');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const { jobId } = params;
+      const submissionData = await request.json() as Partial<AssessmentSubmission>;
+
+      const ownApplication = submissionData.candidateId
+        ? await getApplicationByCandidateId(submissionData.candidateId)
+        : undefined;
+      if (!ownApplication || ownApplication.jobId !== jobId || !(await ownsApplication(auth.user, ownApplication))) {
+        return forbidden();
+      }
+
+      // Get the assessment to calculate score
+      const assessment = await db.assessments.where('jobId').equals(jobId as string).first();
+      
+      let score: number | undefined;
+      let maxScore: number | undefined;
+      let scoredQuestions: number | undefined;
+
+      if (assessment && assessment.enableScoring) {
+        let totalScore = 0;
+        let totalPossibleScore = 0;
+        let questionsScored = 0;
+
+        // Calculate score for each section and question
+        assessment.sections.forEach(section => {
+          section.questions.forEach(question => {
+            const questionPoints = question.points || 1;
+            const userResponse = submissionData.responses?.[question.id];
+
+            // Only score questions that have correct answers defined
+            if (question.correctAnswer !== undefined && userResponse !== undefined) {
+              totalPossibleScore += questionPoints;
+              questionsScored++;
+
+              // Score based on question type
+              if (question.type === 'single-choice') {
+                if (userResponse === question.correctAnswer) {
+                  totalScore += questionPoints;
+                }
+              } else if (question.type === 'multi-choice') {
+                const correctAnswers = Array.isArray(question.correctAnswer) ? question.correctAnswer : [];
+                const userAnswers = Array.isArray(userResponse) ? userResponse : [];
+                
+                // Calculate partial credit for multi-choice
+                if (correctAnswers.length > 0) {
+                  const correctSelected = userAnswers.filter(answer => correctAnswers.includes(answer)).length;
+                  const incorrectSelected = userAnswers.filter(answer => !correctAnswers.includes(answer)).length;
+                  const missedCorrect = correctAnswers.filter(answer => !userAnswers.includes(answer)).length;
+                  
+                  // Partial scoring: (correct - incorrect) / total correct, minimum 0
+                  const partialScore = Math.max(0, (correctSelected - incorrectSelected) / correctAnswers.length);
+                  totalScore += questionPoints * partialScore;
+                }
+              }
+              // Note: Text questions are not auto-scored, they require manual review
+            }
+          });
+        });
+
+        if (totalPossibleScore > 0) {
+          score = Math.round((totalScore / totalPossibleScore) * 100); // Percentage
+          maxScore = totalPossibleScore;
+          scoredQuestions = questionsScored;
+        }
+      }
+
+      const submission: AssessmentSubmission = {
+        id: `submission-${Date.now()}`,
+        jobId: jobId as string,
+        candidateId: submissionData.candidateId || '',
+        responses: submissionData.responses || {},
+        score,
+        maxScore,
+        scoredQuestions,
+        submittedAt: new Date().toISOString()
+      };
+
+      await db.submissions.add(submission);
+      
+      // Update application assessment completion status
+      if (submissionData.candidateId) {
+        const application = await getApplicationByCandidateId(submissionData.candidateId);
+        if (application) {
+          await db.applications.update(application.id, {
+            assessmentCompleted: true,
+            assessmentCompletedAt: new Date().toISOString()
+          });
+          await publish({ type: 'assessment.submitted', application, submission });
+        }
+      }
+      
+      return HttpResponse.json({ data: submission });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to submit assessment' }, { status: 500 });
+    }
+  })),
+
+  http.delete('/api/assessments/:jobId', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'assessments:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+      
+      const { jobId } = params;
+      const assessment = await db.assessments.where('jobId').equals(jobId as string).first();
+      
+      if (!assessment) {
+        return HttpResponse.json({ error: 'Assessment not found' }, { status: 404 });
+      }
+
+      await db.assessments.delete(assessment.id);
+      return HttpResponse.json({ success: true });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to delete assessment' }, { status: 500 });
+    }
+  })),
+
+  http.get('/api/assessments/:jobId/submissions', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+      
+      const { jobId } = params;
+      let submissions = await db.submissions.where('jobId').equals(jobId as string).toArray();
+
+      if (!hasPermission(auth.user.role, 'submissions:read')) {
+        const ownApplication = await findApplicationForJob(auth.user.email, jobId as string);
+        submissions = submissions.filter(sub => !!ownApplication && sub.candidateId === ownApplication.candidateId);
+      }
+      
+      return HttpResponse.json({ data: submissions });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch submissions' }, { status: 500 });
+    }
+  }),
+
+  // Applications endpoints
+  http.get('/api/applications', async ({ request }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const url = new URL(request.url);
+      const jobId = url.searchParams.get('jobId') || undefined;
+      const candidateId = url.searchParams.get('candidateId');
+      let personId = url.searchParams.get('personId') || undefined;
+      const { sortBy, sortOrder, pageSize, page, cursor, errors } = parseApplicationQuery(url.searchParams);
+
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid query', details: errors }, { status: 400 });
+      }
+
+      if (!hasPermission(auth.user.role, 'candidates:read')) {
+        const person = await findPersonByEmail(auth.user.email);
+        if (!person || (personId && personId !== person.id)) {
+          return HttpResponse.json({ data: [] });
+        }
+        personId = person.id;
+      }
+
+      // A candidate id names at most one application
+      if (candidateId) {
+        const application = await getApplicationByCandidateId(candidateId);
+        const matches = !!application &&
+          (!jobId || application.jobId === jobId) &&
+          (!personId || application.personId === personId);
+        return HttpResponse.json({ data: matches ? [application] : [] });
+      }
+
+      const result = await queryApplications({ personId, jobId, sortBy, sortOrder, pageSize, page, cursor });
+      const applications = result.applications;
+
+      if (pageSize !== undefined) {
+        return HttpResponse.json({
+          data: applications,
+          pagination: {
+            page,
+            pageSize,
+            total: result.total,
+            totalPages: Math.ceil(result.total / pageSize),
+            nextCursor: result.nextCursor
+          }
+        });
+      }
+
+      return HttpResponse.json({ data: applications });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch applications' }, { status: 500 });
+    }
+  }),
+
+  // Check whether a candidate (by email) has already applied to a job
+  http.get('/api/applications/check', async ({ request }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const url = new URL(request.url);
+      const jobId = url.searchParams.get('jobId') || '';
+      const candidateEmail = normalizeEmail(hasPermission(auth.user.role, 'candidates:read')
+        ? url.searchParams.get('candidateEmail') || ''
+        : auth.user.email);
+
+      if (!jobId || !candidateEmail) {
+        return HttpResponse.json({ error: 'jobId and candidateEmail are required' }, { status: 400 });
+      }
+
+      const application = await findApplicationForJob(candidateEmail, jobId);
+
+      if (!application) {
+        return HttpResponse.json({ hasApplied: false, stage: null });
+      }
+
+      return HttpResponse.json({
+        hasApplied: true,
+        stage: application.stage,
+        candidateId: application.candidateId,
+        applicationId: application.id,
+        appliedAt: application.appliedAt
+      });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to check application status' }, { status: 500 });
+    }
+  }),
+
+  // Candidate-side apply: links a new Application to the applicant's Person profile
+  http.post('/api/applications', idempotent(async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'applications:apply');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const { jobId, candidateName, candidateEmail, candidatePhone, resume, resumeFileId, links, skills } = await request.json() as {
+        jobId: string;
+        candidateName: string;
+        candidateEmail: string;
+        candidatePhone?: string;
+        resume?: string;
+        resumeFileId?: string;
+        links?: string[];
+        skills?: string[];
+      };
+
+      const email = normalizeEmail(candidateEmail);
+      if (!jobId || !email) {
+        return HttpResponse.json({ error: 'jobId and candidateEmail are required' }, { status: 400 });
+      }
+
+      // Applicants can only apply as themselves
+      if (email !== normalizeEmail(auth.user.email)) {
+        return forbidden();
+      }
+
+      const job = await db.jobs.get(jobId);
+      if (!job) {
+        return HttpResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+
+      if (job.status !== 'open') {
+        return HttpResponse.json({ error: 'This job is not accepting applications' }, { status: 400 });
+      }
+
+      const skillErrors = skills !== undefined ? validateSkills(skills) : [];
+      if (skillErrors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid application', details: skillErrors }, { status: 400 });
+      }
+
+      const resumeFile = resumeFileId ? await getClaimableResume(resumeFileId, auth.user.id) : undefined;
+      if (resumeFileId && !resumeFile) {
+        return HttpResponse.json({ error: 'Invalid application', details: ['Resume upload not found; upload the file again'] }, { status: 400 });
+      }
+
+      const { application: newApplication, person, duplicate } = await createApplication({
+        jobId,
+        name: candidateName,
+        email,
+        phone: candidatePhone,
+        resume,
+        links: Array.isArray(links) ? links.filter(link => typeof link === 'string' && link.trim()).map(link => link.trim()) : undefined,
+        skills
+      });
+
+      if (duplicate) {
+        return HttpResponse.json({
+          error: 'You have already applied to this job',
+          stage: newApplication.stage
+        }, { status: 409 });
+      }
+
+      if (resumeFile) {
+        await attachResume(resumeFile.id, person.id);
+      }
+      // A returning applicant keeps the skills already on their profile
+      if (skills && skills.length > 0) {
+        await addPersonSkills(person.id, skills);
+      }
+
+      // Skills added above change the match score
+      const application = (await db.applications.get(newApplication.id)) || newApplication;
+      return HttpResponse.json({ data: application, stage: application.stage }, { status: 201 });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to submit application' }, { status: 500 });
+    }
+  })),
+
+  http.patch('/api/applications/:id/stage', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'candidates:move');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+      
+      const { id } = params;
+      const { stage, notes, movedBy, fields } = await request.json() as { stage: string; notes?: string; movedBy: string; fields?: TransitionFields };
+      
+      const application = await db.applications.get(id as string);
+      if (!application) {
+        return HttpResponse.json({ error: 'Application not found' }, { status: 404 });
+      }
+
+      const pipeline = await getPipelineForJob(application.jobId);
+      if (!pipeline.stages.some(s => s.id === stage)) {
+        return HttpResponse.json({ error: `Stage "${stage}" is not part of this job's pipeline` }, { status: 400 });
+      }
+
+      const errors = validateTransition(pipeline, application.stage, stage, fields, await getTransitionContext(application));
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Stage transition not allowed', errors }, { status: 422 });
+      }
+
+      // Add timeline entry
+      const timelineEntry = {
+        id: `timeline-${Date.now()}`,
+        stage,
+        timestamp: new Date().toISOString(),
+        notes: notes || `Moved to ${stage} stage`,
+        movedBy: movedBy || auth.user.name,
+        fields: pickStageFields(pipeline, stage, fields)
+      };
+      
+      // The application is the only place stage and timeline are stored
+      await db.applications.update(id as string, {
+        stage,
+        timeline: [...application.timeline, timelineEntry]
+      });
+      
+      const updatedApplication = await db.applications.get(id as string);
+      await publish({
+        type: 'application.stage-changed',
+        application: updatedApplication!,
+        fromStage: application.stage,
+        toStage: stage,
+        actor: auth.user
+      });
+
+      return HttpResponse.json({ data: updatedApplication });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to update application stage' }, { status: 500 });
+    }
+  })),
+
+  // Assessment invitation endpoint
+  http.post('/api/candidates/:id/invite-assessment', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'assessments:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+      
+      const { id } = params;
+      const { invitedBy = auth.user.name } = await request.json() as { jobId: string; invitedBy?: string; stage: string };
+      
+      const application = await getApplicationByCandidateId(id as string);
+      if (!application) {
+        return HttpResponse.json({ error: 'Candidate not found' }, { status: 404 });
+      }
+
+      // Record the invitation on the application, with a timeline entry
+      const timelineEntry = {
+        id: `timeline-${Date.now()}`,
+        stage: application.stage,
+        timestamp: new Date().toISOString(),
+        notes: `Assessment invitation sent by ${invitedBy}`,
+        movedBy: invitedBy
+      };
+
+      await db.applications.update(application.id, {
+        assessmentInvited: true,
+        assessmentInvitedAt: new Date().toISOString(),
+        timeline: [...application.timeline, timelineEntry]
+      });
+
+      await publish({ type: 'assessment.invited', application, actor: auth.user });
+
+      return HttpResponse.json({ success: true });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to send assessment invitation' }, { status: 500 });
+    }
+  })),
+
+  // Check assessment invitation status
+  http.get('/api/candidates/:candidateId/assessment-status/:jobId', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+      
+      const { candidateId, jobId } = params;
+      const application = await getApplicationByCandidateId(candidateId as string);
+      
+      if (!application) {
+        return HttpResponse.json({ error: 'Candidate not found' }, { status: 404 });
+      }
+
+      if (!hasPermission(auth.user.role, 'candidates:read') && !(await ownsApplication(auth.user, application))) {
+        return forbidden();
+      }
+
+      // Check if assessment exists for this job
+      const assessment = await db.assessments.where('jobId').equals(jobId as string).first();
+      if (!assessment) {
+        return HttpResponse.json({ 
+          invited: false, 
+          completed: false, 
+          hasAssessment: false 
+        });
+      }
+
+      // Check if candidate has completed assessment
+      const submission = await db.submissions
+        .where('jobId').equals(jobId as string)
+        .and(sub => sub.candidateId === candidateId)
+        .first();
+      
+      return HttpResponse.json({ 
+        invited: application.assessmentInvited || false,
+        completed: !!submission,
+        hasAssessment: true,
+        invitedAt: application.assessmentInvitedAt,
+        completedAt: submission?.submittedAt
+      });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to check assessment status' }, { status: 500 });
+    }
+  }),
+
+  // Interview endpoints
+  http.get('/api/interviewers', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'interviews:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      return HttpResponse.json({ data: await getInterviewers() });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch interviewers' }, { status: 500 });
+    }
+  }),
+
+  http.get('/api/interviews', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'interviews:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const url = new URL(request.url);
+      const from = url.searchParams.get('from') || '';
+      const to = url.searchParams.get('to') || '';
+      const applicationId = url.searchParams.get('applicationId') || '';
+      const candidateId = url.searchParams.get('candidateId') || '';
+      const personId = url.searchParams.get('personId') || '';
+      const interviewerId = Number(url.searchParams.get('interviewerId')) || 0;
+      const status = url.searchParams.get('status') || '';
+
+      // Interviews overlapping [from, to) when a range is given
+      let query = from || to
+        ? db.interviews.where('startTime').below(to || '\uffff')
+        : db.interviews.orderBy('startTime');
+
+      if (from) query = query.filter(interview => interview.endTime > from);
+      if (applicationId) query = query.filter(interview => interview.applicationId === applicationId);
+      if (candidateId) query = query.filter(interview => interview.candidateId === candidateId);
+      if (personId) {
+        const applicationIds = await db.applications.where('personId').equals(personId).primaryKeys();
+        query = query.filter(interview => applicationIds.includes(interview.applicationId));
+      }
+      if (interviewerId) query = query.filter(interview => interview.interviewerIds.includes(interviewerId));
+      if (status) query = query.filter(interview => interview.status === status);
+
+      const interviews = await query.toArray();
+      return HttpResponse.json({ data: await toInterviewSummaries(interviews) });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch interviews' }, { status: 500 });
+    }
+  }),
+
+  // Dry-run conflict check used while picking a slot
+  http.post('/api/interviews/conflicts', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'interviews:read');
+      if (auth.response) return auth.response;
+
+      const { startTime, endTime, interviewerIds, excludeId } = await request.json() as {
+        startTime: string;
+        endTime: string;
+        interviewerIds: number[];
+        excludeId?: string;
+      };
+
+      const conflicts = await checkInterviewConflicts({ startTime, endTime, interviewerIds: interviewerIds || [] }, excludeId);
+      return HttpResponse.json({ data: conflicts });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to check conflicts' }, { status: 500 });
+    }
+  }),
+
+  http.get('/api/interviews/:id', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'interviews:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const interview = await db.interviews.get(params.id as string);
+      if (!interview) {
+        return HttpResponse.json({ error: 'Interview not found' }, { status: 404 });
+      }
+
+      const [summary] = await toInterviewSummaries([interview]);
+      return HttpResponse.json({ data: summary });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch interview' }, { status: 500 });
+    }
+  }),
+
+  http.post('/api/interviews', idempotent(async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'interviews:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const interviewData = await request.json() as Partial<Interview>;
+      const errors = validateInterview(interviewData);
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid interview', details: errors }, { status: 400 });
+      }
+
+      const application = await db.applications.get(interviewData.applicationId!);
+      if (!application) {
+        return HttpResponse.json({ error: 'Application not found' }, { status: 404 });
+      }
+
+      const conflicts = await checkInterviewConflicts(interviewData as Interview);
+      if (conflicts.length > 0) {
+        return HttpResponse.json({ error: 'The interview conflicts with interviewer availability', conflicts }, { status: 409 });
+      }
+
+      const now = new Date().toISOString();
+      const interview: Interview = {
+        id: `interview-${Date.now()}`,
+        applicationId: application.id,
+        candidateId: application.candidateId,
+        jobId: application.jobId,
+        interviewerIds: interviewData.interviewerIds!,
+        type: interviewData.type!,
+        status: 'scheduled',
+        startTime: new Date(interviewData.startTime!).toISOString(),
+        endTime: new Date(interviewData.endTime!).toISOString(),
+        location: interviewData.location || '',
+        videoLink: interviewData.videoLink || '',
+        notes: interviewData.notes || '',
+        createdBy: auth.user.name,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await db.interviews.add(interview);
+      await addInterviewTimelineEntry(application, `Scheduled ${await describeInterview(interview)}`, auth.user.name);
+
+      const [summary] = await toInterviewSummaries([interview]);
+      return HttpResponse.json({ data: summary }, { status: 201 });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to schedule interview' }, { status: 500 });
+    }
+  })),
+
+  // Reschedule, edit, complete or cancel an interview
+  http.patch('/api/interviews/:id', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'interviews:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const interview = await db.interviews.get(params.id as string);
+      if (!interview) {
+        return HttpResponse.json({ error: 'Interview not found' }, { status: 404 });
+      }
+
+      const updates = await request.json() as Partial<Interview>;
+      const updated: Interview = {
+        ...interview,
+        interviewerIds: updates.interviewerIds ?? interview.interviewerIds,
+        type: updates.type ?? interview.type,
+        status: updates.status ?? interview.status,
+        startTime: updates.startTime ? new Date(updates.startTime).toISOString() : interview.startTime,
+        endTime: updates.endTime ? new Date(updates.endTime).toISOString() : interview.endTime,
+        location: updates.location ?? interview.location,
+        videoLink: updates.videoLink ?? interview.videoLink,
+        notes: updates.notes ?? interview.notes,
+        updatedAt: new Date().toISOString()
+      };
+
+      const errors = validateInterview(updated);
+      if (!['scheduled', 'completed', 'cancelled'].includes(updated.status)) {
+        errors.push('Unknown interview status');
+      }
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid interview', details: errors }, { status: 400 });
+      }
+
+      const rescheduled = updated.startTime !== interview.startTime
+        || updated.endTime !== interview.endTime
+        || updated.interviewerIds.join() !== interview.interviewerIds.join();
+
+      if (updated.status === 'scheduled' && rescheduled) {
+        const conflicts = await checkInterviewConflicts(updated, interview.id);
+        if (conflicts.length > 0) {
+          return HttpResponse.json({ error: 'The interview conflicts with interviewer availability', conflicts }, { status: 409 });
+        }
+      }
+
+      await db.interviews.put(updated);
+
+      const application = await db.applications.get(interview.applicationId);
+      if (application) {
+        if (updated.status !== interview.status && updated.status !== 'scheduled') {
+          const verb = updated.status === 'cancelled' ? 'Cancelled' : 'Completed';
+          await addInterviewTimelineEntry(application, `${verb} ${await describeInterview(interview)}`, auth.user.name);
+        } else if (updated.status === 'scheduled' && rescheduled) {
+          await addInterviewTimelineEntry(application, `Rescheduled to ${await describeInterview(updated)}`, auth.user.name);
+        }
+      }
+
+      const [summary] = await toInterviewSummaries([updated]);
+      return HttpResponse.json({ data: summary });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to update interview' }, { status: 500 });
+    }
+  })),
+
+  http.delete('/api/interviews/:id', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'interviews:manage');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const interview = await db.interviews.get(params.id as string);
+      if (!interview) {
+        return HttpResponse.json({ error: 'Interview not found' }, { status: 404 });
+      }
+
+      await db.interviews.delete(interview.id);
+
+      const application = await db.applications.get(interview.applicationId);
+      if (application && interview.status === 'scheduled') {
+        await addInterviewTimelineEntry(application, `Removed ${await describeInterview(interview)}`, auth.user.name);
+      }
+
+      return HttpResponse.json({ success: true });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to delete interview' }, { status: 500 });
+    }
+  })),
+
+  http.get('/api/scorecard-templates', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'scorecards:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const templates = await db.scorecardTemplates.orderBy('name').toArray();
+      return HttpResponse.json({ data: templates });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch scorecard templates' }, { status: 500 });
+    }
+  }),
+
+  // Every scorecard for an application plus the per-competency aggregate
+  http.get('/api/applications/:id/scorecards', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'scorecards:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const application = await db.applications.get(params.id as string);
+      if (!application) {
+        return HttpResponse.json({ error: 'Application not found' }, { status: 404 });
+      }
+
+      const { scorecards, summary } = await getScorecardsWithSummary(application.id);
+      return HttpResponse.json({ data: scorecards, summary });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch scorecards' }, { status: 500 });
+    }
+  }),
+
+  http.post('/api/applications/:id/scorecards', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'scorecards:submit');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const application = await db.applications.get(params.id as string);
+      if (!application) {
+        return HttpResponse.json({ error: 'Application not found' }, { status: 404 });
+      }
+
+      const scorecardData = await request.json() as Partial<Scorecard>;
+      const stage = scorecardData.stage || application.stage;
+      const template = await getStageScorecardTemplate(application, stage);
+      const errors = validateScorecard(scorecardData, template);
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid scorecard', details: errors }, { status: 400 });
+      }
+
+      // One scorecard per interviewer per stage; later changes go through PUT
+      const existing = await db.scorecards
+        .where('[applicationId+stage+interviewerId]')
+        .equals([application.id, stage, auth.user.id])
+        .first();
+      if (existing) {
+        return HttpResponse.json({ error: 'You already submitted a scorecard for this stage', data: existing }, { status: 409 });
+      }
+
+      if (scorecardData.interviewId) {
+        const interview = await db.interviews.get(scorecardData.interviewId);
+        if (!interview || interview.applicationId !== application.id) {
+          return HttpResponse.json({ error: 'Invalid scorecard', details: ['The interview does not belong to this application'] }, { status: 400 });
+        }
+      }
+
+      const now = new Date().toISOString();
+      const scorecard: Scorecard = {
+        id: `scorecard-${Date.now()}`,
+        applicationId: application.id,
+        candidateId: application.candidateId,
+        jobId: application.jobId,
+        stage,
+        templateId: template!.id,
+        interviewId: scorecardData.interviewId,
+        interviewerId: auth.user.id,
+        interviewerName: auth.user.name,
+        ratings: pickRatings(scorecardData.ratings, template!),
+        recommendation: scorecardData.recommendation!,
+        evidence: scorecardData.evidence!.trim(),
+        submittedAt: now,
+        updatedAt: now
+      };
+
+      await db.scorecards.add(scorecard);
+      await addInterviewTimelineEntry(
+        application,
+        `${template!.name} scorecard submitted by ${auth.user.name}: ${getRecommendation(scorecard.recommendation).label}`,
+        auth.user.name
+      );
+
+      return HttpResponse.json({ data: scorecard }, { status: 201 });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to submit scorecard' }, { status: 500 });
+    }
+  })),
+
+  // Only the interviewer who wrote a scorecard can revise it
+  http.put('/api/scorecards/:id', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'scorecards:submit');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const scorecard = await db.scorecards.get(params.id as string);
+      if (!scorecard) {
+        return HttpResponse.json({ error: 'Scorecard not found' }, { status: 404 });
+      }
+      if (scorecard.interviewerId !== auth.user.id) {
+        return forbidden();
+      }
+
+      const updates = await request.json() as Partial<Scorecard>;
+      const template = await db.scorecardTemplates.get(scorecard.templateId);
+      const errors = validateScorecard(updates, template);
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid scorecard', details: errors }, { status: 400 });
+      }
+
+      const updated: Scorecard = {
+        ...scorecard,
+        ratings: pickRatings(updates.ratings, template!),
+        recommendation: updates.recommendation!,
+        evidence: updates.evidence!.trim(),
+        interviewId: updates.interviewId ?? scorecard.interviewId,
+        updatedAt: new Date().toISOString()
+      };
+
+      await db.scorecards.put(updated);
+      return HttpResponse.json({ data: updated });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to update scorecard' }, { status: 500 });
+    }
+  })),
+
+  // Teammates that can be @mentioned in notes
+  http.get('/api/team', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'notes:write');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      return HttpResponse.json({ data: await getTeamMembers() });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch team members' }, { status: 500 });
+    }
+  }),
+
+  http.get('/api/candidates/:id/notes', async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'notes:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const application = await getApplicationByCandidateId(params.id as string);
+      if (!application) {
+        return HttpResponse.json({ error: 'Candidate not found' }, { status: 404 });
+      }
+
+      return HttpResponse.json({ data: await getNotesForPerson(application.personId) });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch notes' }, { status: 500 });
+    }
+  }),
+
+  http.post('/api/candidates/:id/notes', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'notes:write');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const application = await getApplicationByCandidateId(params.id as string);
+      if (!application) {
+        return HttpResponse.json({ error: 'Candidate not found' }, { status: 404 });
+      }
+
+      const { content } = await request.json() as { content?: string };
+      const errors = validateNote(content);
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid note', details: errors }, { status: 400 });
+      }
+
+      const now = new Date().toISOString();
+      const note: CandidateNote = {
+        id: `note-${Date.now()}`,
+        personId: application.personId,
+        candidateId: application.candidateId,
+        authorId: auth.user.id,
+        authorName: auth.user.name,
+        content: content!.trim(),
+        mentions: parseMentions(content!, await getTeamMembers()),
+        readBy: [],
+        revisions: [],
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await db.notes.add(note);
+      if (note.mentions.length > 0) {
+        await publish({ type: 'note.mentioned', note, userIds: note.mentions, actor: auth.user });
+      }
+      return HttpResponse.json({ data: note }, { status: 201 });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to add note' }, { status: 500 });
+    }
+  })),
+
+  // Authors edit their own notes; the previous text is kept in the revision history
+  http.patch('/api/notes/:id', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'notes:write');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const note = await db.notes.get(params.id as string);
+      if (!note || note.deletedAt) {
+        return HttpResponse.json({ error: 'Note not found' }, { status: 404 });
+      }
+      if (note.authorId !== auth.user.id) {
+        return forbidden();
+      }
+
+      const { content } = await request.json() as { content?: string };
+      const errors = validateNote(content);
+      if (errors.length > 0) {
+        return HttpResponse.json({ error: 'Invalid note', details: errors }, { status: 400 });
+      }
+
+      const mentions = parseMentions(content!, await getTeamMembers());
+      const updated: CandidateNote = {
+        ...note,
+        content: content!.trim(),
+        mentions,
+        // Newly mentioned teammates have not seen the note yet
+        readBy: note.readBy.filter(id => mentions.includes(id)),
+        revisions: [...note.revisions, { content: note.content, mentions: note.mentions, editedAt: note.updatedAt }],
+        updatedAt: new Date().toISOString()
+      };
+
+      await db.notes.put(updated);
+
+      const newMentions = mentions.filter(id => !note.mentions.includes(id));
+      if (newMentions.length > 0) {
+        await publish({ type: 'note.mentioned', note: updated, userIds: newMentions, actor: auth.user });
+      }
+      return HttpResponse.json({ data: updated });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to update note' }, { status: 500 });
+    }
+  })),
+
+  // Soft delete: the note disappears from the profile and inbox but stays in the table
+  http.delete('/api/notes/:id', idempotent(async ({ request, params }) => {
+    try {
+      const auth = await authorize(request, 'notes:write');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const note = await db.notes.get(params.id as string);
+      if (!note || note.deletedAt) {
+        return HttpResponse.json({ error: 'Note not found' }, { status: 404 });
+      }
+      if (note.authorId !== auth.user.id) {
+        return forbidden();
+      }
+
+      await db.notes.update(note.id, { deletedAt: new Date().toISOString(), deletedBy: auth.user.name });
+      return HttpResponse.json({ success: true });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to delete note' }, { status: 500 });
+    }
+  })),
+
+  // Notes that mention the signed-in user, newest first
+  http.get('/api/mentions', async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'notes:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const url = new URL(request.url);
+      const unreadOnly = url.searchParams.get('unread') === 'true';
+
+      const notes = await db.notes
+        .where('mentions').equals(auth.user.id)
+        .filter(note => !note.deletedAt && (!unreadOnly || !note.readBy.includes(auth.user.id)))
+        .reverse()
+        .sortBy('createdAt');
+
+      const mentions = await toMentionSummaries(notes, auth.user.id);
+      return HttpResponse.json({ data: mentions, unreadCount: mentions.filter(m => m.unread).length });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch mentions' }, { status: 500 });
+    }
+  }),
+
+  // Mark the given mentions (or all of them) as read
+  http.post('/api/mentions/read', idempotent(async ({ request }) => {
+    try {
+      const auth = await authorize(request, 'notes:read');
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const { ids } = await request.json().catch(() => ({})) as { ids?: string[] };
+      const userId = auth.user.id;
+
+      await db.transaction('rw', db.notes, async () => {
+        const notes = await db.notes.where('mentions').equals(userId).toArray();
+        const unread = notes.filter(note => !note.readBy.includes(userId) && (!ids || ids.includes(note.id)));
+        await Promise.all(unread.map(note => db.notes.update(note.id, { readBy: [...note.readBy, userId] })));
+      });
+
+      return HttpResponse.json({ success: true });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to mark mentions as read' }, { status: 500 });
+    }
+  })),
+
+  // Notifications for the signed-in user, newest first
+  http.get('/api/notifications', async ({ request }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      const url = new URL(request.url);
+      const unreadOnly = url.searchParams.get('unread') === 'true';
+      const limit = parseInt(url.searchParams.get('limit') || '50');
+
+      const notifications = await db.notifications
+        .where('[userId+createdAt]')
+        .between([auth.user.id, ''], [auth.user.id, '\uffff'])
+        .reverse()
+        .toArray();
+
+      const unreadCount = notifications.filter(n => !n.readAt).length;
+      const data = (unreadOnly ? notifications.filter(n => !n.readAt) : notifications).slice(0, limit);
+
+      return HttpResponse.json({ data, unreadCount });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch notifications' }, { status: 500 });
+    }
+  }),
+
+  // Mark the given notifications (or all of them) as read
+  http.post('/api/notifications/read', idempotent(async ({ request }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const { ids } = await request.json().catch(() => ({})) as { ids?: string[] };
+      const readAt = new Date().toISOString();
+
+      await db.notifications
+        .where('userId').equals(auth.user.id)
+        .filter(n => !n.readAt && (!ids || ids.includes(n.id)))
+        .modify({ readAt });
+
+      return HttpResponse.json({ success: true });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to mark notifications as read' }, { status: 500 });
+    }
+  })),
+
+  http.get('/api/notifications/preferences', async ({ request }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay();
+
+      return HttpResponse.json({ data: await getNotificationPreferences(auth.user.id) });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to fetch notification preferences' }, { status: 500 });
+    }
+  }),
+
+  http.put('/api/notifications/preferences', idempotent(async ({ request }) => {
+    try {
+      const auth = await authorize(request);
+      if (auth.response) return auth.response;
+
+      await simulateNetworkDelay(true);
+
+      const { muted = [] } = await request.json() as Partial<NotificationPreferences>;
+      const unknown = muted.filter(type => !NOTIFICATION_TYPES.some(t => t.value === type));
+      if (unknown.length > 0) {
+        return HttpResponse.json({ error: 'Invalid preferences', details: unknown.map(type => `Unknown notification type "${type}"`) }, { status: 400 });
+      }
+
+      const preferences: NotificationPreferences = {
+        userId: auth.user.id,
+        muted: Array.from(new Set(muted)),
+        updatedAt: new Date().toISOString()
+      };
+      await db.notificationPreferences.put(preferences);
+
+      return HttpResponse.json({ data: preferences });
+    } catch (error) {
+      return HttpResponse.json({ error: 'Failed to update notification preferences' }, { status: 500 });
+    }
+  }))
+];
+
+// Resolve a request against the same handlers without the service worker. The
+// IndexedDB fallback in apiUtils goes through here, so every endpoint behaves the
+// same whether or not MSW is running.
+export const handleRequest = async (url: string, options?: RequestInit): Promise<Response> => {
+  const request = new Request(new URL(url, window.location.origin), options);
+  const response = await getResponse(handlers, request);
+  return response || HttpResponse.json(
+    { error: `No handler for ${request.method} ${new URL(request.url).pathname}` },
+    { status: 404 }
+  );
+};
@@ -0,0 +1,127 @@
+import 'fake-indexeddb/auto';
+import { db } from './database';
+import { parseApplicationQuery, queryApplications } from './applicationQueries';
+import { Application } from '../types';
+
+const application = (id: string, overrides: Partial<Application>): Application => ({
+  id,
+  candidateId: `candidate-${id}`,
+  personId: `person-${id}`,
+  jobId: 'job-1',
+  stage: 'applied',
+  status: 'active',
+  appliedAt: '2024-01-01T00:00:00.000Z',
+  timeline: [],
+  notes: '',
+  ...overrides
+});
+
+// Three applications share each appliedAt value, so every page boundary falls inside a tie
+const APPLICATIONS = [
+  application('a01', { appliedAt: '2024-01-03T00:00:00.000Z' }),
+  application('a02', { appliedAt: '2024-01-03T00:00:00.000Z', stage: 'screen' }),
+  application('a03', { appliedAt: '2024-01-03T00:00:00.000Z' }),
+  application('a04', { appliedAt: '2024-01-02T00:00:00.000Z', stage: 'screen' }),
+  application('a05', { appliedAt: '2024-01-02T00:00:00.000Z', jobId: 'job-2' }),
+  application('a06', { appliedAt: '2024-01-02T00:00:00.000Z', stage: 'screen', personId: 'person-a01' }),
+  application('a07', { appliedAt: '2024-01-01T00:00:00.000Z', matchScore: 80 }),
+  application('a08', { appliedAt: '2024-01-01T00:00:00.000Z', matchScore: 80 })
+];
+
+const allPages = async (params: string) => {
+  const ids: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const query = parseApplicationQuery(new URLSearchParams(`${params}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`));
+    expect(query.errors).toEqual([]);
+    const page = await queryApplications({ ...query, page: 1 });
+    ids.push(...page.applications.map(app => app.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return ids;
+};
+
+beforeAll(async () => {
+  await db.applications.bulkAdd(APPLICATIONS);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('parseApplicationQuery', () => {
+  it('defaults to newest first', () => {
+    expect(parseApplicationQuery(new URLSearchParams(''), 10)).toEqual({
+      sortBy: 'appliedAt', sortOrder: 'desc', pageSize: 10, page: 1, cursor: undefined, errors: []
+    });
+  });
+
+  it('reports invalid sorting and paging', () => {
+    expect(parseApplicationQuery(new URLSearchParams('sortBy=name&sortOrder=up&pageSize=0&page=-1')).errors).toEqual([
+      'sortBy must be one of: appliedAt, stage, matchScore',
+      'sortOrder must be asc or desc',
+      'pageSize must be a positive integer',
+      'page must be a positive integer'
+    ]);
+  });
+
+  it('rejects cursors that are garbled, for another sort or without a page size', async () => {
+    expect(parseApplicationQuery(new URLSearchParams('pageSize=2&cursor=not-a-cursor')).errors).toEqual(['cursor is not valid']);
+
+    const { nextCursor } = await queryApplications({ sortBy: 'appliedAt', sortOrder: 'desc', pageSize: 2, page: 1 });
+    expect(parseApplicationQuery(new URLSearchParams({ pageSize: '2', sortOrder: 'asc', cursor: nextCursor! })).errors)
+      .toEqual(['cursor was issued for a different sort order']);
+    expect(parseApplicationQuery(new URLSearchParams({ cursor: nextCursor! })).errors).toEqual(['pageSize is required with a cursor']);
+  });
+});
+
+describe('queryApplications', () => {
+  it('pages through ties with a cursor without skipping or repeating rows', async () => {
+    expect(await allPages('sortBy=appliedAt&sortOrder=desc&pageSize=2')).toEqual(['a03', 'a02', 'a01', 'a06', 'a05', 'a04', 'a08', 'a07']);
+    expect(await allPages('sortBy=appliedAt&sortOrder=asc&pageSize=2')).toEqual(['a07', 'a08', 'a04', 'a05', 'a06', 'a01', 'a02', 'a03']);
+  });
+
+  it('agrees with offset paging', async () => {
+    const offsetIds: string[] = [];
+    for (let page = 1; page <= 3; page++) {
+      const result = await queryApplications({ sortBy: 'appliedAt', sortOrder: 'desc', pageSize: 3, page });
+      offsetIds.push(...result.applications.map(app => app.id));
+    }
+    expect(offsetIds).toEqual(await allPages('sortBy=appliedAt&sortOrder=desc&pageSize=3'));
+  });
+
+  it('reads equality filters and the sort field from one compound index', async () => {
+    const where = jest.spyOn(db.applications, 'where');
+
+    const result = await queryApplications({ jobId: 'job-1', stage: 'screen', sortBy: 'appliedAt', sortOrder: 'desc', page: 1 });
+    expect(where).toHaveBeenCalledWith('[jobId+stage+appliedAt]');
+    expect(result.applications.map(app => app.id)).toEqual(['a02', 'a06', 'a04']);
+    expect(result.total).toBe(3);
+  });
+
+  it('pins both ends of the range when filtering on the sort field', async () => {
+    const where = jest.spyOn(db.applications, 'where');
+
+    const result = await queryApplications({ jobId: 'job-1', stage: 'screen', sortBy: 'stage', sortOrder: 'asc', page: 1 });
+    expect(where).toHaveBeenCalledWith('[jobId+stage]');
+    expect(result.total).toBe(3);
+  });
+
+  it('narrows person queries by person and checks other filters row by row', async () => {
+    const where = jest.spyOn(db.applications, 'where');
+
+    const result = await queryApplications({ personId: 'person-a01', stage: 'screen', sortBy: 'appliedAt', sortOrder: 'desc', page: 1 });
+    expect(where).toHaveBeenCalledWith('[personId+appliedAt]');
+    expect(result.applications.map(app => app.id)).toEqual(['a06']);
+    expect(result.total).toBe(1);
+  });
+
+  it('counts every match but returns one page, with a cursor only when more remain', async () => {
+    const first = await queryApplications({ jobId: 'job-1', sortBy: 'appliedAt', sortOrder: 'desc', pageSize: 4, page: 1 });
+    expect(first.total).toBe(7);
+    expect(first.applications).toHaveLength(4);
+    expect(first.nextCursor).not.toBeNull();
+
+    const last = await queryApplications({ jobId: 'job-1', sortBy: 'appliedAt', sortOrder: 'desc', pageSize: 4, page: 2 });
+    expect(last.applications).toHaveLength(3);
+    expect(last.nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import Dexie from 'dexie';
+import { db } from './database';
+import { Application } from '../types';
+
+export const APPLICATION_SORT_FIELDS = ['appliedAt', 'stage', 'matchScore'] as const;
+export type ApplicationSortField = typeof APPLICATION_SORT_FIELDS[number];
+export type SortOrder = 'asc' | 'desc';
+
+export interface ApplicationQuery {
+  personId?: string;
+  jobId?: string;
+  stage?: string;
+  sortBy: ApplicationSortField;
+  sortOrder: SortOrder;
+  pageSize?: number; // Omit to return every match
+  page: number; // Offset paging; ignored when a cursor is given
+  cursor?: CursorPosition;
+  filter?: (application: Application) => boolean; // Conditions no index covers
+}
+
+export interface ApplicationPage {
+  applications: Application[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// Where the previous page stopped: the last row's sort value and id
+interface CursorPosition {
+  sortBy: ApplicationSortField;
+  sortOrder: SortOrder;
+  value: string | number;
+  id: string;
+}
+
+const encodeCursor = (position: CursorPosition) =>
+  btoa(JSON.stringify([position.sortBy, position.sortOrder, position.value, position.id]));
+
+const decodeCursor = (token: string): CursorPosition | undefined => {
+  try {
+    const [sortBy, sortOrder, value, id] = JSON.parse(atob(token));
+    if ((typeof value !== 'string' && typeof value !== 'number') || typeof id !== 'string') return undefined;
+    return { sortBy, sortOrder, value, id };
+  } catch {
+    return undefined;
+  }
+};
+
+// Read and validate paging and sorting parameters; filters are left to the caller
+export const parseApplicationQuery = (params: URLSearchParams, defaultPageSize?: number) => {
+  const errors: string[] = [];
+  const sortBy = (params.get('sortBy') || 'appliedAt') as ApplicationSortField;
+  const sortOrder = (params.get('sortOrder') || 'desc') as SortOrder;
+  const pageSizeParam = params.get('pageSize');
+  const pageSize = pageSizeParam ? parseInt(pageSizeParam) : defaultPageSize;
+  const page = parseInt(params.get('page') || '1');
+  const cursorParam = params.get('cursor');
+  const cursor = cursorParam ? decodeCursor(cursorParam) : undefined;
+
+  if (!APPLICATION_SORT_FIELDS.includes(sortBy)) {
+    errors.push(`sortBy must be one of: ${APPLICATION_SORT_FIELDS.join(', ')}`);
+  }
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+    errors.push('sortOrder must be asc or desc');
+  }
+  if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1)) {
+    errors.push('pageSize must be a positive integer');
+  }
+  if (!Number.isInteger(page) || page < 1) {
+    errors.push('page must be a positive integer');
+  }
+  if (cursorParam && !cursor) {
+    errors.push('cursor is not valid');
+  } else if (cursor && (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder)) {
+    errors.push('cursor was issued for a different sort order');
+  }
+  if (cursor && pageSize === undefined) {
+    errors.push('pageSize is required with a cursor');
+  }
+
+  return { sortBy, sortOrder, pageSize, page, cursor, errors };
+};
+
+// Run a query through the narrowest index for its filters, so only the rows on
+// the requested page are read. Equality filters form the index prefix and the
+// sort field comes last, e.g. jobId + stage sorted by appliedAt uses
+// [jobId+stage+appliedAt]. Rows with the same sort value come back in id order,
+// which is what makes the cursor stable.
+export const queryApplications = async (query: ApplicationQuery): Promise<ApplicationPage> => {
+  const { sortBy, sortOrder, pageSize, cursor } = query;
+  const equalities = ([
+    ['personId', query.personId],
+    ['jobId', query.jobId],
+    ['stage', query.stage]
+  ] as const).filter(([field, value]) => value && field !== sortBy);
+
+  // Person-scoped queries only ever cover a handful of rows; the person prefix does the narrowing
+  const prefix = query.personId ? equalities.slice(0, 1) : equalities;
+  const residual = query.personId ? equalities.slice(1) : [];
+  const indexFields = [...prefix.map(([field]) => field), sortBy];
+  const indexName = indexFields.length > 1 ? `[${indexFields.join('+')}]` : sortBy;
+  const toKey = (value: any) => prefix.length > 0 ? [...prefix.map(([, v]) => v), value] : value;
+
+  // Filtering on the sort field itself pins both ends of the range
+  const sortValue = sortBy === 'stage' ? query.stage : undefined;
+  let lower: any = sortValue ?? Dexie.minKey;
+  let upper: any = sortValue ?? Dexie.maxKey;
+
+  const base = () => {
+    const collection = db.applications.where(indexName).between(toKey(lower), toKey(upper), true, true);
+    return sortOrder === 'desc' ? collection.reverse() : collection;
+  };
+
+  const matches = (application: Application) =>
+    residual.every(([field, value]) => application[field] === value) && (!query.filter || query.filter(application));
+  const needsFilter = residual.length > 0 || !!query.filter;
+
+  // An index count is cheap; with extra conditions every row in the range is checked once
+  const total = needsFilter ? await base().filter(matches).count() : await base().count();
+
+  if (cursor) {
+    if (sortOrder === 'asc') lower = cursor.value;
+    else upper = cursor.value;
+  }
+
+  let collection = base();
+  if (cursor) {
+    // The range includes the cursor's own sort value; skip the rows already returned
+    collection = collection.filter(application =>
+      application[sortBy] !== cursor.value || (sortOrder === 'asc' ? application.id > cursor.id : application.id < cursor.id)
+    );
+  }
+  if (needsFilter) {
+    collection = collection.filter(matches);
+  }
+  if (!cursor && pageSize !== undefined && query.page > 1) {
+    collection = collection.offset((query.page - 1) * pageSize);
+  }
+
+  // One extra row tells us whether there is another page
+  const rows = await (pageSize !== undefined ? collection.limit(pageSize + 1) : collection).toArray();
+  const applications = pageSize !== undefined ? rows.slice(0, pageSize) : rows;
+  const last = applications[applications.length - 1];
+  const nextCursor = pageSize !== undefined && rows.length > pageSize && last
+    ? encodeCursor({ sortBy, sortOrder, value: last[sortBy], id: last.id })
+    : null;
+
+  return { applications, total, nextCursor };
+};
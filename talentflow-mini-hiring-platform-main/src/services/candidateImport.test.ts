@@ -0,0 +1,62 @@
+import 'fake-indexeddb/auto';
+import { db } from './database';
+import { importCandidates } from './candidateImport';
+import { createApplication } from './people';
+import { CandidateImportRow } from '../types';
+
+const importRows = (rows: CandidateImportRow[], dryRun = false) =>
+  importCandidates({ jobId: 'job-1', rows, dryRun, importedBy: 'HR' });
+
+beforeEach(async () => {
+  await Promise.all([db.people.clear(), db.applications.clear()]);
+});
+
+describe('importCandidates', () => {
+  it('rejects a repeated email on a later row and keeps the first', async () => {
+    const result = await importRows([
+      { row: 2, name: 'Ana', email: 'ana@example.com' },
+      { row: 3, name: 'Ana again', email: 'ANA@Example.com' }
+    ]);
+
+    expect(result).toEqual({
+      dryRun: false,
+      total: 2,
+      valid: 1,
+      imported: 1,
+      errors: [{ row: 3, email: 'ANA@Example.com', errors: ['Duplicate email (also on row 2)'] }]
+    });
+    expect((await db.people.toArray()).map(person => person.name)).toEqual(['Ana']);
+  });
+
+  it('rejects people who already applied to the job, also under a merged email', async () => {
+    await createApplication({ jobId: 'job-1', name: 'Ben', email: 'ben@example.com' });
+    const cy = await createApplication({ jobId: 'job-2', name: 'Cy', email: 'cy@example.com' });
+    await db.people.update(cy.person.id, { mergedEmails: ['cy.old@example.com'] });
+    await createApplication({ jobId: 'job-1', email: 'cy@example.com' });
+
+    const result = await importRows([
+      { row: 2, email: 'ben@example.com' },
+      { row: 3, email: 'cy.old@example.com' }
+    ], true);
+    expect(result.errors.map(error => error.errors)).toEqual([['Already applied to this job'], ['Already applied to this job']]);
+  });
+
+  it('writes nothing on a dry run', async () => {
+    const result = await importRows([{ row: 2, email: 'ana@example.com' }, { row: 3 }], true);
+
+    expect(result).toMatchObject({ dryRun: true, total: 2, valid: 1, imported: 0 });
+    expect(result.errors).toEqual([{ row: 3, email: undefined, errors: ['Email is required'] }]);
+    expect(await db.applications.count()).toBe(0);
+  });
+
+  it('imports valid rows into their stage and adds skills to existing people', async () => {
+    const { person } = await createApplication({ jobId: 'job-2', name: 'Dee', email: 'dee@example.com', skills: ['React'] });
+
+    await importRows([{ row: 2, name: 'Someone else', email: 'dee@example.com', stage: 'Screening', skills: 'ts; React' }]);
+
+    const application = await db.applications.where('[personId+jobId]').equals([person.id, 'job-1']).first();
+    expect(application?.stage).toBe('screen');
+    expect(application?.timeline[0].notes).toBe('Imported from CSV by HR');
+    expect(await db.people.get(person.id)).toMatchObject({ name: 'Dee', skills: ['React', 'TypeScript'] });
+  });
+});
@@ -0,0 +1,87 @@
+import { db } from './database';
+import { createApplication, normalizeEmail } from './people';
+import { getPipelineForJob } from './pipelines';
+import { addPersonSkills } from './skills';
+import { CandidateImportError, CandidateImportResult, CandidateImportRow } from '../types';
+import { resolveImportStage, splitImportLinks, splitImportSkills, validateImportRow } from '../utils/importUtils';
+
+// Validate rows for one job and, unless it's a dry run, write the valid ones in a
+// single transaction. Rows with errors are skipped, never partly written.
+export const importCandidates = async (input: {
+  jobId: string;
+  rows: CandidateImportRow[];
+  dryRun: boolean;
+  importedBy: string;
+}): Promise<CandidateImportResult> => {
+  const pipeline = await getPipelineForJob(input.jobId);
+  const rowErrors = new Map<number, string[]>();
+  const addError = (row: CandidateImportRow, error: string) =>
+    rowErrors.set(row.row, [...(rowErrors.get(row.row) || []), error]);
+
+  input.rows.forEach(row => validateImportRow(row, pipeline).forEach(error => addError(row, error)));
+
+  // The first row with an email wins; later ones are duplicates
+  const firstRowByEmail = new Map<string, number>();
+  input.rows.forEach(row => {
+    if (!row.email) return;
+    const email = normalizeEmail(row.email);
+    const first = firstRowByEmail.get(email);
+    if (first !== undefined) addError(row, `Duplicate email (also on row ${first})`);
+    else firstRowByEmail.set(email, row.row);
+  });
+
+  // People who already applied to this job
+  const emails = Array.from(firstRowByEmail.keys());
+  const people = emails.length > 0
+    ? [
+      ...await db.people.where('email').anyOf(emails).toArray(),
+      ...await db.people.where('mergedEmails').anyOf(emails).toArray()
+    ]
+    : [];
+  const existing = await db.applications
+    .where('[personId+jobId]')
+    .anyOf(people.map(person => [person.id, input.jobId]))
+    .toArray();
+  const appliedPeople = new Set(existing.map(application => application.personId));
+  const appliedEmails = new Set(people
+    .filter(person => appliedPeople.has(person.id))
+    .flatMap(person => [person.email, ...(person.mergedEmails || [])]));
+  input.rows.forEach(row => {
+    if (row.email && appliedEmails.has(normalizeEmail(row.email))) addError(row, 'Already applied to this job');
+  });
+
+  const validRows = input.rows.filter(row => !rowErrors.has(row.row));
+  const errors: CandidateImportError[] = input.rows
+    .filter(row => rowErrors.has(row.row))
+    .map(row => ({ row: row.row, email: row.email, errors: rowErrors.get(row.row)! }));
+
+  if (!input.dryRun && validRows.length > 0) {
+    await db.transaction('rw', [db.people, db.applications, db.jobs, db.pipelines], async () => {
+      for (const row of validRows) {
+        const skills = splitImportSkills(row.skills);
+        const { person } = await createApplication({
+          jobId: input.jobId,
+          name: row.name,
+          email: row.email!,
+          phone: row.phone,
+          resume: row.resume,
+          links: row.links ? splitImportLinks(row.links) : undefined,
+          skills,
+          stage: resolveImportStage(pipeline, row.stage)!.id,
+          movedBy: input.importedBy,
+          timelineNote: `Imported from CSV by ${input.importedBy}`
+        });
+        // People already on file keep their profile; the file can only add skills
+        await addPersonSkills(person.id, skills);
+      }
+    });
+  }
+
+  return {
+    dryRun: input.dryRun,
+    total: input.rows.length,
+    valid: validRows.length,
+    imported: input.dryRun ? 0 : validRows.length,
+    errors
+  };
+};
@@ -1,14 +1,35 @@
 import Dexie, { Table } from 'dexie';
-import { Job, Candidate, Assessment, AssessmentSubmission, TimelineEntry, Application } from '../types';
+import { Job, Candidate, Assessment, AssessmentSubmission, TimelineEntry, Application, Person, Pipeline, Interview, Scorecard, ScorecardTemplate, CandidateNote, AppNotification, NotificationPreferences, IdempotencyRecord, SearchDocument, SearchTerm, ResumeFile, PersonMerge, DuplicateDismissal, TrashItem, Seniority, ApprovalChain, RequisitionEvent, JobStatus } from '../types';
+import { DEFAULT_PIPELINE_ID, PIPELINE_TEMPLATES, withTemplateRules } from '../utils/pipelineUtils';
+import { SCORECARD_TEMPLATES } from '../utils/scorecardUtils';
+import { computeSkillMatch, extractSkills } from '../utils/skillUtils';
+import { DEFAULT_JOB_FIELDS, deriveJobFields } from '../utils/jobUtils';
+import { APPROVAL_CHAIN_TEMPLATES, DEFAULT_APPROVAL_CHAIN_ID, isPublishedStatus } from '../utils/requisitionUtils';
 
 
 export class TalentFlowDatabase extends Dexie {
   jobs!: Table<Job>;
-  candidates!: Table<Candidate>;
+  people!: Table<Person>;
   assessments!: Table<Assessment>;
   submissions!: Table<AssessmentSubmission>;
   timeline!: Table<TimelineEntry>;
   applications!: Table<Application>;
+  pipelines!: Table<Pipeline>;
+  interviews!: Table<Interview>;
+  scorecards!: Table<Scorecard>;
+  scorecardTemplates!: Table<ScorecardTemplate>;
+  notes!: Table<CandidateNote>;
+  notifications!: Table<AppNotification>;
+  notificationPreferences!: Table<NotificationPreferences>;
+  idempotencyKeys!: Table<IdempotencyRecord>;
+  searchDocuments!: Table<SearchDocument>;
+  searchTerms!: Table<SearchTerm>;
+  resumeFiles!: Table<ResumeFile>;
+  personMerges!: Table<PersonMerge>;
+  duplicateDismissals!: Table<DuplicateDismissal>;
+  trash!: Table<TrashItem>;
+  approvalChains!: Table<ApprovalChain>;
+  requisitionEvents!: Table<RequisitionEvent>;
 
   constructor() {
     super('TalentFlowDatabase');
@@ -20,20 +41,224 @@ export class TalentFlowDatabase extends Dexie {
       timeline: 'id, candidateId, stage, timestamp',
       applications: 'id, candidateId, jobId, stage, appliedAt'
     });
+
+    // v2: deduplicated people keyed by email; applications own stage and timeline
+    this.version(2).stores({
+      candidates: null,
+      people: 'id, &email, name, createdAt',
+      applications: 'id, candidateId, personId, jobId, stage, appliedAt, [personId+jobId]'
+    }).upgrade(async tx => {
+      const candidates: Candidate[] = await tx.table('candidates').toArray();
+      const applications: Application[] = await tx.table('applications').toArray();
+      const { people, applications: migrated } = migrateCandidatesToPeople(candidates, applications);
+
+      await tx.table('people').bulkAdd(people);
+      await tx.table('applications').bulkPut(migrated);
+    });
+
+    // v3: per-job hiring pipelines; existing jobs keep the standard six stages
+    this.version(3).stores({
+      jobs: 'id, title, slug, status, order, createdAt, pipelineId',
+      pipelines: 'id, name, jobId'
+    }).upgrade(async tx => {
+      await tx.table('pipelines').bulkPut(PIPELINE_TEMPLATES);
+      await tx.table('jobs').toCollection().modify((job: Job) => {
+        if (!job.pipelineId) job.pipelineId = DEFAULT_PIPELINE_ID;
+      });
+    });
+
+    // v4: stage transition rules on the built-in templates
+    this.version(4).stores({}).upgrade(async tx => {
+      const pipelines: Pipeline[] = await tx.table('pipelines').toArray();
+      await tx.table('pipelines').bulkPut(pipelines.map(withTemplateRules));
+    });
+
+    // v5: scheduled interviews, indexed by interviewer for conflict checks
+    this.version(5).stores({
+      interviews: 'id, applicationId, candidateId, jobId, startTime, status, *interviewerIds'
+    });
+
+    // v6: interview scorecards; built-in stages pick up their scorecard templates
+    this.version(6).stores({
+      scorecards: 'id, applicationId, candidateId, interviewId, interviewerId, submittedAt, [applicationId+stage+interviewerId]',
+      scorecardTemplates: 'id, name'
+    }).upgrade(async tx => {
+      await tx.table('scorecardTemplates').bulkPut(SCORECARD_TEMPLATES);
+      const pipelines: Pipeline[] = await tx.table('pipelines').toArray();
+      await tx.table('pipelines').bulkPut(pipelines.map(withTemplateRules));
+    });
+
+    // v7: candidate notes, indexed by mentioned user for the mentions inbox
+    this.version(7).stores({
+      notes: 'id, personId, candidateId, authorId, createdAt, *mentions'
+    });
+
+    // v8: in-app notifications and per-user notification preferences
+    this.version(8).stores({
+      notifications: 'id, userId, createdAt, [userId+createdAt]',
+      notificationPreferences: 'userId'
+    });
+
+    // v9: responses of writes already applied, keyed by the client's idempotency key
+    this.version(9).stores({
+      idempotencyKeys: 'key, createdAt'
+    });
+
+    // v10: compound indexes so candidate lists filter, sort and page without loading every application
+    this.version(10).stores({
+      applications: 'id, candidateId, personId, jobId, stage, appliedAt, [personId+jobId], [personId+appliedAt], [personId+stage], [jobId+stage], [jobId+appliedAt], [stage+appliedAt], [jobId+stage+appliedAt]'
+    });
+
+    // v11: earlier reorders could leave two jobs on the same order; renumber 1..n
+    this.version(11).stores({}).upgrade(async tx => {
+      const jobs: Job[] = await tx.table('jobs').toArray();
+      jobs.sort((a, b) => a.order - b.order || a.createdAt.localeCompare(b.createdAt));
+      await tx.table('jobs').bulkPut(jobs.map((job, index) => ({ ...job, order: index + 1 })));
+    });
+
+    // v12: full-text search documents and their inverted index; built on first start
+    this.version(12).stores({
+      searchDocuments: 'key, type, personId',
+      searchTerms: '[docKey+field+token], token, docKey'
+    });
+
+    // v13: uploaded resume files
+    this.version(13).stores({
+      resumeFiles: 'id, personId, uploadedBy'
+    });
+
+    // v14: skills on people and a stored job-match score on applications, indexed for sorting
+    this.version(14).stores({
+      applications: 'id, candidateId, personId, jobId, stage, appliedAt, matchScore, [personId+jobId], [personId+appliedAt], [personId+stage], [personId+matchScore], [jobId+stage], [jobId+appliedAt], [jobId+matchScore], [stage+appliedAt], [stage+matchScore], [jobId+stage+appliedAt], [jobId+stage+matchScore]'
+    }).upgrade(async tx => {
+      const people: Person[] = await tx.table('people').toArray();
+      const jobs: Job[] = await tx.table('jobs').toArray();
+      const peopleById = new Map<string, Person>();
+      const jobsById = new Map<string, Job>();
+
+      people.forEach(person => {
+        if (!person.skills) person.skills = extractSkills(person.resume);
+        peopleById.set(person.id, person);
+      });
+      jobs.forEach(job => jobsById.set(job.id, job));
+
+      await tx.table('people').bulkPut(people);
+      await tx.table('applications').toCollection().modify((application: Application) => {
+        application.matchScore = computeSkillMatch(peopleById.get(application.personId)?.skills, jobsById.get(application.jobId)?.tags).score;
+      });
+    });
+
+    // v15: merging duplicate people; merged-away emails still find the surviving person
+    this.version(15).stores({
+      people: 'id, &email, name, createdAt, *mergedEmails',
+      personMerges: 'id, targetPersonId, sourcePersonId, mergedAt',
+      duplicateDismissals: 'key'
+    });
+
+    // v16: trash bin for deleted jobs and the records that went with them
+    this.version(16).stores({
+      trash: 'id, type, entityId, deletedAt, expiresAt'
+    });
+
+    // v17: structured job fields; the company moves out of titles like "Backend Developer - DataFlow"
+    this.version(17).stores({}).upgrade(async tx => {
+      await tx.table('jobs').toCollection().modify((job: Job) => {
+        if (job.employmentType) return;
+        const derived = deriveJobFields(job);
+        job.title = derived.title;
+        job.company = job.company || derived.company;
+        job.department = job.department || derived.department;
+        job.employmentType = DEFAULT_JOB_FIELDS.employmentType;
+        job.seniority = derived.seniority;
+        job.remotePolicy = derived.remotePolicy;
+        job.openings = DEFAULT_JOB_FIELDS.openings;
+      });
+    });
+
+    // v18: requisition approval; active jobs were already published so they count as open
+    this.version(18).stores({
+      jobs: 'id, title, slug, status, order, createdAt, pipelineId, approvalChainId',
+      approvalChains: 'id, name',
+      requisitionEvents: 'id, jobId, createdAt, [jobId+createdAt]'
+    }).upgrade(async tx => {
+      await tx.table('approvalChains').bulkPut(APPROVAL_CHAIN_TEMPLATES);
+      await tx.table('jobs').toCollection().modify((job: Job) => {
+        const status = job.status as string;
+        if (status === 'active') job.status = 'open';
+        else if (status === 'archived') job.status = 'closed';
+        job.approvalChainId = job.approvalChainId || DEFAULT_APPROVAL_CHAIN_ID;
+      });
+    });
   }
 }
 
+// Split v1 candidate rows into people (one per email) and their applications.
+// Stage changes made through the candidates endpoint only landed on the candidate
+// row, so its stage wins and any newer timeline entries are appended.
+export const migrateCandidatesToPeople = (candidates: Candidate[], applications: Application[]) => {
+  const peopleByEmail = new Map<string, Person>();
+  const applicationsByCandidate = new Map<string, Application>();
+  applications.forEach(app => applicationsByCandidate.set(app.candidateId, app));
+
+  const migrated = candidates.map((candidate, i) => {
+    const email = (candidate.email || `${candidate.id}@unknown.local`).trim().toLowerCase();
+    let person = peopleByEmail.get(email);
+    if (!person) {
+      person = {
+        id: `person-${peopleByEmail.size + 1}`,
+        email,
+        name: candidate.name,
+        phone: candidate.phone,
+        resume: candidate.resume,
+        createdAt: candidate.appliedAt,
+        updatedAt: candidate.appliedAt
+      };
+      peopleByEmail.set(email, person);
+    }
+
+    const existing = applicationsByCandidate.get(candidate.id);
+    const baseTimeline = existing?.timeline || [];
+    const lastTimestamp = baseTimeline.reduce((latest, entry) => entry.timestamp > latest ? entry.timestamp : latest, '');
+    const newerEntries = (existing ? candidate.timeline.filter(entry => entry.timestamp > lastTimestamp) : candidate.timeline)
+      .map(entry => ({ ...entry, movedBy: entry.movedBy || 'System' }));
+
+    const application: Application = {
+      id: existing?.id || `application-migrated-${i + 1}`,
+      candidateId: candidate.id,
+      personId: person.id,
+      jobId: candidate.jobId,
+      stage: candidate.stage,
+      status: candidate.status || 'active',
+      appliedAt: existing?.appliedAt || candidate.appliedAt,
+      timeline: [...baseTimeline, ...newerEntries].sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+      notes: existing?.notes || `Application for ${candidate.name}`,
+      assessmentInvited: candidate.assessmentInvited,
+      assessmentInvitedAt: candidate.assessmentInvitedAt,
+      assessmentCompleted: candidate.assessmentCompleted,
+      assessmentCompletedAt: candidate.assessmentCompletedAt
+    };
+    applicationsByCandidate.delete(candidate.id);
+    return application;
+  });
+
+  // Applications whose candidate row no longer exists have no person to link to
+  return { people: Array.from(peopleByEmail.values()), applications: migrated };
+};
+
 export const db = new TalentFlowDatabase();
 
+// Long enough for a write queued on a device that stayed offline for days
+const IDEMPOTENCY_KEY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
 // Initialize database with seed data
 export const initializeDatabase = async () => {
   try {
     const jobCount = await db.jobs.count();
-    const candidateCount = await db.candidates.count();
+    const applicationCount = await db.applications.count();
     console.log('Current job count:', jobCount);
-    console.log('Current candidate count:', candidateCount);
+    console.log('Current application count:', applicationCount);
 
-    if (jobCount === 0 || candidateCount === 0) {
+    if (jobCount === 0 || applicationCount === 0) {
       console.log('Seeding database with initial data...');
       await seedDatabase();
       console.log('Database seeded successfully');
@@ -41,10 +266,14 @@ export const initializeDatabase = async () => {
       console.log('Database already has data');
     }
 
+    await db.idempotencyKeys
+      .where('createdAt').below(new Date(Date.now() - IDEMPOTENCY_KEY_TTL_MS).toISOString())
+      .delete();
+
     const finalJobCount = await db.jobs.count();
-    const finalCandidateCount = await db.candidates.count();
+    const finalApplicationCount = await db.applications.count();
     console.log('Final job count:', finalJobCount);
-    console.log('Final candidate count:', finalCandidateCount);
+    console.log('Final application count:', finalApplicationCount);
   } catch (error) {
     console.error('Error initializing database:', error);
   }
@@ -55,10 +284,24 @@ export const reseedDatabase = async () => {
   try {
     console.log('Clearing and reseeding database...');
     await db.jobs.clear();
-    await db.candidates.clear();
+    await db.people.clear();
+    await db.pipelines.clear();
     await db.assessments.clear();
     await db.submissions.clear();
     await db.applications.clear();
+    await db.interviews.clear();
+    await db.scorecards.clear();
+    await db.scorecardTemplates.clear();
+    await db.notes.clear();
+    await db.notifications.clear();
+    await db.searchDocuments.clear();
+    await db.searchTerms.clear();
+    await db.resumeFiles.clear();
+    await db.personMerges.clear();
+    await db.duplicateDismissals.clear();
+    await db.trash.clear();
+    await db.approvalChains.clear();
+    await db.requisitionEvents.clear();
     await seedDatabase();
     console.log('Database reseeded successfully');
   } catch (error) {
@@ -105,88 +348,142 @@ const seedDatabase = async () => {
     return title.toLowerCase().replace(/[^a-z0-9\s-]/g, '').replace(/\s+/g, '-').replace(/-+/g, '-').trim().replace(/^-|-$/g, '');
   };
 
-  const generatedJobs = jobTitles.map((title, index) => ({
-    id: `job-${index + 1}`,
-    title,
-    slug: generateSlug(title),
-    description: `Join our team as a ${title.split(' - ')[0]}. We're looking for talented individuals to help us build the future.`,
-    location: ['San Francisco, CA', 'New York, NY', 'Remote', 'Seattle, WA', 'Austin, TX'][index % 5],
-    status: Math.random() < 0.8 ? 'active' : 'archived', // 80% active, 20% archived
-    tags: ['JavaScript', 'React', 'Node.js', 'TypeScript', 'Python'].slice(0, Math.floor(Math.random() * 3) + 2),
-    order: index + 1,
-    createdAt: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date().toISOString()
-  }));
+  // Engineering roles get the take-home pipeline, designers the portfolio review
+  const pickPipeline = (title: string) => {
+    if (/designer/i.test(title)) return 'pipeline-design';
+    if (/developer|engineer/i.test(title)) return 'pipeline-engineering';
+    return DEFAULT_PIPELINE_ID;
+  };
+
+  await db.pipelines.bulkPut(PIPELINE_TEMPLATES);
+  await db.scorecardTemplates.bulkPut(SCORECARD_TEMPLATES);
+  await db.approvalChains.bulkPut(APPROVAL_CHAIN_TEMPLATES);
+
+  // Mostly open jobs, with a few at every other point of the requisition lifecycle.
+  // The first three stay open; they carry the seeded assessments.
+  const seedStatus = (index: number): JobStatus => {
+    if (index < 3) return 'open';
+    return ({ 4: 'closed', 6: 'on-hold', 7: 'pending-approval', 9: 'draft' } as Record<number, JobStatus>)[index % 10] || 'open';
+  };
+  const defaultChain = APPROVAL_CHAIN_TEMPLATES[0];
+
+  // Yearly USD ranges by level; some postings leave the top open
+  const SALARY_BANDS: Record<Seniority, [number, number]> = {
+    intern: [40000, 55000],
+    junior: [70000, 90000],
+    mid: [100000, 130000],
+    senior: [140000, 180000],
+    lead: [160000, 200000],
+    principal: [190000, 240000]
+  };
+
+  const generatedJobs = jobTitles.map((fullTitle, index) => {
+    const location = ['San Francisco, CA', 'New York, NY', 'Remote', 'Seattle, WA', 'Austin, TX'][index % 5];
+    const derived = deriveJobFields({ title: fullTitle, location });
+    const [min, max] = SALARY_BANDS[derived.seniority];
+    return {
+      id: `job-${index + 1}`,
+      title: derived.title,
+      slug: generateSlug(fullTitle),
+      description: `Join our team as a ${derived.title}. We're looking for talented individuals to help us build the future.`,
+      location,
+      status: seedStatus(index),
+      approvalChainId: defaultChain.id,
+      approval: seedStatus(index) === 'pending-approval'
+        ? {
+          chainId: defaultChain.id,
+          chainName: defaultChain.name,
+          steps: defaultChain.steps,
+          currentStep: 0,
+          submittedBy: 'HR Manager',
+          submittedAt: new Date().toISOString()
+        }
+        : undefined,
+      tags: ['JavaScript', 'React', 'Node.js', 'TypeScript', 'Python'].slice(0, Math.floor(Math.random() * 3) + 2),
+      order: index + 1,
+      pipelineId: pickPipeline(derived.title),
+      company: derived.company,
+      department: derived.department,
+      employmentType: index % 10 === 9 ? 'contract' : 'full-time',
+      seniority: derived.seniority,
+      remotePolicy: derived.remotePolicy === 'onsite' && index % 3 === 1 ? 'hybrid' : derived.remotePolicy,
+      salary: { min, max: index % 4 === 3 ? undefined : max, currency: 'USD' },
+      openings: (index % 3) + 1,
+      createdAt: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+  });
 
   await db.jobs.bulkAdd(generatedJobs as Job[]);
 
-  // Seed Candidates
-  const stages = ['applied', 'screen', 'tech', 'offer', 'hired', 'rejected'];
-  const candidates: Candidate[] = Array.from({ length: 1000 }, (_, i) => {
-    const jobId = `job-${Math.floor(Math.random() * 30) + 1}`;
-    const stage = stages[Math.floor(Math.random() * stages.length)];
-    const appliedAt = new Date(Date.now() - Math.random() * 60 * 24 * 60 * 60 * 1000).toISOString();
+  const skillPool = ['JavaScript', 'TypeScript', 'React', 'Node.js', 'Python', 'Java', 'SQL', 'Docker', 'AWS', 'GraphQL'];
+
+  // Seed People (one profile per candidate email)
+  const people: Person[] = Array.from({ length: 1000 }, (_, i) => {
+    const createdAt = new Date(Date.now() - Math.random() * 60 * 24 * 60 * 60 * 1000).toISOString();
+    const skills = skillPool.filter(() => Math.random() < 0.35);
 
     return {
-      id: `candidate-${i + 1}`,
+      id: `person-${i + 1}`,
       name: `Candidate ${i + 1}`,
       email: `candidate${i + 1}@example.com`,
       phone: `+1-555-${String(Math.floor(Math.random() * 10000)).padStart(4, '0')}`,
-      resume: `Resume for Candidate ${i + 1}`,
-      status: 'active',
-      stage,
-      jobId,
-      appliedAt,
-      timeline: [
-        {
-          id: `timeline-${i + 1}-1`,
-          stage: 'applied',
-          timestamp: appliedAt,
-          notes: 'Application submitted'
-        }
-      ]
+      resume: `Resume for Candidate ${i + 1}` + (skills.length > 0 ? `\nSkills: ${skills.join(', ')}` : ''),
+      skills,
+      createdAt,
+      updatedAt: createdAt
     };
   });
 
-  await db.candidates.bulkAdd(candidates);
+  await db.people.bulkAdd(people);
 
-  // Seed Applications
-  const applications = candidates.map((candidate, i) => {
-    const appliedAt = candidate.appliedAt;
-    const currentStage = candidate.stage;
+  // Seed Applications, only to jobs candidates could have seen
+  const publishedJobIndexes = generatedJobs
+    .map((job, index) => (isPublishedStatus(job.status) ? index : -1))
+    .filter(index => index >= 0);
+  const applications: Application[] = people.map((person, i) => {
+    const appliedAt = person.createdAt;
+    const jobIndex = publishedJobIndexes[Math.floor(Math.random() * publishedJobIndexes.length)];
+    const pipeline = PIPELINE_TEMPLATES.find(t => t.id === generatedJobs[jobIndex].pipelineId) || PIPELINE_TEMPLATES[0];
+    const currentStage = pipeline.stages[Math.floor(Math.random() * pipeline.stages.length)];
     
     // Create timeline based on current stage
     const timeline = [{
       id: `app-timeline-${i + 1}-1`,
-      stage: 'applied' as const,
+      stage: pipeline.stages[0].id,
       timestamp: appliedAt,
       notes: 'Application submitted',
       movedBy: 'System'
     }];
 
-    // Add additional timeline entries based on current stage
-    const stageOrder = ['applied', 'screen', 'tech', 'offer', 'hired', 'rejected'];
-    const currentIndex = stageOrder.indexOf(currentStage);
+    // Walk the active stages up to the current one; terminal stages close the path
+    const activeStages = pipeline.stages.filter(stage => !stage.terminal);
+    const path = currentStage.terminal
+      ? [...activeStages.slice(1), currentStage]
+      : activeStages.slice(1, activeStages.findIndex(stage => stage.id === currentStage.id) + 1);
     
-    for (let j = 1; j <= currentIndex; j++) {
-      const stageTime = new Date(new Date(appliedAt).getTime() + j * 24 * 60 * 60 * 1000).toISOString();
+    path.forEach((stage, j) => {
+      const stageTime = new Date(new Date(appliedAt).getTime() + (j + 1) * 24 * 60 * 60 * 1000).toISOString();
       timeline.push({
-        id: `app-timeline-${i + 1}-${j + 1}`,
-        stage: stageOrder[j] as any,
+        id: `app-timeline-${i + 1}-${j + 2}`,
+        stage: stage.id,
         timestamp: stageTime,
-        notes: `Moved to ${stageOrder[j]} stage`,
+        notes: `Moved to ${stage.id} stage`,
         movedBy: 'HR Manager'
       });
-    }
+    });
 
     return {
       id: `application-${i + 1}`,
-      candidateId: candidate.id,
-      jobId: candidate.jobId,
-      stage: currentStage as any,
+      candidateId: `candidate-${i + 1}`,
+      personId: person.id,
+      jobId: `job-${jobIndex + 1}`,
+      stage: currentStage.id,
+      status: 'active',
       appliedAt,
       timeline,
-      notes: `Application for ${candidate.name}`
+      notes: `Application for ${person.name}`,
+      matchScore: computeSkillMatch(person.skills, generatedJobs[jobIndex].tags).score
     };
   });
 
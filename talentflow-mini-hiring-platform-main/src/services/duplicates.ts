@@ -0,0 +1,97 @@
+import { db } from './database';
+import { DuplicateMatch, DuplicatePerson, DuplicateReason, Person } from '../types';
+import {
+  MAX_NAME_BLOCK_SIZE,
+  NAME_MATCH_THRESHOLD,
+  canonicalEmail,
+  duplicatePairKey,
+  duplicateScore,
+  nameBlockKeys,
+  nameSimilarity,
+  phoneKey
+} from '../utils/duplicateUtils';
+
+// People filed under the same key: every pair in a group is a candidate match
+const groupBy = (people: Person[], keysOf: (person: Person) => string[]) => {
+  const groups = new Map<string, Person[]>();
+  people.forEach(person => keysOf(person).forEach(key => {
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) || []), person]);
+  }));
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
+
+const forEachPair = (group: Person[], visit: (a: Person, b: Person) => void) => {
+  for (let i = 0; i < group.length; i++) {
+    for (let j = i + 1; j < group.length; j++) visit(group[i], group[j]);
+  }
+};
+
+// Pairs of people sharing a mailbox or phone number, or with near-identical names,
+// best matches first. Pairs HR dismissed are left out.
+export const findDuplicates = async (): Promise<DuplicateMatch[]> => {
+  const [people, dismissals, applications] = await Promise.all([
+    db.people.toArray(),
+    db.duplicateDismissals.toCollection().primaryKeys(),
+    db.applications.toArray()
+  ]);
+  const dismissed = new Set(dismissals as string[]);
+  const applicationCounts = new Map<string, number>();
+  applications.forEach(app => applicationCounts.set(app.personId, (applicationCounts.get(app.personId) || 0) + 1));
+
+  const pairs = new Map<string, { a: Person; b: Person; reasons: Set<DuplicateReason> }>();
+  const addReason = (a: Person, b: Person, reason: DuplicateReason) => {
+    const key = duplicatePairKey(a.id, b.id);
+    if (dismissed.has(key)) return;
+    const pair = pairs.get(key) || { a, b, reasons: new Set<DuplicateReason>() };
+    pair.reasons.add(reason);
+    pairs.set(key, pair);
+  };
+
+  groupBy(people, person => [person.email, ...(person.mergedEmails || [])].map(canonicalEmail))
+    .forEach(group => forEachPair(group, (a, b) => addReason(a, b, 'email')));
+  groupBy(people, person => [phoneKey(person.phone)])
+    .forEach(group => forEachPair(group, (a, b) => addReason(a, b, 'phone')));
+  groupBy(people, person => nameBlockKeys(person.name))
+    .filter(group => group.length <= MAX_NAME_BLOCK_SIZE)
+    .forEach(group => forEachPair(group, (a, b) => {
+      if (nameSimilarity(a.name, b.name) >= NAME_MATCH_THRESHOLD) addReason(a, b, 'name');
+    }));
+
+  const toDuplicatePerson = (person: Person): DuplicatePerson => ({
+    id: person.id,
+    name: person.name,
+    email: person.email,
+    phone: person.phone,
+    createdAt: person.createdAt,
+    applications: applicationCounts.get(person.id) || 0
+  });
+
+  const matches: DuplicateMatch[] = [];
+  pairs.forEach(({ a, b, reasons }, key) => {
+    const reasonList = (['email', 'phone', 'name'] as DuplicateReason[]).filter(reason => reasons.has(reason));
+    const similarity = nameSimilarity(a.name, b.name);
+    // The older profile comes first; it is the default merge target
+    const [first, second] = a.createdAt <= b.createdAt ? [a, b] : [b, a];
+    matches.push({
+      key,
+      people: [toDuplicatePerson(first), toDuplicatePerson(second)],
+      reasons: reasonList,
+      nameSimilarity: Math.round(similarity * 100) / 100,
+      score: duplicateScore(reasonList, similarity)
+    });
+  });
+
+  return matches.sort((x, y) => y.score - x.score || x.key.localeCompare(y.key));
+};
+
+// Record that two people are different, so the pair stops showing up
+export const dismissDuplicate = async (personIds: [string, string], dismissedBy: string) => {
+  const [a, b] = personIds[0] < personIds[1] ? personIds : [personIds[1], personIds[0]];
+  await db.duplicateDismissals.put({
+    key: duplicatePairKey(a, b),
+    personIds: [a, b],
+    dismissedBy,
+    dismissedAt: new Date().toISOString()
+  });
+};
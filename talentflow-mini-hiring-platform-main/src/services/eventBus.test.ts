@@ -0,0 +1,45 @@
+import { Application } from '../types';
+import { DomainEvent, publish, subscribe } from './eventBus';
+
+const event: DomainEvent = {
+  type: 'assessment.invited',
+  application: { id: 'application-1' } as Application,
+  actor: { id: 1, name: 'Dana', email: 'dana@talentflow.test', role: 'HR' }
+};
+
+describe('eventBus', () => {
+  it('runs every subscriber of the event type and stops after unsubscribe', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const other = jest.fn();
+    const unsubscribeFirst = subscribe('assessment.invited', first);
+    const unsubscribeSecond = subscribe('assessment.invited', second);
+    const unsubscribeOther = subscribe('assessment.submitted', other);
+
+    await publish(event);
+    unsubscribeFirst();
+    await publish(event);
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(2);
+    expect(second).toHaveBeenCalledWith(event);
+    expect(other).not.toHaveBeenCalled();
+    unsubscribeSecond();
+    unsubscribeOther();
+  });
+
+  it('keeps a failing subscriber from failing the publish or the others', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const after = jest.fn();
+    const unsubscribeFailing = subscribe('assessment.invited', async () => { throw new Error('boom'); });
+    const unsubscribeAfter = subscribe('assessment.invited', after);
+
+    await expect(publish(event)).resolves.toBeUndefined();
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledWith('Event handler for assessment.invited failed:', expect.any(Error));
+
+    unsubscribeFailing();
+    unsubscribeAfter();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,32 @@
+import { Application, AssessmentSubmission, CandidateNote } from '../types';
+import { SessionUser } from './userDatabase';
+
+// Domain events raised by the mock API once a change has been stored
+export type DomainEvent =
+  | { type: 'application.stage-changed'; application: Application; fromStage: string; toStage: string; actor: SessionUser }
+  | { type: 'assessment.invited'; application: Application; actor: SessionUser }
+  | { type: 'assessment.submitted'; application: Application; submission: AssessmentSubmission }
+  | { type: 'note.mentioned'; note: CandidateNote; userIds: number[]; actor: SessionUser };
+
+type EventOf<K extends DomainEvent['type']> = Extract<DomainEvent, { type: K }>;
+type Handler<K extends DomainEvent['type']> = (event: EventOf<K>) => void | Promise<void>;
+
+const handlers = new Map<DomainEvent['type'], Handler<any>[]>();
+
+export const subscribe = <K extends DomainEvent['type']>(type: K, handler: Handler<K>) => {
+  handlers.set(type, [...(handlers.get(type) || []), handler]);
+  return () => {
+    handlers.set(type, (handlers.get(type) || []).filter(h => h !== handler));
+  };
+};
+
+// Runs every subscriber; a failing subscriber is logged so it never fails the request that raised the event
+export const publish = async (event: DomainEvent) => {
+  await Promise.all((handlers.get(event.type) || []).map(async handler => {
+    try {
+      await handler(event);
+    } catch (error) {
+      console.error(`Event handler for ${event.type} failed:`, error);
+    }
+  }));
+};
@@ -0,0 +1,128 @@
+import { ApiResponse, AssessmentSubmission, Candidate, Job, Pipeline } from '../types';
+import { apiJson, toQueryString } from '../utils/apiUtils';
+import { downloadCsv } from '../utils/csvUtils';
+import { downloadXlsx } from '../utils/xlsxUtils';
+import {
+  EXPORT_COLUMNS,
+  ExportContext,
+  ExportDataset,
+  ExportFilters,
+  ExportFormat,
+  toExportFilename,
+  toExportRows
+} from '../utils/exportUtils';
+
+// Records fetched per request while an export pages through a list
+const EXPORT_PAGE_SIZE = 200;
+
+type ExportProgress = (loaded: number, total: number) => void;
+
+// Pages through /api/candidates with a cursor, so large pipelines never load in one response
+const fetchAllCandidates = async (filters: ExportFilters, onProgress?: ExportProgress) => {
+  const candidates: Candidate[] = [];
+  let cursor: string | null | undefined;
+  do {
+    const page = await apiJson<ApiResponse<Candidate[]>>(`/api/candidates${toQueryString({
+      search: filters.search,
+      stage: filters.stage,
+      jobId: filters.jobId,
+      sortBy: filters.sortBy,
+      pageSize: EXPORT_PAGE_SIZE,
+      cursor
+    })}`);
+    candidates.push(...page.data);
+    cursor = page.pagination?.nextCursor;
+    onProgress?.(candidates.length, page.pagination?.total ?? candidates.length);
+  } while (cursor);
+  return candidates;
+};
+
+const fetchAllJobs = async (filters: ExportFilters, onProgress?: ExportProgress) => {
+  const jobs: Job[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const response = await apiJson<ApiResponse<Job[]>>(`/api/jobs${toQueryString({
+      search: filters.search,
+      status: filters.status,
+      tag: filters.tag,
+      company: filters.company,
+      department: filters.department,
+      employmentType: filters.employmentType,
+      seniority: filters.seniority,
+      remotePolicy: filters.remotePolicy,
+      page,
+      pageSize: EXPORT_PAGE_SIZE
+    })}`);
+    jobs.push(...response.data);
+    totalPages = response.pagination?.totalPages ?? 1;
+    onProgress?.(jobs.length, response.pagination?.total ?? jobs.length);
+    page++;
+  } while (page <= totalPages);
+  return jobs;
+};
+
+// Job titles and pipelines for the stage and job columns
+const fetchJobContext = async (): Promise<Pick<ExportContext, 'jobs' | 'pipelines'>> => {
+  const [jobs, pipelines] = await Promise.all([
+    fetchAllJobs({}),
+    apiJson<ApiResponse<Pipeline[]>>('/api/pipelines')
+  ]);
+  const jobsById: Record<string, Job> = {};
+  jobs.forEach(job => { jobsById[job.id] = job; });
+  return { jobs: jobsById, pipelines: pipelines.data };
+};
+
+const loadRecords = async (
+  dataset: ExportDataset,
+  filters: ExportFilters,
+  onProgress?: ExportProgress
+): Promise<{ records: unknown[]; context: ExportContext }> => {
+  const context: ExportContext = { jobs: {}, pipelines: [], candidates: {}, now: Date.now() };
+
+  if (dataset === 'jobs') {
+    return { records: await fetchAllJobs(filters, onProgress), context };
+  }
+
+  Object.assign(context, await fetchJobContext());
+
+  if (dataset === 'submissions') {
+    if (!filters.jobId) throw new Error('A job is required to export submissions');
+    const [submissions, candidates] = await Promise.all([
+      apiJson<ApiResponse<AssessmentSubmission[]>>(`/api/assessments/${filters.jobId}/submissions`),
+      fetchAllCandidates({ jobId: filters.jobId })
+    ]);
+    candidates.forEach(candidate => { context.candidates[candidate.id] = candidate; });
+    onProgress?.(submissions.data.length, submissions.data.length);
+    return { records: submissions.data, context };
+  }
+
+  return { records: await fetchAllCandidates(filters, onProgress), context };
+};
+
+export interface ExportRequest {
+  dataset: ExportDataset;
+  filters: ExportFilters;
+  columns: string[]; // Column keys, in the order of the dataset's column list
+  format: ExportFormat;
+  name: string; // File name prefix and sheet name
+  onProgress?: ExportProgress;
+}
+
+// Fetches every record matching the filters and downloads them as one file.
+// Returns the number of records exported.
+export const runExport = async (request: ExportRequest): Promise<number> => {
+  const columns = EXPORT_COLUMNS[request.dataset].filter(column => request.columns.includes(column.key));
+  if (columns.length === 0) throw new Error('Choose at least one column to export');
+
+  const { records, context } = await loadRecords(request.dataset, request.filters, request.onProgress);
+  const rows = toExportRows(columns, records, context);
+  const filename = toExportFilename(request.name, request.format);
+
+  if (request.format === 'xlsx') {
+    downloadXlsx(filename, request.name, rows);
+  } else {
+    downloadCsv(filename, rows);
+  }
+  return records.length;
+};
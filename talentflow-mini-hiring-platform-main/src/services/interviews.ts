@@ -0,0 +1,77 @@
+import { db } from './database';
+import { userDb } from './userDatabase';
+import { Application, Interview, InterviewConflict, Interviewer, InterviewSummary } from '../types';
+import { DEFAULT_AVAILABILITY, findInterviewConflicts, formatInterviewSlot, getInterviewTypeLabel } from '../utils/interviewUtils';
+import { isStaffRole } from '../utils/permissions';
+
+// Staff accounts that can sit on an interview panel
+export const getInterviewers = async (ids?: number[]): Promise<Interviewer[]> => {
+  const users = ids
+    ? (await userDb.users.bulkGet(ids)).filter(Boolean)
+    : await userDb.users.toArray();
+
+  return users
+    .filter(user => user && isStaffRole(user.role))
+    .map(user => ({
+      id: user!.id as number,
+      name: user!.name,
+      email: user!.email,
+      role: user!.role,
+      availability: user!.availability || DEFAULT_AVAILABILITY
+    }));
+};
+
+// Availability and double-booking conflicts for a proposed slot
+export const checkInterviewConflicts = async (
+  slot: Pick<Interview, 'startTime' | 'endTime' | 'interviewerIds'>,
+  excludeInterviewId?: string
+): Promise<InterviewConflict[]> => {
+  const interviewers = await getInterviewers(slot.interviewerIds);
+  const booked = await db.interviews
+    .where('interviewerIds').anyOf(slot.interviewerIds)
+    .filter(interview => interview.id !== excludeInterviewId)
+    .distinct()
+    .toArray();
+
+  return findInterviewConflicts(slot, interviewers, booked);
+};
+
+export const toInterviewSummaries = async (interviews: Interview[]): Promise<InterviewSummary[]> => {
+  const applications = await db.applications.bulkGet(Array.from(new Set(interviews.map(i => i.applicationId))));
+  const people = await db.people.bulkGet(Array.from(new Set(applications.map(app => app?.personId || ''))));
+  const jobs = await db.jobs.bulkGet(Array.from(new Set(interviews.map(i => i.jobId))));
+  const interviewers = await getInterviewers(Array.from(new Set(interviews.flatMap(i => i.interviewerIds))));
+
+  return interviews.map(interview => {
+    const application = applications.find(app => app?.id === interview.applicationId);
+    const person = people.find(p => p?.id === application?.personId);
+    return {
+      ...interview,
+      candidateName: person?.name || 'Unknown candidate',
+      jobTitle: jobs.find(job => job?.id === interview.jobId)?.title || '',
+      interviewerNames: interview.interviewerIds.map(id => interviewers.find(i => i.id === id)?.name || `User ${id}`)
+    };
+  });
+};
+
+export const describeInterview = async (interview: Interview) => {
+  const panel = await getInterviewers(interview.interviewerIds);
+  const names = panel.map(i => i.name).join(', ');
+  return `${getInterviewTypeLabel(interview.type)} interview on ${formatInterviewSlot(interview)}${names ? ` with ${names}` : ''}`;
+};
+
+// Interviews are recorded on the application timeline without changing its stage
+export const addInterviewTimelineEntry = async (application: Application, notes: string, movedBy: string) => {
+  await db.applications.update(application.id, {
+    timeline: [
+      ...application.timeline,
+      {
+        id: `timeline-${Date.now()}`,
+        stage: application.stage,
+        timestamp: new Date().toISOString(),
+        notes,
+        movedBy
+      }
+    ]
+  });
+};
@@ -0,0 +1,66 @@
+import 'fake-indexeddb/auto';
+import { db } from './database';
+import { getNextJobOrder, reorderJob } from './jobOrdering';
+import { Job } from '../types';
+
+const job = (id: string, order: number): Job => ({
+  id,
+  title: `Job ${id}`,
+  slug: `job-${id}`,
+  description: '',
+  location: 'Remote',
+  status: 'open',
+  tags: [],
+  order,
+  employmentType: 'full-time',
+  seniority: 'mid',
+  remotePolicy: 'remote',
+  openings: 1,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+});
+
+const listOrder = async () => (await db.jobs.orderBy('order').toArray()).map(j => j.id);
+
+beforeEach(async () => {
+  await db.jobs.clear();
+  await db.jobs.bulkAdd([job('a', 1), job('b', 2), job('c', 3), job('d', 4)]);
+});
+
+describe('reorderJob', () => {
+  it('moves the job and renumbers only the jobs in between', async () => {
+    const result = await reorderJob('a', 1, 3);
+
+    expect(result).toEqual({ status: 'moved', changes: [{ id: 'b', order: 1 }, { id: 'c', order: 2 }, { id: 'a', order: 3 }] });
+    expect(await listOrder()).toEqual(['b', 'c', 'a', 'd']);
+    expect((await db.jobs.get('d'))?.updatedAt).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  // The reorder endpoint answers a stale move with 409 and the job's current order
+  it('refuses a move from a position the job has since left', async () => {
+    await reorderJob('a', 1, 4);
+
+    expect(await reorderJob('a', 1, 2)).toEqual({ status: 'stale', order: 4 });
+    expect(await listOrder()).toEqual(['b', 'c', 'd', 'a']);
+  });
+
+  it('lets only one of two moves made from the same list through', async () => {
+    const results = await Promise.all([reorderJob('b', 2, 4), reorderJob('b', 2, 1)]);
+
+    expect(results.map(r => r.status).sort()).toEqual(['moved', 'stale']);
+    const orders = (await db.jobs.toArray()).map(j => j.order).sort();
+    expect(orders).toEqual([1, 2, 3, 4]);
+  });
+
+  it('reports unknown jobs', async () => {
+    expect(await reorderJob('z', 1, 2)).toEqual({ status: 'not-found' });
+  });
+});
+
+describe('getNextJobOrder', () => {
+  it('places new jobs after the last one', async () => {
+    expect(await getNextJobOrder()).toBe(5);
+    await db.jobs.clear();
+    expect(await getNextJobOrder()).toBe(1);
+  });
+});
@@ -0,0 +1,33 @@
+import { db } from './database';
+import { JobPosition, moveJobOrder } from '../utils/jobUtils';
+
+export type ReorderResult =
+  | { status: 'moved'; changes: JobPosition[] }
+  | { status: 'not-found' }
+  | { status: 'stale'; order: number };
+
+// Move a job within one transaction so concurrent reorders can't interleave. Only
+// the jobs between the old and new position are read and renumbered. `fromOrder`
+// is where the client last saw the job; if it has moved since, nothing changes.
+export const reorderJob = (jobId: string, fromOrder: number, toOrder: number): Promise<ReorderResult> =>
+  db.transaction('rw', db.jobs, async (): Promise<ReorderResult> => {
+    const job = await db.jobs.get(jobId);
+    if (!job) return { status: 'not-found' };
+    if (job.order !== fromOrder) return { status: 'stale', order: job.order };
+
+    const range = await db.jobs
+      .where('order')
+      .between(Math.min(fromOrder, toOrder), Math.max(fromOrder, toOrder), true, true)
+      .toArray();
+    const changes = moveJobOrder(range, jobId, toOrder);
+
+    const updatedAt = new Date().toISOString();
+    await Promise.all(changes.map(change => db.jobs.update(change.id, { order: change.order, updatedAt })));
+    return { status: 'moved', changes };
+  });
+
+// Order for a new job: after every existing one
+export const getNextJobOrder = async () => {
+  const last = await db.jobs.orderBy('order').last();
+  return (last?.order ?? 0) + 1;
+};
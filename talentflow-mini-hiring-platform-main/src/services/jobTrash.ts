@@ -0,0 +1,207 @@
+import { db } from './database';
+import { getNextJobOrder } from './jobOrdering';
+import { findPersonByEmail } from './people';
+import { refreshMatchScores } from './skills';
+import { Application, Job, TrashItem, TrashItemSummary, TrashedJobRecords } from '../types';
+
+// How long a deleted job can be restored before it is purged for good
+export const TRASH_RETENTION_DAYS = 30;
+
+export class TrashError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'TrashError';
+  }
+}
+
+const JOB_TABLES = () => [
+  db.jobs, db.pipelines, db.assessments, db.applications, db.submissions, db.interviews,
+  db.scorecards, db.people, db.notes, db.resumeFiles, db.trash
+];
+
+// Stored responses for writes to the job and its applications. Replaying one would
+// report success for rows that are now in the trash, so a retried write runs again
+// and gets a 404 instead.
+const idempotencyPaths = (jobId: string, applications: Application[]) => [
+  `/api/jobs/${jobId}`,
+  `/api/assessments/${jobId}`,
+  ...applications.map(app => `/api/applications/${app.id}`),
+  ...applications.map(app => `/api/candidates/${app.candidateId}`)
+];
+
+// Move a job and everything that only exists because of it into the trash, in one
+// transaction. Candidates who also applied elsewhere stay, and their notes from this
+// job move to one of their other applications; the ones who applied to this job
+// alone go with it, along with their notes and resume files.
+export const deleteJob = (jobId: string, deletedBy: string): Promise<TrashItem> =>
+  db.transaction('rw', [...JOB_TABLES(), db.idempotencyKeys], async () => {
+    const job = await db.jobs.get(jobId);
+    if (!job) throw new TrashError(404, 'Job not found');
+
+    const [pipelines, assessments, applications, submissions, interviews] = await Promise.all([
+      db.pipelines.where('jobId').equals(jobId).toArray(),
+      db.assessments.where('jobId').equals(jobId).toArray(),
+      db.applications.where('jobId').equals(jobId).toArray(),
+      db.submissions.where('jobId').equals(jobId).toArray(),
+      db.interviews.where('jobId').equals(jobId).toArray()
+    ]);
+    const scorecards = await db.scorecards.where('applicationId').anyOf(applications.map(app => app.id)).toArray();
+
+    const personIds = Array.from(new Set(applications.map(app => app.personId)));
+    const leaving: string[] = [];
+    const staying = new Map<string, string>(); // Person id to the candidate id of an application they keep
+    for (const personId of personIds) {
+      const elsewhere = await db.applications.where('personId').equals(personId).filter(app => app.jobId !== jobId).first();
+      if (elsewhere) {
+        staying.set(personId, elsewhere.candidateId);
+      } else {
+        leaving.push(personId);
+      }
+    }
+    const trashedCandidateIds = new Set(applications.map(app => app.candidateId));
+    const [people, notes, resumeFiles, movedNotes] = await Promise.all([
+      db.people.bulkGet(leaving),
+      db.notes.where('personId').anyOf(leaving).toArray(),
+      db.resumeFiles.where('personId').anyOf(leaving).toArray(),
+      db.notes.where('personId').anyOf(Array.from(staying.keys())).filter(note => trashedCandidateIds.has(note.candidateId)).toArray()
+    ]);
+
+    const records: TrashedJobRecords = {
+      job,
+      pipelines,
+      assessments,
+      applications,
+      submissions,
+      interviews,
+      scorecards,
+      people: people.filter((person): person is NonNullable<typeof person> => !!person),
+      notes,
+      resumeFiles,
+      movedNotes: movedNotes.map(({ id, candidateId }) => ({ id, candidateId }))
+    };
+
+    await db.jobs.delete(jobId);
+    await db.pipelines.bulkDelete(pipelines.map(pipeline => pipeline.id));
+    await db.assessments.bulkDelete(assessments.map(assessment => assessment.id));
+    await db.applications.bulkDelete(applications.map(app => app.id));
+    await db.submissions.bulkDelete(submissions.map(submission => submission.id));
+    await db.interviews.bulkDelete(interviews.map(interview => interview.id));
+    await db.scorecards.bulkDelete(scorecards.map(scorecard => scorecard.id));
+    await db.notes.bulkDelete(notes.map(note => note.id));
+    await db.resumeFiles.bulkDelete(resumeFiles.map(file => file.id));
+    await db.people.bulkDelete(records.people.map(person => person.id));
+    for (const note of movedNotes) {
+      await db.notes.update(note.id, { candidateId: staying.get(note.personId) });
+    }
+
+    const paths = idempotencyPaths(jobId, applications);
+    await db.idempotencyKeys.filter(record => paths.some(path => record.url === path || record.url.startsWith(`${path}/`))).delete();
+
+    const deletedAt = new Date();
+    const item: TrashItem = {
+      id: `trash-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      type: 'job',
+      entityId: job.id,
+      title: job.title,
+      deletedBy,
+      deletedAt: deletedAt.toISOString(),
+      expiresAt: new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      counts: {
+        applications: applications.length,
+        candidates: records.people.length,
+        submissions: submissions.length,
+        interviews: interviews.length,
+        scorecards: scorecards.length,
+        notes: notes.length
+      },
+      records
+    };
+    await db.trash.add(item);
+    return item;
+  });
+
+// Put a deleted job and its records back. The job goes to the end of the list and
+// moved notes point at their application again. A candidate whose email has since
+// been used by someone new (e.g. they applied to another job) is folded into that
+// person rather than restored a second time.
+export const restoreJob = (itemId: string): Promise<Job> =>
+  db.transaction('rw', JOB_TABLES(), async () => {
+    const item = await db.trash.get(itemId);
+    if (!item) throw new TrashError(404, 'Trash item not found');
+    if (item.expiresAt <= new Date().toISOString()) {
+      throw new TrashError(410, 'This job is past the retention window and can no longer be restored');
+    }
+
+    const { records } = item;
+    if (await db.jobs.get(records.job.id)) {
+      throw new TrashError(409, 'A job with this id exists again');
+    }
+    if (await db.jobs.where('slug').equals(records.job.slug).count() > 0) {
+      throw new TrashError(409, `Another job now uses the slug "${records.job.slug}"`);
+    }
+
+    const personIds = new Map<string, string>();
+    for (const person of records.people) {
+      const existing = await findPersonByEmail(person.email);
+      if (existing) {
+        personIds.set(person.id, existing.id);
+      } else {
+        await db.people.add(person);
+      }
+    }
+    const toPerson = (personId: string) => personIds.get(personId) || personId;
+
+    const job = { ...records.job, order: await getNextJobOrder(), updatedAt: new Date().toISOString() };
+    await db.jobs.add(job);
+    await db.pipelines.bulkAdd(records.pipelines);
+    await db.assessments.bulkAdd(records.assessments);
+    await db.applications.bulkAdd(records.applications.map(app => ({ ...app, personId: toPerson(app.personId) })));
+    await db.submissions.bulkAdd(records.submissions);
+    await db.interviews.bulkAdd(records.interviews);
+    await db.scorecards.bulkAdd(records.scorecards);
+    await db.notes.bulkAdd(records.notes.map(note => ({ ...note, personId: toPerson(note.personId) })));
+    await db.resumeFiles.bulkAdd(records.resumeFiles.map(file => (file.personId ? { ...file, personId: toPerson(file.personId) } : file)));
+    for (const { id, candidateId } of records.movedNotes || []) {
+      await db.notes.update(id, { candidateId });
+    }
+
+    if (personIds.size > 0) await refreshMatchScores({ jobId: job.id });
+
+    await db.trash.delete(item.id);
+    return job;
+  });
+
+// Permanently drop trash items in one transaction, with the notifications pointing
+// at their candidates, any duplicate reviews of the people they held and the jobs'
+// requisition history
+export const purgeTrash = (itemIds: string[]): Promise<number> =>
+  db.transaction('rw', [db.trash, db.notifications, db.duplicateDismissals, db.requisitionEvents], async () => {
+    const items = (await db.trash.bulkGet(itemIds)).filter((item): item is TrashItem => !!item);
+    if (items.length === 0) return 0;
+
+    const links = new Set<string>();
+    const personIds = new Set<string>();
+    items.forEach(({ records }) => {
+      records.applications.forEach(app => links.add(`/candidates/${app.candidateId}`));
+      records.people.forEach(person => personIds.add(person.id));
+    });
+
+    await db.notifications.filter(notification => !!notification.link && links.has(notification.link)).delete();
+    await db.duplicateDismissals.filter(dismissal => dismissal.personIds.some(id => personIds.has(id))).delete();
+    await db.requisitionEvents.where('jobId').anyOf(items.map(item => item.entityId)).delete();
+    await db.trash.bulkDelete(items.map(item => item.id));
+    return items.length;
+  });
+
+export const purgeExpiredTrash = async () => {
+  const expired = await db.trash.where('expiresAt').belowOrEqual(new Date().toISOString()).primaryKeys();
+  return expired.length > 0 ? purgeTrash(expired as string[]) : 0;
+};
+
+export const toTrashSummary = ({ records, ...summary }: TrashItem): TrashItemSummary => summary;
+
+// Restorable items, most recently deleted first
+export const listTrash = async (): Promise<TrashItemSummary[]> => {
+  const items = await db.trash.orderBy('deletedAt').reverse().toArray();
+  return items.map(toTrashSummary);
+};
@@ -0,0 +1,104 @@
+import 'fake-indexeddb/auto';
+import { db } from './database';
+import { MergeError, mergePeople, undoMerge } from './merges';
+import { createApplication } from './people';
+import { CandidateNote } from '../types';
+
+const note = (id: string, personId: string, candidateId: string): CandidateNote => ({
+  id,
+  personId,
+  candidateId,
+  authorId: 1,
+  authorName: 'HR',
+  content: 'Strong communicator',
+  mentions: [],
+  readBy: [],
+  revisions: [],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+});
+
+const snapshot = async () => ({
+  people: await db.people.orderBy('id').toArray(),
+  applications: await db.applications.orderBy('id').toArray(),
+  notes: await db.notes.orderBy('id').toArray()
+});
+
+// Ana applied to jobs 1 and 2; her second profile applied to jobs 2 and 3
+const setUp = async () => {
+  const ana = await createApplication({ jobId: 'job-1', name: 'Ana', email: 'ana@example.com', skills: ['React'] });
+  await createApplication({ jobId: 'job-2', email: 'ana@example.com' });
+  const other = await createApplication({ jobId: 'job-2', name: 'Ana L.', email: 'ana.l@example.com', phone: '555-0100', skills: ['Go'] });
+  const moved = await createApplication({ jobId: 'job-3', email: 'ana.l@example.com' });
+  await db.notes.bulkAdd([
+    note('note-1', other.person.id, other.application.candidateId),
+    note('note-2', other.person.id, moved.application.candidateId)
+  ]);
+  return { target: ana.person, source: other.person };
+};
+
+beforeEach(async () => {
+  await Promise.all([db.people.clear(), db.applications.clear(), db.notes.clear(), db.personMerges.clear()]);
+});
+
+describe('mergePeople', () => {
+  it('moves applications, combines shared jobs and fills profile gaps', async () => {
+    const { target, source } = await setUp();
+
+    const merge = await mergePeople({ targetPersonId: target.id, sourcePersonId: source.id, mergedBy: 'HR' });
+
+    expect(merge.counts).toMatchObject({ applications: 2, combinedApplications: 1, notes: 2 });
+    expect(await db.people.get(source.id)).toBeUndefined();
+    expect(await db.people.get(target.id)).toMatchObject({
+      phone: '555-0100',
+      skills: ['React', 'Go'],
+      mergedEmails: ['ana.l@example.com']
+    });
+    const applications = await db.applications.where('personId').equals(target.id).toArray();
+    expect(applications.map(app => app.jobId).sort()).toEqual(['job-1', 'job-2', 'job-3']);
+    const notes = await db.notes.toArray();
+    expect(notes.every(n => n.personId === target.id)).toBe(true);
+    expect(notes.every(n => applications.some(app => app.candidateId === n.candidateId))).toBe(true);
+  });
+
+  it('refuses to merge a person into themselves or someone missing', async () => {
+    const { target } = await setUp();
+
+    await expect(mergePeople({ targetPersonId: target.id, sourcePersonId: target.id, mergedBy: 'HR' }))
+      .rejects.toMatchObject({ status: 400 });
+    await expect(mergePeople({ targetPersonId: target.id, sourcePersonId: 'person-gone', mergedBy: 'HR' }))
+      .rejects.toEqual(new MergeError(404, 'Person not found'));
+  });
+});
+
+describe('undoMerge', () => {
+  it('puts people, applications and notes back as they were', async () => {
+    const { target, source } = await setUp();
+    const before = await snapshot();
+
+    const merge = await mergePeople({ targetPersonId: target.id, sourcePersonId: source.id, mergedBy: 'HR' });
+    const undone = await undoMerge(merge.id, 'HR');
+
+    expect(undone.undoneBy).toBe('HR');
+    const after = await snapshot();
+    expect(after.applications).toEqual(before.applications);
+    expect(after.notes).toEqual(before.notes);
+    expect(after.people.map(({ updatedAt, ...person }) => person))
+      .toEqual(before.people.map(({ updatedAt, ...person }) => person));
+  });
+
+  it('can only be done once, and not after a later merge', async () => {
+    const { target, source } = await setUp();
+    const other = await createApplication({ jobId: 'job-1', name: 'Cy', email: 'cy@example.com' });
+
+    const first = await mergePeople({ targetPersonId: target.id, sourcePersonId: source.id, mergedBy: 'HR' });
+    // Later merges are ordered by time
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await mergePeople({ targetPersonId: target.id, sourcePersonId: other.person.id, mergedBy: 'HR' });
+
+    await expect(undoMerge(first.id, 'HR')).rejects.toMatchObject({ status: 409 });
+    await undoMerge(second.id, 'HR');
+    await undoMerge(first.id, 'HR');
+    await expect(undoMerge(first.id, 'HR')).rejects.toEqual(new MergeError(409, 'This merge has already been undone'));
+  });
+});
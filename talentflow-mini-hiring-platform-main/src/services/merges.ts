@@ -0,0 +1,280 @@
+import { db } from './database';
+import { refreshMatchScores } from './skills';
+import { Application, MergeReassignedFields, MergeReassignedTable, PersonMerge, PersonMergeSummary, PersonMergeUndo } from '../types';
+import { normalizeSkills } from '../utils/skillUtils';
+
+export class MergeError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'MergeError';
+  }
+}
+
+const MERGE_TABLES = () => [
+  db.people, db.applications, db.jobs, db.notes, db.interviews,
+  db.scorecards, db.submissions, db.resumeFiles, db.personMerges
+];
+
+const updateReassigned = (table: MergeReassignedTable, id: string, changes: MergeReassignedFields) => {
+  switch (table) {
+    case 'notes': return db.notes.update(id, changes);
+    case 'interviews': return db.interviews.update(id, changes);
+    case 'scorecards': return db.scorecards.update(id, changes);
+    case 'submissions': return db.submissions.update(id, changes);
+    case 'resumeFiles': return db.resumeFiles.update(id, changes);
+  }
+};
+
+// Timeline entries a merge adds are tagged with its id so undo can take them out
+const mergeEntryId = (mergeId: string, applicationId: string) => `${mergeId}-${applicationId}`;
+
+const earliest = (a?: string, b?: string) => (a && b ? (a < b ? a : b) : a || b);
+
+// Fold `source` into `target`, an application by the same person for the same job.
+// The target keeps its stage; timelines interleave and assessment progress adds up.
+const combineApplications = (target: Application, source: Application): Application => ({
+  ...target,
+  appliedAt: earliest(target.appliedAt, source.appliedAt)!,
+  timeline: [...target.timeline, ...source.timeline].sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+  assessmentInvited: target.assessmentInvited || source.assessmentInvited,
+  assessmentInvitedAt: earliest(target.assessmentInvitedAt, source.assessmentInvitedAt),
+  assessmentCompleted: target.assessmentCompleted || source.assessmentCompleted,
+  assessmentCompletedAt: earliest(target.assessmentCompletedAt, source.assessmentCompletedAt)
+});
+
+// Move everything of `sourcePersonId` onto `targetPersonId` and remove the source
+// person. Applications to jobs both applied to are combined into the target's.
+export const mergePeople = (input: { targetPersonId: string; sourcePersonId: string; mergedBy: string }): Promise<PersonMerge> =>
+  db.transaction('rw', MERGE_TABLES(), async () => {
+    if (input.targetPersonId === input.sourcePersonId) {
+      throw new MergeError(400, 'A person cannot be merged into themselves');
+    }
+    const [target, source] = await Promise.all([
+      db.people.get(input.targetPersonId),
+      db.people.get(input.sourcePersonId)
+    ]);
+    if (!target || !source) throw new MergeError(404, 'Person not found');
+
+    const now = new Date().toISOString();
+    const mergeId = `merge-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const [sourceApplications, targetApplications] = await Promise.all([
+      db.applications.where('personId').equals(source.id).toArray(),
+      db.applications.where('personId').equals(target.id).toArray()
+    ]);
+
+    const undo: PersonMergeUndo = {
+      source,
+      target: {
+        phone: target.phone,
+        resume: target.resume,
+        resumeFile: target.resumeFile,
+        links: target.links,
+        skills: target.skills,
+        mergedEmails: target.mergedEmails
+      },
+      movedApplicationIds: [],
+      combinedApplications: [],
+      reassigned: [],
+      droppedSubmissions: []
+    };
+    const reassign = async (table: MergeReassignedTable, id: string, original: MergeReassignedFields, changes: MergeReassignedFields) => {
+      undo.reassigned.push({ table, id, original });
+      await updateReassigned(table, id, changes);
+    };
+
+    // Profile: the target's values win, the source fills gaps
+    await db.people.delete(source.id);
+    await db.people.update(target.id, {
+      phone: target.phone || source.phone,
+      resume: target.resume || source.resume,
+      resumeFile: target.resumeFile || source.resumeFile,
+      links: Array.from(new Set([...(target.links || []), ...(source.links || [])])),
+      skills: normalizeSkills([...(target.skills || []), ...(source.skills || [])]),
+      mergedEmails: Array.from(new Set([...(target.mergedEmails || []), source.email, ...(source.mergedEmails || [])])),
+      updatedAt: now
+    });
+
+    const auditEntry = (application: Application) => ({
+      id: mergeEntryId(mergeId, application.id),
+      stage: application.stage,
+      timestamp: now,
+      notes: `Merged with ${source.name} (${source.email}) by ${input.mergedBy}`,
+      movedBy: input.mergedBy
+    });
+
+    const targetByJob = new Map<string, Application>();
+    targetApplications.forEach(app => targetByJob.set(app.jobId, app));
+
+    for (const application of sourceApplications) {
+      const existing = targetByJob.get(application.jobId);
+      if (!existing) {
+        undo.movedApplicationIds.push(application.id);
+        await db.applications.put({
+          ...application,
+          personId: target.id,
+          timeline: [...application.timeline, auditEntry(application)]
+        });
+        continue;
+      }
+
+      undo.combinedApplications.push({
+        source: application,
+        targetId: existing.id,
+        target: {
+          appliedAt: existing.appliedAt,
+          assessmentInvited: existing.assessmentInvited,
+          assessmentInvitedAt: existing.assessmentInvitedAt,
+          assessmentCompleted: existing.assessmentCompleted,
+          assessmentCompletedAt: existing.assessmentCompletedAt
+        }
+      });
+      const combined = combineApplications(existing, application);
+      await db.applications.delete(application.id);
+      await db.applications.put({ ...combined, timeline: [...combined.timeline, auditEntry(existing)] });
+
+      // Whatever hung off the removed application now belongs to the combined one
+      const byCandidate = { candidateId: application.candidateId };
+      const toTarget = { applicationId: existing.id, candidateId: existing.candidateId };
+      for (const interview of await db.interviews.where('applicationId').equals(application.id).toArray()) {
+        await reassign('interviews', interview.id, { applicationId: interview.applicationId, candidateId: interview.candidateId }, toTarget);
+      }
+      for (const scorecard of await db.scorecards.where('applicationId').equals(application.id).toArray()) {
+        await reassign('scorecards', scorecard.id, { applicationId: scorecard.applicationId, candidateId: scorecard.candidateId }, toTarget);
+      }
+      // An application has one submission per job; the target's stays, like its stage
+      const targetSubmissions = await db.submissions.where('candidateId').equals(existing.candidateId).filter(s => s.jobId === existing.jobId).count();
+      for (const submission of await db.submissions.where(byCandidate).toArray()) {
+        if (targetSubmissions > 0 && submission.jobId === existing.jobId) {
+          undo.droppedSubmissions!.push(submission);
+          await db.submissions.delete(submission.id);
+          continue;
+        }
+        await reassign('submissions', submission.id, { candidateId: submission.candidateId }, { candidateId: existing.candidateId });
+      }
+    }
+
+    const combinedCandidates = new Map<string, string>();
+    undo.combinedApplications.forEach(({ source: app, targetId }) => {
+      const existing = targetApplications.find(t => t.id === targetId)!;
+      combinedCandidates.set(app.candidateId, existing.candidateId);
+    });
+    for (const note of await db.notes.where('personId').equals(source.id).toArray()) {
+      const candidateId = combinedCandidates.get(note.candidateId) || note.candidateId;
+      await reassign('notes', note.id, { personId: note.personId, candidateId: note.candidateId }, { personId: target.id, candidateId });
+    }
+    for (const file of await db.resumeFiles.where('personId').equals(source.id).toArray()) {
+      await reassign('resumeFiles', file.id, { personId: file.personId }, { personId: target.id });
+    }
+
+    await refreshMatchScores({ personId: target.id });
+
+    const count = (table: MergeReassignedTable) => undo.reassigned.filter(entry => entry.table === table).length;
+    const merge: PersonMerge = {
+      id: mergeId,
+      targetPersonId: target.id,
+      sourcePersonId: source.id,
+      targetName: target.name,
+      sourceName: source.name,
+      sourceEmail: source.email,
+      mergedBy: input.mergedBy,
+      mergedAt: now,
+      counts: {
+        applications: sourceApplications.length,
+        combinedApplications: undo.combinedApplications.length,
+        notes: count('notes'),
+        submissions: count('submissions'),
+        interviews: count('interviews'),
+        scorecards: count('scorecards')
+      },
+      undo
+    };
+    await db.personMerges.add(merge);
+    return merge;
+  });
+
+// A merge can be undone until either person takes part in a later merge
+const laterMergeExists = async (merge: PersonMerge) => {
+  const involved = [merge.targetPersonId, merge.sourcePersonId];
+  const later = await db.personMerges
+    .where('mergedAt').above(merge.mergedAt)
+    .filter(other => !other.undoneAt && (involved.includes(other.targetPersonId) || involved.includes(other.sourcePersonId)))
+    .count();
+  return later > 0;
+};
+
+// Restore the source person and hand back what the merge moved. Edits made to the
+// moved records since the merge are kept; the target's profile fields go back to
+// how they were before the merge.
+export const undoMerge = (mergeId: string, undoneBy: string): Promise<PersonMerge> =>
+  db.transaction('rw', MERGE_TABLES(), async () => {
+    const merge = await db.personMerges.get(mergeId);
+    if (!merge) throw new MergeError(404, 'Merge not found');
+    if (merge.undoneAt) throw new MergeError(409, 'This merge has already been undone');
+    if (await laterMergeExists(merge)) {
+      throw new MergeError(409, 'One of these people was merged again since; undo that merge first');
+    }
+
+    const { undo } = merge;
+    const target = await db.people.get(merge.targetPersonId);
+    if (!target) throw new MergeError(409, 'The merged person no longer exists');
+    if (await db.people.where('email').equals(undo.source.email).count() > 0) {
+      throw new MergeError(409, `${undo.source.email} now belongs to another person`);
+    }
+
+    const now = new Date().toISOString();
+    const isMergeEntry = (entryId: string) => entryId.startsWith(`${merge.id}-`);
+
+    await db.people.update(target.id, { ...undo.target, updatedAt: now });
+    await db.people.add(undo.source);
+
+    for (const applicationId of undo.movedApplicationIds) {
+      const application = await db.applications.get(applicationId);
+      if (!application) continue;
+      await db.applications.put({
+        ...application,
+        personId: undo.source.id,
+        timeline: application.timeline.filter(entry => !isMergeEntry(entry.id))
+      });
+    }
+
+    for (const combined of undo.combinedApplications) {
+      const sourceEntries = new Set(combined.source.timeline.map(entry => entry.id));
+      const existing = await db.applications.get(combined.targetId);
+      if (existing) {
+        await db.applications.put({
+          ...existing,
+          ...combined.target,
+          timeline: existing.timeline.filter(entry => !sourceEntries.has(entry.id) && !isMergeEntry(entry.id))
+        });
+      }
+      await db.applications.put(combined.source);
+    }
+
+    for (const { table, id, original } of undo.reassigned) {
+      await updateReassigned(table, id, original);
+    }
+    await db.submissions.bulkPut(undo.droppedSubmissions || []);
+
+    await refreshMatchScores({ personId: target.id });
+    await refreshMatchScores({ personId: undo.source.id });
+
+    await db.personMerges.update(merge.id, { undoneBy, undoneAt: now });
+    return { ...merge, undoneBy, undoneAt: now };
+  });
+
+export const toMergeSummary = async (merge: PersonMerge): Promise<PersonMergeSummary> => {
+  const { undo, ...summary } = merge;
+  return { ...summary, canUndo: !merge.undoneAt && !(await laterMergeExists(merge)) };
+};
+
+// Merges involving a person, or all of them, newest first
+export const listMerges = async (personId?: string): Promise<PersonMergeSummary[]> => {
+  const merges = personId
+    ? [
+      ...await db.personMerges.where('targetPersonId').equals(personId).toArray(),
+      ...await db.personMerges.where('sourcePersonId').equals(personId).toArray()
+    ]
+    : await db.personMerges.toArray();
+  merges.sort((a, b) => b.mergedAt.localeCompare(a.mergedAt));
+  return Promise.all(merges.map(toMergeSummary));
+};
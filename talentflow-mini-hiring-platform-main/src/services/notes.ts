@@ -0,0 +1,29 @@
+import { db } from './database';
+import { userDb } from './userDatabase';
+import { CandidateNote, MentionSummary, TeamMember } from '../types';
+import { isStaffRole } from '../utils/permissions';
+
+// Staff accounts that can be @mentioned in notes
+export const getTeamMembers = async (): Promise<TeamMember[]> => {
+  const users = await userDb.users.toArray();
+  return users
+    .filter(user => isStaffRole(user.role))
+    .map(user => ({ id: user.id as number, name: user.name, email: user.email, role: user.role }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getNotesForPerson = (personId: string): Promise<CandidateNote[]> =>
+  db.notes
+    .where('personId').equals(personId)
+    .filter(note => !note.deletedAt)
+    .sortBy('createdAt');
+
+export const toMentionSummaries = async (notes: CandidateNote[], userId: number): Promise<MentionSummary[]> => {
+  const people = await db.people.bulkGet(Array.from(new Set(notes.map(note => note.personId))));
+
+  return notes.map(note => ({
+    ...note,
+    candidateName: people.find(p => p?.id === note.personId)?.name || 'Unknown candidate',
+    unread: !note.readBy.includes(userId)
+  }));
+};
@@ -0,0 +1,95 @@
+import { db } from './database';
+import { userDb } from './userDatabase';
+import { subscribe } from './eventBus';
+import { getPipelineForJob } from './pipelines';
+import { AppNotification, Application, NotificationPreferences } from '../types';
+import { getStage } from '../utils/pipelineUtils';
+import { Permission, hasPermission } from '../utils/permissions';
+
+export const getNotificationPreferences = async (userId: number): Promise<NotificationPreferences> =>
+  (await db.notificationPreferences.get(userId)) || { userId, muted: [], updatedAt: new Date().toISOString() };
+
+// Store one notification per recipient, skipping anyone who muted this type
+export const notifyUsers = async (
+  userIds: number[],
+  notification: Pick<AppNotification, 'type' | 'title' | 'message' | 'link'>
+) => {
+  const recipients = Array.from(new Set(userIds));
+  const preferences = await db.notificationPreferences.bulkGet(recipients);
+  const now = new Date().toISOString();
+
+  const notifications: AppNotification[] = recipients
+    .filter((userId, i) => !preferences[i]?.muted.includes(notification.type))
+    .map((userId, i) => ({
+      ...notification,
+      id: `notification-${Date.now()}-${userId}-${i}`,
+      userId,
+      createdAt: now
+    }));
+
+  if (notifications.length > 0) {
+    await db.notifications.bulkAdd(notifications);
+  }
+};
+
+// Candidate accounts, if any, that applied with this person's emails
+const getCandidateUserIds = async (application: Application): Promise<number[]> => {
+  const person = await db.people.get(application.personId);
+  if (!person) return [];
+  const users = await userDb.users.where('email').anyOfIgnoreCase([person.email, ...(person.mergedEmails || [])]).toArray();
+  return users.filter(user => user.role === 'Candidate').map(user => user.id as number);
+};
+
+const getUserIdsWithPermission = async (permission: Permission): Promise<number[]> => {
+  const users = await userDb.users.toArray();
+  return users.filter(user => hasPermission(user.role, permission)).map(user => user.id as number);
+};
+
+const getJobTitle = async (jobId: string) => (await db.jobs.get(jobId))?.title || 'a position';
+
+let registered = false;
+
+// Turn domain events from the event bus into stored notifications
+export const registerNotificationHandlers = () => {
+  if (registered) return;
+  registered = true;
+
+  subscribe('application.stage-changed', async ({ application, toStage }) => {
+    const pipeline = await getPipelineForJob(application.jobId);
+    await notifyUsers(await getCandidateUserIds(application), {
+      type: 'stage-changed',
+      title: 'Application update',
+      message: `Your application for ${await getJobTitle(application.jobId)} moved to ${getStage(pipeline, toStage).label}`,
+      link: '/my-applications'
+    });
+  });
+
+  subscribe('assessment.invited', async ({ application }) => {
+    await notifyUsers(await getCandidateUserIds(application), {
+      type: 'assessment-invited',
+      title: 'Assessment invitation',
+      message: `You have been invited to take the assessment for ${await getJobTitle(application.jobId)}`,
+      link: '/my-applications'
+    });
+  });
+
+  subscribe('assessment.submitted', async ({ application }) => {
+    const person = await db.people.get(application.personId);
+    await notifyUsers(await getUserIdsWithPermission('submissions:read'), {
+      type: 'assessment-submitted',
+      title: 'Assessment submitted',
+      message: `${person?.name || 'A candidate'} submitted the assessment for ${await getJobTitle(application.jobId)}`,
+      link: `/candidates/${application.candidateId}`
+    });
+  });
+
+  subscribe('note.mentioned', async ({ note, userIds, actor }) => {
+    const person = await db.people.get(note.personId);
+    await notifyUsers(userIds.filter(id => id !== actor.id), {
+      type: 'mention',
+      title: `${actor.name} mentioned you`,
+      message: `In a note on ${person?.name || 'a candidate'}: ${note.content.slice(0, 120)}`,
+      link: `/candidates/${note.candidateId}`
+    });
+  });
+};
@@ -1,128 +1,339 @@
-interface QueuedRequest {
-  id: string;
+import Dexie, { Table } from 'dexie';
+
+export type QueuedRequestStatus = 'pending' | 'dead';
+
+export interface QueuedRequest {
+  id?: number; // Auto-incremented, so ids follow the order writes were made
+  idempotencyKey: string;
+  entityKey: string; // e.g. "jobs/job-1", or just "jobs" for a write to the collection
+  userId: number; // Who made the write; it is only ever replayed under their session
   url: string;
   method: string;
-  body?: any;
-  headers?: Record<string, string>;
-  timestamp: number;
-  retryCount: number;
+  body?: string;
+  headers: Record<string, string>; // Authorization is added when the request is sent, under the owner's session
+  status: QueuedRequestStatus;
+  attempts: number;
+  lastError?: string;
+  lastStatus?: number;
+  nextAttemptAt?: string; // Set while backing off after a failed send
+  createdAt: string;
+  updatedAt: string;
 }
 
-class OfflineQueue {
-  private queue: QueuedRequest[] = [];
-  private isOnline = navigator.onLine;
-  private maxRetries = 3;
-  private retryDelay = 1000;
+export interface QueueSnapshot {
+  pending: QueuedRequest[];
+  dead: QueuedRequest[];
+}
+
+type Transport = (url: string, options: RequestInit) => Promise<Response>;
+type Listener = (snapshot: QueueSnapshot) => void;
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 1000;
+
+class OfflineQueueDatabase extends Dexie {
+  requests!: Table<QueuedRequest, number>;
 
   constructor() {
-    this.loadQueue();
-    this.setupEventListeners();
-    this.processQueue();
+    super('TalentFlowOfflineQueue');
+    this.version(1).stores({
+      requests: '++id, idempotencyKey, entityKey, status, createdAt'
+    });
+    // Writes from before this version don't record who made them, so they can't
+    // be replayed under anyone's session safely
+    this.version(2).stores({
+      requests: '++id, idempotencyKey, entityKey, status, createdAt, userId'
+    }).upgrade(tx => tx.table('requests').clear());
   }
+}
+
+const queueDb = new OfflineQueueDatabase();
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const createIdempotencyKey = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+// "/api/jobs/job-1/reorder" -> "jobs/job-1". Creates and collection-wide actions
+// ("/api/jobs", "/api/people/merge") map to the collection alone: record ids here
+// are always "<prefix>-<suffix>", action names never have a hyphen.
+export const getEntityKey = (url: string) => {
+  const [collection, id] = new URL(url, 'http://localhost').pathname.replace(/^\/api\//, '').split('/');
+  return id && id.includes('-') ? `${collection}/${id}` : collection;
+};
+
+// Only a dead letter for one record holds back later writes to it; a rejected
+// create must not stop every other create of that type
+const isEntityScoped = (entityKey: string) => entityKey.includes('/');
+
+// 4xx responses will fail the same way on every replay, except timeouts and rate limits
+const isPermanentFailure = (status: number) => status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+const toHeaderRecord = (headers: HeadersInit | undefined) => {
+  const record: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    if (key.toLowerCase() !== 'authorization') record[key] = value;
+  });
+  return record;
+};
+
+// Durable write queue. Every write is stored in IndexedDB before it is sent and
+// replayed until the API accepts it, in order for each record; a write that
+// fails backs off on its own. Replayed writes that can never succeed are kept as
+// dead letters for the user to retry or discard. Entries belong to the user who
+// made them and wait while anyone else is signed in.
+class OfflineQueue {
+  private transport: Transport | null = null;
+  private userId: number | null = null;
+  private listeners = new Set<Listener>();
+  private waiters = new Map<string, (response: Response) => void>();
+  private processing = false;
+  private rerun = false; // Asked to process while a pass was running
+  private retryTimer: number | undefined;
 
-  private setupEventListeners() {
+  constructor() {
+    // Back online: every write is worth another try straight away
     window.addEventListener('online', () => {
-      this.isOnline = true;
-      this.processQueue();
+      queueDb.requests.where('status').equals('pending').modify({ nextAttemptAt: undefined }).then(() => this.processQueue());
     });
+  }
 
-    window.addEventListener('offline', () => {
-      this.isOnline = false;
-    });
+  // apiUtils supplies the function that actually sends a request
+  public setTransport(transport: Transport) {
+    this.transport = transport;
+    this.processQueue();
   }
 
-  private loadQueue() {
-    try {
-      const stored = localStorage.getItem('offlineQueue');
-      if (stored) {
-        this.queue = JSON.parse(stored);
-      }
-    } catch (error) {
-      console.error('Failed to load offline queue:', error);
-      this.queue = [];
-    }
+  // The signed-in user, or null while signed out. Only their writes are sent.
+  public setUser(userId: number | null) {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.notify();
+    this.processQueue();
   }
 
-  private saveQueue() {
-    try {
-      localStorage.setItem('offlineQueue', JSON.stringify(this.queue));
-    } catch (error) {
-      console.error('Failed to save offline queue:', error);
-    }
+  private ownedByCurrentUser(request: QueuedRequest) {
+    return request.userId === this.userId;
   }
 
-  public addRequest(url: string, options: RequestInit = {}) {
+  // Store a write and resolve with the API response once it has been sent. While
+  // offline, or when the API is temporarily failing, resolves with a 202 instead.
+  public async enqueue(url: string, options: RequestInit = {}): Promise<Response> {
+    // Nobody could replay a write made while signed out, so it is only sent now.
+    // apiUtils sets the transport before it queues anything.
+    if (this.userId === null) {
+      return this.transport!(url, options);
+    }
+
+    const now = new Date().toISOString();
     const request: QueuedRequest = {
-      id: `${Date.now()}-${Math.random()}`,
+      idempotencyKey: createIdempotencyKey(),
+      entityKey: getEntityKey(url),
+      userId: this.userId,
       url,
-      method: options.method || 'GET',
-      body: options.body ? JSON.parse(options.body as string) : undefined,
-      headers: options.headers as Record<string, string>,
-      timestamp: Date.now(),
-      retryCount: 0
+      method: (options.method || 'POST').toUpperCase(),
+      body: typeof options.body === 'string' ? options.body : undefined,
+      headers: toHeaderRecord(options.headers),
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
     };
+    request.id = await queueDb.requests.add(request);
+    this.notify();
 
-    this.queue.push(request);
-    this.saveQueue();
+    if (!navigator.onLine) {
+      return this.queuedResponse(request);
+    }
+
+    const result = new Promise<Response>(resolve => this.waiters.set(request.idempotencyKey, resolve));
+    this.processQueue();
+    return result;
+  }
 
-    if (this.isOnline) {
-      this.processQueue();
+  private queuedResponse(request: QueuedRequest) {
+    return jsonResponse({ queued: true, queueId: request.id, idempotencyKey: request.idempotencyKey }, 202);
+  }
+
+  private resolveWaiter(request: QueuedRequest, response: Response) {
+    const resolve = this.waiters.get(request.idempotencyKey);
+    if (resolve) {
+      this.waiters.delete(request.idempotencyKey);
+      resolve(response);
+    }
+  }
+
+  // Oldest write of the current user that is due. Writes to one record stay in
+  // order, so a dead or backing-off write holds back later writes to that record;
+  // writes to anything else go ahead of it.
+  private async nextRequest(): Promise<QueuedRequest | undefined> {
+    if (this.userId === null) return undefined;
+    const now = new Date().toISOString();
+    const requests = await queueDb.requests.orderBy('id').filter(r => this.ownedByCurrentUser(r)).toArray();
+    const held = new Set<string>();
+    for (const request of requests) {
+      const due = request.status === 'pending' && (!request.nextAttemptAt || request.nextAttemptAt <= now);
+      if (due && !held.has(request.entityKey)) return request;
+      if (isEntityScoped(request.entityKey)) held.add(request.entityKey);
     }
+    return undefined;
+  }
 
-    return request.id;
+  // Wake up when the earliest backed-off write is due again
+  private async scheduleRetry() {
+    const waiting = await queueDb.requests
+      .where('status').equals('pending')
+      .filter(r => this.ownedByCurrentUser(r) && !!r.nextAttemptAt)
+      .toArray();
+    if (waiting.length === 0) return;
+    const dueAt = Math.min(...waiting.map(r => Date.parse(r.nextAttemptAt!)));
+    this.retryTimer = window.setTimeout(() => this.processQueue(), Math.max(0, dueAt - Date.now()));
   }
 
-  private async processQueue() {
-    if (!this.isOnline || this.queue.length === 0) return;
+  private async processQueue(): Promise<void> {
+    if (!this.transport) return;
+    if (this.processing) {
+      this.rerun = true;
+      return;
+    }
+    this.processing = true;
 
-    const request = this.queue[0];
-    
     try {
-      const response = await fetch(request.url, {
+      for (;;) {
+        this.rerun = false;
+        window.clearTimeout(this.retryTimer);
+        while (navigator.onLine) {
+          const request = await this.nextRequest();
+          if (!request) break;
+          // A failed send backs off that write alone and the loop moves on
+          await this.send(request);
+        }
+        if (navigator.onLine) await this.scheduleRetry();
+
+        const pending = await queueDb.requests.where('status').equals('pending').toArray();
+        // A write enqueued during this pass gets sent before its caller hears it is waiting
+        if (this.rerun) continue;
+        // Callers still waiting are offline, backing off or blocked by a dead letter
+        pending.filter(r => this.waiters.has(r.idempotencyKey)).forEach(r => this.resolveWaiter(r, this.queuedResponse(r)));
+        break;
+      }
+    } finally {
+      this.processing = false;
+      this.notify();
+    }
+  }
+
+  private async send(request: QueuedRequest) {
+    let response: Response;
+    try {
+      response = await this.transport!(request.url, {
         method: request.method,
-        headers: {
-          'Content-Type': 'application/json',
-          ...request.headers
-        },
-        body: request.body ? JSON.stringify(request.body) : undefined
+        headers: { ...request.headers, [IDEMPOTENCY_HEADER]: request.idempotencyKey },
+        body: request.body
       });
+    } catch (error) {
+      await this.recordFailure(request, error instanceof Error ? error.message : 'Network error');
+      return;
+    }
 
-      if (response.ok) {
-        // Success - remove from queue
-        this.queue.shift();
-        this.saveQueue();
-        
-        // Process next request
-        setTimeout(() => this.processQueue(), 100);
+    if (response.ok) {
+      await queueDb.requests.delete(request.id!);
+      this.resolveWaiter(request, response);
+      return;
+    }
+
+    const message = await response.clone().json().then(body => body.error, () => undefined) || `HTTP ${response.status}`;
+    if (isPermanentFailure(response.status)) {
+      // A caller still waiting gets the validation or auth error to show, so there
+      // is nothing to keep. A replayed write has no one to tell but the user.
+      if (this.waiters.has(request.idempotencyKey)) {
+        await queueDb.requests.delete(request.id!);
+        this.resolveWaiter(request, response);
+        this.notify();
       } else {
-        throw new Error(`HTTP ${response.status}`);
-      }
-    } catch (error) {
-      console.error('Failed to process queued request:', error);
-      
-      request.retryCount++;
-      
-      if (request.retryCount >= this.maxRetries) {
-        // Max retries reached - remove from queue
-        this.queue.shift();
-        console.error('Max retries reached for request:', request.url);
+        await this.markDead(request, message, response.status);
       }
-      
-      this.saveQueue();
-      
-      // Retry after delay
-      setTimeout(() => this.processQueue(), this.retryDelay * request.retryCount);
+      return;
     }
+
+    await this.recordFailure(request, message, response.status);
+    if (request.attempts + 1 >= MAX_ATTEMPTS) {
+      await this.markDead(request, message, response.status);
+      this.resolveWaiter(request, response);
+      return;
+    }
+    this.resolveWaiter(request, this.queuedResponse(request));
+  }
+
+  // Back off exponentially before this write is sent again
+  private async recordFailure(request: QueuedRequest, lastError: string, lastStatus?: number) {
+    request.attempts += 1;
+    const delay = BASE_RETRY_DELAY_MS * 2 ** Math.min(request.attempts, 5);
+    await queueDb.requests.update(request.id!, {
+      attempts: request.attempts,
+      lastError,
+      lastStatus,
+      nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+    this.notify();
+  }
+
+  private async markDead(request: QueuedRequest, lastError: string, lastStatus?: number) {
+    await queueDb.requests.update(request.id!, {
+      status: 'dead',
+      lastError,
+      lastStatus,
+      updatedAt: new Date().toISOString()
+    });
+    this.notify();
+  }
+
+  // Move dead letters back into the queue, keeping their idempotency keys
+  public async retry(ids?: number[]) {
+    await queueDb.requests
+      .where('status').equals('dead')
+      .filter(r => this.ownedByCurrentUser(r) && (!ids || ids.includes(r.id!)))
+      .modify({ status: 'pending', attempts: 0, nextAttemptAt: undefined, updatedAt: new Date().toISOString() });
+    this.notify();
+    this.processQueue();
+  }
+
+  public async discard(ids?: number[]) {
+    await queueDb.requests
+      .where('status').equals('dead')
+      .filter(r => this.ownedByCurrentUser(r) && (!ids || ids.includes(r.id!)))
+      .delete();
+    this.notify();
+    this.processQueue();
   }
 
-  public getQueueLength(): number {
-    return this.queue.length;
+  // The current user's writes; other users' stay parked until they sign in again
+  public async getSnapshot(): Promise<QueueSnapshot> {
+    const requests = await queueDb.requests.orderBy('id').filter(r => this.ownedByCurrentUser(r)).toArray();
+    return {
+      pending: requests.filter(r => r.status === 'pending'),
+      dead: requests.filter(r => r.status === 'dead')
+    };
+  }
+
+  public subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    this.getSnapshot().then(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
-  public clearQueue() {
-    this.queue = [];
-    this.saveQueue();
+  private notify() {
+    if (this.listeners.size === 0) return;
+    this.getSnapshot().then(snapshot => this.listeners.forEach(listener => listener(snapshot)));
   }
 }
 
-export const offlineQueue = new OfflineQueue();
\ No newline at end of file
+export const offlineQueue = new OfflineQueue();
@@ -0,0 +1,156 @@
+import { db } from './database';
+import { getPipelineForJob } from './pipelines';
+import { scoreApplication } from './skills';
+import { Application, Candidate, Person } from '../types';
+import { normalizeSkills } from '../utils/skillUtils';
+
+export const normalizeEmail = (email: string): string => (email || '').trim().toLowerCase();
+
+// The person an email belongs to, including people it was merged into
+export const findPersonByEmail = async (email: string): Promise<Person | undefined> => {
+  const normalized = normalizeEmail(email);
+  return await db.people.where('email').equals(normalized).first()
+    || await db.people.where('mergedEmails').equals(normalized).first();
+};
+
+export const personHasEmail = (person: Person, email: string) => {
+  const normalized = normalizeEmail(email);
+  return person.email === normalized || !!person.mergedEmails?.includes(normalized);
+};
+
+// Find the person for an email, creating the profile on first application
+export const findOrCreatePerson = async (profile: {
+  name?: string;
+  email: string;
+  phone?: string;
+  resume?: string;
+  links?: string[];
+  skills?: string[];
+}): Promise<Person> => {
+  const email = normalizeEmail(profile.email);
+  const existing = await findPersonByEmail(email);
+  if (existing) {
+    return existing;
+  }
+
+  const now = new Date().toISOString();
+  const person: Person = {
+    id: `person-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    email,
+    name: profile.name || email,
+    phone: profile.phone || '',
+    resume: profile.resume || '',
+    links: profile.links,
+    skills: normalizeSkills(profile.skills || []),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await db.people.add(person);
+  return person;
+};
+
+// Compose the Candidate API shape from an application and its person
+export const toCandidate = (application: Application, person?: Person): Candidate => ({
+  id: application.candidateId,
+  personId: application.personId,
+  applicationId: application.id,
+  name: person?.name || '',
+  email: person?.email || '',
+  phone: person?.phone || '',
+  resume: person?.resume || '',
+  resumeFile: person?.resumeFile,
+  links: person?.links,
+  skills: person?.skills,
+  matchScore: application.matchScore,
+  status: application.status,
+  stage: application.stage,
+  jobId: application.jobId,
+  appliedAt: application.appliedAt,
+  timeline: application.timeline,
+  assessmentInvited: application.assessmentInvited,
+  assessmentInvitedAt: application.assessmentInvitedAt,
+  assessmentCompleted: application.assessmentCompleted,
+  assessmentCompletedAt: application.assessmentCompletedAt
+});
+
+export const toCandidates = async (applications: Application[]): Promise<Candidate[]> => {
+  const personIds = Array.from(new Set(applications.map(app => app.personId)));
+  const people = await db.people.bulkGet(personIds);
+  const peopleById = new Map<string, Person>();
+  people.forEach(person => {
+    if (person) peopleById.set(person.id, person);
+  });
+
+  return applications.map(app => toCandidate(app, peopleById.get(app.personId)));
+};
+
+export const getApplicationByCandidateId = (candidateId: string) =>
+  db.applications.where('candidateId').equals(candidateId).first();
+
+export const getCandidate = async (candidateId: string): Promise<Candidate | undefined> => {
+  const application = await getApplicationByCandidateId(candidateId);
+  if (!application) return undefined;
+
+  const person = await db.people.get(application.personId);
+  return toCandidate(application, person);
+};
+
+export const findApplicationForJob = async (email: string, jobId: string) => {
+  const person = await findPersonByEmail(email);
+  if (!person) return undefined;
+
+  return db.applications.where('[personId+jobId]').equals([person.id, jobId]).first();
+};
+
+// Create an application for a person; fails if they already applied to the job
+export const createApplication = async (input: {
+  jobId: string;
+  name?: string;
+  email: string;
+  phone?: string;
+  resume?: string;
+  links?: string[];
+  skills?: string[];
+  stage?: string;
+  movedBy?: string;
+  timelineNote?: string; // First timeline entry; defaults to "Application submitted"
+}): Promise<{ application: Application; person: Person; duplicate: boolean }> => {
+  return db.transaction('rw', [db.people, db.applications, db.jobs, db.pipelines], async () => {
+    const person = await findOrCreatePerson(input);
+    const existing = await db.applications.where('[personId+jobId]').equals([person.id, input.jobId]).first();
+    if (existing) {
+      return { application: existing, person, duplicate: true };
+    }
+
+    const now = new Date().toISOString();
+    const pipeline = await getPipelineForJob(input.jobId);
+    const job = await db.jobs.get(input.jobId);
+    const stage = input.stage || pipeline.stages[0].id;
+    // Imports create many applications within the same millisecond
+    const suffix = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const application: Application = {
+      id: `application-${suffix}`,
+      candidateId: `candidate-${suffix}`,
+      personId: person.id,
+      jobId: input.jobId,
+      stage,
+      status: 'active',
+      appliedAt: now,
+      timeline: [
+        {
+          id: `app-timeline-${suffix}`,
+          stage,
+          timestamp: now,
+          notes: input.timelineNote || 'Application submitted',
+          movedBy: input.movedBy || person.name
+        }
+      ],
+      notes: `Application for ${person.name}`,
+      matchScore: scoreApplication(person, job)
+    };
+
+    await db.applications.add(application);
+    return { application, person, duplicate: false };
+  });
+};
@@ -0,0 +1,39 @@
+import { db } from './database';
+import { Application, Pipeline } from '../types';
+import { DEFAULT_PIPELINE, DEFAULT_PIPELINE_ID } from '../utils/pipelineUtils';
+import { TransitionContext } from '../utils/stageTransitions';
+
+export const getPipeline = async (pipelineId?: string): Promise<Pipeline> => {
+  const pipeline = pipelineId ? await db.pipelines.get(pipelineId) : undefined;
+  return pipeline || (await db.pipelines.get(DEFAULT_PIPELINE_ID)) || DEFAULT_PIPELINE;
+};
+
+export const getPipelineForJob = async (jobId: string): Promise<Pipeline> => {
+  const job = await db.jobs.get(jobId);
+  return getPipeline(job?.pipelineId);
+};
+
+export const getJobIdsForPipeline = async (pipelineId: string): Promise<string[]> =>
+  (await db.jobs.where('pipelineId').equals(pipelineId).primaryKeys()) as string[];
+
+// Stage ids that applications on these jobs currently sit in
+export const getStagesInUse = async (jobIds: string[]): Promise<Set<string>> => {
+  if (jobIds.length === 0) return new Set();
+
+  const applications = await db.applications.where('jobId').anyOf(jobIds).toArray();
+  return new Set(applications.map(app => app.stage));
+};
+
+// Stages that would be removed while applications still sit in them
+export const findStrandedStages = async (jobIds: string[], nextStageIds: string[]): Promise<string[]> => {
+  const inUse = await getStagesInUse(jobIds);
+  return Array.from(inUse).filter(stageId => !nextStageIds.includes(stageId));
+};
+
+export const getTransitionContext = async (application: Application): Promise<TransitionContext> => {
+  const assessmentCount = await db.assessments.where('jobId').equals(application.jobId).count();
+  return {
+    hasAssessment: assessmentCount > 0,
+    assessmentCompleted: !!application.assessmentCompleted
+  };
+};
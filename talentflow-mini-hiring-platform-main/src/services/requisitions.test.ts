@@ -0,0 +1,69 @@
+import 'fake-indexeddb/auto';
+import { db } from './database';
+import { RequisitionError, applyRequisitionAction } from './requisitions';
+import { SessionUser } from './userDatabase';
+import { Job, RequisitionAction } from '../types';
+import { APPROVAL_CHAIN_TEMPLATES } from '../utils/requisitionUtils';
+
+const hr: SessionUser = { id: 1, email: 'hr@talentflow.com', name: 'HR', role: 'HR' };
+const manager: SessionUser = { id: 2, email: 'manager@talentflow.com', name: 'Manager', role: 'HR' };
+
+const draft: Job = {
+  id: 'job-1',
+  title: 'Backend Developer',
+  slug: 'backend-developer',
+  description: '',
+  location: 'Remote',
+  status: 'draft',
+  tags: [],
+  order: 1,
+  employmentType: 'full-time',
+  seniority: 'mid',
+  remotePolicy: 'remote',
+  openings: 1,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+const act = (action: RequisitionAction, actor: SessionUser, comment?: string) =>
+  applyRequisitionAction({ jobId: draft.id, action, actor, comment });
+
+beforeEach(async () => {
+  await Promise.all([db.jobs.clear(), db.approvalChains.clear(), db.requisitionEvents.clear()]);
+  await db.approvalChains.bulkAdd(APPROVAL_CHAIN_TEMPLATES);
+  await db.jobs.add(draft);
+});
+
+describe('applyRequisitionAction', () => {
+  it('opens the job once every step has approved', async () => {
+    await act('submit', hr);
+    const first = await act('approve', hr);
+    expect(first.job).toMatchObject({ status: 'pending-approval', approval: { currentStep: 1 } });
+    expect(first.event.stepLabel).toBe('Finance');
+
+    const last = await act('approve', manager);
+    expect(last.job.status).toBe('open');
+    expect(last.event).toMatchObject({ fromStatus: 'pending-approval', toStatus: 'open', stepLabel: 'Leadership' });
+  });
+
+  it('refuses an approver who is not on the current step', async () => {
+    await act('submit', hr);
+    await act('approve', hr);
+
+    await expect(act('approve', hr)).rejects.toEqual(new RequisitionError(403, 'Only Leadership approvers can decide this step'));
+    expect((await db.jobs.get(draft.id))?.approval?.currentStep).toBe(1);
+  });
+
+  it('needs a comment to reject, and sends the job back to draft', async () => {
+    await act('submit', hr);
+
+    await expect(act('reject', hr, ' ')).rejects.toMatchObject({ status: 400, details: ['A comment explaining the rejection is required'] });
+    const { job } = await act('reject', hr, 'No budget this quarter');
+    expect(job.status).toBe('draft');
+    expect(job.approval).toBeUndefined();
+  });
+
+  it('refuses actions the status does not allow', async () => {
+    await expect(act('approve', manager)).rejects.toEqual(new RequisitionError(409, 'Cannot approve a job that is draft'));
+  });
+});
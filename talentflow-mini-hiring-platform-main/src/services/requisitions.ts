@@ -0,0 +1,150 @@
+import Dexie from 'dexie';
+import { db } from './database';
+import { SessionUser } from './userDatabase';
+import { ApprovalChain, Job, RequisitionAction, RequisitionEvent } from '../types';
+import {
+  DEFAULT_APPROVAL_CHAIN_ID,
+  JOB_STATUS_LABELS,
+  REQUISITION_TRANSITIONS,
+  canApproveStep,
+  getCurrentApprovalStep,
+  validateApprovalChain
+} from '../utils/requisitionUtils';
+
+export class RequisitionError extends Error {
+  constructor(public status: number, message: string, public details?: string[]) {
+    super(message);
+    this.name = 'RequisitionError';
+  }
+}
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Move a job through its requisition lifecycle and record who did it. Submitting
+// copies the job's approval chain onto it, so editing the chain later doesn't
+// change what an open requisition is waiting for. Each approval advances one step;
+// the last one opens the job. A rejection sends it back to draft.
+export const applyRequisitionAction = (input: {
+  jobId: string;
+  action: RequisitionAction;
+  comment?: string;
+  actor: SessionUser;
+}): Promise<{ job: Job; event: RequisitionEvent }> =>
+  db.transaction('rw', db.jobs, db.approvalChains, db.requisitionEvents, async () => {
+    const job = await db.jobs.get(input.jobId);
+    if (!job) throw new RequisitionError(404, 'Job not found');
+
+    const transition = REQUISITION_TRANSITIONS[input.action];
+    if (!transition) throw new RequisitionError(400, `Unknown requisition action "${input.action}"`);
+    if (!transition.from.includes(job.status)) {
+      throw new RequisitionError(409, `Cannot ${transition.label.toLowerCase()} a job that is ${JOB_STATUS_LABELS[job.status].toLowerCase()}`);
+    }
+
+    const comment = input.comment?.trim() || undefined;
+    const now = new Date().toISOString();
+    const changes: Partial<Job> = { status: transition.to };
+    let stepLabel: string | undefined;
+
+    switch (input.action) {
+      case 'submit': {
+        const chainId = job.approvalChainId || DEFAULT_APPROVAL_CHAIN_ID;
+        const chain = await db.approvalChains.get(chainId);
+        if (!chain) throw new RequisitionError(409, 'The job\'s approval chain no longer exists; pick another one');
+        changes.approval = {
+          chainId: chain.id,
+          chainName: chain.name,
+          steps: chain.steps,
+          currentStep: 0,
+          submittedBy: input.actor.name,
+          submittedAt: now
+        };
+        // A chain without steps needs nobody's sign-off
+        if (chain.steps.length === 0) changes.status = 'open';
+        break;
+      }
+      case 'approve':
+      case 'reject': {
+        const step = getCurrentApprovalStep(job);
+        if (!step || !job.approval) throw new RequisitionError(409, 'This requisition has no step awaiting approval');
+        if (!canApproveStep(step, input.actor.email)) {
+          throw new RequisitionError(403, `Only ${step.label} approvers can decide this step`);
+        }
+        stepLabel = step.label;
+
+        if (input.action === 'reject') {
+          if (!comment) throw new RequisitionError(400, 'Invalid rejection', ['A comment explaining the rejection is required']);
+          changes.approval = undefined;
+          break;
+        }
+        const currentStep = job.approval.currentStep + 1;
+        changes.approval = { ...job.approval, currentStep };
+        if (currentStep < job.approval.steps.length) changes.status = 'pending-approval';
+        break;
+      }
+      case 'withdraw':
+      case 'reopen':
+        changes.approval = undefined;
+        break;
+    }
+
+    const updated: Job = { ...job, ...changes, updatedAt: now };
+    await db.jobs.put(updated);
+
+    const event: RequisitionEvent = {
+      id: newId('requisition'),
+      jobId: job.id,
+      action: input.action,
+      fromStatus: job.status,
+      toStatus: updated.status,
+      stepLabel,
+      comment,
+      actorId: input.actor.id,
+      actorName: input.actor.name,
+      createdAt: now
+    };
+    await db.requisitionEvents.add(event);
+    return { job: updated, event };
+  });
+
+// Oldest first, like an application timeline
+export const getRequisitionHistory = (jobId: string): Promise<RequisitionEvent[]> =>
+  db.requisitionEvents
+    .where('[jobId+createdAt]')
+    .between([jobId, Dexie.minKey], [jobId, Dexie.maxKey])
+    .toArray();
+
+export const listApprovalChains = async (): Promise<ApprovalChain[]> => {
+  const chains = await db.approvalChains.toArray();
+  return chains.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const normalizeChain = (chain: Partial<ApprovalChain>) => ({
+  name: (chain.name || '').trim(),
+  description: chain.description?.trim() || undefined,
+  steps: (chain.steps || []).map(step => ({
+    id: step.id,
+    label: (step.label || '').trim(),
+    approverEmails: Array.from(new Set((step.approverEmails || []).map(email => email.trim().toLowerCase()).filter(Boolean)))
+  }))
+});
+
+// Create a chain, or replace one when `id` is given. Requisitions already
+// submitted keep the steps they were submitted with.
+export const saveApprovalChain = async (chain: Partial<ApprovalChain>, id?: string): Promise<ApprovalChain> => {
+  const normalized = normalizeChain(chain);
+  const errors = validateApprovalChain(normalized);
+  if (errors.length > 0) throw new RequisitionError(400, 'Invalid approval chain', errors);
+
+  const now = new Date().toISOString();
+  if (!id) {
+    const created: ApprovalChain = { id: newId('approval'), ...normalized, createdAt: now, updatedAt: now };
+    await db.approvalChains.add(created);
+    return created;
+  }
+
+  const existing = await db.approvalChains.get(id);
+  if (!existing) throw new RequisitionError(404, 'Approval chain not found');
+  const updated: ApprovalChain = { ...existing, ...normalized, updatedAt: now };
+  await db.approvalChains.put(updated);
+  return updated;
+};
@@ -0,0 +1,69 @@
+import { db } from './database';
+import { addPersonSkills } from './skills';
+import { ResumeFile, ResumeFileSummary, ResumeFileType, ResumeUpload } from '../types';
+import { extractResumeText } from '../utils/resumeText';
+import { parseResumeDetails } from '../utils/resumeUtils';
+import { extractSkills } from '../utils/skillUtils';
+
+export const toResumeSummary = (file: ResumeFile): ResumeFileSummary => ({
+  id: file.id,
+  name: file.name,
+  type: file.type,
+  size: file.size,
+  uploadedAt: file.uploadedAt
+});
+
+// Store an upload until an application claims it. A file whose text can't be
+// extracted is still kept; it just isn't searchable.
+export const storeResume = async (blob: Blob, name: string, type: ResumeFileType, uploadedBy: number): Promise<ResumeUpload> => {
+  let text = '';
+  try {
+    text = await extractResumeText(blob, type);
+  } catch (error) {
+    console.error('Failed to extract resume text:', error);
+  }
+
+  const file: ResumeFile = {
+    id: `resume-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    uploadedBy,
+    name,
+    type,
+    size: blob.size,
+    blob,
+    text,
+    uploadedAt: new Date().toISOString()
+  };
+
+  // Only the latest unclaimed upload per user is worth keeping
+  await db.transaction('rw', db.resumeFiles, async () => {
+    await db.resumeFiles.where('uploadedBy').equals(uploadedBy).filter(f => !f.personId).delete();
+    await db.resumeFiles.add(file);
+  });
+
+  return { ...toResumeSummary(file), text, details: parseResumeDetails(text) };
+};
+
+// An upload the user may attach: their own, and not already someone's resume
+export const getClaimableResume = async (fileId: string, userId: number) => {
+  const file = await db.resumeFiles.get(fileId);
+  return file && file.uploadedBy === userId && !file.personId ? file : undefined;
+};
+
+// Make an upload the person's resume; the file it replaces is deleted and the
+// skills found in the new one are added to the profile
+export const attachResume = (fileId: string, personId: string) =>
+  db.transaction('rw', [db.resumeFiles, db.people, db.applications, db.jobs], async () => {
+    const [file, person] = await Promise.all([db.resumeFiles.get(fileId), db.people.get(personId)]);
+    if (!file || !person) return;
+
+    if (person.resumeFile && person.resumeFile.id !== file.id) {
+      await db.resumeFiles.delete(person.resumeFile.id);
+    }
+    await db.resumeFiles.update(file.id, { personId });
+    await db.people.update(personId, {
+      resume: file.text,
+      resumeFile: toResumeSummary(file),
+      updatedAt: new Date().toISOString()
+    });
+    await addPersonSkills(personId, extractSkills(file.text));
+  });
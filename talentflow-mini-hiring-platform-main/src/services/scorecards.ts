@@ -0,0 +1,20 @@
+import { db } from './database';
+import { getPipelineForJob } from './pipelines';
+import { Application, Scorecard, ScorecardSummary, ScorecardTemplate } from '../types';
+import { getStage } from '../utils/pipelineUtils';
+import { aggregateScorecards } from '../utils/scorecardUtils';
+
+// Template attached to a stage of the application's pipeline, if any
+export const getStageScorecardTemplate = async (application: Application, stageId: string): Promise<ScorecardTemplate | undefined> => {
+  const pipeline = await getPipelineForJob(application.jobId);
+  const templateId = getStage(pipeline, stageId).scorecardTemplateId;
+  return templateId ? db.scorecardTemplates.get(templateId) : undefined;
+};
+
+export const getScorecardsWithSummary = async (applicationId: string): Promise<{ scorecards: Scorecard[]; summary: ScorecardSummary }> => {
+  const scorecards = await db.scorecards.where('applicationId').equals(applicationId).sortBy('submittedAt');
+  const templateIds = Array.from(new Set(scorecards.map(s => s.templateId)));
+  const templates = (await db.scorecardTemplates.bulkGet(templateIds)).filter(Boolean) as ScorecardTemplate[];
+
+  return { scorecards, summary: aggregateScorecards(scorecards, templates) };
+};
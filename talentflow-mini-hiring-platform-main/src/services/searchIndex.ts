@@ -0,0 +1,282 @@
+import Dexie, { CreatingHookContext, DeletingHookContext, Table, UpdatingHookContext } from 'dexie';
+import { db } from './database';
+import { SearchDocument, SearchDocumentType, SearchResult, SearchTerm } from '../types';
+import { buildSnippet, countTokens, tokenize } from '../utils/searchUtils';
+
+// How much a match in each field counts towards a document's score
+const FIELD_WEIGHTS: Record<string, number> = {
+  name: 4,
+  email: 3,
+  phone: 2,
+  skills: 2,
+  resume: 1.5,
+  content: 1,
+  answers: 1
+};
+
+// A token that only prefixes a word counts for less than a whole-word match
+const PREFIX_MATCH_FACTOR = 0.6;
+
+const docKey = (type: SearchDocumentType, entityId: string) => `${type}:${entityId}`;
+
+const buildPersonDocument = async (personId: string): Promise<SearchDocument | undefined> => {
+  const person = await db.people.get(personId);
+  if (!person) return undefined;
+
+  // Link to the most recent application so the result opens a candidate profile
+  const applications = await db.applications
+    .where('[personId+appliedAt]')
+    .between([personId, Dexie.minKey], [personId, Dexie.maxKey])
+    .toArray();
+  const latest = applications[applications.length - 1];
+  if (!latest) return undefined;
+
+  return {
+    key: docKey('candidate', personId),
+    type: 'candidate',
+    entityId: personId,
+    personId,
+    title: person.name,
+    subtitle: person.email,
+    link: `/candidates/${latest.candidateId}`,
+    fields: { name: person.name, email: person.email, phone: person.phone, skills: (person.skills || []).join(', '), resume: person.resume },
+    updatedAt: person.updatedAt
+  };
+};
+
+const buildNoteDocument = async (noteId: string): Promise<SearchDocument | undefined> => {
+  const note = await db.notes.get(noteId);
+  if (!note || note.deletedAt) return undefined;
+
+  const person = await db.people.get(note.personId);
+  return {
+    key: docKey('note', noteId),
+    type: 'note',
+    entityId: noteId,
+    personId: note.personId,
+    title: `Note on ${person?.name || 'candidate'}`,
+    subtitle: note.authorName,
+    link: `/candidates/${note.candidateId}`,
+    fields: { content: note.content },
+    updatedAt: note.updatedAt
+  };
+};
+
+// Only written (long-text) answers are worth searching
+const buildSubmissionDocument = async (submissionId: string): Promise<SearchDocument | undefined> => {
+  const submission = await db.submissions.get(submissionId);
+  if (!submission) return undefined;
+
+  const [assessment, application, job] = await Promise.all([
+    db.assessments.where('jobId').equals(submission.jobId).first(),
+    db.applications.where('candidateId').equals(submission.candidateId).first(),
+    db.jobs.get(submission.jobId)
+  ]);
+  if (!assessment || !application) return undefined;
+
+  const answers = assessment.sections
+    .flatMap(section => section.questions)
+    .filter(question => question.type === 'long-text' && typeof submission.responses[question.id] === 'string')
+    .map(question => submission.responses[question.id] as string)
+    .filter(answer => answer.trim());
+  if (answers.length === 0) return undefined;
+
+  const person = await db.people.get(application.personId);
+  return {
+    key: docKey('submission', submissionId),
+    type: 'submission',
+    entityId: submissionId,
+    personId: application.personId,
+    title: `Assessment answers · ${person?.name || 'candidate'}`,
+    subtitle: job?.title || assessment.title,
+    link: `/candidates/${submission.candidateId}`,
+    fields: { answers: answers.join('\n\n') },
+    updatedAt: submission.submittedAt
+  };
+};
+
+const BUILDERS: Record<SearchDocumentType, (entityId: string) => Promise<SearchDocument | undefined>> = {
+  candidate: buildPersonDocument,
+  note: buildNoteDocument,
+  submission: buildSubmissionDocument
+};
+
+// Replace a document and its index rows with the record's current state
+const reindex = async (key: string) => {
+  const [type, ...rest] = key.split(':');
+  const document = await BUILDERS[type as SearchDocumentType](rest.join(':'));
+
+  const terms: SearchTerm[] = [];
+  if (document) {
+    Object.entries(document.fields).forEach(([field, text]) => {
+      countTokens(text).forEach((count, token) => terms.push({ token, docKey: key, field, count }));
+    });
+  }
+
+  await db.transaction('rw', db.searchDocuments, db.searchTerms, async () => {
+    await db.searchTerms.where('docKey').equals(key).delete();
+    if (document) {
+      await db.searchDocuments.put(document);
+      await db.searchTerms.bulkPut(terms);
+    } else {
+      await db.searchDocuments.delete(key);
+    }
+  });
+};
+
+// Writes mark documents dirty from the hooks' onsuccess, which Dexie calls when the
+// operation succeeds, before its transaction commits. They are reindexed one at a
+// time on a later tick, so a burst of writes (or a reseed) is indexed once per
+// record. The reindex reads queue behind the writing transaction and rebuild from
+// whatever it left, so a rolled-back write only costs a wasted reindex.
+const dirty = new Set<string>();
+let indexing: Promise<void> = Promise.resolve();
+let flushScheduled = false;
+
+const flushDirty = async () => {
+  const keys = Array.from(dirty);
+  dirty.clear();
+  // A document that fails to index keeps its old entry until the record changes again
+  for (let i = 0; i < keys.length; i++) {
+    await reindex(keys[i]).catch(() => undefined);
+  }
+};
+
+const markDirty = (type: SearchDocumentType, entityId: string) => {
+  dirty.add(docKey(type, entityId));
+  if (flushScheduled) return;
+  flushScheduled = true;
+
+  // The timer leaves the writing transaction's zone before any index work starts
+  setTimeout(() => {
+    flushScheduled = false;
+    indexing = indexing.then(flushDirty);
+  }, 0);
+};
+
+// Resolves once every write so far is searchable
+const whenIndexed = async () => {
+  while (flushScheduled) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  await indexing;
+};
+
+// Queue every searchable record; used when the index is empty
+const rebuildSearchIndex = async () => {
+  const [personIds, noteIds, submissionIds] = await Promise.all([
+    db.people.toCollection().primaryKeys(),
+    db.notes.toCollection().primaryKeys(),
+    db.submissions.toCollection().primaryKeys()
+  ]);
+  personIds.forEach(id => markDirty('candidate', id as string));
+  noteIds.forEach(id => markDirty('note', id as string));
+  submissionIds.forEach(id => markDirty('submission', id as string));
+};
+
+let registered = false;
+
+// Keep the index in step with every write to the records it covers
+export const registerSearchIndexHooks = () => {
+  if (registered) return;
+  registered = true;
+
+  const watch = <T>(table: Table<T, string>, onChange: (key: string, obj?: T) => void) => {
+    table.hook('creating', function (this: CreatingHookContext<T, string>, primKey: string, obj: T) {
+      this.onsuccess = (key: string) => onChange(key, obj);
+    });
+    table.hook('updating', function (this: UpdatingHookContext<T, string>, _mods: unknown, primKey: string, obj: T) {
+      this.onsuccess = () => onChange(primKey, obj);
+    });
+    table.hook('deleting', function (this: DeletingHookContext<T, string>, primKey: string, obj: T) {
+      this.onsuccess = () => onChange(primKey, obj);
+    });
+  };
+
+  watch(db.people, key => markDirty('candidate', key));
+  // A person's result links to their latest application
+  watch(db.applications, (_key, application) => {
+    if (application) markDirty('candidate', application.personId);
+  });
+  watch(db.notes, key => markDirty('note', key));
+  watch(db.submissions, key => markDirty('submission', key));
+
+  // Build a missing index in the background rather than inside the first search
+  db.searchDocuments.count().then(count => {
+    if (count === 0) return rebuildSearchIndex();
+  }).catch(() => undefined);
+};
+
+export interface SearchOptions {
+  types?: SearchDocumentType[];
+  limit?: number;
+}
+
+// Rank documents containing every query token, whole words or word prefixes so
+// results update while typing, and return highlighted snippets. A search waits for
+// pending reindexing, so one made while the index is still being built, or after
+// it was cleared, waits for the whole rebuild.
+export const searchDocuments = async (query: string, options: SearchOptions = {}): Promise<SearchResult[]> => {
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  if (queryTokens.length === 0) return [];
+
+  if (await db.searchDocuments.count() === 0) {
+    await rebuildSearchIndex();
+  }
+  await whenIndexed();
+
+  // Score per document for each query token; a document must match them all
+  const scores = new Map<string, { score: number; fieldScores: Map<string, number> }>();
+  for (let i = 0; i < queryTokens.length; i++) {
+    const token = queryTokens[i];
+    const rows = await db.searchTerms.where('token').startsWith(token).toArray();
+    const tokenScores = new Map<string, Map<string, number>>();
+
+    rows.forEach(row => {
+      const weight = (FIELD_WEIGHTS[row.field] || 1) * (1 + Math.log(row.count)) * (row.token === token ? 1 : PREFIX_MATCH_FACTOR);
+      const fields = tokenScores.get(row.docKey) || new Map<string, number>();
+      fields.set(row.field, Math.max(fields.get(row.field) || 0, weight));
+      tokenScores.set(row.docKey, fields);
+    });
+
+    if (i === 0) {
+      tokenScores.forEach((_fields, key) => scores.set(key, { score: 0, fieldScores: new Map() }));
+    }
+    Array.from(scores.keys()).forEach(key => {
+      const fields = tokenScores.get(key);
+      if (!fields) {
+        scores.delete(key);
+        return;
+      }
+      const entry = scores.get(key)!;
+      fields.forEach((score, field) => entry.fieldScores.set(field, (entry.fieldScores.get(field) || 0) + score));
+      entry.score += Math.max(...Array.from(fields.values()));
+    });
+  }
+
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1].score - a[1].score);
+  const documents = await db.searchDocuments.bulkGet(ranked.map(([key]) => key));
+
+  const results: SearchResult[] = [];
+  for (let i = 0; i < ranked.length; i++) {
+    const document = documents[i];
+    if (!document || (options.types && !options.types.includes(document.type))) continue;
+
+    const { score, fieldScores } = ranked[i][1];
+    const field = Array.from(fieldScores.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    results.push({
+      key: document.key,
+      type: document.type,
+      entityId: document.entityId,
+      personId: document.personId,
+      title: document.title,
+      subtitle: document.subtitle,
+      link: document.link,
+      score: Math.round(score * 100) / 100,
+      field,
+      snippet: buildSnippet(document.fields[field], queryTokens)
+    });
+    if (options.limit && results.length >= options.limit) break;
+  }
+  return results;
+};
@@ -0,0 +1,45 @@
+import { db } from './database';
+import { Application, Job, Person } from '../types';
+import { computeSkillMatch, normalizeSkills } from '../utils/skillUtils';
+
+export const scoreApplication = (person?: Pick<Person, 'skills'>, job?: Pick<Job, 'tags'>) =>
+  computeSkillMatch(person?.skills, job?.tags).score;
+
+// Recompute the stored match score of every application of a person or a job.
+// The score is indexed for sorting, so it is written whenever either side changes.
+export const refreshMatchScores = (scope: { personId: string } | { jobId: string }) =>
+  db.transaction('rw', db.applications, db.people, db.jobs, async () => {
+    const applications: Application[] = 'personId' in scope
+      ? await db.applications.where('personId').equals(scope.personId).toArray()
+      : await db.applications.where('jobId').equals(scope.jobId).toArray();
+    if (applications.length === 0) return;
+
+    const [people, jobs] = await Promise.all([
+      db.people.bulkGet(Array.from(new Set(applications.map(app => app.personId)))),
+      db.jobs.bulkGet(Array.from(new Set(applications.map(app => app.jobId))))
+    ]);
+    const peopleById = new Map<string, Person>();
+    const jobsById = new Map<string, Job>();
+    people.forEach(person => person && peopleById.set(person.id, person));
+    jobs.forEach(job => job && jobsById.set(job.id, job));
+
+    const changed = applications
+      .map(app => ({ ...app, matchScore: scoreApplication(peopleById.get(app.personId), jobsById.get(app.jobId)) }))
+      .filter((app, i) => app.matchScore !== applications[i].matchScore);
+    if (changed.length > 0) {
+      await db.applications.bulkPut(changed);
+    }
+  });
+
+// Add skills a person doesn't list yet, e.g. ones found in a new resume
+export const addPersonSkills = (personId: string, skills: string[]) =>
+  db.transaction('rw', db.applications, db.people, db.jobs, async () => {
+    const person = await db.people.get(personId);
+    if (!person) return;
+
+    const merged = normalizeSkills([...(person.skills || []), ...skills]);
+    if (merged.length === (person.skills || []).length) return;
+
+    await db.people.update(personId, { skills: merged, updatedAt: new Date().toISOString() });
+    await refreshMatchScores({ personId });
+  });
@@ -1,78 +1,218 @@
 import Dexie, { Table } from 'dexie';
+import { Role } from '../utils/permissions';
+import { AvailabilityWindow } from '../types';
+
+export type UserRole = Role;
 
 export interface User {
   id?: number;
   email: string;
   name: string;
-  password: string;
-  role: 'HR' | 'Candidate';
+  passwordHash: string;
+  salt: string;
+  // Plain-text password from before hashing; cleared on startup
+  password?: string;
+  role: UserRole;
+  availability?: AvailabilityWindow[]; // Interview booking hours; defaults to weekday office hours
+  createdAt: string;
+}
+
+export interface Session {
+  token: string;
+  userId: number;
   createdAt: string;
+  expiresAt: string;
+}
+
+// User fields that are safe to hand to the UI
+export interface SessionUser {
+  id: number;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
 }
 
+export const SESSION_TTL_MS = 8 * 60 * 60 * 1000; // 8 hours
+
+const PBKDF2_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const TOKEN_BYTES = 32;
+
 export class UserDatabase extends Dexie {
   users!: Table<User>;
+  sessions!: Table<Session>;
 
   constructor() {
     super('TalentFlowUsers');
     this.version(1).stores({
       users: '++id, email, name, role, createdAt'
     });
+
+    // v2: session tokens; passwords are re-hashed outside the upgrade because
+    // WebCrypto calls would let the upgrade transaction commit early
+    this.version(2).stores({
+      sessions: 'token, userId, expiresAt'
+    });
+
+    // v3: lower-case emails and drop later accounts that share one, with their
+    // sessions, so v4 can index them uniquely
+    this.version(3).stores({}).upgrade(async tx => {
+      const users: User[] = await tx.table('users').orderBy('id').toArray();
+      const seen = new Set<string>();
+      const duplicateIds: number[] = [];
+      const updated: User[] = [];
+
+      users.forEach(user => {
+        const email = user.email.trim().toLowerCase();
+        if (seen.has(email)) {
+          duplicateIds.push(user.id as number);
+          return;
+        }
+        seen.add(email);
+        if (email !== user.email) updated.push({ ...user, email });
+      });
+
+      await tx.table('users').bulkDelete(duplicateIds);
+      await tx.table('users').bulkPut(updated);
+      await tx.table('sessions').where('userId').anyOf(duplicateIds).delete();
+    });
+
+    // v4: one account per email, so a login can only ever match one user
+    this.version(4).stores({
+      users: '++id, &email, name, role, createdAt'
+    });
   }
 }
 
 export const userDb = new UserDatabase();
 
-// Initialize with default users
-export const initializeUserDatabase = async () => {
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) =>
+  new Uint8Array((hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)));
+
+const randomHex = (length: number) => toHex(crypto.getRandomValues(new Uint8Array(length)));
+
+export const hashPassword = async (password: string, salt = randomHex(SALT_BYTES)) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+
+  return { passwordHash: toHex(new Uint8Array(bits)), salt };
+};
+
+// Compares every character so the time taken does not leak the match length
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+export const verifyPassword = async (user: User, password: string) => {
+  if (!user.passwordHash || !user.salt) return false;
+  const { passwordHash } = await hashPassword(password, user.salt);
+  return safeEqual(passwordHash, user.passwordHash);
+};
+
+export const toSessionUser = (user: User): SessionUser => ({
+  id: user.id as number,
+  email: user.email,
+  name: user.name,
+  role: user.role
+});
+
+// Hash any passwords still stored in plain text
+const migratePlainTextPasswords = async () => {
+  const users = await userDb.users.filter(user => !!user.password).toArray();
+
+  for (const user of users) {
+    const hashed = await hashPassword(user.password as string);
+    await userDb.users.update(user.id as number, { ...hashed, password: undefined });
+  }
+};
+
+const DEMO_PASSWORD = 'password123';
+
+const DEMO_USERS: { email: string; name: string; role: UserRole }[] = [
+  { email: 'hr@talentflow.com', name: 'HR Manager', role: 'HR' },
+  { email: 'candidate@talentflow.com', name: 'John Candidate', role: 'Candidate' },
+  { email: 'manager@talentflow.com', name: 'Maya Manager', role: 'Hiring Manager' },
+  { email: 'interviewer@talentflow.com', name: 'Ian Interviewer', role: 'Interviewer' }
+];
+
+// Add default users, including any demo roles an older database is missing
+const seedUserDatabase = async () => {
   try {
-    const userCount = await userDb.users.count();
-    
-    if (userCount === 0) {
-      // Add default HR user
-      await userDb.users.add({
-        email: 'hr@talentflow.com',
-        name: 'HR Manager',
-        password: 'password123',
-        role: 'HR',
-        createdAt: new Date().toISOString()
-      });
-      
-      // Add default candidate user
+    for (const demoUser of DEMO_USERS) {
+      const existing = await userDb.users.where('email').equals(demoUser.email).first();
+      if (existing) continue;
+
       await userDb.users.add({
-        email: 'candidate@talentflow.com',
-        name: 'John Candidate',
-        password: 'password123',
-        role: 'Candidate',
+        ...demoUser,
+        ...(await hashPassword(DEMO_PASSWORD)),
         createdAt: new Date().toISOString()
       });
-      
-      console.log('Default users created:');
-      console.log('HR: hr@talentflow.com / password123');
-      console.log('Candidate: candidate@talentflow.com / password123');
     }
+
+    await migratePlainTextPasswords();
+    await userDb.sessions.where('expiresAt').below(new Date().toISOString()).delete();
   } catch (error) {
     console.error('Error initializing user database:', error);
   }
 };
 
-export const registerUser = async (userData: Omit<User, 'id' | 'createdAt'>) => {
-  try {
-    // Check if user already exists
-    const existingUser = await userDb.users.where('email').equals(userData.email).first();
-    if (existingUser) {
-      throw new Error('User with this email already exists');
-    }
+let initialization: Promise<void> | null = null;
 
-    // Add new user
-    const userId = await userDb.users.add({
-      ...userData,
-      createdAt: new Date().toISOString()
-    });
+// Runs once per page load so overlapping callers cannot seed a user twice
+export const initializeUserDatabase = () => {
+  if (!initialization) {
+    initialization = seedUserDatabase();
+  }
+  return initialization;
+};
 
-    return { success: true, userId };
-  } catch (error) {
-    throw error;
+export const registerUser = async (userData: { email: string; name: string; password: string; role: UserRole }) => {
+  const email = userData.email.trim().toLowerCase();
+
+  // Check if user already exists
+  const existingUser = await userDb.users.where('email').equalsIgnoreCase(email).first();
+  if (existingUser) {
+    throw new AuthError('User with this email already exists');
   }
+
+  // Add new user; the unique index also catches a registration racing this one
+  const userId = await userDb.users.add({
+    email,
+    name: userData.name,
+    role: userData.role,
+    ...(await hashPassword(userData.password)),
+    createdAt: new Date().toISOString()
+  }).catch(error => {
+    if (error instanceof Dexie.ConstraintError) throw new AuthError('User with this email already exists');
+    throw error;
+  });
+
+  return { success: true, userId };
 };
 
 export const getDemoCredentials = () => {
@@ -86,32 +226,75 @@ export const getDemoCredentials = () => {
       email: 'candidate@talentflow.com',
       password: 'password123',
       name: 'John Candidate'
+    },
+    hiringManager: {
+      email: 'manager@talentflow.com',
+      password: 'password123',
+      name: 'Maya Manager'
+    },
+    interviewer: {
+      email: 'interviewer@talentflow.com',
+      password: 'password123',
+      name: 'Ian Interviewer'
     }
   };
 };
 
-export const loginUser = async (email: string, password: string) => {
-  try {
-    const user = await userDb.users.where('email').equals(email).first();
-    
-    if (!user) {
-      throw new Error('User not found');
-    }
+export const createSession = async (userId: number): Promise<Session> => {
+  const now = Date.now();
+  const session: Session = {
+    token: randomHex(TOKEN_BYTES),
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString()
+  };
 
-    if (user.password !== password) {
-      throw new Error('Invalid password');
-    }
+  await userDb.sessions.add(session);
+  return session;
+};
 
-    return {
-      success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role
-      }
-    };
-  } catch (error) {
-    throw error;
+// Resolve a session token to its user; expired sessions are removed
+export const getSessionUser = async (token: string | null | undefined): Promise<SessionUser | null> => {
+  if (!token) return null;
+
+  const session = await userDb.sessions.get(token);
+  if (!session) return null;
+
+  if (session.expiresAt <= new Date().toISOString()) {
+    await userDb.sessions.delete(token);
+    return null;
   }
-};
\ No newline at end of file
+
+  const user = await userDb.users.get(session.userId);
+  return user ? toSessionUser(user) : null;
+};
+
+export const destroySession = async (token: string | null | undefined) => {
+  if (token) {
+    await userDb.sessions.delete(token);
+  }
+};
+
+// Same message for unknown email and wrong password so accounts cannot be probed
+export const loginUser = async (email: string, password: string) => {
+  const user = await userDb.users.where('email').equalsIgnoreCase(email.trim()).first();
+
+  if (!user || !(await verifyPassword(user, password))) {
+    throw new AuthError('Invalid email or password');
+  }
+
+  const session = await createSession(user.id as number);
+
+  return {
+    success: true,
+    user: toSessionUser(user),
+    token: session.token,
+    expiresAt: session.expiresAt
+  };
+};
+
+// Read the bearer token from an Authorization header
+export const getBearerToken = (header: string | null | undefined) => {
+  const match = (header || '').match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+};
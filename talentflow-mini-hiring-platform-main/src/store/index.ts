@@ -1,14 +1,28 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { Job, Candidate, Assessment } from '../types';
+import { apiCall, getSessionToken, SESSION_TOKEN_KEY } from '../utils/apiUtils';
+import { offlineQueue } from '../services/offlineQueue';
+import { queryClient } from '../hooks/queryClient';
+
+export interface AuthUser {
+  id?: number | null;
+  role: string | null;
+  name: string | null;
+  email?: string | null;
+}
+
+const SIGNED_OUT: AuthUser = { id: null, role: null, name: null, email: null };
+
+// Keys from before sessions, when the user was trusted straight from localStorage
+const LEGACY_AUTH_KEYS = ['role', 'username', 'email'];
 
 interface AppState {
   // Auth state
-  user: {
-    role: string | null;
-    name: string | null;
-    email?: string | null;
-  };
+  user: AuthUser;
+  sessionToken: string | null;
+  // True until a stored session token has been checked against /api/auth/me
+  restoringSession: boolean;
   
   // UI state
   theme: 'light' | 'dark';
@@ -34,8 +48,9 @@ interface AppState {
   };
   
   // Actions
-  setUser: (user: { role: string; name: string; email?: string }) => void;
-  logout: () => void;
+  setSession: (user: AuthUser, token: string) => void;
+  restoreSession: () => Promise<void>;
+  logout: () => Promise<void>;
   toggleTheme: () => void;
   setSidebarOpen: (open: boolean) => void;
   
@@ -67,12 +82,10 @@ export const useAppStore = create<AppState>()(
   devtools(
     persist(
       (set, get) => ({
-        // Initial state - check localStorage for existing session
-        user: {
-          role: localStorage.getItem('role'),
-          name: localStorage.getItem('username'),
-          email: localStorage.getItem('email'),
-        },
+        // Signed out until restoreSession validates any stored token
+        user: SIGNED_OUT,
+        sessionToken: getSessionToken(),
+        restoringSession: !!getSessionToken(),
         theme: 'light',
         sidebarOpen: false,
         jobs: [],
@@ -90,21 +103,54 @@ export const useAppStore = create<AppState>()(
         },
         
         // Auth actions
-        setUser: (user) => {
-          localStorage.setItem('role', user.role);
-          localStorage.setItem('username', user.name);
-          if (user.email) {
-            localStorage.setItem('email', user.email);
+        setSession: (user, token) => {
+          localStorage.setItem(SESSION_TOKEN_KEY, token);
+          queryClient.clear();
+          set({ user, sessionToken: token, restoringSession: false });
+          offlineQueue.setUser(user.id ?? null);
+        },
+
+        restoreSession: async () => {
+          LEGACY_AUTH_KEYS.forEach(key => localStorage.removeItem(key));
+
+          const token = getSessionToken();
+          if (!token) {
+            set({ user: SIGNED_OUT, sessionToken: null, restoringSession: false });
+            return;
+          }
+
+          try {
+            const response = await apiCall('/api/auth/me');
+            if (response.ok) {
+              const result = await response.json();
+              queryClient.clear();
+              set({ user: result.data, sessionToken: token, restoringSession: false });
+              offlineQueue.setUser(result.data.id);
+              return;
+            }
+            if (response.status === 401) {
+              localStorage.removeItem(SESSION_TOKEN_KEY);
+            }
+          } catch (error) {
+            console.error('Failed to restore session:', error);
           }
-          set({ user });
+          set({ user: SIGNED_OUT, sessionToken: getSessionToken(), restoringSession: false });
         },
-        
-        logout: () => {
-          localStorage.removeItem('role');
-          localStorage.removeItem('username');
-          localStorage.removeItem('email');
+
+        logout: async () => {
+          // Park this user's unsent writes before the session goes away; they are
+          // replayed when the same user signs in again
+          offlineQueue.setUser(null);
+          try {
+            await apiCall('/api/auth/logout', { method: 'POST' });
+          } catch (error) {
+            console.error('Failed to end session:', error);
+          }
+          localStorage.removeItem(SESSION_TOKEN_KEY);
+          queryClient.clear();
           set({
-            user: { role: null, name: null, email: null },
+            user: SIGNED_OUT,
+            sessionToken: null,
             jobs: [],
             candidates: [],
             assessments: [],
@@ -182,7 +228,9 @@ export const useAppStore = create<AppState>()(
 // Selectors for better performance
 export const useAuth = () => useAppStore((state) => ({
   user: state.user,
-  setUser: state.setUser,
+  restoringSession: state.restoringSession,
+  setSession: state.setSession,
+  restoreSession: state.restoreSession,
   logout: state.logout,
 }));
 
@@ -1,22 +1,339 @@
+export type EmploymentType = 'full-time' | 'part-time' | 'contract' | 'internship' | 'temporary';
+
+export type Seniority = 'intern' | 'junior' | 'mid' | 'senior' | 'lead' | 'principal';
+
+export type RemotePolicy = 'onsite' | 'hybrid' | 'remote';
+
+// Yearly pay; either bound may be left open
+export interface SalaryRange {
+    min?: number;
+    max?: number;
+    currency: string; // ISO 4217, e.g. "USD"
+}
+
+// Requisition lifecycle: only open jobs are on the candidate job board
+export type JobStatus = 'draft' | 'pending-approval' | 'open' | 'on-hold' | 'closed';
+
+export type RequisitionAction = 'submit' | 'withdraw' | 'approve' | 'reject' | 'hold' | 'resume' | 'close' | 'reopen';
+
+// One sign-off in an approval chain; any of the listed users can give it
+export interface ApprovalStep {
+    id: string;
+    label: string; // e.g. "Finance"
+    approverEmails: string[];
+}
+
+// Ordered sign-offs a requisition needs before the job opens
+export interface ApprovalChain {
+    id: string;
+    name: string;
+    description?: string;
+    steps: ApprovalStep[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+// The chain as it was when the job was submitted, and how far it has got
+export interface JobApproval {
+    chainId: string;
+    chainName: string;
+    steps: ApprovalStep[];
+    currentStep: number; // Index of the step awaiting a decision; steps.length once approved
+    submittedBy: string;
+    submittedAt: string;
+}
+
+export interface RequisitionEvent {
+    id: string;
+    jobId: string;
+    action: RequisitionAction;
+    fromStatus: JobStatus;
+    toStatus: JobStatus;
+    stepLabel?: string; // Approval step decided by an approve or reject
+    comment?: string;
+    actorId: number;
+    actorName: string;
+    createdAt: string;
+}
+
+// GET /api/jobs/:id/requisition, from the point of view of the signed-in user
+export interface RequisitionSummary {
+    history: RequisitionEvent[];
+    chain?: ApprovalChain;
+    currentStep?: ApprovalStep;
+    canDecide: boolean;
+}
+
 export interface Job {
     id: string;
     title: string;
     slug: string;
     description: string;
     location: string;
-    status: 'active' | 'archived';
+    status: JobStatus;
+    approvalChainId?: string;
+    approval?: JobApproval;
     tags: string[];
     order: number;
+    pipelineId?: string;
+    company?: string; // Hiring company or business unit
+    department?: string;
+    employmentType: EmploymentType;
+    seniority: Seniority;
+    remotePolicy: RemotePolicy;
+    salary?: SalaryRange;
+    openings: number;
     createdAt: string;
     updatedAt: string;
 }
 
+// Values the job list offers as filters, gathered across every job the caller can see
+export interface JobFilterOptions {
+    tags: string[];
+    companies: string[];
+    departments: string[];
+    total: number;
+}
+
+export type StageColor = 'blue' | 'yellow' | 'purple' | 'indigo' | 'orange' | 'pink' | 'green' | 'emerald' | 'red' | 'gray';
+
+export type StagePrerequisite = 'assessment-completed';
+
+// Value that must be captured when a candidate enters a stage
+export interface StageField {
+    key: string;
+    label: string;
+    type: 'text' | 'number';
+}
+
+export interface PipelineStage {
+    id: string; // Value stored in Application.stage
+    label: string;
+    color: StageColor;
+    icon?: string;
+    terminal?: boolean; // No further moves once reached
+    outcome?: 'hired' | 'rejected'; // Set on terminal stages
+    allowedNext?: string[]; // Reachable stage ids; defaults to forward moves, one step back and terminal stages
+    requiredFields?: StageField[];
+    prerequisites?: StagePrerequisite[];
+    scorecardTemplateId?: string; // Interview feedback collected in this stage
+}
+
+export interface TransitionError {
+    code: 'unknown-stage' | 'transition-not-allowed' | 'missing-field' | 'prerequisite-not-met';
+    message: string;
+    field?: string;
+    prerequisite?: StagePrerequisite;
+}
+
+// Ordered hiring stages, either a reusable template or a job-specific pipeline
+export interface Pipeline {
+    id: string;
+    name: string;
+    description?: string;
+    jobId?: string; // Set for job-specific pipelines, empty for templates
+    stages: PipelineStage[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface Person {
+    id: string;
+    email: string; // Normalized (trimmed, lower-case) - one person per email
+    name: string;
+    phone: string;
+    resume: string; // Plain text, extracted from the uploaded file when there is one
+    resumeFile?: ResumeFileSummary;
+    links?: string[];
+    skills?: string[]; // Canonical names from the skill taxonomy, or as entered
+    mergedEmails?: string[]; // Emails of people merged into this one; they still resolve here
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type ResumeFileType =
+    | 'application/pdf'
+    | 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    | 'text/plain';
+
+// Uploaded resume, kept as a Blob next to the text extracted from it
+export interface ResumeFile {
+    id: string;
+    personId?: string; // Set once an application claims the upload
+    uploadedBy: number;
+    name: string;
+    type: ResumeFileType;
+    size: number;
+    blob: Blob;
+    text: string;
+    uploadedAt: string;
+}
+
+export interface ResumeFileSummary {
+    id: string;
+    name: string;
+    type: ResumeFileType;
+    size: number;
+    uploadedAt: string;
+}
+
+// Contact details found in a resume's text, offered to pre-fill the application
+export interface ResumeDetails {
+    email?: string;
+    phone?: string;
+    links: string[];
+    skills: string[];
+}
+
+export interface ResumeUpload extends ResumeFileSummary {
+    text: string;
+    details: ResumeDetails;
+}
+
+// One CSV row mapped onto candidate fields. Values are raw text; `row` is the
+// row's line in the file so errors can point back to it.
+export interface CandidateImportRow {
+    row: number;
+    name?: string;
+    email?: string;
+    phone?: string;
+    resume?: string;
+    stage?: string; // Stage id or label in the target job's pipeline
+    skills?: string; // Separated by commas or semicolons
+    links?: string; // Separated by whitespace or semicolons
+}
+
+export interface CandidateImportError {
+    row: number;
+    email?: string;
+    errors: string[];
+}
+
+export interface CandidateImportResult {
+    dryRun: boolean;
+    total: number;
+    valid: number;
+    imported: number;
+    errors: CandidateImportError[];
+}
+
+export type DuplicateReason = 'email' | 'phone' | 'name';
+
+export interface DuplicatePerson {
+    id: string;
+    name: string;
+    email: string;
+    phone: string;
+    createdAt: string;
+    applications: number;
+}
+
+// Two people who are probably the same; `key` identifies the pair
+export interface DuplicateMatch {
+    key: string;
+    people: [DuplicatePerson, DuplicatePerson];
+    reasons: DuplicateReason[];
+    nameSimilarity: number; // 0-1
+    score: number; // 0-100 confidence, used to order the review queue
+}
+
+// A pair HR reviewed and kept apart
+export interface DuplicateDismissal {
+    key: string;
+    personIds: [string, string];
+    dismissedBy: string;
+    dismissedAt: string;
+}
+
+export type MergeReassignedTable = 'notes' | 'interviews' | 'scorecards' | 'submissions' | 'resumeFiles';
+
+// The links a merge re-points on those rows
+export type MergeReassignedFields = Partial<Record<'applicationId' | 'candidateId' | 'personId', string>>;
+
+// Everything needed to take a merge back
+export interface PersonMergeUndo {
+    source: Person;
+    target: Pick<Person, 'phone' | 'resume' | 'resumeFile' | 'links' | 'skills' | 'mergedEmails'>;
+    movedApplicationIds: string[]; // Source applications now owned by the target
+    // Source applications folded into the target's application for the same job
+    combinedApplications: {
+        source: Application;
+        targetId: string;
+        target: Pick<Application, 'appliedAt' | 'assessmentInvited' | 'assessmentInvitedAt' | 'assessmentCompleted' | 'assessmentCompletedAt'>;
+    }[];
+    // Rows re-pointed at the target, with the values they had before
+    reassigned: { table: MergeReassignedTable; id: string; original: MergeReassignedFields }[];
+    // Source submissions dropped because the target already had one for the job
+    droppedSubmissions?: AssessmentSubmission[];
+}
+
+// Audit record of one person merged into another
+export interface PersonMerge {
+    id: string;
+    targetPersonId: string;
+    sourcePersonId: string;
+    targetName: string;
+    sourceName: string;
+    sourceEmail: string;
+    mergedBy: string;
+    mergedAt: string;
+    undoneBy?: string;
+    undoneAt?: string;
+    counts: { applications: number; combinedApplications: number; notes: number; submissions: number; interviews: number; scorecards: number };
+    undo: PersonMergeUndo;
+}
+
+// API view of a merge; the undo data stays on the server
+export interface PersonMergeSummary extends Omit<PersonMerge, 'undo'> {
+    canUndo: boolean;
+}
+
+// Rows a deleted job took out of the live tables, put back as they were on restore
+export interface TrashedJobRecords {
+    job: Job;
+    pipelines: Pipeline[]; // The job's own pipeline, never a shared template
+    assessments: Assessment[];
+    applications: Application[];
+    submissions: AssessmentSubmission[];
+    interviews: Interview[];
+    scorecards: Scorecard[];
+    people: Person[]; // Candidates who had applied to no other job
+    notes: CandidateNote[]; // Notes about those candidates
+    resumeFiles: ResumeFile[];
+    // Notes about candidates who stayed, moved to another of their applications;
+    // candidateId is the trashed application they were written from
+    movedNotes?: Pick<CandidateNote, 'id' | 'candidateId'>[];
+}
+
+// A deleted job in the trash bin; restorable until it expires, then purged
+export interface TrashItem {
+    id: string;
+    type: 'job';
+    entityId: string;
+    title: string;
+    deletedBy: string;
+    deletedAt: string;
+    expiresAt: string;
+    counts: { applications: number; candidates: number; submissions: number; interviews: number; scorecards: number; notes: number };
+    records: TrashedJobRecords;
+}
+
+// API view of a trash item; the stored rows stay on the server
+export type TrashItemSummary = Omit<TrashItem, 'records'>;
+
+// API view of one person's application to one job, composed from Person + Application
 export interface Candidate {
     id: string;
+    personId?: string;
+    applicationId?: string;
     name: string;
     email: string;
     phone: string;
     resume: string;
+    resumeFile?: ResumeFileSummary;
+    links?: string[];
+    skills?: string[];
+    matchScore?: number;
     status: string;
     stage: string;
     jobId: string;
@@ -34,24 +351,34 @@ export interface TimelineEntry {
     timestamp: string;
     notes: string;
     movedBy?: string;
+    fields?: Record<string, string | number>;
 }
 
+// Single source of truth for stage, timeline and assessment progress
 export interface Application {
     id: string;
-    candidateId: string;
+    candidateId: string; // Public candidate id used in routes and submissions
+    personId: string;
     jobId: string;
-    stage: 'applied' | 'screen' | 'tech' | 'offer' | 'hired' | 'rejected';
+    stage: string; // PipelineStage.id from the job's pipeline
+    status: string;
     appliedAt: string;
     timeline: ApplicationTimelineEntry[];
     notes: string;
+    assessmentInvited?: boolean;
+    assessmentInvitedAt?: string;
+    assessmentCompleted?: boolean;
+    assessmentCompletedAt?: string;
+    matchScore?: number; // 0-100 fit of the person's skills to the job's tags; kept current by services/skills
 }
 
 export interface ApplicationTimelineEntry {
     id: string;
-    stage: 'applied' | 'screen' | 'tech' | 'offer' | 'hired' | 'rejected';
+    stage: string;
     timestamp: string;
     notes: string;
     movedBy: string;
+    fields?: Record<string, string | number>; // Required fields captured on entry
 }
 
 export interface Assessment {
@@ -103,6 +430,215 @@ export interface AssessmentSubmission {
     submittedAt: string;
 }
 
+export type InterviewType = 'phone-screen' | 'technical' | 'onsite' | 'portfolio-review' | 'culture-fit' | 'other';
+
+export type InterviewStatus = 'scheduled' | 'completed' | 'cancelled';
+
+export interface Interview {
+    id: string;
+    applicationId: string;
+    candidateId: string;
+    jobId: string;
+    interviewerIds: number[]; // User ids from the users database
+    type: InterviewType;
+    status: InterviewStatus;
+    startTime: string;
+    endTime: string;
+    location?: string;
+    videoLink?: string;
+    notes?: string;
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ScorecardCompetency {
+    id: string;
+    label: string;
+    description?: string;
+}
+
+export interface ScorecardTemplate {
+    id: string;
+    name: string;
+    competencies: ScorecardCompetency[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type HireRecommendation = 'strong-no-hire' | 'no-hire' | 'hire' | 'strong-hire';
+
+// One interviewer's structured feedback on an application in a stage
+export interface Scorecard {
+    id: string;
+    applicationId: string;
+    candidateId: string;
+    jobId: string;
+    stage: string;
+    templateId: string;
+    interviewId?: string;
+    interviewerId: number;
+    interviewerName: string;
+    ratings: Record<string, number>; // Competency id -> 1-5
+    recommendation: HireRecommendation;
+    evidence: string;
+    submittedAt: string;
+    updatedAt: string;
+}
+
+export interface CompetencySummary {
+    competencyId: string;
+    label: string;
+    average: number;
+    min: number;
+    max: number;
+    count: number;
+    disagreement: boolean;
+}
+
+export interface ScorecardSummary {
+    count: number;
+    competencies: CompetencySummary[];
+    recommendations: Record<HireRecommendation, number>;
+    disagreement: boolean; // Interviewers split between hire and no-hire, or far apart on a competency
+}
+
+// Interview with the names the calendar and profile views display
+export interface InterviewSummary extends Interview {
+    candidateName: string;
+    jobTitle: string;
+    interviewerNames: string[];
+}
+
+// Weekly window an interviewer can be booked in; weekday follows Date.getDay()
+export interface AvailabilityWindow {
+    weekday: number;
+    start: string; // HH:MM, local time
+    end: string;
+}
+
+export interface Interviewer {
+    id: number;
+    name: string;
+    email: string;
+    role: string;
+    availability: AvailabilityWindow[];
+}
+
+export interface InterviewConflict {
+    interviewerId: number;
+    interviewerName: string;
+    reason: 'unavailable' | 'double-booked';
+    message: string;
+    interviewId?: string; // The overlapping interview for double bookings
+}
+
+export interface NoteRevision {
+    content: string;
+    mentions: number[];
+    editedAt: string;
+}
+
+// Notes belong to the person, so they show on every application they made
+export interface CandidateNote {
+    id: string;
+    personId: string;
+    candidateId: string; // Application the note was written from
+    authorId: number;
+    authorName: string;
+    content: string;
+    mentions: number[]; // User ids of mentioned teammates
+    readBy: number[]; // Mentioned users who have seen the note
+    revisions: NoteRevision[]; // Earlier versions, oldest first
+    createdAt: string;
+    updatedAt: string;
+    deletedAt?: string;
+    deletedBy?: string;
+}
+
+export interface TeamMember {
+    id: number;
+    name: string;
+    email: string;
+    role: string;
+}
+
+export interface MentionSummary extends CandidateNote {
+    candidateName: string;
+    unread: boolean;
+}
+
+export type NotificationType = 'stage-changed' | 'assessment-invited' | 'assessment-submitted' | 'mention';
+
+// Named to avoid clashing with the DOM Notification type
+export interface AppNotification {
+    id: string;
+    userId: number;
+    type: NotificationType;
+    title: string;
+    message: string;
+    link?: string;
+    createdAt: string;
+    readAt?: string;
+}
+
+export interface NotificationPreferences {
+    userId: number;
+    muted: NotificationType[];
+    updatedAt: string;
+}
+
+// Response stored for a write's Idempotency-Key, returned again on replay
+export interface IdempotencyRecord {
+    key: string;
+    method: string;
+    url: string;
+    status: number;
+    body: string;
+    createdAt: string;
+}
+
+export type SearchDocumentType = 'candidate' | 'note' | 'submission';
+
+// One searchable record: a person, a note or a submission's written answers
+export interface SearchDocument {
+    key: string; // "<type>:<entityId>"
+    type: SearchDocumentType;
+    entityId: string;
+    personId: string;
+    title: string;
+    subtitle: string;
+    link: string;
+    fields: Record<string, string>; // Indexed text by field name, kept for snippets
+    updatedAt: string;
+}
+
+// Inverted index row: how often a token appears in one field of a document
+export interface SearchTerm {
+    token: string;
+    docKey: string;
+    field: string;
+    count: number;
+}
+
+export interface SnippetPart {
+    text: string;
+    highlight: boolean;
+}
+
+export interface SearchResult {
+    key: string;
+    type: SearchDocumentType;
+    entityId: string;
+    personId: string;
+    title: string;
+    subtitle: string;
+    link: string;
+    score: number;
+    field: string; // Field the snippet was taken from
+    snippet: SnippetPart[];
+}
+
 export interface ApiResponse<T> {
     data: T;
     pagination?: {
@@ -110,6 +646,7 @@ export interface ApiResponse<T> {
         pageSize: number;
         total: number;
         totalPages: number;
+        nextCursor?: string | null; // Pass back as ?cursor= for the next page
     };
 }
 
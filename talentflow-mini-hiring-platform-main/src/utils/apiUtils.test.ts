@@ -0,0 +1,88 @@
+import 'fake-indexeddb/auto';
+import { ApiError, SESSION_TOKEN_KEY, apiJson, isQueuedWrite, toQueryString } from './apiUtils';
+import { IDEMPOTENCY_HEADER, offlineQueue } from '../services/offlineQueue';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('toQueryString', () => {
+  it('skips empty values and encodes the rest', () => {
+    expect(toQueryString({ search: 'C++ dev', status: '', tag: undefined, page: 2, remote: false, jobId: null })).toBe('?search=C%2B%2B+dev&page=2&remote=false');
+    expect(toQueryString({})).toBe('');
+  });
+});
+
+describe('isQueuedWrite', () => {
+  it('recognises the body of a queued write only', () => {
+    expect(isQueuedWrite({ queued: true, queueId: 1, idempotencyKey: 'key' })).toBe(true);
+    expect(isQueuedWrite({ data: { queued: true } })).toBe(false);
+    expect(isQueuedWrite(null)).toBe(false);
+  });
+});
+
+describe('apiJson', () => {
+  const originalFetch = window.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    window.fetch = fetchMock;
+    localStorage.setItem(SESSION_TOKEN_KEY, 'token-1');
+  });
+
+  afterEach(() => {
+    window.fetch = originalFetch;
+    localStorage.clear();
+  });
+
+  it('sends the session token and returns the parsed body', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ data: [] }));
+
+    await expect(apiJson('/api/jobs')).resolves.toEqual({ data: [] });
+    const [, options] = fetchMock.mock.calls[0];
+    expect(new Headers(options.headers).get('Authorization')).toBe('Bearer token-1');
+  });
+
+  it("keeps an Authorization header the caller set", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ data: {} }));
+
+    await apiJson('/api/auth/me', { headers: { Authorization: 'Bearer other' } });
+    expect(new Headers(fetchMock.mock.calls[0][1].headers).get('Authorization')).toBe('Bearer other');
+  });
+
+  it('throws an ApiError carrying the status and error body', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'Job not found' }, 404));
+
+    const error = await apiJson('/api/jobs/job-404').catch(e => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 404, body: { error: 'Job not found' }, message: 'Job not found' });
+  });
+
+  it('describes errors without a JSON body by their status', async () => {
+    fetchMock.mockResolvedValue(new Response('', { status: 503 }));
+
+    await expect(apiJson('/api/jobs')).rejects.toMatchObject({ status: 503, message: 'Request failed with status 503' });
+  });
+
+  describe('writes of a signed-in user', () => {
+    beforeEach(() => offlineQueue.setUser(1));
+    afterEach(() => offlineQueue.setUser(null));
+
+    it('go through the queue with an idempotency key and resolve with the response', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ data: { id: 'job-1' } }, 201));
+
+      await expect(apiJson('/api/jobs', { method: 'POST', body: '{}' })).resolves.toEqual({ data: { id: 'job-1' } });
+      const headers = new Headers(fetchMock.mock.calls[0][1].headers);
+      expect(headers.get(IDEMPOTENCY_HEADER)).toEqual(expect.any(String));
+      expect(headers.get('Authorization')).toBe('Bearer token-1');
+      expect(await offlineQueue.getSnapshot()).toEqual({ pending: [], dead: [] });
+    });
+
+    it('hand a validation error back to the caller instead of keeping it', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ error: 'Invalid job' }, 400));
+
+      await expect(apiJson('/api/jobs', { method: 'POST', body: '{}' })).rejects.toMatchObject({ status: 400, message: 'Invalid job' });
+      expect(await offlineQueue.getSnapshot()).toEqual({ pending: [], dead: [] });
+    });
+  });
+});
@@ -1,130 +1,25 @@
 import { offlineQueue } from '../services/offlineQueue';
 
-// Direct IndexedDB fallback when MSW fails
+export const SESSION_TOKEN_KEY = 'sessionToken';
+
+export const getSessionToken = () => localStorage.getItem(SESSION_TOKEN_KEY);
+
+// Attach the current session token unless the caller already set one
+const withAuthHeader = (options?: RequestInit): RequestInit => {
+  const token = getSessionToken();
+  const headers = new Headers(options?.headers);
+  if (token && !headers.has('Authorization')) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  return { ...options, headers };
+};
+
+// Direct IndexedDB fallback when MSW fails: the request is resolved by the same
+// handlers the service worker uses, in the page instead of through the worker
 const directDbFallback = async (url: string, options?: RequestInit): Promise<Response> => {
-  const { db } = await import('../services/database');
-  
   try {
-    // Handle specific candidate by ID
-    const candidateMatch = url.match(/\/api\/candidates\/([^/?]+)$/);
-    if (candidateMatch) {
-      const candidateId = candidateMatch[1];
-      const candidate = await db.candidates.get(candidateId);
-      return new Response(JSON.stringify({ data: candidate }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-    
-    // Handle assessment endpoints
-    const assessmentMatch = url.match(/\/api\/assessments\/([^/?]+)$/);
-    if (assessmentMatch) {
-      const jobId = assessmentMatch[1];
-      
-      if (options?.method === 'PUT') {
-        // Handle assessment save
-        const assessmentData = JSON.parse(options.body as string);
-        const existingAssessment = await db.assessments.where('jobId').equals(jobId).first();
-        
-        if (existingAssessment) {
-          await db.assessments.update(existingAssessment.id, {
-            ...assessmentData,
-            updatedAt: new Date().toISOString()
-          });
-          const updated = await db.assessments.get(existingAssessment.id);
-          return new Response(JSON.stringify({ data: updated }), {
-            status: 200,
-            headers: { 'Content-Type': 'application/json' }
-          });
-        } else {
-          const newAssessment = {
-            id: `assessment-${jobId}-${Date.now()}`,
-            jobId,
-            title: assessmentData.title || 'Untitled Assessment',
-            description: assessmentData.description || '',
-            sections: assessmentData.sections || [],
-            enableScoring: assessmentData.enableScoring || false,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
-          };
-          
-          await db.assessments.add(newAssessment);
-          return new Response(JSON.stringify({ data: newAssessment }), {
-            status: 200,
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-      } else {
-        // Handle assessment get
-        const assessment = await db.assessments.where('jobId').equals(jobId).first();
-        return new Response(JSON.stringify({ data: assessment || null }), {
-          status: 200,
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
-    }
-    
-    // Handle applications with query params
-    if (url.includes('/api/applications')) {
-      if (options?.method === 'PATCH') {
-        // Handle application stage updates
-        return new Response(JSON.stringify({ success: true }), {
-          status: 200,
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
-      
-      const urlObj = new URL(url, 'http://localhost');
-      const candidateId = urlObj.searchParams.get('candidateId');
-      
-      let applications = await db.applications.toArray();
-      if (candidateId) {
-        applications = applications.filter(app => app.candidateId === candidateId);
-      }
-      
-      return new Response(JSON.stringify({ data: applications }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-    
-    // Handle candidate updates
-    const candidateUpdateMatch = url.match(/\/api\/candidates\/([^/?]+)$/);
-    if (candidateUpdateMatch && options?.method === 'PATCH') {
-      return new Response(JSON.stringify({ success: true }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-    
-    if (url.includes('/api/jobs')) {
-      const jobs = await db.jobs.orderBy('order').toArray();
-      return new Response(JSON.stringify({ data: jobs }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-    
-    if (url.includes('/api/candidates')) {
-      const candidates = await db.candidates.toArray();
-      return new Response(JSON.stringify({ data: candidates }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-    
-    // Default success response for write operations
-    if (options?.method && ['POST', 'PUT', 'PATCH', 'DELETE'].includes(options.method)) {
-      return new Response(JSON.stringify({ success: true }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-    
-    return new Response(JSON.stringify({ data: [] }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    const { handleRequest } = await import('../services/apiHandlers');
+    return await handleRequest(url, options);
   } catch (error) {
     return new Response(JSON.stringify({ error: 'Database error' }), {
       status: 500,
@@ -133,8 +28,11 @@ const directDbFallback = async (url: string, options?: RequestInit): Promise<Res
   }
 };
 
-// API utility with bulletproof IndexedDB fallback
-export const apiCall = async (url: string, options?: RequestInit, retries = 1): Promise<Response> => {
+// Send a request through MSW with bulletproof IndexedDB fallback. The session
+// token is read at send time; the queue only replays a write while the user who
+// made it is signed in, so it always carries their token.
+const sendRequest = async (url: string, requestOptions?: RequestInit): Promise<Response> => {
+  const options = withAuthHeader(requestOptions);
   try {
     const response = await fetch(url, options);
     
@@ -165,4 +63,63 @@ export const apiCall = async (url: string, options?: RequestInit, retries = 1):
     console.log('🔄 Fetch failed, using IndexedDB fallback');
     return await directDbFallback(url, options);
   }
-};
\ No newline at end of file
+};
+
+offlineQueue.setTransport(sendRequest);
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Sign-in and read-only POSTs need an answer now, so they never wait in the queue.
+// Uploads carry a binary body the queue can't store.
+const UNQUEUED_PATHS = [/^\/api\/auth\//, /^\/api\/interviews\/conflicts$/, /^\/api\/resumes$/, /^\/api\/candidates\/import$/];
+
+const shouldQueue = (url: string, method: string) =>
+  WRITE_METHODS.includes(method.toUpperCase()) &&
+  !UNQUEUED_PATHS.some(pattern => pattern.test(new URL(url, 'http://localhost').pathname));
+
+// Reads go straight out; writes go through the durable offline queue
+export const apiCall = async (url: string, requestOptions?: RequestInit): Promise<Response> =>
+  shouldQueue(url, requestOptions?.method || 'GET')
+    ? offlineQueue.enqueue(url, requestOptions)
+    : sendRequest(url, requestOptions);
+
+// A write that was stored for later because the app is offline or the API is failing
+export const isQueuedResponse = (response: Response) => response.status === 202;
+
+// Parsed body of a queued write
+export interface QueuedWrite {
+  queued: true;
+  queueId: number;
+  idempotencyKey: string;
+}
+
+export const isQueuedWrite = (result: unknown): result is QueuedWrite =>
+  !!result && (result as QueuedWrite).queued === true;
+
+// Non-2xx response from the API; `body` holds the parsed error payload
+export class ApiError extends Error {
+  constructor(public status: number, public body: any) {
+    super(body?.error || `Request failed with status ${status}`);
+    this.name = 'ApiError';
+  }
+}
+
+// apiCall plus JSON parsing, throwing ApiError on failure. Used by the react-query hooks.
+export const apiJson = async <T = any>(url: string, requestOptions?: RequestInit): Promise<T> => {
+  const response = await apiCall(url, requestOptions);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(response.status, body);
+  }
+  return body as T;
+};
+
+// Query string from a params object, skipping empty values
+export const toQueryString = (params: Record<string, string | number | boolean | undefined | null> = {}) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') search.set(key, String(value));
+  });
+  const query = search.toString();
+  return query ? `?${query}` : '';
+};
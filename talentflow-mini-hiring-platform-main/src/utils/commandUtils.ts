@@ -0,0 +1,90 @@
+// Fuzzy matching, query parsing and recent-item storage for the command palette
+
+export interface FuzzyMatch {
+  score: number;
+  indices: number[]; // Positions in the text that matched, for highlighting
+}
+
+const isWordStart = (text: string, index: number) =>
+  index === 0 || /[\s\-_/.@]/.test(text[index - 1]);
+
+const matchFrom = (needle: string, text: string, preferWordStarts: boolean): FuzzyMatch | null => {
+  const haystack = text.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+
+  for (let i = 0; i < needle.length; i++) {
+    const previous = indices.length > 0 ? indices[indices.length - 1] : -1;
+    let index = haystack.indexOf(needle[i], previous + 1);
+    if (index === -1) return null;
+
+    // Unless it continues the previous match, jump to a later word start with this character
+    if (preferWordStarts && index !== previous + 1 && !isWordStart(text, index)) {
+      for (let j = index + 1; j < haystack.length; j++) {
+        if (haystack[j] === needle[i] && isWordStart(text, j)) {
+          index = j;
+          break;
+        }
+      }
+    }
+
+    score += 1;
+    if (indices.length > 0 && index === previous + 1) score += 2;
+    if (isWordStart(text, index)) score += 3;
+    indices.push(index);
+  }
+
+  // Shorter texts with the match near the start rank first
+  score -= indices[0] * 0.1 + (text.length - needle.length) * 0.01;
+  return { score, indices };
+};
+
+// Every query character must appear in order. Matches at word starts and runs of
+// consecutive characters score higher, so "sfd" finds "Senior Frontend Developer".
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return { score: 0, indices: [] };
+
+  // Jumping ahead to word starts can strand the rest of the query; fall back to the plain scan
+  return matchFrom(needle, text, true) || matchFrom(needle, text, false);
+};
+
+// "move candidate-42 to tech" or "move jane to offer"
+export const parseMoveCommand = (query: string): { candidate: string; stage: string } | null => {
+  const match = /^move\s+(.*?)(?:\s+to\s+(.*))?$/i.exec(query.trim());
+  if (!match || !match[1]) return null;
+  return { candidate: match[1].trim(), stage: (match[2] || '').trim() };
+};
+
+// "invite jane" or "invite candidate-42 to assessment"
+export const parseInviteCommand = (query: string): { candidate: string } | null => {
+  const match = /^invite\s+(.*?)(?:\s+to(?:\s+assessment)?)?$/i.exec(query.trim());
+  if (!match || !match[1]) return null;
+  return { candidate: match[1].trim() };
+};
+
+export interface RecentItem {
+  id: string;
+  title: string;
+  subtitle?: string;
+  link?: string; // Items without a link are actions, looked up by id when chosen
+}
+
+const RECENT_LIMIT = 8;
+const recentKey = (userKey: string) => `commandPalette.recent.${userKey}`;
+
+export const loadRecentItems = (userKey: string): RecentItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(recentKey(userKey)) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Most recent first, without duplicates
+export const saveRecentItem = (userKey: string, item: RecentItem): RecentItem[] => {
+  const items = [item, ...loadRecentItems(userKey).filter(recent => recent.id !== item.id)].slice(0, RECENT_LIMIT);
+  localStorage.setItem(recentKey(userKey), JSON.stringify(items));
+  return items;
+};
@@ -0,0 +1,28 @@
+import { parseCsv, toCsv } from './csvUtils';
+
+describe('toCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines', 'plain']])).toBe('"a,b","say ""hi""","two\nlines",plain');
+  });
+
+  it('writes text that would start a formula as plain text', () => {
+    const rows = [['=HYPERLINK("http://evil.test","x")', '+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd']];
+    expect(toCsv(rows)).toBe([
+      '"\'=HYPERLINK(""http://evil.test"",""x"")"',
+      "'+1",
+      "'-2+3",
+      "'@SUM(A1)",
+      "'\tcmd",
+      '"\'\rcmd"'
+    ].join(','));
+  });
+
+  it('leaves numbers, including negative ones, alone', () => {
+    expect(toCsv([[-5, 3.5, 'Jane']])).toBe('-5,3.5,Jane');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['name', 'note'], ['Ana', 'likes "quotes", commas']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,69 @@
+// RFC 4180 CSV: quoted fields may hold commas, line breaks and doubled quotes.
+// Blank lines are dropped; a leading byte-order mark is ignored.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+// Spreadsheet apps run a cell starting with one of these as a formula, so text a
+// candidate typed (a name, an answer) could execute when HR opens the export
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvField = (value: unknown) => {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]) =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+
+export const downloadFile = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// The byte-order mark makes Excel read the file as UTF-8
+export const downloadCsv = (filename: string, rows: unknown[][]) =>
+  downloadFile(filename, new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' }));
@@ -0,0 +1,55 @@
+import { NAME_MATCH_THRESHOLD, canonicalEmail, duplicatePairKey, duplicateScore, nameBlockKeys, nameSimilarity, phoneKey } from './duplicateUtils';
+
+describe('canonicalEmail', () => {
+  it('ignores case and plus tags', () => {
+    expect(canonicalEmail(' Ana.Lee+jobs@Example.com ')).toBe('ana.lee@example.com');
+  });
+
+  it('ignores dots for Gmail only', () => {
+    expect(canonicalEmail('a.n.a+x@googlemail.com')).toBe('ana@gmail.com');
+    expect(canonicalEmail('a.n.a@outlook.com')).toBe('a.n.a@outlook.com');
+  });
+});
+
+describe('phoneKey', () => {
+  it('compares the last ten digits and ignores short numbers', () => {
+    expect(phoneKey('+1 (555) 010-2030')).toBe(phoneKey('555.010.2030'));
+    expect(phoneKey('12-34')).toBe('');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('ignores word order, case and accents', () => {
+    expect(nameSimilarity('José García', 'garcia JOSE')).toBe(1);
+    expect(nameBlockKeys('José García 2')).toEqual(['jos', 'gar', '2']);
+  });
+
+  it('scores near spellings above the threshold and different names below it', () => {
+    expect(nameSimilarity('Christopher Johnson', 'Christopher Jonson')).toBeGreaterThanOrEqual(NAME_MATCH_THRESHOLD);
+    expect(nameSimilarity('Katherine Smith', 'Kevin Stone')).toBeLessThan(NAME_MATCH_THRESHOLD);
+  });
+
+  it('needs numbers to match exactly', () => {
+    expect(nameSimilarity('Candidate 12', 'Candidate 13')).toBe(0);
+    expect(nameSimilarity('', 'Ana')).toBe(0);
+  });
+});
+
+describe('duplicateScore', () => {
+  it('ranks a shared email over a shared phone and adds a similar name to either', () => {
+    expect(duplicateScore(['email'], 0)).toBe(95);
+    expect(duplicateScore(['phone'], 0)).toBe(75);
+    expect(duplicateScore(['phone', 'name'], 0.9)).toBe(95);
+    expect(duplicateScore(['email', 'phone', 'name'], 1)).toBe(100);
+  });
+
+  it('scores a name match alone by its similarity', () => {
+    expect(duplicateScore(['name'], 0.9)).toBe(63);
+  });
+});
+
+describe('duplicatePairKey', () => {
+  it('is the same either way round', () => {
+    expect(duplicatePairKey('person-2', 'person-1')).toBe(duplicatePairKey('person-1', 'person-2'));
+  });
+});
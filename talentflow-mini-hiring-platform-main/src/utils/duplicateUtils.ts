@@ -0,0 +1,90 @@
+import { DuplicateReason } from '../types';
+
+// Names at least this similar are flagged even without a shared email or phone
+export const NAME_MATCH_THRESHOLD = 0.88;
+
+// Name blocks larger than this are too common to compare pairwise ("john", "candidate")
+export const MAX_NAME_BLOCK_SIZE = 200;
+
+// Mailbox identity: case, "+tags" and, for Gmail, dots don't change where mail goes
+export const canonicalEmail = (email: string) => {
+  const [local = '', domain = ''] = (email || '').trim().toLowerCase().split('@');
+  const base = local.split('+')[0];
+  const gmail = domain === 'gmail.com' || domain === 'googlemail.com';
+  return `${gmail ? base.replace(/\./g, '') : base}@${gmail ? 'gmail.com' : domain}`;
+};
+
+// Last ten digits, so "+1 (555) 010-2030" and "555.010.2030" match; short numbers are ignored
+export const phoneKey = (phone: string) => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+export const nameTokens = (name: string) =>
+  (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+// Keys a name is filed under so only names sharing one are compared
+export const nameBlockKeys = (name: string) =>
+  Array.from(new Set(nameTokens(name).map(token => /\d/.test(token) ? token : token.slice(0, 3))));
+
+const bigrams = (text: string) => {
+  const grams: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) grams.push(text.slice(i, i + 2));
+  return grams;
+};
+
+// Dice coefficient over letter pairs of the sorted name tokens, so word order doesn't
+// matter. Numbers must match exactly: "Candidate 12" is not "Candidate 13".
+export const nameSimilarity = (a: string, b: string) => {
+  const tokensA = nameTokens(a).sort();
+  const tokensB = nameTokens(b).sort();
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const numbersA = tokensA.filter(token => /\d/.test(token)).join(' ');
+  const numbersB = tokensB.filter(token => /\d/.test(token)).join(' ');
+  if (numbersA !== numbersB) return 0;
+
+  const textA = tokensA.join(' ');
+  const textB = tokensB.join(' ');
+  if (textA === textB) return 1;
+
+  const gramsA = bigrams(textA);
+  const gramsB = bigrams(textB);
+  if (gramsA.length === 0 || gramsB.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  gramsA.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+  let shared = 0;
+  gramsB.forEach(gram => {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  });
+  return (2 * shared) / (gramsA.length + gramsB.length);
+};
+
+// Confidence for the review queue: a shared mailbox is near certain, a shared phone
+// strong, and a similar name adds to either or stands on its own when very close
+export const duplicateScore = (reasons: DuplicateReason[], similarity: number) => {
+  let score = 0;
+  if (reasons.includes('email')) score = 95;
+  else if (reasons.includes('phone')) score = 75;
+  if (reasons.includes('name')) score = score ? Math.max(score, 90) + 5 : Math.round(similarity * 70);
+  return Math.min(score, 100);
+};
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  name: 'Similar name'
+};
+
+// Order-independent key for a pair of people
+export const duplicatePairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
@@ -0,0 +1,170 @@
+import { AssessmentSubmission, Candidate, Job, Pipeline } from '../types';
+import { getStage, resolvePipeline } from './pipelineUtils';
+import { EMPLOYMENT_TYPE_LABELS, REMOTE_POLICY_LABELS, SENIORITY_LABELS } from './jobUtils';
+import { JOB_STATUS_LABELS } from './requisitionUtils';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportDataset = 'candidates' | 'applications' | 'jobs' | 'submissions';
+
+// The filters active in the list being exported; each dataset reads the ones it knows
+export interface ExportFilters {
+  search?: string;
+  stage?: string;
+  jobId?: string;
+  status?: string;
+  tag?: string;
+  company?: string;
+  department?: string;
+  employmentType?: string;
+  seniority?: string;
+  remotePolicy?: string;
+  sortBy?: string;
+}
+
+// Lookups shared by the column formatters
+export interface ExportContext {
+  jobs: Record<string, Job>;
+  pipelines: Pipeline[];
+  candidates: Record<string, Candidate>; // By candidate id, for submissions
+  now: number;
+}
+
+export type ExportValue = string | number | undefined;
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  default?: boolean; // Selected when the dialog opens
+  value: (record: T, context: ExportContext) => ExportValue;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (value?: string) => (value ? value.slice(0, 10) : undefined);
+
+const formatDateTime = (value?: string) => (value ? value.slice(0, 16).replace('T', ' ') : undefined);
+
+// When the candidate entered their current stage: the latest move into it, or the application
+export const getStageEnteredAt = (candidate: Candidate) => {
+  const entries = candidate.timeline.filter(entry => entry.stage === candidate.stage);
+  return entries.length > 0 ? entries[entries.length - 1].timestamp : candidate.appliedAt;
+};
+
+export const getDaysInStage = (candidate: Candidate, now: number) =>
+  Math.max(0, Math.floor((now - new Date(getStageEnteredAt(candidate)).getTime()) / DAY_MS));
+
+const stageLabel = (candidate: Candidate, context: ExportContext) => {
+  const job = context.jobs[candidate.jobId];
+  return getStage(resolvePipeline(job, context.pipelines), candidate.stage).label;
+};
+
+const assessmentStatus = (candidate: Candidate) =>
+  candidate.assessmentCompleted ? 'Completed' : candidate.assessmentInvited ? 'Invited' : 'Not invited';
+
+const CANDIDATE_COLUMNS: Record<string, ExportColumn<Candidate>> = {
+  name: { key: 'name', label: 'Name', default: true, value: c => c.name },
+  email: { key: 'email', label: 'Email', default: true, value: c => c.email },
+  phone: { key: 'phone', label: 'Phone', default: true, value: c => c.phone },
+  job: { key: 'job', label: 'Job', default: true, value: (c, context) => context.jobs[c.jobId]?.title },
+  stage: { key: 'stage', label: 'Stage', default: true, value: stageLabel },
+  daysInStage: { key: 'daysInStage', label: 'Days in Stage', default: true, value: (c, context) => getDaysInStage(c, context.now) },
+  stageEnteredAt: { key: 'stageEnteredAt', label: 'In Stage Since', value: c => formatDate(getStageEnteredAt(c)) },
+  appliedAt: { key: 'appliedAt', label: 'Applied', default: true, value: c => formatDate(c.appliedAt) },
+  matchScore: { key: 'matchScore', label: 'Match Score (%)', default: true, value: c => c.matchScore },
+  skills: { key: 'skills', label: 'Skills', value: c => (c.skills || []).join(', ') },
+  links: { key: 'links', label: 'Links', value: c => (c.links || []).join(' ') },
+  assessment: { key: 'assessment', label: 'Assessment', value: assessmentStatus },
+  lastMovedBy: { key: 'lastMovedBy', label: 'Last Moved By', value: c => c.timeline[c.timeline.length - 1]?.movedBy },
+  resume: { key: 'resume', label: 'Resume Text', value: c => c.resume }
+};
+
+export const CANDIDATE_EXPORT_COLUMNS: ExportColumn<Candidate>[] = [
+  CANDIDATE_COLUMNS.name,
+  CANDIDATE_COLUMNS.email,
+  CANDIDATE_COLUMNS.phone,
+  CANDIDATE_COLUMNS.job,
+  CANDIDATE_COLUMNS.stage,
+  CANDIDATE_COLUMNS.daysInStage,
+  CANDIDATE_COLUMNS.appliedAt,
+  CANDIDATE_COLUMNS.matchScore,
+  CANDIDATE_COLUMNS.skills,
+  CANDIDATE_COLUMNS.links,
+  CANDIDATE_COLUMNS.resume
+];
+
+// One job's applications, so the job itself is left out by default
+export const APPLICATION_EXPORT_COLUMNS: ExportColumn<Candidate>[] = [
+  CANDIDATE_COLUMNS.name,
+  CANDIDATE_COLUMNS.email,
+  CANDIDATE_COLUMNS.stage,
+  CANDIDATE_COLUMNS.daysInStage,
+  CANDIDATE_COLUMNS.stageEnteredAt,
+  CANDIDATE_COLUMNS.appliedAt,
+  CANDIDATE_COLUMNS.matchScore,
+  { ...CANDIDATE_COLUMNS.assessment, default: true },
+  CANDIDATE_COLUMNS.lastMovedBy,
+  { ...CANDIDATE_COLUMNS.job, default: false },
+  CANDIDATE_COLUMNS.phone,
+  CANDIDATE_COLUMNS.skills
+];
+
+export const JOB_EXPORT_COLUMNS: ExportColumn<Job>[] = [
+  { key: 'title', label: 'Title', default: true, value: j => j.title },
+  { key: 'status', label: 'Status', default: true, value: j => JOB_STATUS_LABELS[j.status] },
+  { key: 'company', label: 'Company', default: true, value: j => j.company },
+  { key: 'department', label: 'Department', default: true, value: j => j.department },
+  { key: 'location', label: 'Location', default: true, value: j => j.location },
+  { key: 'employmentType', label: 'Employment Type', value: j => EMPLOYMENT_TYPE_LABELS[j.employmentType] },
+  { key: 'seniority', label: 'Seniority', value: j => SENIORITY_LABELS[j.seniority] },
+  { key: 'remotePolicy', label: 'Remote Policy', value: j => REMOTE_POLICY_LABELS[j.remotePolicy] },
+  { key: 'salaryMin', label: 'Salary Min', value: j => j.salary?.min },
+  { key: 'salaryMax', label: 'Salary Max', value: j => j.salary?.max },
+  { key: 'salaryCurrency', label: 'Salary Currency', value: j => j.salary?.currency },
+  { key: 'openings', label: 'Openings', default: true, value: j => j.openings },
+  { key: 'tags', label: 'Tags', default: true, value: j => j.tags.join(', ') },
+  { key: 'order', label: 'Order', value: j => j.order },
+  { key: 'slug', label: 'Slug', value: j => j.slug },
+  { key: 'createdAt', label: 'Created', default: true, value: j => formatDate(j.createdAt) },
+  { key: 'updatedAt', label: 'Updated', value: j => formatDate(j.updatedAt) },
+  { key: 'description', label: 'Description', value: j => j.description }
+];
+
+const submissionCandidate = (s: AssessmentSubmission, context: ExportContext) => context.candidates[s.candidateId];
+
+export const SUBMISSION_EXPORT_COLUMNS: ExportColumn<AssessmentSubmission>[] = [
+  { key: 'name', label: 'Name', default: true, value: (s, context) => submissionCandidate(s, context)?.name },
+  { key: 'email', label: 'Email', default: true, value: (s, context) => submissionCandidate(s, context)?.email },
+  { key: 'submittedAt', label: 'Submitted', default: true, value: s => formatDateTime(s.submittedAt) },
+  { key: 'score', label: 'Score (%)', default: true, value: s => s.score },
+  { key: 'maxScore', label: 'Max Points', value: s => s.maxScore },
+  { key: 'scoredQuestions', label: 'Scored Questions', value: s => s.scoredQuestions },
+  { key: 'answered', label: 'Questions Answered', default: true, value: s => Object.keys(s.responses || {}).length },
+  {
+    key: 'stage',
+    label: 'Current Stage',
+    value: (s, context) => {
+      const candidate = submissionCandidate(s, context);
+      return candidate && stageLabel(candidate, context);
+    }
+  }
+];
+
+export const EXPORT_COLUMNS: { [D in ExportDataset]: ExportColumn<any>[] } = {
+  candidates: CANDIDATE_EXPORT_COLUMNS,
+  applications: APPLICATION_EXPORT_COLUMNS,
+  jobs: JOB_EXPORT_COLUMNS,
+  submissions: SUBMISSION_EXPORT_COLUMNS
+};
+
+export const getDefaultExportColumns = (dataset: ExportDataset) =>
+  EXPORT_COLUMNS[dataset].filter(column => column.default).map(column => column.key);
+
+// Header row plus one row per record, in the order the columns are listed
+export const toExportRows = <T>(columns: ExportColumn<T>[], records: T[], context: ExportContext): ExportValue[][] => [
+  columns.map(column => column.label),
+  ...records.map(record => columns.map(column => column.value(record, context)))
+];
+
+export const toExportFilename = (base: string, format: ExportFormat, now = new Date()) =>
+  `${base.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export'}-${now.toISOString().slice(0, 10)}.${format}`;
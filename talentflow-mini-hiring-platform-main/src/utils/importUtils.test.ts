@@ -0,0 +1,55 @@
+import { DEFAULT_PIPELINE } from './pipelineUtils';
+import {
+  guessImportMapping,
+  mapImportRows,
+  resolveImportStage,
+  splitImportLinks,
+  splitImportSkills,
+  validateImportRow
+} from './importUtils';
+
+describe('guessImportMapping', () => {
+  it('recognises header spellings and leaves unknown columns out', () => {
+    expect(guessImportMapping(['Full_Name', ' E-mail ', 'Favourite colour', 'Pipeline Stage'])).toEqual({ name: 0, email: 1, stage: 3 });
+  });
+});
+
+describe('mapImportRows', () => {
+  it('numbers rows from the line after the header and drops blank cells', () => {
+    expect(mapImportRows([['name', 'email'], [' Ana ', 'ana@example.com'], ['', 'ben@example.com'], ['Cy']], { name: 0, email: 1 })).toEqual([
+      { row: 2, name: 'Ana', email: 'ana@example.com' },
+      { row: 3, email: 'ben@example.com' },
+      { row: 4, name: 'Cy' }
+    ]);
+  });
+});
+
+describe('import cell parsing', () => {
+  it('splits skills and links and adds a scheme to bare links', () => {
+    expect(splitImportSkills('React, TypeScript;; Node ')).toEqual(['React', 'TypeScript', 'Node']);
+    expect(splitImportLinks('github.com/ana; https://ana.dev  HTTP://x.test')).toEqual(['https://github.com/ana', 'https://ana.dev', 'HTTP://x.test']);
+    expect(splitImportSkills()).toEqual([]);
+  });
+
+  it('resolves stages by id or label and defaults to the first stage', () => {
+    expect(resolveImportStage(DEFAULT_PIPELINE, 'TECH')?.id).toBe('tech');
+    expect(resolveImportStage(DEFAULT_PIPELINE, ' screening ')?.id).toBe('screen');
+    expect(resolveImportStage(DEFAULT_PIPELINE)?.id).toBe('applied');
+    expect(resolveImportStage(DEFAULT_PIPELINE, 'onsite')).toBeUndefined();
+  });
+});
+
+describe('validateImportRow', () => {
+  it('accepts a row with a valid email', () => {
+    expect(validateImportRow({ row: 2, email: 'ana@example.com', stage: 'Offer', skills: 'React' }, DEFAULT_PIPELINE)).toEqual([]);
+  });
+
+  it('reports every problem with a row', () => {
+    expect(validateImportRow({ row: 2 }, DEFAULT_PIPELINE)).toEqual(['Email is required']);
+    expect(validateImportRow({ row: 3, email: 'ana@', stage: 'onsite', skills: 'x'.repeat(51) }, DEFAULT_PIPELINE)).toEqual([
+      '"ana@" is not a valid email',
+      'Unknown stage "onsite"',
+      'Skills must be 50 characters or fewer'
+    ]);
+  });
+});
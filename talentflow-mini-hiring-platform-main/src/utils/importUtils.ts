@@ -0,0 +1,81 @@
+import { CandidateImportRow, Pipeline } from '../types';
+import { validateSkills } from './skillUtils';
+
+export type ImportField = Exclude<keyof CandidateImportRow, 'row'>;
+
+// Candidate fields a CSV column can fill, with header spellings recognized automatically
+export const IMPORT_FIELDS: { key: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { key: 'name', label: 'Name', aliases: ['name', 'full name', 'candidate', 'candidate name'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['email', 'e-mail', 'email address', 'mail'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'mobile', 'telephone', 'tel'] },
+  { key: 'stage', label: 'Stage', aliases: ['stage', 'status', 'pipeline stage'] },
+  { key: 'skills', label: 'Skills', aliases: ['skills', 'skill', 'technologies', 'tags'] },
+  { key: 'links', label: 'Links', aliases: ['links', 'link', 'linkedin', 'website', 'portfolio', 'url'] },
+  { key: 'resume', label: 'Resume text', aliases: ['resume', 'cv', 'summary', 'notes'] }
+];
+
+// Column index per field; fields without a column are left out
+export type ImportMapping = Partial<Record<ImportField, number>>;
+
+export const MAX_IMPORT_ROWS = 5000;
+// Rows written per request, each in one IndexedDB transaction
+export const IMPORT_CHUNK_SIZE = 100;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const headerKey = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+
+export const guessImportMapping = (headers: string[]): ImportMapping => {
+  const mapping: ImportMapping = {};
+  const keys = headers.map(headerKey);
+  IMPORT_FIELDS.forEach(field => {
+    const index = keys.findIndex(key => field.aliases.includes(key));
+    if (index !== -1) mapping[field.key] = index;
+  });
+  return mapping;
+};
+
+// Data rows (after the header) as import rows; line numbers count the header as line 1
+export const mapImportRows = (rows: string[][], mapping: ImportMapping): CandidateImportRow[] =>
+  rows.slice(1).map((cells, i) => {
+    const row: CandidateImportRow = { row: i + 2 };
+    IMPORT_FIELDS.forEach(({ key }) => {
+      const index = mapping[key];
+      const value = index !== undefined ? (cells[index] || '').trim() : '';
+      if (value) row[key] = value;
+    });
+    return row;
+  });
+
+export const splitImportSkills = (value?: string) =>
+  (value || '').split(/[,;]/).map(skill => skill.trim()).filter(Boolean);
+
+export const splitImportLinks = (value?: string) =>
+  (value || '').split(/[\s;]+/).map(link => link.trim()).filter(Boolean)
+    .map(link => /^https?:\/\//i.test(link) ? link : `https://${link}`);
+
+// Stage columns may hold the stage id ("tech") or its label ("Technical Interview")
+export const resolveImportStage = (pipeline: Pipeline, value?: string) => {
+  if (!value) return pipeline.stages[0];
+  const key = value.trim().toLowerCase();
+  return pipeline.stages.find(stage => stage.id.toLowerCase() === key || stage.label.toLowerCase() === key);
+};
+
+// Checks that need nothing but the row and the job's pipeline
+export const validateImportRow = (row: CandidateImportRow, pipeline: Pipeline): string[] => {
+  const errors: string[] = [];
+
+  if (!row.email) {
+    errors.push('Email is required');
+  } else if (!EMAIL_PATTERN.test(row.email)) {
+    errors.push(`"${row.email}" is not a valid email`);
+  }
+  if (row.stage && !resolveImportStage(pipeline, row.stage)) {
+    errors.push(`Unknown stage "${row.stage}"`);
+  }
+  if (row.skills) {
+    errors.push(...validateSkills(splitImportSkills(row.skills)));
+  }
+
+  return errors;
+};
@@ -0,0 +1,102 @@
+import { Interview, Interviewer } from '../types';
+import {
+  DEFAULT_AVAILABILITY,
+  findInterviewConflicts,
+  getDefaultInterviewType,
+  isWithinAvailability,
+  overlaps,
+  startOfWeek,
+  validateInterview
+} from './interviewUtils';
+
+// Local times, so the availability checks don't depend on the machine's time zone
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 0, day, hours, minutes).toISOString();
+const MONDAY = 8;
+const SATURDAY = 13;
+
+const interviewer: Interviewer = { id: 1, name: 'Dana', email: 'dana@talentflow.test', role: 'interviewer', availability: DEFAULT_AVAILABILITY };
+
+const booking = (overrides: Partial<Interview>): Interview => ({
+  id: 'interview-1',
+  applicationId: 'application-1',
+  candidateId: 'candidate-1',
+  jobId: 'job-1',
+  interviewerIds: [1],
+  type: 'technical',
+  status: 'scheduled',
+  startTime: at(MONDAY, 10),
+  endTime: at(MONDAY, 11),
+  createdBy: 'HR',
+  createdAt: at(1, 9),
+  updatedAt: at(1, 9),
+  ...overrides
+});
+
+describe('overlaps', () => {
+  it('treats back-to-back slots as free', () => {
+    expect(overlaps(at(MONDAY, 10), at(MONDAY, 11), at(MONDAY, 10, 30), at(MONDAY, 11, 30))).toBe(true);
+    expect(overlaps(at(MONDAY, 10), at(MONDAY, 11), at(MONDAY, 11), at(MONDAY, 12))).toBe(false);
+  });
+});
+
+describe('isWithinAvailability', () => {
+  it('needs the whole slot inside one window on one day', () => {
+    expect(isWithinAvailability(DEFAULT_AVAILABILITY, at(MONDAY, 9), at(MONDAY, 17))).toBe(true);
+    expect(isWithinAvailability(DEFAULT_AVAILABILITY, at(MONDAY, 16, 30), at(MONDAY, 17, 30))).toBe(false);
+    expect(isWithinAvailability(DEFAULT_AVAILABILITY, at(SATURDAY, 10), at(SATURDAY, 11))).toBe(false);
+    expect(isWithinAvailability(DEFAULT_AVAILABILITY, at(MONDAY, 16), at(MONDAY + 1, 10))).toBe(false);
+  });
+});
+
+describe('findInterviewConflicts', () => {
+  const slot = { startTime: at(MONDAY, 10, 30), endTime: at(MONDAY, 11, 30), interviewerIds: [1] };
+
+  it('reports double bookings against scheduled interviews only', () => {
+    const conflicts = findInterviewConflicts(slot, [interviewer], [
+      booking({}),
+      booking({ id: 'interview-2', status: 'cancelled' }),
+      booking({ id: 'interview-3', interviewerIds: [2] })
+    ]);
+    expect(conflicts.map(c => [c.reason, c.interviewId])).toEqual([['double-booked', 'interview-1']]);
+  });
+
+  it('reports slots outside working hours', () => {
+    const conflicts = findInterviewConflicts({ ...slot, startTime: at(SATURDAY, 10), endTime: at(SATURDAY, 11) }, [interviewer], []);
+    expect(conflicts).toEqual([{ interviewerId: 1, interviewerName: 'Dana', reason: 'unavailable', message: 'Dana is not available at this time' }]);
+  });
+
+  it('names interviewers it has no record of by id', () => {
+    const conflicts = findInterviewConflicts({ ...slot, interviewerIds: [7] }, [], [booking({ interviewerIds: [7] })]);
+    expect(conflicts.map(c => c.interviewerName)).toEqual(['User 7']);
+  });
+});
+
+describe('validateInterview', () => {
+  it('accepts a complete interview', () => {
+    expect(validateInterview(booking({ videoLink: 'https://meet.test/abc' }))).toEqual([]);
+  });
+
+  it('reports every missing or invalid field', () => {
+    expect(validateInterview({ interviewerIds: [], type: 'lunch' as any, startTime: at(MONDAY, 11), endTime: at(MONDAY, 10), videoLink: 'meet.test' })).toEqual([
+      'An application is required',
+      'Pick at least one interviewer',
+      'Pick an interview type',
+      'The interview must end after it starts',
+      'The video link must be an http(s) URL'
+    ]);
+    expect(validateInterview({ applicationId: 'application-1', interviewerIds: [1], type: 'onsite' })).toEqual(['Start and end time are required']);
+  });
+});
+
+describe('scheduling helpers', () => {
+  it('suggests an interview type for the stage', () => {
+    expect(getDefaultInterviewType('screen')).toBe('phone-screen');
+    expect(getDefaultInterviewType('take-home')).toBe('technical');
+    expect(getDefaultInterviewType()).toBe('onsite');
+  });
+
+  it('starts weeks on Monday', () => {
+    expect(startOfWeek(new Date(2024, 0, 14, 15))).toEqual(new Date(2024, 0, MONDAY));
+    expect(startOfWeek(new Date(2024, 0, MONDAY, 8))).toEqual(new Date(2024, 0, MONDAY));
+  });
+});
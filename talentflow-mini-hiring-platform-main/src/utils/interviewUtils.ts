@@ -0,0 +1,143 @@
+import { AvailabilityWindow, Interview, InterviewConflict, Interviewer, InterviewType } from '../types';
+
+export const INTERVIEW_TYPES: { value: InterviewType; label: string; icon: string }[] = [
+  { value: 'phone-screen', label: 'Phone Screen', icon: '📞' },
+  { value: 'technical', label: 'Technical', icon: '💻' },
+  { value: 'onsite', label: 'Onsite', icon: '🏢' },
+  { value: 'portfolio-review', label: 'Portfolio Review', icon: '🎨' },
+  { value: 'culture-fit', label: 'Culture Fit', icon: '🤝' },
+  { value: 'other', label: 'Other', icon: '🗓️' }
+];
+
+export const INTERVIEW_DURATIONS = [30, 45, 60, 90, 120];
+
+// Monday to Friday, 09:00-17:00 local time
+export const DEFAULT_AVAILABILITY: AvailabilityWindow[] = [1, 2, 3, 4, 5].map(weekday => ({
+  weekday,
+  start: '09:00',
+  end: '17:00'
+}));
+
+// Interview type suggested for the stage a candidate is in
+export const getDefaultInterviewType = (stageId?: string): InterviewType => {
+  if (stageId === 'screen') return 'phone-screen';
+  if (stageId === 'tech' || stageId === 'take-home') return 'technical';
+  if (stageId === 'portfolio') return 'portfolio-review';
+  return 'onsite';
+};
+
+export const getInterviewTypeLabel = (type: InterviewType) =>
+  INTERVIEW_TYPES.find(t => t.value === type)?.label || type;
+
+export const getInterviewTypeIcon = (type: InterviewType) =>
+  INTERVIEW_TYPES.find(t => t.value === type)?.icon || '🗓️';
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+export const overlaps = (aStart: string, aEnd: string, bStart: string, bEnd: string) =>
+  new Date(aStart) < new Date(bEnd) && new Date(bStart) < new Date(aEnd);
+
+// A slot fits when it sits on one day inside a single availability window
+export const isWithinAvailability = (availability: AvailabilityWindow[], startTime: string, endTime: string) => {
+  const start = new Date(startTime);
+  const end = new Date(endTime);
+  if (start.toDateString() !== end.toDateString()) return false;
+
+  return availability.some(window =>
+    window.weekday === start.getDay() &&
+    toMinutes(window.start) <= minutesOfDay(start) &&
+    minutesOfDay(end) <= toMinutes(window.end)
+  );
+};
+
+export const findInterviewConflicts = (
+  slot: Pick<Interview, 'startTime' | 'endTime' | 'interviewerIds'>,
+  interviewers: Interviewer[],
+  booked: Interview[]
+): InterviewConflict[] => {
+  const conflicts: InterviewConflict[] = [];
+
+  slot.interviewerIds.forEach(interviewerId => {
+    const interviewer = interviewers.find(i => i.id === interviewerId);
+    const interviewerName = interviewer?.name || `User ${interviewerId}`;
+
+    if (interviewer && !isWithinAvailability(interviewer.availability, slot.startTime, slot.endTime)) {
+      conflicts.push({
+        interviewerId,
+        interviewerName,
+        reason: 'unavailable',
+        message: `${interviewerName} is not available at this time`
+      });
+    }
+
+    booked
+      .filter(interview =>
+        interview.status === 'scheduled' &&
+        interview.interviewerIds.includes(interviewerId) &&
+        overlaps(slot.startTime, slot.endTime, interview.startTime, interview.endTime)
+      )
+      .forEach(interview => conflicts.push({
+        interviewerId,
+        interviewerName,
+        reason: 'double-booked',
+        message: `${interviewerName} already has an interview from ${formatTime(interview.startTime)} to ${formatTime(interview.endTime)}`,
+        interviewId: interview.id
+      }));
+  });
+
+  return conflicts;
+};
+
+export const validateInterview = (interview: Partial<Interview>): string[] => {
+  const errors: string[] = [];
+
+  if (!interview.applicationId) errors.push('An application is required');
+  if (!interview.interviewerIds || interview.interviewerIds.length === 0) errors.push('Pick at least one interviewer');
+  if (!interview.type || !INTERVIEW_TYPES.some(t => t.value === interview.type)) errors.push('Pick an interview type');
+
+  const start = new Date(interview.startTime || '');
+  const end = new Date(interview.endTime || '');
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    errors.push('Start and end time are required');
+  } else if (end <= start) {
+    errors.push('The interview must end after it starts');
+  }
+
+  if (interview.videoLink && !/^https?:\/\/\S+$/i.test(interview.videoLink)) {
+    errors.push('The video link must be an http(s) URL');
+  }
+
+  return errors;
+};
+
+export const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const formatInterviewSlot = (interview: Pick<Interview, 'startTime' | 'endTime'>) =>
+  `${new Date(interview.startTime).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}, ${formatTime(interview.startTime)} – ${formatTime(interview.endTime)}`;
+
+// Monday 00:00 of the week containing the date
+export const startOfWeek = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+export const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// Date and time strings for <input type="date"> and <input type="time">, in local time
+export const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const toTimeInputValue = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
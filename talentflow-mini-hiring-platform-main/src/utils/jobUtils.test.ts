@@ -0,0 +1,115 @@
+import {
+  JobPosition,
+  MAX_JOB_OPENINGS,
+  deriveJobFields,
+  formatSalary,
+  inferSeniority,
+  moveJobOrder,
+  splitJobTitle,
+  validateJobFields
+} from './jobUtils';
+
+const positions = (ids: string[]): JobPosition[] => ids.map((id, i) => ({ id, order: i + 1 }));
+
+// The list the changes produce, in order
+const apply = (jobs: JobPosition[], changes: JobPosition[]) => {
+  const orders = new Map(changes.map(change => [change.id, change.order]));
+  return jobs
+    .map(job => ({ id: job.id, order: orders.get(job.id) ?? job.order }))
+    .sort((a, b) => a.order - b.order)
+    .map(job => job.id);
+};
+
+describe('moveJobOrder', () => {
+  const jobs = positions(['a', 'b', 'c', 'd', 'e']);
+
+  it('moves a job down, shifting the jobs in between up', () => {
+    const changes = moveJobOrder(jobs, 'b', 4);
+    expect(changes).toEqual([{ id: 'c', order: 2 }, { id: 'd', order: 3 }, { id: 'b', order: 4 }]);
+    expect(apply(jobs, changes)).toEqual(['a', 'c', 'd', 'b', 'e']);
+  });
+
+  it('moves a job up, shifting the jobs in between down', () => {
+    expect(apply(jobs, moveJobOrder(jobs, 'e', 2))).toEqual(['a', 'e', 'b', 'c', 'd']);
+  });
+
+  it('reuses the order values in the range when they have gaps', () => {
+    const sparse = [{ id: 'a', order: 10 }, { id: 'b', order: 20 }, { id: 'c', order: 35 }];
+    expect(moveJobOrder(sparse, 'a', 35)).toEqual([{ id: 'b', order: 10 }, { id: 'c', order: 20 }, { id: 'a', order: 35 }]);
+  });
+
+  it('changes nothing for a move onto itself or an unknown job', () => {
+    expect(moveJobOrder(jobs, 'c', 3)).toEqual([]);
+    expect(moveJobOrder(jobs, 'z', 1)).toEqual([]);
+  });
+});
+
+describe('deriveJobFields', () => {
+  it('splits the company off the title and infers the rest', () => {
+    expect(deriveJobFields({ title: 'Senior Data Engineer - DataFlow', location: 'Remote (EU)' })).toEqual({
+      title: 'Senior Data Engineer',
+      company: 'DataFlow',
+      department: 'Data',
+      seniority: 'senior',
+      remotePolicy: 'remote'
+    });
+    expect(deriveJobFields({ title: 'Office Manager', location: 'Berlin, hybrid' })).toEqual({
+      title: 'Office Manager',
+      company: undefined,
+      department: undefined,
+      seniority: 'mid',
+      remotePolicy: 'hybrid'
+    });
+  });
+
+  it('keeps titles without a company whole', () => {
+    expect(splitJobTitle(' - DataFlow')).toEqual({ title: '- DataFlow' });
+    expect(splitJobTitle('Developer - ')).toEqual({ title: 'Developer -' });
+  });
+
+  it('prefers the most specific seniority word', () => {
+    expect(['Software Engineering Intern', 'Jr. Developer', 'Staff Engineer', 'Senior Team Lead', 'Sr Analyst', 'Engineer']
+      .map(inferSeniority)).toEqual(['intern', 'junior', 'principal', 'lead', 'senior', 'mid']);
+  });
+});
+
+describe('validateJobFields', () => {
+  it('only checks the fields present', () => {
+    expect(validateJobFields({})).toEqual([]);
+    expect(validateJobFields({ openings: 3, salary: { min: 100, max: 200, currency: 'EUR' } })).toEqual([]);
+  });
+
+  it('reports every invalid field', () => {
+    expect(validateJobFields({
+      company: 'x'.repeat(101),
+      employmentType: 'gig' as any,
+      openings: MAX_JOB_OPENINGS + 1,
+      salary: { min: 200, max: 100.5, currency: 'euro' }
+    })).toEqual([
+      'company must be text of at most 100 characters',
+      'employmentType must be one of full-time, part-time, contract, internship, temporary',
+      `openings must be a whole number from 1 to ${MAX_JOB_OPENINGS}`,
+      'salary.currency must be a three-letter currency code',
+      'salary.max must be a whole number of at least 0',
+      'salary.min cannot be above salary.max'
+    ]);
+  });
+});
+
+describe('formatSalary', () => {
+  const usd = (amount: number) =>
+    new Intl.NumberFormat(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
+  it('formats a range, a single amount or an open end', () => {
+    expect(formatSalary({ min: 120000, max: 150000, currency: 'USD' })).toBe(`${usd(120000)} – ${usd(150000)}`);
+    expect(formatSalary({ min: 90000, max: 90000, currency: 'USD' })).toBe(usd(90000));
+    expect(formatSalary({ min: 90000, currency: 'USD' })).toBe(`From ${usd(90000)}`);
+    expect(formatSalary({ max: 90000, currency: 'USD' })).toBe(`Up to ${usd(90000)}`);
+  });
+
+  it('is empty without amounts and falls back to the code for unknown currencies', () => {
+    expect(formatSalary()).toBe('');
+    expect(formatSalary({ currency: 'USD' })).toBe('');
+    expect(formatSalary({ min: 5, currency: 'X1' })).toBe(`From X1 ${(5).toLocaleString()}`);
+  });
+});
@@ -1,3 +1,5 @@
+import { EmploymentType, Job, RemotePolicy, SalaryRange, Seniority } from '../types';
+
 // Utility functions for job management
 export const generateSlug = (title: string): string => {
   return title
@@ -33,4 +35,163 @@ export const ensureUniqueSlug = async (baseSlug: string, excludeId?: string): Pr
   }
   
   return slug;
-};
\ No newline at end of file
+};
+export interface JobPosition {
+  id: string;
+  order: number;
+}
+
+// Move a job to the position currently held by `toOrder`. Only jobs between the two
+// positions change, and they reuse the order values already in that range, so orders
+// stay unique. `jobs` must include every job in the range; returns the changed positions.
+export const moveJobOrder = (jobs: JobPosition[], jobId: string, toOrder: number): JobPosition[] => {
+  const job = jobs.find(j => j.id === jobId);
+  if (!job || job.order === toOrder) return [];
+
+  const low = Math.min(job.order, toOrder);
+  const high = Math.max(job.order, toOrder);
+  const range = jobs.filter(j => j.order >= low && j.order <= high).sort((a, b) => a.order - b.order);
+  const others = range.filter(j => j.id !== jobId);
+  const sequence = toOrder > job.order ? [...others, job] : [job, ...others];
+
+  return sequence
+    .map((j, index) => ({ id: j.id, order: range[index].order }))
+    .filter((position, index) => position.order !== sequence[index].order);
+};
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  'full-time': 'Full-time',
+  'part-time': 'Part-time',
+  contract: 'Contract',
+  internship: 'Internship',
+  temporary: 'Temporary'
+};
+
+// Most junior first
+export const SENIORITY_LABELS: Record<Seniority, string> = {
+  intern: 'Intern',
+  junior: 'Junior',
+  mid: 'Mid-level',
+  senior: 'Senior',
+  lead: 'Lead',
+  principal: 'Principal'
+};
+
+export const REMOTE_POLICY_LABELS: Record<RemotePolicy, string> = {
+  onsite: 'On-site',
+  hybrid: 'Hybrid',
+  remote: 'Remote'
+};
+
+export const EMPLOYMENT_TYPES = Object.keys(EMPLOYMENT_TYPE_LABELS) as EmploymentType[];
+export const SENIORITY_LEVELS = Object.keys(SENIORITY_LABELS) as Seniority[];
+export const REMOTE_POLICIES = Object.keys(REMOTE_POLICY_LABELS) as RemotePolicy[];
+
+export const SALARY_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'INR', 'AUD'];
+
+export const MAX_JOB_OPENINGS = 1000;
+
+// What a job gets when nothing more specific is known
+export const DEFAULT_JOB_FIELDS: Pick<Job, 'employmentType' | 'seniority' | 'remotePolicy' | 'openings'> = {
+  employmentType: 'full-time',
+  seniority: 'mid',
+  remotePolicy: 'onsite',
+  openings: 1
+};
+
+// Older jobs packed the company into the title: "Backend Developer - DataFlow"
+export const splitJobTitle = (title: string): { title: string; company?: string } => {
+  const index = title.lastIndexOf(' - ');
+  if (index <= 0) return { title: title.trim() };
+  const company = title.slice(index + 3).trim();
+  return company ? { title: title.slice(0, index).trim(), company } : { title: title.trim() };
+};
+
+export const inferSeniority = (title: string): Seniority => {
+  if (/\bintern(ship)?\b/i.test(title)) return 'intern';
+  if (/\b(junior|jr\.?|graduate|entry[- ]level)\b/i.test(title)) return 'junior';
+  if (/\b(principal|staff|distinguished)\b/i.test(title)) return 'principal';
+  if (/\b(lead|head of)\b/i.test(title)) return 'lead';
+  if (/\b(senior|sr\.?)\b/i.test(title)) return 'senior';
+  return 'mid';
+};
+
+// First match wins, so the specific roles come before the catch-all engineering one
+const DEPARTMENT_PATTERNS: [RegExp, string][] = [
+  [/security/i, 'Security'],
+  [/designer|\bux\b|\bui\b/i, 'Design'],
+  [/product manager|project manager/i, 'Product'],
+  [/marketing/i, 'Marketing'],
+  [/writer/i, 'Documentation'],
+  [/devops|reliability|administrator|architect/i, 'Infrastructure'],
+  [/data|analyst|scientist|machine learning|\bai\b|\bml\b/i, 'Data'],
+  [/developer|engineer/i, 'Engineering']
+];
+
+export const inferDepartment = (title: string): string | undefined =>
+  DEPARTMENT_PATTERNS.find(([pattern]) => pattern.test(title))?.[1];
+
+export const inferRemotePolicy = (location: string): RemotePolicy =>
+  /remote/i.test(location) ? 'remote' : /hybrid/i.test(location) ? 'hybrid' : 'onsite';
+
+// Structured fields for a job that only had a title and location
+export const deriveJobFields = (job: Pick<Job, 'title' | 'location'>) => {
+  const { title, company } = splitJobTitle(job.title);
+  return {
+    title,
+    company,
+    department: inferDepartment(title),
+    seniority: inferSeniority(title),
+    remotePolicy: inferRemotePolicy(job.location)
+  };
+};
+
+const isWholeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && Math.floor(value) === value;
+
+// Problems with the structured fields of a create or update; only fields present are checked
+export const validateJobFields = (job: Partial<Job>): string[] => {
+  const errors: string[] = [];
+  (['company', 'department'] as const).forEach(field => {
+    const value = job[field];
+    if (value !== undefined && (typeof value !== 'string' || value.length > 100)) {
+      errors.push(`${field} must be text of at most 100 characters`);
+    }
+  });
+  if (job.employmentType !== undefined && !EMPLOYMENT_TYPES.includes(job.employmentType)) {
+    errors.push(`employmentType must be one of ${EMPLOYMENT_TYPES.join(', ')}`);
+  }
+  if (job.seniority !== undefined && !SENIORITY_LEVELS.includes(job.seniority)) {
+    errors.push(`seniority must be one of ${SENIORITY_LEVELS.join(', ')}`);
+  }
+  if (job.remotePolicy !== undefined && !REMOTE_POLICIES.includes(job.remotePolicy)) {
+    errors.push(`remotePolicy must be one of ${REMOTE_POLICIES.join(', ')}`);
+  }
+  if (job.openings !== undefined && (!isWholeNumber(job.openings) || job.openings < 1 || job.openings > MAX_JOB_OPENINGS)) {
+    errors.push(`openings must be a whole number from 1 to ${MAX_JOB_OPENINGS}`);
+  }
+  if (job.salary) {
+    const { min, max, currency } = job.salary;
+    if (!/^[A-Z]{3}$/.test(currency || '')) errors.push('salary.currency must be a three-letter currency code');
+    if (min !== undefined && (!isWholeNumber(min) || min < 0)) errors.push('salary.min must be a whole number of at least 0');
+    if (max !== undefined && (!isWholeNumber(max) || max < 0)) errors.push('salary.max must be a whole number of at least 0');
+    if (min !== undefined && max !== undefined && min > max) errors.push('salary.min cannot be above salary.max');
+  }
+  return errors;
+};
+
+// "$120,000 – $150,000", "From €50,000", or empty when there is no range
+export const formatSalary = (salary?: SalaryRange): string => {
+  if (!salary || (salary.min === undefined && salary.max === undefined)) return '';
+  const format = (amount: number) => {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency: salary.currency, maximumFractionDigits: 0 }).format(amount);
+    } catch {
+      return `${salary.currency} ${amount.toLocaleString()}`;
+    }
+  };
+  if (salary.min !== undefined && salary.max !== undefined) {
+    return salary.min === salary.max ? format(salary.min) : `${format(salary.min)} – ${format(salary.max)}`;
+  }
+  return salary.min !== undefined ? `From ${format(salary.min)}` : `Up to ${format(salary.max!)}`;
+};
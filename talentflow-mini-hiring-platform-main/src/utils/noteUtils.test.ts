@@ -0,0 +1,49 @@
+import { TeamMember } from '../types';
+import { NOTE_MAX_LENGTH, parseMentions, splitMentions, validateNote } from './noteUtils';
+
+const members: TeamMember[] = [
+  { id: 1, name: 'Ann', email: 'ann@talentflow.test', role: 'recruiter' },
+  { id: 2, name: 'Ann Lee', email: 'ann.lee@talentflow.test', role: 'interviewer' },
+  { id: 3, name: 'J. Doe (HR)', email: 'jdoe@talentflow.test', role: 'hr' }
+];
+
+describe('parseMentions', () => {
+  it('prefers the longest matching name', () => {
+    expect(parseMentions('Over to @Ann Lee', members)).toEqual([2]);
+    expect(parseMentions('Over to @Ann, then @ann lee', members)).toEqual([1, 2]);
+  });
+
+  it('lists each teammate once and ignores partial names', () => {
+    expect(parseMentions('@Ann @Ann @Annabel', members)).toEqual([1]);
+  });
+
+  it('handles names with regex characters', () => {
+    expect(parseMentions('cc @J. Doe (HR)', members)).toEqual([3]);
+  });
+
+  it('finds nothing without teammates', () => {
+    expect(parseMentions('@Ann', [])).toEqual([]);
+  });
+});
+
+describe('splitMentions', () => {
+  it('splits the text around mentions', () => {
+    expect(splitMentions('Ask @Ann Lee about it', ['Ann', 'Ann Lee'])).toEqual([
+      { text: 'Ask ', mention: false },
+      { text: '@Ann Lee', mention: true },
+      { text: ' about it', mention: false }
+    ]);
+  });
+
+  it('returns the text whole when nobody can be mentioned', () => {
+    expect(splitMentions('@Ann', [])).toEqual([{ text: '@Ann', mention: false }]);
+  });
+});
+
+describe('validateNote', () => {
+  it('rejects empty and overlong notes', () => {
+    expect(validateNote('  ')).toEqual(['A note cannot be empty']);
+    expect(validateNote('x'.repeat(NOTE_MAX_LENGTH + 1))).toEqual([`Notes are limited to ${NOTE_MAX_LENGTH} characters`]);
+    expect(validateNote('Strong systems answers')).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+import { TeamMember } from '../types';
+
+export const NOTE_MAX_LENGTH = 5000;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches "@Full Name" for any of the names, longest first so "@Ann Lee" wins over "@Ann"
+const mentionPattern = (names: string[]) => {
+  const sorted = Array.from(new Set(names.filter(Boolean))).sort((a, b) => b.length - a.length);
+  return sorted.length > 0 ? new RegExp(`@(${sorted.map(escapeRegExp).join('|')})(?![\\w])`, 'gi') : null;
+};
+
+// User ids of the teammates mentioned in a note
+export const parseMentions = (content: string, members: TeamMember[]): number[] => {
+  const pattern = mentionPattern(members.map(m => m.name));
+  if (!pattern) return [];
+
+  const ids = new Set<number>();
+  Array.from(content.matchAll(pattern)).forEach(match => {
+    const member = members.find(m => m.name.toLowerCase() === match[1].toLowerCase());
+    if (member) ids.add(member.id);
+  });
+  return Array.from(ids);
+};
+
+// Note text split into plain and mention parts for highlighting
+export const splitMentions = (content: string, names: string[]): { text: string; mention: boolean }[] => {
+  const pattern = mentionPattern(names);
+  if (!pattern) return [{ text: content, mention: false }];
+
+  const parts: { text: string; mention: boolean }[] = [];
+  let lastIndex = 0;
+  Array.from(content.matchAll(pattern)).forEach(match => {
+    if (match.index! > lastIndex) parts.push({ text: content.slice(lastIndex, match.index), mention: false });
+    parts.push({ text: match[0], mention: true });
+    lastIndex = match.index! + match[0].length;
+  });
+  if (lastIndex < content.length) parts.push({ text: content.slice(lastIndex), mention: false });
+  return parts;
+};
+
+export const validateNote = (content: string | undefined): string[] => {
+  const errors: string[] = [];
+  if (!content?.trim()) {
+    errors.push('A note cannot be empty');
+  } else if (content.length > NOTE_MAX_LENGTH) {
+    errors.push(`Notes are limited to ${NOTE_MAX_LENGTH} characters`);
+  }
+  return errors;
+};
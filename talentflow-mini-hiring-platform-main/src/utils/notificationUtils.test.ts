@@ -0,0 +1,8 @@
+import { getNotificationTypes } from './notificationUtils';
+
+describe('getNotificationTypes', () => {
+  it('offers staff and candidates only the notifications they can receive', () => {
+    expect(getNotificationTypes(true).map(t => t.value)).toEqual(['assessment-submitted', 'mention']);
+    expect(getNotificationTypes(false).map(t => t.value)).toEqual(['stage-changed', 'assessment-invited']);
+  });
+});
@@ -0,0 +1,21 @@
+import { NotificationType } from '../types';
+
+export const NOTIFICATION_TYPES: { value: NotificationType; label: string; description: string; audience: 'staff' | 'candidate' }[] = [
+  { value: 'stage-changed', label: 'Application updates', description: 'Your application moves to a new stage', audience: 'candidate' },
+  { value: 'assessment-invited', label: 'Assessment invitations', description: 'You are invited to take an assessment', audience: 'candidate' },
+  { value: 'assessment-submitted', label: 'Assessment submissions', description: 'A candidate submits an assessment', audience: 'staff' },
+  { value: 'mention', label: 'Mentions', description: 'A teammate @mentions you in a note', audience: 'staff' }
+];
+
+export const getNotificationTypes = (isStaff: boolean) =>
+  NOTIFICATION_TYPES.filter(t => t.audience === (isStaff ? 'staff' : 'candidate'));
+
+export const getNotificationIcon = (type: NotificationType) => {
+  switch (type) {
+    case 'stage-changed': return '📋';
+    case 'assessment-invited': return '📝';
+    case 'assessment-submitted': return '✅';
+    case 'mention': return '💬';
+    default: return '🔔';
+  }
+};
@@ -0,0 +1,71 @@
+// Role-based permissions checked by the mock API handlers and used by the UI to
+// decide which screens a signed-in user gets
+
+export type Role = 'HR' | 'Hiring Manager' | 'Interviewer' | 'Candidate';
+
+export type Permission =
+  | 'jobs:read'
+  | 'jobs:manage'
+  | 'jobs:approve'
+  | 'pipelines:read'
+  | 'pipelines:manage'
+  | 'candidates:read'
+  | 'candidates:manage'
+  | 'candidates:move'
+  | 'assessments:read'
+  | 'assessments:manage'
+  | 'submissions:read'
+  | 'interviews:read'
+  | 'interviews:manage'
+  | 'scorecards:read'
+  | 'scorecards:submit'
+  | 'notes:read'
+  | 'notes:write'
+  | 'applications:apply';
+
+export const ROLES: Role[] = ['HR', 'Hiring Manager', 'Interviewer', 'Candidate'];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  HR: [
+    'jobs:read', 'jobs:manage', 'jobs:approve',
+    'pipelines:read', 'pipelines:manage',
+    'candidates:read', 'candidates:manage', 'candidates:move',
+    'assessments:read', 'assessments:manage',
+    'submissions:read',
+    'interviews:read', 'interviews:manage',
+    'scorecards:read', 'scorecards:submit',
+    'notes:read', 'notes:write'
+  ],
+  'Hiring Manager': [
+    'jobs:read', 'jobs:approve',
+    'pipelines:read',
+    'candidates:read', 'candidates:move',
+    'assessments:read',
+    'submissions:read',
+    'interviews:read', 'interviews:manage',
+    'scorecards:read', 'scorecards:submit',
+    'notes:read', 'notes:write'
+  ],
+  Interviewer: [
+    'jobs:read',
+    'pipelines:read',
+    'candidates:read',
+    'assessments:read',
+    'submissions:read',
+    'interviews:read',
+    'scorecards:read', 'scorecards:submit',
+    'notes:read', 'notes:write'
+  ],
+  // Candidate reads are further limited to their own applications by the handlers
+  Candidate: [
+    'jobs:read',
+    'pipelines:read',
+    'applications:apply'
+  ]
+};
+
+export const hasPermission = (role: string | null | undefined, permission: Permission): boolean =>
+  !!role && (ROLE_PERMISSIONS[role as Role] || []).includes(permission);
+
+// Staff roles work with the HR screens; everyone else gets the candidate portal
+export const isStaffRole = (role: string | null | undefined): boolean => hasPermission(role, 'candidates:read');
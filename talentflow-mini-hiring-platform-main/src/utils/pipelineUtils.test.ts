@@ -0,0 +1,114 @@
+import { Job, Pipeline, PipelineStage } from '../types';
+import {
+  DEFAULT_PIPELINE,
+  DEFAULT_PIPELINE_ID,
+  PIPELINE_TEMPLATES,
+  getKnownStages,
+  getNextStage,
+  getStage,
+  resolvePipeline,
+  validatePipelineStages,
+  withTemplateRules
+} from './pipelineUtils';
+
+const engineering = PIPELINE_TEMPLATES.find(p => p.id === 'pipeline-engineering')!;
+
+describe('resolvePipeline', () => {
+  it("uses the job's pipeline, then the standard one", () => {
+    expect(resolvePipeline({ pipelineId: engineering.id } as Job, PIPELINE_TEMPLATES)).toBe(engineering);
+    expect(resolvePipeline({ pipelineId: 'pipeline-gone' } as Job, PIPELINE_TEMPLATES).id).toBe(DEFAULT_PIPELINE_ID);
+    expect(resolvePipeline(undefined, [])).toBe(DEFAULT_PIPELINE);
+  });
+});
+
+describe('getStage', () => {
+  it('falls back to a template stage, then to a gray stage named after the id', () => {
+    expect(getStage(DEFAULT_PIPELINE, 'take-home').label).toBe('Take-home');
+    expect(getStage(DEFAULT_PIPELINE, 'reference-check')).toEqual({
+      id: 'reference-check',
+      label: 'Reference check',
+      color: 'gray',
+      icon: '•'
+    });
+  });
+});
+
+describe('getKnownStages', () => {
+  it('lists each stage id once, first occurrence first', () => {
+    const ids = getKnownStages().map(stage => stage.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids.slice(0, 4)).toEqual(['applied', 'screen', 'tech', 'offer']);
+    expect(ids).toEqual(expect.arrayContaining(['take-home', 'portfolio']));
+  });
+});
+
+describe('getNextStage', () => {
+  it('steps through the active stages and ends on hired', () => {
+    expect(getNextStage(engineering, 'screen')?.id).toBe('take-home');
+    expect(getNextStage(engineering, 'offer')?.id).toBe('hired');
+    expect(getNextStage(engineering, 'hired')).toBeUndefined();
+  });
+});
+
+describe('withTemplateRules', () => {
+  it('fills in template rules without overwriting stored ones', () => {
+    const stored: Pipeline = {
+      ...DEFAULT_PIPELINE,
+      stages: DEFAULT_PIPELINE.stages.map(({ requiredFields, prerequisites, ...stage }) =>
+        stage.id === 'offer' ? { ...stage, requiredFields: [{ key: 'startDate', label: 'Start date', type: 'text' }] } : stage
+      )
+    };
+
+    const merged = withTemplateRules(stored);
+    expect(merged.stages.find(s => s.id === 'tech')?.prerequisites).toEqual(['assessment-completed']);
+    expect(merged.stages.find(s => s.id === 'offer')?.requiredFields).toEqual([{ key: 'startDate', label: 'Start date', type: 'text' }]);
+  });
+
+  it('leaves job-specific pipelines alone', () => {
+    const custom = { ...DEFAULT_PIPELINE, id: 'pipeline-job-1', stages: [] };
+    expect(withTemplateRules(custom)).toBe(custom);
+  });
+});
+
+describe('validatePipelineStages', () => {
+  const stage = (overrides: Partial<PipelineStage>): PipelineStage => ({ id: 'applied', label: 'Applied', color: 'blue', ...overrides });
+
+  it('accepts every built-in template', () => {
+    PIPELINE_TEMPLATES.forEach(pipeline => expect(validatePipelineStages(pipeline.stages)).toEqual([]));
+  });
+
+  it('needs at least one stage', () => {
+    expect(validatePipelineStages([])).toEqual(['A pipeline needs at least one stage']);
+  });
+
+  it('reports bad ids, duplicates and dangling references', () => {
+    expect(validatePipelineStages([
+      stage({ allowedNext: ['missing'] }),
+      stage({ label: 'Again' }),
+      stage({ id: 'Bad Id', label: 'Bad' })
+    ])).toEqual([
+      'Stage id "applied" is used more than once',
+      'Stage 3 needs an id of lower-case letters, numbers and hyphens',
+      'Stage "Applied" allows a move to unknown stage "missing"'
+    ]);
+  });
+
+  it('rejects a terminal first stage and outcomes on active stages', () => {
+    expect(validatePipelineStages([
+      stage({ terminal: true }),
+      stage({ id: 'offer', label: 'Offer', outcome: 'hired' })
+    ])).toEqual([
+      'Stage "Offer" has an outcome but is not terminal',
+      'The first stage cannot be terminal'
+    ]);
+  });
+
+  it('rejects unknown prerequisites and scorecard templates', () => {
+    expect(validatePipelineStages([
+      stage({ prerequisites: ['references-checked' as any], scorecardTemplateId: 'scorecard-missing' })
+    ])).toEqual([
+      'Stage "Applied" has an unknown prerequisite "references-checked"',
+      'Stage "Applied" uses an unknown scorecard template "scorecard-missing"'
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+import { Job, Pipeline, PipelineStage, StageColor, StageField } from '../types';
+import { SCORECARD_TEMPLATES } from './scorecardUtils';
+
+export const DEFAULT_PIPELINE_ID = 'pipeline-standard';
+
+const templateTimestamp = '2024-01-01T00:00:00.000Z';
+
+const OFFER_FIELDS: StageField[] = [{ key: 'offerAmount', label: 'Offer amount', type: 'number' }];
+const REJECTION_FIELDS: StageField[] = [{ key: 'rejectionReason', label: 'Rejection reason', type: 'text' }];
+
+// Built-in templates, seeded into the pipelines table
+export const PIPELINE_TEMPLATES: Pipeline[] = [
+  {
+    id: DEFAULT_PIPELINE_ID,
+    name: 'Standard',
+    description: 'Screen, technical interview and offer',
+    stages: [
+      { id: 'applied', label: 'Applied', color: 'blue', icon: '📝' },
+      { id: 'screen', label: 'Screening', color: 'yellow', icon: '📞', scorecardTemplateId: 'scorecard-screening' },
+      { id: 'tech', label: 'Technical', color: 'purple', icon: '💻', prerequisites: ['assessment-completed'], scorecardTemplateId: 'scorecard-technical' },
+      { id: 'offer', label: 'Offer', color: 'green', icon: '📄', requiredFields: OFFER_FIELDS },
+      { id: 'hired', label: 'Hired', color: 'emerald', icon: '✅', terminal: true, outcome: 'hired' },
+      { id: 'rejected', label: 'Rejected', color: 'red', icon: '❌', terminal: true, outcome: 'rejected', requiredFields: REJECTION_FIELDS }
+    ],
+    createdAt: templateTimestamp,
+    updatedAt: templateTimestamp
+  },
+  {
+    id: 'pipeline-engineering',
+    name: 'Engineering (take-home)',
+    description: 'Adds a take-home exercise before the technical interview',
+    stages: [
+      { id: 'applied', label: 'Applied', color: 'blue', icon: '📝' },
+      { id: 'screen', label: 'Screening', color: 'yellow', icon: '📞', scorecardTemplateId: 'scorecard-screening' },
+      { id: 'take-home', label: 'Take-home', color: 'orange', icon: '🏠', scorecardTemplateId: 'scorecard-technical' },
+      { id: 'tech', label: 'Technical', color: 'purple', icon: '💻', prerequisites: ['assessment-completed'], scorecardTemplateId: 'scorecard-technical' },
+      { id: 'offer', label: 'Offer', color: 'green', icon: '📄', requiredFields: OFFER_FIELDS },
+      { id: 'hired', label: 'Hired', color: 'emerald', icon: '✅', terminal: true, outcome: 'hired' },
+      { id: 'rejected', label: 'Rejected', color: 'red', icon: '❌', terminal: true, outcome: 'rejected', requiredFields: REJECTION_FIELDS }
+    ],
+    createdAt: templateTimestamp,
+    updatedAt: templateTimestamp
+  },
+  {
+    id: 'pipeline-design',
+    name: 'Design (portfolio review)',
+    description: 'Portfolio review replaces the technical interview',
+    stages: [
+      { id: 'applied', label: 'Applied', color: 'blue', icon: '📝' },
+      { id: 'screen', label: 'Screening', color: 'yellow', icon: '📞', scorecardTemplateId: 'scorecard-screening' },
+      { id: 'portfolio', label: 'Portfolio Review', color: 'pink', icon: '🎨', scorecardTemplateId: 'scorecard-portfolio' },
+      { id: 'offer', label: 'Offer', color: 'green', icon: '📄', requiredFields: OFFER_FIELDS },
+      { id: 'hired', label: 'Hired', color: 'emerald', icon: '✅', terminal: true, outcome: 'hired' },
+      { id: 'rejected', label: 'Rejected', color: 'red', icon: '❌', terminal: true, outcome: 'rejected', requiredFields: REJECTION_FIELDS }
+    ],
+    createdAt: templateTimestamp,
+    updatedAt: templateTimestamp
+  }
+];
+
+export const DEFAULT_PIPELINE = PIPELINE_TEMPLATES[0];
+
+// Fill in rules added to a built-in template without overwriting edits to stored stages
+export const withTemplateRules = (pipeline: Pipeline): Pipeline => {
+  const template = PIPELINE_TEMPLATES.find(t => t.id === pipeline.id);
+  if (!template) return pipeline;
+
+  return {
+    ...pipeline,
+    stages: pipeline.stages.map(stage => {
+      const templateStage = template.stages.find(s => s.id === stage.id);
+      return templateStage
+        ? {
+            ...stage,
+            allowedNext: stage.allowedNext ?? templateStage.allowedNext,
+            requiredFields: stage.requiredFields ?? templateStage.requiredFields,
+            prerequisites: stage.prerequisites ?? templateStage.prerequisites,
+            scorecardTemplateId: stage.scorecardTemplateId ?? templateStage.scorecardTemplateId
+          }
+        : stage;
+    })
+  };
+};
+
+// Literal class names so Tailwind keeps them when purging
+export const STAGE_COLOR_CLASSES: Record<StageColor, { badge: string; dot: string; soft: string }> = {
+  blue: { badge: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200', dot: 'bg-blue-500', soft: 'bg-blue-100 dark:bg-blue-900' },
+  yellow: { badge: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200', dot: 'bg-yellow-500', soft: 'bg-yellow-100 dark:bg-yellow-900' },
+  purple: { badge: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200', dot: 'bg-purple-500', soft: 'bg-purple-100 dark:bg-purple-900' },
+  indigo: { badge: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200', dot: 'bg-indigo-500', soft: 'bg-indigo-100 dark:bg-indigo-900' },
+  orange: { badge: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200', dot: 'bg-orange-500', soft: 'bg-orange-100 dark:bg-orange-900' },
+  pink: { badge: 'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200', dot: 'bg-pink-500', soft: 'bg-pink-100 dark:bg-pink-900' },
+  green: { badge: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200', dot: 'bg-green-500', soft: 'bg-green-100 dark:bg-green-900' },
+  emerald: { badge: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200', dot: 'bg-emerald-500', soft: 'bg-emerald-100 dark:bg-emerald-900' },
+  red: { badge: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200', dot: 'bg-red-500', soft: 'bg-red-100 dark:bg-red-900' },
+  gray: { badge: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200', dot: 'bg-gray-500', soft: 'bg-gray-100 dark:bg-gray-700' }
+};
+
+export const STAGE_COLORS = Object.keys(STAGE_COLOR_CLASSES) as StageColor[];
+
+export const resolvePipeline = (job: Job | undefined, pipelines: Pipeline[]): Pipeline => {
+  return pipelines.find(p => p.id === job?.pipelineId)
+    || pipelines.find(p => p.id === DEFAULT_PIPELINE_ID)
+    || DEFAULT_PIPELINE;
+};
+
+// Stage lookup that still renders stages no longer in the pipeline
+export const getStage = (pipeline: Pipeline | undefined, stageId: string): PipelineStage => {
+  const stage = pipeline?.stages.find(s => s.id === stageId)
+    || PIPELINE_TEMPLATES.flatMap(t => t.stages).find(s => s.id === stageId);
+
+  return stage || {
+    id: stageId,
+    label: stageId.charAt(0).toUpperCase() + stageId.slice(1).replace(/-/g, ' '),
+    color: 'gray',
+    icon: '•'
+  };
+};
+
+// Every distinct stage across pipelines, first occurrence wins
+export const getKnownStages = (pipelines: Pipeline[] = PIPELINE_TEMPLATES): PipelineStage[] => {
+  const seen = new Map<string, PipelineStage>();
+  pipelines.forEach(pipeline => pipeline.stages.forEach(stage => {
+    if (!seen.has(stage.id)) seen.set(stage.id, stage);
+  }));
+  return Array.from(seen.values());
+};
+
+export const getStageClasses = (pipeline: Pipeline | undefined, stageId: string) =>
+  STAGE_COLOR_CLASSES[getStage(pipeline, stageId).color] || STAGE_COLOR_CLASSES.gray;
+
+export const getActiveStages = (pipeline: Pipeline) => pipeline.stages.filter(s => !s.terminal);
+
+export const getOutcomeStage = (pipeline: Pipeline, outcome: 'hired' | 'rejected') =>
+  pipeline.stages.find(s => s.outcome === outcome);
+
+export const isTerminalStage = (pipeline: Pipeline, stageId: string) => !!getStage(pipeline, stageId).terminal;
+
+// Next step forward: the following active stage, then the hired outcome
+export const getNextStage = (pipeline: Pipeline, stageId: string): PipelineStage | undefined => {
+  if (isTerminalStage(pipeline, stageId)) return undefined;
+
+  const active = getActiveStages(pipeline);
+  const index = active.findIndex(s => s.id === stageId);
+  if (index >= 0 && index < active.length - 1) return active[index + 1];
+
+  return getOutcomeStage(pipeline, 'hired');
+};
+
+export const validatePipelineStages = (stages: PipelineStage[] | undefined): string[] => {
+  const errors: string[] = [];
+  if (!stages || stages.length === 0) {
+    return ['A pipeline needs at least one stage'];
+  }
+
+  const ids = new Set<string>();
+  stages.forEach((stage, index) => {
+    if (!stage.id || !/^[a-z0-9-]+$/.test(stage.id)) {
+      errors.push(`Stage ${index + 1} needs an id of lower-case letters, numbers and hyphens`);
+    } else if (ids.has(stage.id)) {
+      errors.push(`Stage id "${stage.id}" is used more than once`);
+    }
+    ids.add(stage.id);
+
+    if (!stage.label?.trim()) {
+      errors.push(`Stage ${index + 1} needs a label`);
+    }
+    if (!STAGE_COLORS.includes(stage.color)) {
+      errors.push(`Stage "${stage.label || stage.id}" has an unknown color`);
+    }
+    if (stage.outcome && !stage.terminal) {
+      errors.push(`Stage "${stage.label || stage.id}" has an outcome but is not terminal`);
+    }
+  });
+
+  stages.forEach(stage => {
+    const name = stage.label || stage.id;
+    (stage.allowedNext || []).forEach(nextId => {
+      if (!ids.has(nextId)) errors.push(`Stage "${name}" allows a move to unknown stage "${nextId}"`);
+    });
+    (stage.requiredFields || []).forEach(field => {
+      if (!field.key || !field.label || !['text', 'number'].includes(field.type)) {
+        errors.push(`Stage "${name}" has a required field without a key, label or valid type`);
+      }
+    });
+    (stage.prerequisites || []).forEach(prerequisite => {
+      if (prerequisite !== 'assessment-completed') errors.push(`Stage "${name}" has an unknown prerequisite "${prerequisite}"`);
+    });
+    if (stage.scorecardTemplateId && !SCORECARD_TEMPLATES.some(t => t.id === stage.scorecardTemplateId)) {
+      errors.push(`Stage "${name}" uses an unknown scorecard template "${stage.scorecardTemplateId}"`);
+    }
+  });
+
+  if (!stages.some(s => !s.terminal)) {
+    errors.push('A pipeline needs at least one non-terminal stage');
+  }
+  if (stages[0]?.terminal) {
+    errors.push('The first stage cannot be terminal');
+  }
+
+  return errors;
+};
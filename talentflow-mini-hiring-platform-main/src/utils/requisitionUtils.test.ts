@@ -0,0 +1,72 @@
+import { Job, JobApproval } from '../types';
+import {
+  APPROVAL_CHAIN_TEMPLATES,
+  REQUISITION_TRANSITIONS,
+  canApproveStep,
+  getCurrentApprovalStep,
+  getManagementActions,
+  validateApprovalChain
+} from './requisitionUtils';
+
+const [finance, leadership] = APPROVAL_CHAIN_TEMPLATES[0].steps;
+
+const approval = (currentStep: number): JobApproval => ({
+  chainId: APPROVAL_CHAIN_TEMPLATES[0].id,
+  chainName: APPROVAL_CHAIN_TEMPLATES[0].name,
+  steps: [finance, leadership],
+  currentStep,
+  submittedBy: 'HR',
+  submittedAt: '2024-01-01T00:00:00.000Z'
+});
+
+describe('REQUISITION_TRANSITIONS', () => {
+  it('only approves, rejects or withdraws pending requisitions', () => {
+    (['approve', 'reject', 'withdraw'] as const).forEach(action => {
+      expect(REQUISITION_TRANSITIONS[action].from).toEqual(['pending-approval']);
+    });
+    expect(REQUISITION_TRANSITIONS.reject.to).toBe('draft');
+  });
+
+  it('offers HR the actions for the status, leaving decisions to approvers', () => {
+    expect(getManagementActions('draft')).toEqual(['submit']);
+    expect(getManagementActions('pending-approval')).toEqual(['withdraw']);
+    expect(getManagementActions('open')).toEqual(['hold', 'close']);
+    expect(getManagementActions('closed')).toEqual(['reopen']);
+  });
+});
+
+describe('approval steps', () => {
+  it('waits on the current step of a pending requisition only', () => {
+    expect(getCurrentApprovalStep({ status: 'pending-approval', approval: approval(1) } as Job)).toBe(leadership);
+    expect(getCurrentApprovalStep({ status: 'open', approval: approval(2) } as Job)).toBeUndefined();
+    expect(getCurrentApprovalStep({ status: 'pending-approval' } as Job)).toBeUndefined();
+  });
+
+  it("lets only the step's approvers decide it, whatever the email's case", () => {
+    expect(canApproveStep(finance, 'HR@TalentFlow.com')).toBe(true);
+    expect(canApproveStep(leadership, 'hr@talentflow.com')).toBe(false);
+    expect(canApproveStep(undefined, 'manager@talentflow.com')).toBe(false);
+  });
+});
+
+describe('validateApprovalChain', () => {
+  it('accepts the built-in chains', () => {
+    APPROVAL_CHAIN_TEMPLATES.forEach(chain => expect(validateApprovalChain(chain)).toEqual([]));
+  });
+
+  it('reports every problem with the steps', () => {
+    expect(validateApprovalChain({ name: ' ', steps: [
+      { id: 'Finance', label: 'Finance', approverEmails: [] },
+      { id: 'legal', label: '', approverEmails: ['legal'] },
+      { id: 'legal', label: 'Legal', approverEmails: ['legal@talentflow.com'] }
+    ] })).toEqual([
+      'A chain needs a name',
+      'Finance needs an id of lower-case letters, numbers and hyphens',
+      'Finance needs at least one approver',
+      'Step 2 needs a label',
+      'Step 2 has an approver that is not an email address',
+      'Step id "legal" is used more than once'
+    ]);
+    expect(validateApprovalChain({ name: 'Chain' })).toEqual(['steps must be a list']);
+  });
+});
@@ -0,0 +1,120 @@
+import { ApprovalChain, ApprovalStep, Job, JobStatus, RequisitionAction } from '../types';
+
+export const DEFAULT_APPROVAL_CHAIN_ID = 'approval-standard';
+
+const templateTimestamp = '2024-01-01T00:00:00.000Z';
+
+// Built-in chains, seeded into the approvalChains table
+export const APPROVAL_CHAIN_TEMPLATES: ApprovalChain[] = [
+  {
+    id: DEFAULT_APPROVAL_CHAIN_ID,
+    name: 'Standard headcount',
+    description: 'Finance confirms the budget, then leadership signs off',
+    steps: [
+      { id: 'finance', label: 'Finance', approverEmails: ['hr@talentflow.com', 'manager@talentflow.com'] },
+      { id: 'leadership', label: 'Leadership', approverEmails: ['manager@talentflow.com'] }
+    ],
+    createdAt: templateTimestamp,
+    updatedAt: templateTimestamp
+  },
+  {
+    id: 'approval-backfill',
+    name: 'Backfill',
+    description: 'Replacing someone who left; the hiring manager signs off alone',
+    steps: [
+      { id: 'hiring-manager', label: 'Hiring Manager', approverEmails: ['manager@talentflow.com'] }
+    ],
+    createdAt: templateTimestamp,
+    updatedAt: templateTimestamp
+  }
+];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  draft: 'Draft',
+  'pending-approval': 'Pending approval',
+  open: 'Open',
+  'on-hold': 'On hold',
+  closed: 'Closed'
+};
+
+export const JOB_STATUSES = Object.keys(JOB_STATUS_LABELS) as JobStatus[];
+
+export const JOB_STATUS_CLASSES: Record<JobStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  'pending-approval': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  open: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  'on-hold': 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  closed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+};
+
+// Jobs candidates have been able to see; drafts and pending requisitions never were
+export const isPublishedStatus = (status: JobStatus) => status === 'open' || status === 'on-hold' || status === 'closed';
+
+interface RequisitionTransition {
+  label: string;
+  from: JobStatus[];
+  to: JobStatus; // For approve, where the last step leads; earlier steps stay pending
+}
+
+export const REQUISITION_TRANSITIONS: Record<RequisitionAction, RequisitionTransition> = {
+  submit: { label: 'Submit for approval', from: ['draft'], to: 'pending-approval' },
+  withdraw: { label: 'Withdraw', from: ['pending-approval'], to: 'draft' },
+  approve: { label: 'Approve', from: ['pending-approval'], to: 'open' },
+  reject: { label: 'Reject', from: ['pending-approval'], to: 'draft' },
+  hold: { label: 'Put on hold', from: ['open'], to: 'on-hold' },
+  resume: { label: 'Resume', from: ['on-hold'], to: 'open' },
+  close: { label: 'Close', from: ['open', 'on-hold'], to: 'closed' },
+  reopen: { label: 'Reopen as draft', from: ['closed'], to: 'draft' }
+};
+
+// Approvals are decided through their own endpoints
+export const DECISION_ACTIONS: RequisitionAction[] = ['approve', 'reject'];
+
+export const REQUISITION_ACTIONS = Object.keys(REQUISITION_TRANSITIONS) as RequisitionAction[];
+
+// What HR can do to a job in this status, besides approving or rejecting it
+export const getManagementActions = (status: JobStatus) =>
+  REQUISITION_ACTIONS.filter(action => !DECISION_ACTIONS.includes(action) && REQUISITION_TRANSITIONS[action].from.includes(status));
+
+export const REQUISITION_EVENT_LABELS: Record<RequisitionAction, string> = {
+  submit: 'Submitted for approval',
+  withdraw: 'Withdrawn',
+  approve: 'Approved',
+  reject: 'Rejected',
+  hold: 'Put on hold',
+  resume: 'Resumed',
+  close: 'Closed',
+  reopen: 'Reopened as draft'
+};
+
+// The sign-off a pending requisition is waiting for
+export const getCurrentApprovalStep = (job: Pick<Job, 'status' | 'approval'>): ApprovalStep | undefined =>
+  job.status === 'pending-approval' && job.approval ? job.approval.steps[job.approval.currentStep] : undefined;
+
+export const canApproveStep = (step: ApprovalStep | undefined, email: string) =>
+  !!step && step.approverEmails.some(approver => approver.toLowerCase() === email.toLowerCase());
+
+export const validateApprovalChain = (chain: Partial<ApprovalChain>): string[] => {
+  const errors: string[] = [];
+  if (!chain.name?.trim()) errors.push('A chain needs a name');
+  if (!Array.isArray(chain.steps)) return [...errors, 'steps must be a list'];
+
+  const ids = new Set<string>();
+  chain.steps.forEach((step, index) => {
+    const name = step.label?.trim() || `Step ${index + 1}`;
+    if (!step.id || !/^[a-z0-9-]+$/.test(step.id)) {
+      errors.push(`${name} needs an id of lower-case letters, numbers and hyphens`);
+    } else if (ids.has(step.id)) {
+      errors.push(`Step id "${step.id}" is used more than once`);
+    }
+    ids.add(step.id);
+
+    if (!step.label?.trim()) errors.push(`Step ${index + 1} needs a label`);
+    if (!Array.isArray(step.approverEmails) || step.approverEmails.length === 0) {
+      errors.push(`${name} needs at least one approver`);
+    } else if (step.approverEmails.some(email => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email))) {
+      errors.push(`${name} has an approver that is not an email address`);
+    }
+  });
+  return errors;
+};
@@ -0,0 +1,218 @@
+import { ResumeFileType } from '../types';
+
+// Plain-text extraction for uploaded resumes, done in the browser without a PDF or
+// Office library. It reads the text a typical exported resume carries; scanned
+// PDFs and fonts without a readable encoding come back empty or partial.
+
+const inflate = async (data: Uint8Array, format: 'deflate' | 'deflate-raw') => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const latin1 = (bytes: Uint8Array) => {
+  let text = '';
+  // Chunked so large files don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode.apply(null, Array.prototype.slice.call(bytes, i, i + 0x8000));
+  }
+  return text;
+};
+
+const tidy = (text: string) =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// --- DOCX: a zip archive whose word/document.xml holds the text ---
+
+const readZipEntry = async (buffer: ArrayBuffer, entryName: string): Promise<Uint8Array | undefined> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // The end-of-central-directory record sits in the last 64 KB (its comment is at most that long)
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) return undefined;
+
+  const entries = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < entries; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) return undefined;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = latin1(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (name === entryName) {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflate(data, 'deflate-raw');
+      return undefined;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return undefined;
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXmlEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCharCode(code);
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+
+const extractDocxText = async (blob: Blob) => {
+  const xml = await readZipEntry(await blob.arrayBuffer(), 'word/document.xml');
+  if (!xml) return '';
+
+  const text = new TextDecoder().decode(xml)
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:br[^>]*\/>|<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+  return decodeXmlEntities(text);
+};
+
+// --- PDF: text-showing operators inside (usually deflated) content streams ---
+
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+const decodePdfLiteral = (literal: string) =>
+  literal
+    .slice(1, -1)
+    .replace(/\\(\r\n|\n|\r)/g, '')
+    .replace(/\\([0-7]{1,3}|.)/g, (_match, escape: string) =>
+      /^[0-7]+$/.test(escape) ? String.fromCharCode(parseInt(escape, 8)) : PDF_ESCAPES[escape] ?? escape);
+
+// Two-byte (CID) hex strings are only readable when the font maps them to Unicode
+// in order; single-byte ones are taken as Latin-1
+const decodePdfHex = (hex: string) => {
+  const digits = hex.slice(1, -1).replace(/\s+/g, '');
+  const codes: number[] = [];
+  for (let i = 0; i < digits.length; i += 2) codes.push(parseInt(digits.slice(i, i + 2).padEnd(2, '0'), 16));
+  const twoByte = codes.length % 2 === 0 && codes.filter((code, i) => i % 2 === 0 && code === 0).length === codes.length / 2;
+  return twoByte
+    ? codes.filter((_code, i) => i % 2 === 1).map(code => String.fromCharCode(code)).join('')
+    : codes.map(code => String.fromCharCode(code)).join('');
+};
+
+const PDF_TOKEN = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9a-fA-F\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s/[\]()<>{}]+|[A-Za-z'"*]+/g;
+
+const extractContentText = (content: string) => {
+  let text = '';
+  let operands: string[] = [];
+  let inArray = false;
+  let arrayText = '';
+
+  const tokens = content.match(PDF_TOKEN) || [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === '[') {
+      inArray = true;
+      arrayText = '';
+    } else if (token === ']') {
+      inArray = false;
+      operands.push(arrayText);
+    } else if (token[0] === '(' || token[0] === '<') {
+      const value = token[0] === '(' ? decodePdfLiteral(token) : decodePdfHex(token);
+      if (inArray) arrayText += value;
+      else operands.push(value);
+    } else if (/^-?\d*\.?\d+$/.test(token)) {
+      // Inside a TJ array, a large negative kern is a word gap
+      if (inArray && parseFloat(token) < -200) arrayText += ' ';
+      else if (!inArray) operands.push(token);
+    } else if (token[0] !== '/') {
+      switch (token) {
+        case 'Tj':
+        case 'TJ':
+          text += operands[operands.length - 1] || '';
+          break;
+        case "'":
+        case '"':
+          text += '\n' + (operands[operands.length - 1] || '');
+          break;
+        case 'T*':
+        case 'ET':
+          text += '\n';
+          break;
+        case 'Td':
+        case 'TD':
+          // A vertical move starts a new line; a horizontal one separates words
+          text += parseFloat(operands[operands.length - 1]) !== 0 ? '\n' : ' ';
+          break;
+      }
+      operands = [];
+    }
+  }
+  return text;
+};
+
+const toBytes = (binary: string) => {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const extractPdfText = async (blob: Blob) => {
+  const raw = latin1(new Uint8Array(await blob.arrayBuffer()));
+  const streamPattern = /\bstream\r?\n/g;
+  const parts: string[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(raw))) {
+    // The stream's dictionary runs from its object header to the stream keyword
+    const dictionary = raw.slice(raw.lastIndexOf('obj', match.index), match.index);
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+    streamPattern.lastIndex = end + 'endstream'.length;
+
+    // Images, fonts and other binary streams never hold page text
+    if (/\/Subtype\s*\/Image|\/Length[123]\b|\/Type\s*\/(?:XRef|ObjStm|Metadata)/.test(dictionary)) continue;
+
+    let content = raw.slice(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        content = latin1(await inflate(toBytes(content.replace(/\r?\n$/, '')), 'deflate'));
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    if (/\bBT\b/.test(content)) parts.push(extractContentText(content));
+  }
+
+  // Drop control characters left by fonts we couldn't decode, keeping tabs and line breaks
+  return parts.join('\n').split('').filter(char => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 || (code >= 0x09 && code <= 0x0d);
+  }).join('');
+};
+
+export const extractResumeText = async (blob: Blob, type: ResumeFileType): Promise<string> => {
+  switch (type) {
+    case 'text/plain':
+      return tidy(await blob.text());
+    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+      return tidy(await extractDocxText(blob));
+    case 'application/pdf':
+      return tidy(await extractPdfText(blob));
+  }
+};
@@ -0,0 +1,64 @@
+import { ResumeDetails, ResumeFileType } from '../types';
+import { extractSkills } from './skillUtils';
+
+export const RESUME_MAX_BYTES = 5 * 1024 * 1024;
+
+export const RESUME_TYPES: { type: ResumeFileType; extension: string; label: string }[] = [
+  { type: 'application/pdf', extension: '.pdf', label: 'PDF' },
+  { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: '.docx', label: 'Word (.docx)' },
+  { type: 'text/plain', extension: '.txt', label: 'Text' }
+];
+
+// Value for a file input's accept attribute
+export const RESUME_ACCEPT = RESUME_TYPES.flatMap(t => [t.extension, t.type]).join(',');
+
+// Browsers often leave the MIME type empty (or guess it wrong) for .docx, so the
+// extension decides when the type isn't one we know
+export const resolveResumeType = (name: string, type: string): ResumeFileType | undefined => {
+  const byType = RESUME_TYPES.find(t => t.type === type);
+  if (byType) return byType.type;
+  const lower = name.toLowerCase();
+  return RESUME_TYPES.find(t => lower.endsWith(t.extension))?.type;
+};
+
+export const validateResumeFile = (file: { name: string; type: string; size: number }): string[] => {
+  const errors: string[] = [];
+  if (!resolveResumeType(file.name, file.type)) {
+    errors.push(`Resume must be one of: ${RESUME_TYPES.map(t => t.label).join(', ')}`);
+  }
+  if (file.size === 0) {
+    errors.push('Resume file is empty');
+  } else if (file.size > RESUME_MAX_BYTES) {
+    errors.push(`Resume must be ${formatFileSize(RESUME_MAX_BYTES)} or smaller`);
+  }
+  return errors;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+// Digits with the usual separators, optionally international
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d[\d\s.-]{5,}\d/g;
+const YEAR_RANGE_PATTERN = /^(?:19|20)\d{2}\s*-\s*(?:19|20)\d{2}$/;
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>()"']+|\b(?:linkedin\.com|github\.com|gitlab\.com|behance\.net|dribbble\.com)\/[^\s<>()"']+/gi;
+
+// Phone numbers have 7 to 15 digits; "2019 - 2021" is an employment date, not a number
+const isPhoneNumber = (candidate: string) => {
+  const digits = candidate.replace(/\D/g, '').length;
+  return digits >= 7 && digits <= 15 && !YEAR_RANGE_PATTERN.test(candidate.trim());
+};
+
+// Details from a resume's text: the first email and phone, any profile links and known skills
+export const parseResumeDetails = (text: string): ResumeDetails => {
+  const email = EMAIL_PATTERN.exec(text)?.[0].toLowerCase();
+  const phone = (text.match(PHONE_PATTERN) || []).map(match => match.trim()).find(isPhoneNumber);
+  const links = Array.from(new Set((text.match(LINK_PATTERN) || [])
+    .map(link => link.replace(/[.,;:]+$/, ''))
+    .map(link => /^https?:\/\//i.test(link) ? link : `https://${link}`)));
+
+  return { email, phone, links, skills: extractSkills(text) };
+};
@@ -0,0 +1,78 @@
+import { Scorecard } from '../types';
+import { SCORECARD_TEMPLATES, aggregateScorecards, validateScorecard } from './scorecardUtils';
+
+const screening = SCORECARD_TEMPLATES[0];
+
+const scorecard = (overrides: Partial<Scorecard>): Scorecard => ({
+  id: 'scorecard-1',
+  applicationId: 'application-1',
+  candidateId: 'candidate-1',
+  jobId: 'job-1',
+  stage: 'screen',
+  templateId: screening.id,
+  interviewerId: 1,
+  interviewerName: 'Dana',
+  ratings: { communication: 4, motivation: 4, 'experience-fit': 4 },
+  recommendation: 'hire',
+  evidence: 'Walked through two relevant projects',
+  submittedAt: '2024-01-08T10:00:00.000Z',
+  updatedAt: '2024-01-08T10:00:00.000Z',
+  ...overrides
+});
+
+describe('validateScorecard', () => {
+  it('accepts a complete scorecard', () => {
+    expect(validateScorecard(scorecard({}), screening)).toEqual([]);
+  });
+
+  it('needs a whole 1-5 rating for every competency, a recommendation and evidence', () => {
+    expect(validateScorecard({ ratings: { communication: 0, motivation: 3.5 }, evidence: ' ' }, screening)).toEqual([
+      'Rate Communication from 1 to 5',
+      'Rate Motivation from 1 to 5',
+      'Rate Experience fit from 1 to 5',
+      'Pick a hire recommendation',
+      'Add written evidence for your ratings'
+    ]);
+  });
+
+  it('refuses stages without a template', () => {
+    expect(validateScorecard(scorecard({}), undefined)).toEqual(['This stage has no scorecard template']);
+  });
+});
+
+describe('aggregateScorecards', () => {
+  it('averages each competency and counts recommendations', () => {
+    const summary = aggregateScorecards([
+      scorecard({}),
+      scorecard({ id: 'scorecard-2', ratings: { communication: 5, motivation: 4, 'experience-fit': 3 }, recommendation: 'strong-hire' })
+    ], SCORECARD_TEMPLATES);
+
+    expect(summary.count).toBe(2);
+    expect(summary.competencies[0]).toEqual({
+      competencyId: 'communication', label: 'Communication', average: 4.5, min: 4, max: 5, count: 2, disagreement: false
+    });
+    expect(summary.recommendations).toEqual({ 'strong-no-hire': 0, 'no-hire': 0, hire: 1, 'strong-hire': 1 });
+    expect(summary.disagreement).toBe(false);
+  });
+
+  it('flags competencies rated two or more points apart', () => {
+    const summary = aggregateScorecards([
+      scorecard({}),
+      scorecard({ id: 'scorecard-2', ratings: { communication: 2, motivation: 4, 'experience-fit': 4 } })
+    ], SCORECARD_TEMPLATES);
+
+    expect(summary.competencies.filter(c => c.disagreement).map(c => c.competencyId)).toEqual(['communication']);
+    expect(summary.disagreement).toBe(true);
+  });
+
+  it('flags a split hire decision even when ratings agree', () => {
+    const summary = aggregateScorecards([scorecard({}), scorecard({ id: 'scorecard-2', recommendation: 'no-hire' })], SCORECARD_TEMPLATES);
+    expect(summary.competencies.some(c => c.disagreement)).toBe(false);
+    expect(summary.disagreement).toBe(true);
+  });
+
+  it('labels competencies missing from every template by id', () => {
+    const summary = aggregateScorecards([scorecard({ ratings: { leadership: 3 } })], SCORECARD_TEMPLATES);
+    expect(summary.competencies[0].label).toBe('leadership');
+  });
+});
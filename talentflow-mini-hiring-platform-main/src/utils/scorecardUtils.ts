@@ -0,0 +1,129 @@
+import { CompetencySummary, HireRecommendation, Scorecard, ScorecardSummary, ScorecardTemplate } from '../types';
+
+const templateTimestamp = '2024-01-01T00:00:00.000Z';
+
+// Built-in templates, seeded into the scorecardTemplates table
+export const SCORECARD_TEMPLATES: ScorecardTemplate[] = [
+  {
+    id: 'scorecard-screening',
+    name: 'Screening',
+    competencies: [
+      { id: 'communication', label: 'Communication', description: 'Explains their background clearly and concisely' },
+      { id: 'motivation', label: 'Motivation', description: 'Understands the role and why they want it' },
+      { id: 'experience-fit', label: 'Experience fit', description: 'Past work matches what the role needs' }
+    ],
+    createdAt: templateTimestamp,
+    updatedAt: templateTimestamp
+  },
+  {
+    id: 'scorecard-technical',
+    name: 'Technical',
+    competencies: [
+      { id: 'problem-solving', label: 'Problem solving', description: 'Breaks the problem down and reasons about trade-offs' },
+      { id: 'code-quality', label: 'Code quality', description: 'Readable, tested and idiomatic code' },
+      { id: 'system-design', label: 'System design', description: 'Designs components that scale and fail gracefully' },
+      { id: 'communication', label: 'Communication', description: 'Thinks out loud and takes hints well' }
+    ],
+    createdAt: templateTimestamp,
+    updatedAt: templateTimestamp
+  },
+  {
+    id: 'scorecard-portfolio',
+    name: 'Portfolio Review',
+    competencies: [
+      { id: 'craft', label: 'Visual craft', description: 'Typography, layout and attention to detail' },
+      { id: 'process', label: 'Design process', description: 'Research, iteration and validation' },
+      { id: 'storytelling', label: 'Storytelling', description: 'Presents decisions and outcomes convincingly' }
+    ],
+    createdAt: templateTimestamp,
+    updatedAt: templateTimestamp
+  }
+];
+
+export const RECOMMENDATIONS: { value: HireRecommendation; label: string; classes: string }[] = [
+  { value: 'strong-no-hire', label: 'Strong No Hire', classes: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  { value: 'no-hire', label: 'No Hire', classes: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200' },
+  { value: 'hire', label: 'Hire', classes: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  { value: 'strong-hire', label: 'Strong Hire', classes: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200' }
+];
+
+export const RATING_LABELS: Record<number, string> = {
+  1: 'Poor',
+  2: 'Weak',
+  3: 'Adequate',
+  4: 'Strong',
+  5: 'Exceptional'
+};
+
+// Ratings this far apart on one competency count as a disagreement
+export const DISAGREEMENT_SPREAD = 2;
+
+export const getRecommendation = (value: HireRecommendation) =>
+  RECOMMENDATIONS.find(r => r.value === value) || RECOMMENDATIONS[0];
+
+export const isHireRecommendation = (value: HireRecommendation) => value === 'hire' || value === 'strong-hire';
+
+export const validateScorecard = (scorecard: Partial<Scorecard>, template: ScorecardTemplate | undefined): string[] => {
+  const errors: string[] = [];
+  if (!template) {
+    return ['This stage has no scorecard template'];
+  }
+
+  template.competencies.forEach(competency => {
+    const rating = scorecard.ratings?.[competency.id];
+    if (!Number.isInteger(rating) || rating! < 1 || rating! > 5) {
+      errors.push(`Rate ${competency.label} from 1 to 5`);
+    }
+  });
+
+  if (!RECOMMENDATIONS.some(r => r.value === scorecard.recommendation)) {
+    errors.push('Pick a hire recommendation');
+  }
+  if (!scorecard.evidence?.trim()) {
+    errors.push('Add written evidence for your ratings');
+  }
+
+  return errors;
+};
+
+// Average per competency across scorecards, flagging where interviewers disagree
+export const aggregateScorecards = (scorecards: Scorecard[], templates: ScorecardTemplate[]): ScorecardSummary => {
+  const labels = new Map<string, string>();
+  templates.forEach(template => template.competencies.forEach(c => {
+    if (!labels.has(c.id)) labels.set(c.id, c.label);
+  }));
+
+  const ratingsByCompetency = new Map<string, number[]>();
+  scorecards.forEach(scorecard => Object.entries(scorecard.ratings).forEach(([competencyId, rating]) => {
+    ratingsByCompetency.set(competencyId, [...(ratingsByCompetency.get(competencyId) || []), rating]);
+  }));
+
+  const competencies: CompetencySummary[] = Array.from(ratingsByCompetency.entries()).map(([competencyId, ratings]) => {
+    const min = Math.min(...ratings);
+    const max = Math.max(...ratings);
+    return {
+      competencyId,
+      label: labels.get(competencyId) || competencyId,
+      average: Math.round((ratings.reduce((sum, r) => sum + r, 0) / ratings.length) * 10) / 10,
+      min,
+      max,
+      count: ratings.length,
+      disagreement: ratings.length > 1 && max - min >= DISAGREEMENT_SPREAD
+    };
+  });
+
+  const recommendations = RECOMMENDATIONS.reduce((acc, r) => {
+    acc[r.value] = scorecards.filter(s => s.recommendation === r.value).length;
+    return acc;
+  }, {} as Record<HireRecommendation, number>);
+
+  const hires = scorecards.filter(s => isHireRecommendation(s.recommendation)).length;
+  const splitDecision = hires > 0 && hires < scorecards.length;
+
+  return {
+    count: scorecards.length,
+    competencies,
+    recommendations,
+    disagreement: splitDecision || competencies.some(c => c.disagreement)
+  };
+};
@@ -0,0 +1,51 @@
+import { buildSnippet, countTokens, isIndexedQuery, matchesSubstring, tokenize } from './searchUtils';
+
+describe('tokenize', () => {
+  it('lower-cases, strips accents and drops stop words and single characters', () => {
+    expect(tokenize('The Café of São Paulo, a C# dev at ACME-42')).toEqual(['cafe', 'sao', 'paulo', 'dev', 'acme', '42']);
+    expect(tokenize('')).toEqual([]);
+  });
+
+  it('counts repeated tokens', () => {
+    expect(Array.from(countTokens('React, react and React Native').entries())).toEqual([['react', 3], ['native', 1]]);
+  });
+});
+
+describe('short queries', () => {
+  it('only sends queries of two or more characters to the index', () => {
+    expect(isIndexedQuery(' a ')).toBe(false);
+    expect(isIndexedQuery('al')).toBe(true);
+  });
+
+  it('match any field by case-insensitive substring', () => {
+    expect(matchesSubstring(' J ', 'Ana', 'ana@JOBS.test')).toBe(true);
+    expect(matchesSubstring('7', 'Ana', undefined, '555-0100')).toBe(false);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('highlights words starting with a query token', () => {
+    expect(buildSnippet('Led the React migration for reactive dashboards', ['react'])).toEqual([
+      { text: 'Led the ', highlight: false },
+      { text: 'React', highlight: true },
+      { text: ' migration for ', highlight: false },
+      { text: 'reactive', highlight: true },
+      { text: ' dashboards', highlight: false }
+    ]);
+  });
+
+  it('cuts a window around the first match and marks the cuts', () => {
+    const text = `${'x'.repeat(100)} kubernetes ${'y'.repeat(100)}`;
+    const parts = buildSnippet(text, ['kube'], 10);
+
+    expect(parts[0]).toEqual({ text: '…', highlight: false });
+    expect(parts.find(part => part.highlight)?.text).toBe('kubernetes');
+    expect(parts[parts.length - 1]).toEqual({ text: '…', highlight: false });
+  });
+
+  it('escapes tokens and falls back to the start of the text', () => {
+    expect(buildSnippet('c++ (senior)', ['c++'])[0]).toEqual({ text: 'c++', highlight: true });
+    expect(buildSnippet('No tokens here', [])).toEqual([{ text: 'No tokens here', highlight: false }]);
+    expect(buildSnippet('', ['any'])).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { SearchDocumentType, SnippetPart } from '../types';
+
+export const SEARCH_DOCUMENT_TYPES: SearchDocumentType[] = ['candidate', 'note', 'submission'];
+
+export const MIN_TOKEN_LENGTH = 2;
+export const MIN_QUERY_LENGTH = 2;
+
+const STOP_WORDS = new Set([
+  'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were', 'will', 'with'
+]);
+
+// Lower-case words and numbers, without stop words or single characters
+export const tokenize = (text: string): string[] =>
+  (text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(token));
+
+// Occurrences of each token in a piece of text
+export const countTokens = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  tokenize(text).forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  return counts;
+};
+
+// Queries too short for the index match contact details by substring instead
+export const isIndexedQuery = (query: string) => query.trim().length >= MIN_QUERY_LENGTH;
+
+export const matchesSubstring = (query: string, ...fields: (string | undefined)[]) => {
+  const needle = query.trim().toLowerCase();
+  return fields.some(field => (field || '').toLowerCase().includes(needle));
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A window of `text` around the first match, with every word that starts with a
+// query token marked for highlighting
+export const buildSnippet = (text: string, queryTokens: string[], radius = 60): SnippetPart[] => {
+  if (!text) return [];
+  if (queryTokens.length === 0) return [{ text: text.slice(0, radius * 2), highlight: false }];
+
+  const pattern = new RegExp(`\\b(?:${queryTokens.map(escapeRegExp).join('|')})[a-z0-9]*`, 'gi');
+  const first = pattern.exec(text);
+  const start = first ? Math.max(0, first.index - radius) : 0;
+  const end = Math.min(text.length, (first ? first.index + first[0].length : 0) + radius);
+  const window = text.slice(start, end);
+
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', highlight: false });
+
+  let last = 0;
+  window.replace(pattern, (match, offset: number) => {
+    if (offset > last) parts.push({ text: window.slice(last, offset), highlight: false });
+    parts.push({ text: match, highlight: true });
+    last = offset + match.length;
+    return match;
+  });
+  if (last < window.length) parts.push({ text: window.slice(last), highlight: false });
+  if (end < text.length) parts.push({ text: '…', highlight: false });
+
+  return parts;
+};
@@ -0,0 +1,59 @@
+import { MAX_SKILLS, computeSkillMatch, extractSkills, getMatchLevel, normalizeSkill, normalizeSkills, validateSkills } from './skillUtils';
+
+describe('normalizeSkills', () => {
+  it('resolves synonyms and keeps unknown skills as typed', () => {
+    expect(normalizeSkill(' reactjs ')).toBe('React');
+    expect(normalizeSkill('Amazon   Web Services')).toBe('AWS');
+    expect(normalizeSkill('  Elixir  Phoenix ')).toBe('Elixir Phoenix');
+  });
+
+  it('drops blanks and duplicates in first-seen order', () => {
+    expect(normalizeSkills(['js', 'React', '', 'JavaScript', 'react.js', 'elixir', 'Elixir'])).toEqual(['JavaScript', 'React', 'elixir']);
+  });
+});
+
+describe('validateSkills', () => {
+  it('needs a short list of short strings', () => {
+    expect(validateSkills(['React'])).toEqual([]);
+    expect(validateSkills('React')).toEqual(['skills must be a list of strings']);
+    expect(validateSkills(['React', 1])).toEqual(['skills must be a list of strings']);
+    expect(validateSkills(Array.from({ length: MAX_SKILLS + 1 }, (_, i) => `skill ${i}`))).toEqual([`At most ${MAX_SKILLS} skills are allowed`]);
+    expect(validateSkills(['x'.repeat(51)])).toEqual(['Skills must be 50 characters or fewer']);
+  });
+});
+
+describe('extractSkills', () => {
+  it('finds taxonomy skills by name or synonym', () => {
+    expect(extractSkills('Built APIs in Node.js and Postgres, deployed on k8s')).toEqual(['Node.js', 'PostgreSQL', 'Kubernetes']);
+  });
+
+  it('keeps Java apart from JavaScript and C# apart from C++', () => {
+    expect(extractSkills('JavaScript and C++')).toEqual(['JavaScript', 'C++']);
+    expect(extractSkills('Java. Also C#.')).toEqual(['Java', 'C#']);
+  });
+
+  it('only matches ordinary words through their synonyms', () => {
+    expect(extractSkills('Go to market with express delivery')).toEqual([]);
+    expect(extractSkills('Services written in Golang')).toEqual(['Go']);
+    expect(extractSkills('')).toEqual([]);
+  });
+});
+
+describe('computeSkillMatch', () => {
+  it('scores the share of job tags the candidate covers', () => {
+    expect(computeSkillMatch(['reactjs', 'ts'], ['React', 'TypeScript', 'GraphQL'])).toEqual({
+      score: 67,
+      matched: ['React', 'TypeScript'],
+      missing: ['GraphQL']
+    });
+  });
+
+  it('scores zero when the job has no tags', () => {
+    expect(computeSkillMatch(['React'], [])).toEqual({ score: 0, matched: [], missing: [] });
+    expect(computeSkillMatch()).toEqual({ score: 0, matched: [], missing: [] });
+  });
+
+  it('buckets scores into match levels', () => {
+    expect([75, 74, 40, 39].map(getMatchLevel)).toEqual(['strong', 'partial', 'partial', 'weak']);
+  });
+});
@@ -0,0 +1,144 @@
+// Canonical skill names with the spellings people use for them. Job tags and
+// candidate skills are both resolved through this list before they're compared.
+export interface SkillDefinition {
+  name: string;
+  synonyms: string[];
+  ambiguous?: boolean; // The name is an ordinary word, so free text only matches its synonyms
+}
+
+export const SKILL_TAXONOMY: SkillDefinition[] = [
+  { name: 'JavaScript', synonyms: ['js', 'ecmascript', 'es6', 'es2015'] },
+  { name: 'TypeScript', synonyms: ['ts'] },
+  { name: 'React', synonyms: ['react.js', 'reactjs', 'react js'] },
+  { name: 'Redux', synonyms: ['redux toolkit'] },
+  { name: 'Next.js', synonyms: ['nextjs', 'next js'] },
+  { name: 'Vue', synonyms: ['vue.js', 'vuejs', 'vue js'] },
+  { name: 'Angular', synonyms: ['angularjs', 'angular.js'] },
+  { name: 'HTML', synonyms: ['html5'] },
+  { name: 'CSS', synonyms: ['css3'] },
+  { name: 'Tailwind CSS', synonyms: ['tailwind', 'tailwindcss'] },
+  { name: 'Node.js', synonyms: ['node', 'nodejs', 'node js'] },
+  { name: 'Express', synonyms: ['express.js', 'expressjs'], ambiguous: true },
+  { name: 'GraphQL', synonyms: ['gql'] },
+  { name: 'Python', synonyms: ['py', 'python3'] },
+  { name: 'Django', synonyms: [] },
+  { name: 'Java', synonyms: [] },
+  { name: 'Spring', synonyms: ['spring boot', 'springboot'], ambiguous: true },
+  { name: 'Kotlin', synonyms: [] },
+  { name: 'Swift', synonyms: ['swiftui'], ambiguous: true },
+  { name: 'Go', synonyms: ['golang'], ambiguous: true },
+  { name: 'Rust', synonyms: [], ambiguous: true },
+  { name: 'Ruby', synonyms: [] },
+  { name: 'Ruby on Rails', synonyms: ['rails', 'ror'] },
+  { name: 'C#', synonyms: ['csharp', 'c sharp'] },
+  { name: '.NET', synonyms: ['dotnet', 'asp.net'] },
+  { name: 'C++', synonyms: ['cpp'] },
+  { name: 'SQL', synonyms: [] },
+  { name: 'PostgreSQL', synonyms: ['postgres', 'psql'] },
+  { name: 'MySQL', synonyms: [] },
+  { name: 'MongoDB', synonyms: ['mongo'] },
+  { name: 'Redis', synonyms: [] },
+  { name: 'Docker', synonyms: [] },
+  { name: 'Kubernetes', synonyms: ['k8s'] },
+  { name: 'AWS', synonyms: ['amazon web services'] },
+  { name: 'Azure', synonyms: ['microsoft azure'] },
+  { name: 'GCP', synonyms: ['google cloud', 'google cloud platform'] },
+  { name: 'Terraform', synonyms: [] },
+  { name: 'CI/CD', synonyms: ['ci cd', 'continuous integration'] },
+  { name: 'Git', synonyms: ['github', 'gitlab'] },
+  { name: 'Machine Learning', synonyms: ['ml'] },
+  { name: 'Data Analysis', synonyms: ['data analytics'] },
+  { name: 'Figma', synonyms: [] },
+  { name: 'UX Design', synonyms: ['ux', 'user experience'] },
+  { name: 'Agile', synonyms: ['scrum', 'kanban'] }
+];
+
+export const MAX_SKILLS = 50;
+export const MAX_SKILL_LENGTH = 50;
+
+const skillKey = (skill: string) => skill.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const CANONICAL_SKILLS = new Map<string, string>();
+SKILL_TAXONOMY.forEach(skill => {
+  CANONICAL_SKILLS.set(skillKey(skill.name), skill.name);
+  skill.synonyms.forEach(synonym => CANONICAL_SKILLS.set(skillKey(synonym), skill.name));
+});
+
+// Resolve a spelling to its canonical name; skills outside the taxonomy are kept as typed
+export const normalizeSkill = (skill: string): string =>
+  CANONICAL_SKILLS.get(skillKey(skill)) || skill.trim().replace(/\s+/g, ' ');
+
+// Canonical names in first-seen order, without blanks or duplicates
+export const normalizeSkills = (skills: string[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  skills.forEach(skill => {
+    const name = normalizeSkill(skill);
+    const key = skillKey(name);
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    result.push(name);
+  });
+  return result;
+};
+
+export const validateSkills = (skills: unknown): string[] => {
+  const errors: string[] = [];
+  if (!Array.isArray(skills) || skills.some(skill => typeof skill !== 'string')) {
+    return ['skills must be a list of strings'];
+  }
+  if (skills.length > MAX_SKILLS) {
+    errors.push(`At most ${MAX_SKILLS} skills are allowed`);
+  }
+  if (skills.some((skill: string) => skill.trim().length > MAX_SKILL_LENGTH)) {
+    errors.push(`Skills must be ${MAX_SKILL_LENGTH} characters or fewer`);
+  }
+  return errors;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// One pattern per skill. "+", "#" and "." count as part of a word so that
+// "C" doesn't match inside "C++" and "Java" doesn't match "JavaScript".
+const SKILL_PATTERNS = SKILL_TAXONOMY.map(skill => {
+  const terms = (skill.ambiguous ? skill.synonyms : [skill.name, ...skill.synonyms])
+    .map(term => escapeRegExp(skillKey(term)).replace(/ /g, '\\s+'));
+  return {
+    name: skill.name,
+    pattern: terms.length > 0 ? new RegExp(`(?:^|[^a-z0-9+#.])(?:${terms.join('|')})(?![a-z0-9+#]|\\.[a-z0-9])`, 'i') : undefined
+  };
+});
+
+// Taxonomy skills mentioned in free text such as a resume
+export const extractSkills = (text: string): string[] =>
+  text ? SKILL_PATTERNS.filter(({ pattern }) => pattern && pattern.test(text)).map(({ name }) => name) : [];
+
+export interface SkillMatch {
+  score: number; // 0-100, the share of the job's tags the candidate covers
+  matched: string[];
+  missing: string[];
+}
+
+export const computeSkillMatch = (skills: string[] = [], tags: string[] = []): SkillMatch => {
+  const have = new Set(normalizeSkills(skills).map(skillKey));
+  const required = normalizeSkills(tags);
+  const matched = required.filter(tag => have.has(skillKey(tag)));
+  const missing = required.filter(tag => !have.has(skillKey(tag)));
+
+  return {
+    score: required.length > 0 ? Math.round((matched.length / required.length) * 100) : 0,
+    matched,
+    missing
+  };
+};
+
+export type MatchLevel = 'strong' | 'partial' | 'weak';
+
+export const getMatchLevel = (score: number): MatchLevel =>
+  score >= 75 ? 'strong' : score >= 40 ? 'partial' : 'weak';
+
+export const MATCH_LEVEL_CLASSES: Record<MatchLevel, string> = {
+  strong: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  partial: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  weak: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+};
@@ -0,0 +1,86 @@
+import { Pipeline } from '../types';
+import { DEFAULT_PIPELINE } from './pipelineUtils';
+import {
+  canTransitionTo,
+  formatStageFields,
+  formatTransitionErrors,
+  getAllowedTransitions,
+  pickStageFields,
+  validateTransition
+} from './stageTransitions';
+
+describe('getAllowedTransitions', () => {
+  it('allows forward moves, one step back and any terminal stage', () => {
+    expect(getAllowedTransitions(DEFAULT_PIPELINE, 'tech')).toEqual(['screen', 'offer', 'hired', 'rejected']);
+    expect(getAllowedTransitions(DEFAULT_PIPELINE, 'applied')).toEqual(['screen', 'tech', 'offer', 'hired', 'rejected']);
+  });
+
+  it('allows nothing out of a terminal stage', () => {
+    expect(getAllowedTransitions(DEFAULT_PIPELINE, 'hired')).toEqual([]);
+  });
+
+  it('lets a stage that left the pipeline move back into any stage', () => {
+    expect(getAllowedTransitions(DEFAULT_PIPELINE, 'take-home')).toEqual(DEFAULT_PIPELINE.stages.map(s => s.id));
+  });
+
+  it('uses allowedNext when a stage sets it, minus the stage itself', () => {
+    const pipeline: Pipeline = {
+      ...DEFAULT_PIPELINE,
+      stages: DEFAULT_PIPELINE.stages.map(s => (s.id === 'screen' ? { ...s, allowedNext: ['screen', 'rejected'] } : s))
+    };
+    expect(getAllowedTransitions(pipeline, 'screen')).toEqual(['rejected']);
+  });
+});
+
+describe('validateTransition', () => {
+  it('rejects stages outside the pipeline', () => {
+    expect(validateTransition(DEFAULT_PIPELINE, 'applied', 'portfolio').map(e => e.code)).toEqual(['unknown-stage']);
+  });
+
+  it('reports a disallowed move and each missing field', () => {
+    expect(validateTransition(DEFAULT_PIPELINE, 'tech', 'applied')).toEqual([
+      { code: 'transition-not-allowed', message: 'Cannot move from Technical to Applied' }
+    ]);
+    expect(validateTransition(DEFAULT_PIPELINE, 'tech', 'offer', { offerAmount: 'lots' })).toEqual([
+      { code: 'missing-field', field: 'offerAmount', message: 'Offer amount is required to move to Offer' }
+    ]);
+    expect(validateTransition(DEFAULT_PIPELINE, 'tech', 'rejected', { rejectionReason: '  ' })[0].field).toBe('rejectionReason');
+  });
+
+  it('holds the technical stage until a set assessment is completed', () => {
+    expect(validateTransition(DEFAULT_PIPELINE, 'screen', 'tech', {}, { hasAssessment: true })).toEqual([{
+      code: 'prerequisite-not-met',
+      prerequisite: 'assessment-completed',
+      message: 'The assessment must be completed first before moving to Technical'
+    }]);
+    expect(validateTransition(DEFAULT_PIPELINE, 'screen', 'tech', {}, { hasAssessment: true, assessmentCompleted: true })).toEqual([]);
+    expect(validateTransition(DEFAULT_PIPELINE, 'screen', 'tech')).toEqual([]);
+  });
+});
+
+describe('canTransitionTo', () => {
+  it('ignores required fields, which are asked for after the drop', () => {
+    expect(canTransitionTo(DEFAULT_PIPELINE, 'tech', 'offer')).toBe(true);
+    expect(canTransitionTo(DEFAULT_PIPELINE, 'screen', 'tech', { hasAssessment: true })).toBe(false);
+    expect(canTransitionTo(DEFAULT_PIPELINE, 'hired', 'offer')).toBe(false);
+  });
+});
+
+describe('stage fields', () => {
+  it("keeps only the target stage's fields, typed", () => {
+    expect(pickStageFields(DEFAULT_PIPELINE, 'offer', { offerAmount: '90000', note: 'extra' })).toEqual({ offerAmount: 90000 });
+    expect(pickStageFields(DEFAULT_PIPELINE, 'screen', { offerAmount: 1 })).toBeUndefined();
+  });
+
+  it('formats captured fields with their labels', () => {
+    expect(formatStageFields(DEFAULT_PIPELINE, 'offer', { offerAmount: 90000 })).toBe('Offer amount: 90000');
+    expect(formatStageFields(DEFAULT_PIPELINE, 'offer')).toBe('');
+  });
+
+  it('joins API errors, falling back to the error string', () => {
+    const errors = validateTransition(DEFAULT_PIPELINE, 'tech', 'applied');
+    expect(formatTransitionErrors({ errors }, 'Failed')).toBe('Cannot move from Technical to Applied');
+    expect(formatTransitionErrors({ error: 'Nope' }, 'Failed')).toBe('Nope');
+    expect(formatTransitionErrors({}, 'Failed')).toBe('Failed');
+  });
+});
@@ -0,0 +1,129 @@
+import { Pipeline, PipelineStage, StageField, StagePrerequisite, TransitionError } from '../types';
+import { getActiveStages, getStage } from './pipelineUtils';
+
+// What the rules engine needs to know about the application being moved
+export interface TransitionContext {
+  hasAssessment?: boolean;
+  assessmentCompleted?: boolean;
+}
+
+export type TransitionFields = Record<string, string | number>;
+
+const PREREQUISITE_MESSAGES: Record<StagePrerequisite, string> = {
+  'assessment-completed': 'The assessment must be completed first'
+};
+
+// Explicit allowedNext wins; otherwise forward moves, one step back and any terminal stage
+export const getAllowedTransitions = (pipeline: Pipeline, fromStageId: string): string[] => {
+  const from = pipeline.stages.find(s => s.id === fromStageId);
+  if (from?.allowedNext) return from.allowedNext.filter(id => id !== fromStageId);
+  if (from?.terminal) return [];
+
+  const active = getActiveStages(pipeline);
+  const index = active.findIndex(s => s.id === fromStageId);
+  const terminal = pipeline.stages.filter(s => s.terminal).map(s => s.id);
+
+  // Stages that are no longer in the pipeline can only move back into it
+  if (index === -1) return [...active.map(s => s.id), ...terminal];
+
+  return [
+    ...(index > 0 ? [active[index - 1].id] : []),
+    ...active.slice(index + 1).map(s => s.id),
+    ...terminal
+  ];
+};
+
+export const getRequiredFields = (pipeline: Pipeline, stageId: string): StageField[] =>
+  getStage(pipeline, stageId).requiredFields || [];
+
+export const checkPrerequisites = (stage: PipelineStage, context: TransitionContext): TransitionError[] => {
+  return (stage.prerequisites || [])
+    .filter(prerequisite => {
+      switch (prerequisite) {
+        case 'assessment-completed':
+          return !!context.hasAssessment && !context.assessmentCompleted;
+        default:
+          return false;
+      }
+    })
+    .map(prerequisite => ({
+      code: 'prerequisite-not-met' as const,
+      prerequisite,
+      message: `${PREREQUISITE_MESSAGES[prerequisite]} before moving to ${stage.label}`
+    }));
+};
+
+const isMissing = (field: StageField, value: string | number | undefined) => {
+  if (value === undefined || value === null || String(value).trim() === '') return true;
+  return field.type === 'number' && isNaN(Number(value));
+};
+
+export const validateTransition = (
+  pipeline: Pipeline,
+  fromStageId: string,
+  toStageId: string,
+  fields: TransitionFields = {},
+  context: TransitionContext = {}
+): TransitionError[] => {
+  const target = pipeline.stages.find(s => s.id === toStageId);
+  if (!target) {
+    return [{ code: 'unknown-stage', message: `Stage "${toStageId}" is not part of this job's pipeline` }];
+  }
+
+  const errors: TransitionError[] = [];
+  if (!getAllowedTransitions(pipeline, fromStageId).includes(toStageId)) {
+    errors.push({
+      code: 'transition-not-allowed',
+      message: `Cannot move from ${getStage(pipeline, fromStageId).label} to ${target.label}`
+    });
+  }
+
+  (target.requiredFields || []).forEach(field => {
+    if (isMissing(field, fields[field.key])) {
+      errors.push({
+        code: 'missing-field',
+        field: field.key,
+        message: `${field.label} is required to move to ${target.label}`
+      });
+    }
+  });
+
+  return [...errors, ...checkPrerequisites(target, context)];
+};
+
+// Whether a stage can be a drop target before any fields are filled in
+export const canTransitionTo = (
+  pipeline: Pipeline,
+  fromStageId: string,
+  toStageId: string,
+  context: TransitionContext = {}
+): boolean => {
+  const target = pipeline.stages.find(s => s.id === toStageId);
+  return !!target
+    && getAllowedTransitions(pipeline, fromStageId).includes(toStageId)
+    && checkPrerequisites(target, context).length === 0;
+};
+
+// Only the captured values for the target stage end up on the timeline
+export const pickStageFields = (pipeline: Pipeline, stageId: string, fields: TransitionFields = {}): TransitionFields | undefined => {
+  const required = getRequiredFields(pipeline, stageId);
+  if (required.length === 0) return undefined;
+
+  return required.reduce((acc, field) => {
+    acc[field.key] = field.type === 'number' ? Number(fields[field.key]) : String(fields[field.key]).trim();
+    return acc;
+  }, {} as TransitionFields);
+};
+
+export const formatTransitionErrors = (data: { error?: string; errors?: TransitionError[] }, fallback: string) =>
+  data.errors?.length ? data.errors.map(e => e.message).join('. ') : data.error || fallback;
+
+// "Offer amount: 90000" style summary of the values captured on a timeline entry
+export const formatStageFields = (pipeline: Pipeline, stageId: string, fields?: TransitionFields) => {
+  if (!fields) return '';
+
+  const labels = new Map(getRequiredFields(pipeline, stageId).map(field => [field.key, field.label]));
+  return Object.entries(fields)
+    .map(([key, value]) => `${labels.get(key) || key}: ${value}`)
+    .join(' · ');
+};